@@ -10,10 +10,12 @@ import Dashboard from "./pages/Dashboard";
 import ProjectView from "./pages/ProjectView";
 import MemoryExplorer from "./pages/MemoryExplorer";
 import Teams from "./pages/Teams";
+import TeamUsage from "./pages/TeamUsage";
 import Profile from "./pages/Profile";
 import Profile360 from "./pages/Profile360";
 import Onboarding from "./pages/Onboarding";
 import Invite from "./pages/Invite";
+import AdminJobs from "./pages/AdminJobs";
 import { useState } from "react";
 import type { Language } from "./lib/i18n";
 
@@ -25,10 +27,12 @@ function Router() {
       <Route path="/project/:id" component={ProjectView} />
       <Route path="/memory" component={MemoryExplorer} />
       <Route path="/teams" component={Teams} />
+      <Route path="/teams/:id/usage" component={TeamUsage} />
       <Route path="/profile" component={Profile} />
       <Route path="/profile360" component={Profile360} />
       <Route path="/onboarding" component={Onboarding} />
       <Route path="/invite/:inviteCode" component={Invite} />
+      <Route path="/admin/jobs" component={AdminJobs} />
       <Route path="/404" component={NotFound} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,225 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/lib/trpc";
+import { Save, Users } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { toast } from "sonner";
+
+const UNASSIGNED = "unassigned";
+
+const TALK_TIME_COLORS = [
+  "oklch(0.65 0.18 230)",
+  "oklch(0.65 0.18 150)",
+  "oklch(0.7 0.15 80)",
+  "oklch(0.6 0.2 30)",
+  "oklch(0.6 0.18 300)",
+  "oklch(0.7 0.12 190)",
+];
+
+function formatSpeakingTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+type AudioSpeakersProps = {
+  audioId: number;
+  teamId: number;
+};
+
+/**
+ * Intervenants détectés par la diarisation d'un enregistrement, avec leur
+ * association aux membres de l'équipe
+ */
+export function AudioSpeakers({ audioId, teamId }: AudioSpeakersProps) {
+  const utils = trpc.useUtils();
+  const { data: audio, isLoading } = trpc.audio.get.useQuery({ id: audioId });
+  const { data: members } = trpc.team.getMembers.useQuery({ teamId });
+  const [mapping, setMapping] = useState<Record<string, number | null>>({});
+
+  useEffect(() => {
+    if (!audio) return;
+    setMapping(
+      Object.fromEntries(audio.speakers.map(speaker => [speaker.speakerId, speaker.userId]))
+    );
+  }, [audio]);
+
+  const mapMutation = trpc.audio.mapSpeakers.useMutation({
+    onSuccess: () => {
+      utils.audio.get.invalidate({ id: audioId });
+      utils.audio.participation.invalidate();
+      utils.audio.talkTimeHistory.invalidate();
+      toast.success("Intervenants associés");
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (!audio || audio.speakers.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Aucun intervenant identifié pour cet enregistrement
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium flex items-center gap-1">
+        <Users className="h-3 w-3" />
+        Intervenants ({audio.speakers.length})
+      </p>
+      {audio.speakers.map(speaker => (
+        <div key={speaker.speakerId} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Select
+              value={mapping[speaker.speakerId] ? String(mapping[speaker.speakerId]) : UNASSIGNED}
+              onValueChange={value =>
+                setMapping(prev => ({
+                  ...prev,
+                  [speaker.speakerId]: value === UNASSIGNED ? null : Number(value),
+                }))
+              }
+            >
+              <SelectTrigger size="sm" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>
+                  {speaker.speakerId.replace("speaker_", "Intervenant ")}
+                </SelectItem>
+                {members?.map(({ user }) => (
+                  <SelectItem key={user.id} value={String(user.id)}>
+                    {user.name || user.email || `Membre ${user.id}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground ml-auto">
+              {formatSpeakingTime(speaker.speakingTime)} · {speaker.cognitiveTokens} CT
+              {Object.keys(speaker.biases).length > 0 &&
+                ` · ${Object.values(speaker.biases).reduce((a, b) => a + b, 0)} biais`}
+            </span>
+          </div>
+          <Progress value={speaker.speakingPercentage} className="h-1" />
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => mapMutation.mutate({ audioId, mapping })}
+          disabled={mapMutation.isPending}
+        >
+          <Save className="mr-2 h-3 w-3" />
+          Enregistrer
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Participation orale cumulée des membres sur les enregistrements du projet
+ */
+export function AudioParticipation({ projectId }: { projectId: number }) {
+  const { data: participation } = trpc.audio.participation.useQuery({ projectId });
+
+  if (!participation || participation.length === 0) return null;
+
+  return (
+    <div className="p-3 rounded-lg border space-y-2">
+      <p className="text-sm font-medium">Participation orale</p>
+      {participation.map(member => (
+        <div key={member.userId} className="space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <span>{member.name || `Membre ${member.userId}`}</span>
+            <span className="text-muted-foreground">
+              {Math.round(member.speakingPercentage)}% · {member.cognitiveTokens} CT
+            </span>
+          </div>
+          <Progress value={member.speakingPercentage} className="h-1" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Distribution du temps de parole de l'équipe, enregistrement par
+ * enregistrement
+ */
+export function TalkTimeTimeline({ teamId }: { teamId: number }) {
+  const { data: history } = trpc.audio.talkTimeHistory.useQuery({ teamId });
+
+  if (!history || history.points.length < 2) return null;
+
+  const data = history.points.map(point => ({
+    date: new Date(point.recordedAt).toLocaleDateString("fr-FR", {
+      day: "numeric",
+      month: "short",
+    }),
+    ...Object.fromEntries(
+      history.participants.map(p => [p.key, Math.round(point.shares[p.key] ?? 0)])
+    ),
+  }));
+
+  return (
+    <div className="p-3 rounded-lg border space-y-2">
+      <p className="text-sm font-medium">Temps de parole de l'équipe</p>
+      <div className="h-[180px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="date" className="text-xs" />
+            <YAxis domain={[0, 100]} unit="%" className="text-xs" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--background))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "8px",
+              }}
+              formatter={(value: number) => `${value}%`}
+            />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            {history.participants.map((participant, i) => (
+              <Area
+                key={participant.key}
+                type="monotone"
+                dataKey={participant.key}
+                stackId="talkTime"
+                stroke={TALK_TIME_COLORS[i % TALK_TIME_COLORS.length]}
+                fill={TALK_TIME_COLORS[i % TALK_TIME_COLORS.length]}
+                fillOpacity={0.4}
+                name={participant.name}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
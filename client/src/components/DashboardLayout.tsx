@@ -21,10 +21,13 @@ import {
 } from "@/components/ui/sidebar";
 import { getLoginUrl } from "@/const";
 import { useIsMobile } from "@/hooks/useMobile";
+import { useNotificationStream } from "@/hooks/useNotificationStream";
 import { LayoutDashboard, LogOut, PanelLeft, Users } from "lucide-react";
 import { CSSProperties, useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { DashboardLayoutSkeleton } from './DashboardLayoutSkeleton';
+import { NotificationBanner } from "./NotificationBanner";
+import { NotificationBell } from "./NotificationBell";
 import { Button } from "./ui/button";
 
 const menuItems = [
@@ -114,6 +117,7 @@ function DashboardLayoutContent({
   const sidebarRef = useRef<HTMLDivElement>(null);
   const activeMenuItem = menuItems.find(item => item.path === location);
   const isMobile = useIsMobile();
+  const { banner, dismissBanner } = useNotificationStream({ enabled: !!user });
 
   useEffect(() => {
     if (isCollapsed) {
@@ -175,6 +179,11 @@ function DashboardLayoutContent({
                   </span>
                 </div>
               ) : null}
+              {!isCollapsed ? (
+                <div className="ml-auto">
+                  <NotificationBell />
+                </div>
+              ) : null}
             </div>
           </SidebarHeader>
 
@@ -255,9 +264,19 @@ function DashboardLayoutContent({
                 </div>
               </div>
             </div>
+            <NotificationBell />
           </div>
         )}
-        <main className="flex-1 p-4">{children}</main>
+        <main className="flex-1 p-4">
+          {banner && (
+            <NotificationBanner
+              notification={banner}
+              onDismiss={dismissBanner}
+              className="mb-4"
+            />
+          )}
+          {children}
+        </main>
       </SidebarInset>
     </>
   );
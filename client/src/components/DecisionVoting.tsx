@@ -0,0 +1,389 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import type { inferRouterOutputs } from "@trpc/server";
+import { ArrowDown, ArrowUp, Clock, EyeOff, Loader2, Lock, Vote } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { AppRouter } from "../../../server/routers";
+
+type VotingMode = "majority" | "weighted" | "ranked";
+
+const MODE_LABELS: Record<VotingMode, string> = {
+  majority: "Majorité absolue",
+  weighted: "Pondéré par la confiance",
+  ranked: "Vote par classement",
+};
+
+const ABSTAIN = "Abstention";
+
+// Valeur d'un <input type="datetime-local"> à l'heure locale
+function toLocalInput(date: Date | null | undefined): string {
+  if (!date) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Vote sur une décision : configuration avant l'ouverture, bulletin
+ * révisable pendant le vote (définitif à l'aveugle), dépouillement calculé
+ * par le serveur
+ */
+export function DecisionVoting({ decisionId }: { decisionId: number }) {
+  const { data, isLoading } = trpc.decision.get.useQuery({ id: decisionId });
+
+  if (isLoading || !data) return <Skeleton className="h-24 w-full" />;
+
+  const { decision } = data;
+  const isConfigurable = ["proposed", "discussing", "revised"].includes(decision.status);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Vote className="h-4 w-4 text-primary" />
+          Vote · {MODE_LABELS[data.votingConfig.mode]}
+          {data.votingConfig.anonymous && <span className="text-xs text-muted-foreground">(anonyme)</span>}
+          {data.votingConfig.blind && <span className="text-xs text-muted-foreground">(à l'aveugle)</span>}
+        </p>
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          {data.votingConfig.quorum && <span>Quorum : {data.votingConfig.quorum}</span>}
+          {decision.votingDeadline && (
+            <>
+              <Clock className="h-3 w-3 ml-2" />
+              {new Date(decision.votingDeadline).toLocaleString("fr-FR")}
+            </>
+          )}
+        </p>
+      </div>
+
+      {isConfigurable && data.canManageVoting && <VotingConfigForm decisionId={decisionId} data={data} />}
+
+      {decision.status === "voting" && <BallotForm decisionId={decisionId} data={data} />}
+
+      {(decision.status === "voting" || data.votes.length > 0) && <TallyView data={data} />}
+    </div>
+  );
+}
+
+type DecisionData = inferRouterOutputs<AppRouter>["decision"]["get"];
+
+function VotingConfigForm({ decisionId, data }: { decisionId: number; data: DecisionData }) {
+  const utils = trpc.useUtils();
+  const [mode, setMode] = useState<VotingMode>(data.votingConfig.mode);
+  const [anonymous, setAnonymous] = useState(data.votingConfig.anonymous);
+  const [blind, setBlind] = useState(data.votingConfig.blind);
+  const [quorum, setQuorum] = useState(data.votingConfig.quorum?.toString() ?? "");
+  const [deadline, setDeadline] = useState(toLocalInput(data.decision.votingDeadline));
+
+  const configureMutation = trpc.decision.configureVoting.useMutation({
+    onSuccess: () => {
+      utils.decision.get.invalidate({ id: decisionId });
+      toast.success("Configuration du vote enregistrée");
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  return (
+    <form
+      className="grid gap-3 sm:grid-cols-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        configureMutation.mutate({
+          id: decisionId,
+          mode,
+          anonymous,
+          blind,
+          quorum: quorum ? parseInt(quorum) : null,
+          deadline: deadline ? new Date(deadline) : null,
+        });
+      }}
+    >
+      <div className="space-y-1">
+        <Label>Mode</Label>
+        <Select value={mode} onValueChange={(value) => setMode(value as VotingMode)}>
+          <SelectTrigger size="sm" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MODE_LABELS) as VotingMode[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {MODE_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="voting-quorum">Quorum (bulletins)</Label>
+        <Input
+          id="voting-quorum"
+          type="number"
+          min={1}
+          value={quorum}
+          onChange={(e) => setQuorum(e.target.value)}
+          placeholder="Aucun"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="voting-deadline">Date limite</Label>
+        <Input
+          id="voting-deadline"
+          type="datetime-local"
+          value={deadline}
+          onChange={(e) => setDeadline(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2 pt-5">
+        <div className="flex items-center gap-2">
+          <Switch id="voting-anonymous" checked={anonymous} onCheckedChange={setAnonymous} />
+          <Label htmlFor="voting-anonymous">Bulletins anonymes</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="voting-blind" checked={blind} onCheckedChange={setBlind} />
+          <Label htmlFor="voting-blind">Vote à l'aveugle</Label>
+        </div>
+      </div>
+      <div className="sm:col-span-2 flex justify-end">
+        <Button type="submit" size="sm" variant="outline" disabled={configureMutation.isPending}>
+          Enregistrer la configuration
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function BallotForm({ decisionId, data }: { decisionId: number; data: DecisionData }) {
+  const utils = trpc.useUtils();
+  const { votingConfig, options, myVote, canVote } = data;
+  const [choice, setChoice] = useState(myVote?.choice ?? "");
+  const [ranking, setRanking] = useState<string[]>(myVote?.ranking ?? options);
+  const [confidence, setConfidence] = useState(Math.round((myVote?.confidence ?? 0.7) * 100));
+  const [reasoning, setReasoning] = useState(myVote?.reasoning ?? "");
+
+  const voteMutation = trpc.decision.vote.useMutation({
+    onSuccess: () => {
+      utils.decision.get.invalidate({ id: decisionId });
+      toast.success(myVote ? "Vote modifié" : "Vote enregistré");
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const closeMutation = trpc.decision.closeVote.useMutation({
+    onSuccess: (result) => {
+      utils.decision.list.invalidate();
+      utils.decision.get.invalidate({ id: decisionId });
+      utils.decision.history.invalidate({ id: decisionId });
+      if (result.status === "decided") {
+        toast.success(`Vote clos : « ${result.outcome} » l'emporte`);
+      } else {
+        toast.info("Vote clos sans résultat : la décision retourne en discussion");
+      }
+      if (result.groupthink) {
+        toast.warning("Vote unanime : vérifiez que les objections ont pu s'exprimer");
+      }
+      if (result.untestedHypotheses.length > 0) {
+        toast.warning(`Cette décision repose sur ${result.untestedHypotheses.length} hypothèse(s) non testée(s)`);
+      }
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const move = (index: number, offset: number) => {
+    const next = [...ranking];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setRanking(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {votingConfig.mode === "ranked" ? (
+        <ol className="space-y-1">
+          {ranking.map((option, index) => (
+            <li key={option} className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg text-sm">
+              <span className="w-5 text-muted-foreground">{index + 1}.</span>
+              <span className="flex-1">{option}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={index === ranking.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <Select value={choice} onValueChange={setChoice}>
+          <SelectTrigger size="sm" className="w-full">
+            <SelectValue placeholder="Votre choix" />
+          </SelectTrigger>
+          <SelectContent>
+            {[...options, ABSTAIN].map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {votingConfig.mode === "weighted" && (
+        <div className="space-y-1">
+          <Label htmlFor="vote-confidence">Confiance : {confidence}%</Label>
+          <Input
+            id="vote-confidence"
+            type="range"
+            min={0}
+            max={100}
+            value={confidence}
+            onChange={(e) => setConfidence(parseInt(e.target.value))}
+          />
+        </div>
+      )}
+
+      <Textarea
+        value={reasoning}
+        onChange={(e) => setReasoning(e.target.value)}
+        placeholder="Votre raisonnement (optionnel)"
+        rows={2}
+      />
+
+      <div className="flex justify-end gap-2">
+        {data.canManageVoting && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={closeMutation.isPending}
+            onClick={() => closeMutation.mutate({ id: decisionId })}
+          >
+            <Lock className="mr-2 h-4 w-4" />
+            Clore le vote
+          </Button>
+        )}
+        {!canVote && (
+          <span className="mr-auto self-center text-xs text-muted-foreground">
+            Vote à l'aveugle : votre bulletin est définitif
+          </span>
+        )}
+        <Button
+          size="sm"
+          disabled={!canVote || voteMutation.isPending || (votingConfig.mode !== "ranked" && !choice)}
+          onClick={() =>
+            voteMutation.mutate({
+              decisionId,
+              ...(votingConfig.mode === "ranked" ? { ranking } : { choice }),
+              confidence: votingConfig.mode === "weighted" ? confidence / 100 : undefined,
+              reasoning: reasoning.trim() || undefined,
+            })
+          }
+        >
+          {voteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {myVote ? "Modifier mon vote" : "Voter"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function TallyView({ data }: { data: DecisionData }) {
+  const { tally, votes, votingConfig, dispersion, groupthink } = data;
+
+  if (!tally) {
+    return (
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <EyeOff className="h-3 w-3" />
+        Vote à l'aveugle : {votes.length} bulletin(s) déposé(s), les choix seront visibles après votre vote ou à la
+        clôture.
+      </p>
+    );
+  }
+
+  const total = tally.results.reduce((sum, result) => sum + result.weight, 0);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {tally.ballots} bulletin(s)
+        {tally.abstentions > 0 && `, dont ${tally.abstentions} abstention(s)`}
+        {tally.quorum !== null && (tally.quorumReached ? " · quorum atteint" : ` · quorum non atteint (${tally.quorum})`)}
+        {tally.winner
+          ? ` · en tête : ${tally.winner}`
+          : tally.tie
+            ? " · égalité"
+            : tally.noMajority
+              ? " · pas de majorité absolue"
+              : ""}
+      </p>
+      {tally.results.map((result) => (
+        <div key={result.option} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>{result.option}</span>
+            <span className="text-muted-foreground">
+              {votingConfig.mode === "weighted"
+                ? `${result.weight.toFixed(2)} (${result.votes} voix)`
+                : `${result.votes} voix`}
+            </span>
+          </div>
+          <Progress value={total > 0 ? (result.weight / total) * 100 : 0} className="h-2" />
+        </div>
+      ))}
+      {tally.rounds && tally.rounds.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          {tally.rounds.length} tours · éliminées :{" "}
+          {tally.rounds.flatMap((round) => round.eliminated).join(", ") || "aucune"}
+        </p>
+      )}
+      {dispersion && (
+        <div
+          className={`analysis-indicator ${groupthink ? "analysis-danger" : "analysis-info"} text-xs`}
+        >
+          Jugements indépendants : accord {Math.round(dispersion.agreement * 100)}%, dispersion{" "}
+          {Math.round(dispersion.entropy * 100)}%
+          {dispersion.confidenceSpread !== null &&
+            `, écart de confiance ${Math.round(dispersion.confidenceSpread * 100)} pts`}
+          {groupthink && " · unanimité : risque de pensée de groupe"}
+        </div>
+      )}
+      {votes.length > 0 && (
+        <div className="space-y-1 pt-2">
+          {votes.map(({ vote, user }) => (
+            <p key={vote.id} className="text-xs">
+              <span className="font-medium">{user?.name ?? "Anonyme"}</span> · {vote.choice ?? "a voté"}
+              {vote.reasoning && <span className="text-muted-foreground"> — {vote.reasoning}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
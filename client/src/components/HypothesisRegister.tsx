@@ -0,0 +1,390 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/lib/trpc";
+import {
+  AlertTriangle,
+  FileText,
+  FlaskConical,
+  History,
+  Loader2,
+  MessageSquare,
+  Plus,
+  Sparkles,
+  Target,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+type HypothesisStatus = "untested" | "validated" | "invalidated";
+
+const STATUS_LABELS: Record<HypothesisStatus, string> = {
+  untested: "Non testée",
+  validated: "Validée",
+  invalidated: "Invalidée",
+};
+
+const STATUS_CLASSES: Record<HypothesisStatus, string> = {
+  untested: "bg-cognitive-warning/20 text-cognitive-warning",
+  validated: "bg-cognitive-success/20 text-cognitive-success",
+  invalidated: "bg-cognitive-danger/20 text-cognitive-danger",
+};
+
+const NO_OWNER = "none";
+
+type DecisionSummary = { id: number; title: string; status: string };
+
+type HypothesisRegisterProps = {
+  projectId: number;
+  teamId: number;
+  decisions: DecisionSummary[];
+};
+
+/**
+ * Registre des hypothèses du projet : statut, responsable, éléments qui les
+ * étayent, décisions qui en dépendent et historique des changements de statut
+ */
+export function HypothesisRegister({ projectId, teamId, decisions }: HypothesisRegisterProps) {
+  const utils = trpc.useUtils();
+  const [statement, setStatement] = useState("");
+
+  const { data: hypotheses, isLoading } = trpc.hypothesis.list.useQuery({ projectId });
+  const { data: members } = trpc.team.getMembers.useQuery({ teamId });
+  const { data: documents } = trpc.document.list.useQuery({ projectId });
+
+  const createMutation = trpc.hypothesis.create.useMutation({
+    onSuccess: () => {
+      setStatement("");
+      utils.hypothesis.list.invalidate({ projectId });
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const extractMutation = trpc.chat.extractHypotheses.useMutation({
+    onSuccess: (data) => {
+      utils.hypothesis.list.invalidate({ projectId });
+      if (data.degraded === "budget_exceeded") {
+        toast.warning("Budget LLM atteint : extraction impossible ce mois-ci");
+      } else if (data.hypotheses.length > 0) {
+        toast.success(data.message);
+      } else {
+        toast.info("Aucune nouvelle hypothèse identifiée dans la conversation");
+      }
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const untestedCount = hypotheses?.filter((item) => item.hypothesis.status === "untested").length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-primary" />
+              Registre des hypothèses
+            </CardTitle>
+            <CardDescription>
+              {hypotheses?.length || 0} hypothèse(s), dont {untestedCount} non testée(s)
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => extractMutation.mutate({ projectId })}
+            disabled={extractMutation.isPending}
+          >
+            {extractMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Sparkles className="mr-2 h-4 w-4" />
+            )}
+            Extraire des discussions
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (statement.trim()) createMutation.mutate({ projectId, statement: statement.trim() });
+          }}
+        >
+          <Input
+            value={statement}
+            onChange={(e) => setStatement(e.target.value)}
+            placeholder="Ex : les clients paieront 20 € par mois pour l'offre premium"
+          />
+          <Button type="submit" disabled={!statement.trim() || createMutation.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            Ajouter
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : hypotheses && hypotheses.length > 0 ? (
+          <div className="space-y-3">
+            {hypotheses.map((item) => (
+              <HypothesisItem
+                key={item.hypothesis.id}
+                projectId={projectId}
+                item={item}
+                members={members ?? []}
+                decisions={decisions}
+                documents={documents?.map(({ document }) => document) ?? []}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">Aucune hypothèse enregistrée</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type HypothesisItemProps = {
+  projectId: number;
+  item: {
+    hypothesis: { id: number; statement: string; status: HypothesisStatus; origin: string; ownerId: number | null };
+    evidence: Array<{ id: number; sourceType: "message" | "document" | "decision"; sourceId: number; note: string | null }>;
+    decisionIds: number[];
+  };
+  members: Array<{ user: { id: number; name: string | null; email: string | null } }>;
+  decisions: DecisionSummary[];
+  documents: Array<{ id: number; name: string }>;
+};
+
+function HypothesisItem({ projectId, item, members, decisions, documents }: HypothesisItemProps) {
+  const utils = trpc.useUtils();
+  const [showHistory, setShowHistory] = useState(false);
+  const { hypothesis } = item;
+
+  const { data: history } = trpc.hypothesis.history.useQuery({ id: hypothesis.id }, { enabled: showHistory });
+
+  const onSuccess = () => {
+    utils.hypothesis.list.invalidate({ projectId });
+    utils.hypothesis.history.invalidate({ id: hypothesis.id });
+  };
+  const onError = (error: { message: string }) => {
+    toast.error("Erreur: " + error.message);
+  };
+
+  const setStatusMutation = trpc.hypothesis.setStatus.useMutation({ onSuccess, onError });
+  const updateMutation = trpc.hypothesis.update.useMutation({ onSuccess, onError });
+  const deleteMutation = trpc.hypothesis.delete.useMutation({ onSuccess, onError });
+  const addEvidenceMutation = trpc.hypothesis.addEvidence.useMutation({ onSuccess, onError });
+  const removeEvidenceMutation = trpc.hypothesis.removeEvidence.useMutation({ onSuccess, onError });
+  const unlinkDecisionMutation = trpc.hypothesis.unlinkDecision.useMutation({ onSuccess, onError });
+  const linkDecisionMutation = trpc.hypothesis.linkDecision.useMutation({
+    onSuccess: (data) => {
+      onSuccess();
+      if (data.untestedHypotheses.length > 0) {
+        utils.cognitiveEvent.list.invalidate({ projectId });
+        toast.warning("Cette décision est déjà prise alors que l'hypothèse n'est pas testée");
+      }
+    },
+    onError,
+  });
+
+  const linkedDecisions = decisions.filter((d) => item.decisionIds.includes(d.id));
+  const unlinkedDecisions = decisions.filter((d) => !item.decisionIds.includes(d.id));
+  const evidenceLabel = (evidence: HypothesisItemProps["item"]["evidence"][number]) =>
+    evidence.sourceType === "document"
+      ? documents.find((d) => d.id === evidence.sourceId)?.name ?? `Document #${evidence.sourceId}`
+      : evidence.sourceType === "decision"
+      ? decisions.find((d) => d.id === evidence.sourceId)?.title ?? `Décision #${evidence.sourceId}`
+      : `Message #${evidence.sourceId}`;
+
+  return (
+    <div className="p-3 rounded-lg border space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">{hypothesis.statement}</p>
+          {hypothesis.origin === "extracted" && (
+            <p className="text-xs text-muted-foreground">Extraite de la discussion</p>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Select
+            value={hypothesis.status}
+            onValueChange={(value) => setStatusMutation.mutate({ id: hypothesis.id, status: value as HypothesisStatus })}
+          >
+            <SelectTrigger size="sm" className={`w-32 border-0 ${STATUS_CLASSES[hypothesis.status]}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATUS_LABELS) as HypothesisStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setShowHistory((value) => !value)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive hover:text-destructive"
+            onClick={() => deleteMutation.mutate({ id: hypothesis.id })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={hypothesis.ownerId ? String(hypothesis.ownerId) : NO_OWNER}
+          onValueChange={(value) =>
+            updateMutation.mutate({ id: hypothesis.id, ownerId: value === NO_OWNER ? null : Number(value) })
+          }
+        >
+          <SelectTrigger size="sm" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_OWNER}>Sans responsable</SelectItem>
+            {members.map(({ user }) => (
+              <SelectItem key={user.id} value={String(user.id)}>
+                {user.name || user.email || `Membre ${user.id}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {unlinkedDecisions.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(value) =>
+              linkDecisionMutation.mutate({ hypothesisId: hypothesis.id, decisionId: Number(value) })
+            }
+          >
+            <SelectTrigger size="sm" className="w-48">
+              <SelectValue placeholder="Décision qui en dépend" />
+            </SelectTrigger>
+            <SelectContent>
+              {unlinkedDecisions.map((decision) => (
+                <SelectItem key={decision.id} value={String(decision.id)}>
+                  {decision.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {documents.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(value) =>
+              addEvidenceMutation.mutate({ hypothesisId: hypothesis.id, sourceType: "document", sourceId: Number(value) })
+            }
+          >
+            <SelectTrigger size="sm" className="w-48">
+              <SelectValue placeholder="Document à l'appui" />
+            </SelectTrigger>
+            <SelectContent>
+              {documents.map((document) => (
+                <SelectItem key={document.id} value={String(document.id)}>
+                  {document.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {(item.evidence.length > 0 || linkedDecisions.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {linkedDecisions.map((decision) => (
+            <span
+              key={`decision-${decision.id}`}
+              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+                decision.status === "decided" && hypothesis.status === "untested"
+                  ? "bg-cognitive-warning/20 text-cognitive-warning"
+                  : "bg-primary/10 text-primary"
+              }`}
+            >
+              {decision.status === "decided" && hypothesis.status === "untested" ? (
+                <AlertTriangle className="h-3 w-3" />
+              ) : (
+                <Target className="h-3 w-3" />
+              )}
+              {decision.title}
+              <button
+                type="button"
+                onClick={() => unlinkDecisionMutation.mutate({ hypothesisId: hypothesis.id, decisionId: decision.id })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {item.evidence.map((evidence) => (
+            <span
+              key={evidence.id}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground"
+              title={evidence.note ?? undefined}
+            >
+              {evidence.sourceType === "message" ? (
+                <MessageSquare className="h-3 w-3" />
+              ) : evidence.sourceType === "document" ? (
+                <FileText className="h-3 w-3" />
+              ) : (
+                <Target className="h-3 w-3" />
+              )}
+              {evidenceLabel(evidence)}
+              <button
+                type="button"
+                onClick={() => removeEvidenceMutation.mutate({ hypothesisId: hypothesis.id, evidenceId: evidence.id })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="pl-3 border-l-2 space-y-1">
+          {history?.map(({ change, user }) => (
+            <p key={change.id} className="text-xs text-muted-foreground">
+              {new Date(change.createdAt).toLocaleDateString("fr-FR")} ·{" "}
+              {change.fromStatus
+                ? `${STATUS_LABELS[change.fromStatus]} → ${STATUS_LABELS[change.toStatus]}`
+                : "Enregistrée"}
+              {user?.name && ` · ${user.name}`}
+              {change.note && ` · ${change.note}`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
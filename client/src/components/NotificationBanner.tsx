@@ -0,0 +1,59 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import type { LiveNotification } from "@/hooks/useNotificationStream";
+import { cn } from "@/lib/utils";
+import { BellRing, X } from "lucide-react";
+import { useLocation } from "wouter";
+
+type NotificationBannerProps = {
+  notification: LiveNotification | null;
+  onDismiss: () => void;
+  className?: string;
+};
+
+export function NotificationBanner({
+  notification,
+  onDismiss,
+  className,
+}: NotificationBannerProps) {
+  const [, setLocation] = useLocation();
+
+  if (!notification) return null;
+
+  const isCritical = notification.priority === 1;
+
+  return (
+    <Alert
+      variant={isCritical ? "destructive" : "default"}
+      className={cn("pr-12 animate-in fade-in slide-in-from-top-2", className)}
+    >
+      <BellRing />
+      <AlertTitle>{notification.title}</AlertTitle>
+      <AlertDescription>
+        <p>{notification.message}</p>
+        {notification.action?.url && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => {
+              setLocation(notification.action!.url!);
+              onDismiss();
+            }}
+          >
+            {notification.action.label}
+          </Button>
+        )}
+      </AlertDescription>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-2 h-7 w-7"
+        onClick={onDismiss}
+        aria-label="Fermer la notification"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </Alert>
+  );
+}
@@ -0,0 +1,142 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { Archive, Bell, CheckCheck } from "lucide-react";
+import { useLocation } from "wouter";
+import type { InboxNotification } from "../../../drizzle/schema";
+
+const INBOX_PAGE_SIZE = 10;
+
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  const { data: unreadCount = 0 } = trpc.notifications.unreadCount.useQuery();
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.notifications.list.useInfiniteQuery(
+      { limit: INBOX_PAGE_SIZE },
+      { getNextPageParam: lastPage => lastPage.nextCursor }
+    );
+  const items = data?.pages.flatMap(page => page.items) ?? [];
+
+  const refreshInbox = () => {
+    utils.notifications.list.invalidate();
+    utils.notifications.unreadCount.invalidate();
+  };
+
+  const markReadMutation = trpc.notifications.markRead.useMutation({ onSuccess: refreshInbox });
+  const markAllReadMutation = trpc.notifications.markAllRead.useMutation({ onSuccess: refreshInbox });
+  const archiveMutation = trpc.notifications.archive.useMutation({ onSuccess: refreshInbox });
+
+  const handleOpen = (notification: InboxNotification) => {
+    if (notification.status === "unread") {
+      markReadMutation.mutate({ ids: [notification.id] });
+    }
+    if (notification.action?.url) {
+      setLocation(notification.action.url);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px] leading-none">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+          >
+            <CheckCheck className="mr-1 h-3 w-3" />
+            Tout marquer comme lu
+          </Button>
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+        {items.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+            Aucune notification
+          </p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {items.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex cursor-pointer items-start gap-2 rounded-none px-3 py-2"
+                onClick={() => handleOpen(notification)}
+              >
+                <span
+                  className={cn(
+                    "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                    notification.status === "unread" ? "bg-primary" : "bg-transparent"
+                  )}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className={cn("truncate text-sm", notification.status === "unread" && "font-medium")}>
+                    {notification.title}
+                  </p>
+                  <p className="line-clamp-2 text-xs text-muted-foreground">{notification.message}</p>
+                  <p className="mt-1 text-[10px] text-muted-foreground">
+                    {new Date(notification.createdAt).toLocaleDateString("fr-FR", {
+                      day: "numeric",
+                      month: "short",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  aria-label="Archiver"
+                  onClick={event => {
+                    event.stopPropagation();
+                    archiveMutation.mutate({ id: notification.id });
+                  }}
+                >
+                  <Archive className="h-3 w-3" />
+                </Button>
+              </DropdownMenuItem>
+            ))}
+            {hasNextPage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full rounded-none text-xs"
+                disabled={isFetchingNextPage}
+                onClick={event => {
+                  event.preventDefault();
+                  fetchNextPage();
+                }}
+              >
+                {isFetchingNextPage ? "Chargement..." : "Voir plus"}
+              </Button>
+            )}
+          </ScrollArea>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
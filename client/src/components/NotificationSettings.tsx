@@ -0,0 +1,214 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+import { Bell, Moon, Save } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { NotificationType } from "../../../server/notifications";
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  bias_alert: "Alertes de biais",
+  ping_triggered: "Smart Pings",
+  decision_made: "Décisions prises",
+  member_joined: "Nouveaux membres",
+  cognitive_insight: "Insights cognitifs",
+  celebration: "Célébrations",
+  reminder: "Rappels",
+};
+
+const PRIORITY_LABELS: Record<string, string> = {
+  "1": "Critiques uniquement",
+  "2": "Importantes et plus",
+  "3": "Informations et plus",
+  "4": "Toutes (y compris subtiles)",
+};
+
+export function NotificationSettings() {
+  const utils = trpc.useUtils();
+  const { data: preferences, isLoading } = trpc.notifications.getPreferences.useQuery();
+
+  const [enabled, setEnabled] = useState(true);
+  const [allowedTypes, setAllowedTypes] = useState<NotificationType[]>([]);
+  const [minPriority, setMinPriority] = useState<1 | 2 | 3 | 4>(3);
+  const [silent, setSilent] = useState(false);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState("22:00");
+  const [quietEnd, setQuietEnd] = useState("08:00");
+
+  useEffect(() => {
+    if (!preferences) return;
+    setEnabled(preferences.enabled);
+    setAllowedTypes(preferences.allowedTypes);
+    setMinPriority(preferences.minPriority);
+    setSilent(preferences.silent);
+    if (preferences.quietHours) {
+      const [start, end] = preferences.quietHours.split("-");
+      setQuietHoursEnabled(true);
+      setQuietStart(start);
+      setQuietEnd(end);
+    } else {
+      setQuietHoursEnabled(false);
+    }
+  }, [preferences]);
+
+  const updateMutation = trpc.notifications.updatePreferences.useMutation({
+    onSuccess: (data) => {
+      utils.notifications.getPreferences.setData(undefined, data);
+      toast.success("Préférences de notification enregistrées");
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const toggleType = (type: NotificationType, checked: boolean) => {
+    setAllowedTypes(prev =>
+      checked ? Array.from(new Set([...prev, type])) : prev.filter(t => t !== type)
+    );
+  };
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      enabled,
+      allowedTypes,
+      minPriority,
+      silent,
+      quietHours: quietHoursEnabled ? `${quietStart}-${quietEnd}` : undefined,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5 text-primary" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choisissez les alertes que vous recevez en temps réel et quand vous les recevez
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="notifications-enabled">Activer les notifications</Label>
+            <p className="text-xs text-muted-foreground">
+              Désactivez pour ne plus recevoir aucune alerte en direct
+            </p>
+          </div>
+          <Switch
+            id="notifications-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-3">
+            <Label>Types de notifications</Label>
+            {(Object.keys(TYPE_LABELS) as NotificationType[]).map(type => (
+              <div key={type} className="flex items-center gap-2">
+                <Checkbox
+                  id={`notification-type-${type}`}
+                  checked={allowedTypes.includes(type)}
+                  onCheckedChange={checked => toggleType(type, checked === true)}
+                  disabled={!enabled}
+                />
+                <Label htmlFor={`notification-type-${type}`} className="font-normal">
+                  {TYPE_LABELS[type]}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Priorité minimale</Label>
+              <Select
+                value={String(minPriority)}
+                onValueChange={value => setMinPriority(Number(value) as 1 | 2 | 3 | 4)}
+                disabled={!enabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notifications-silent">Mode silencieux</Label>
+              <Switch
+                id="notifications-silent"
+                checked={silent}
+                onCheckedChange={setSilent}
+                disabled={!enabled}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="quiet-hours" className="flex items-center gap-2">
+                  <Moon className="h-4 w-4" />
+                  Heures calmes
+                </Label>
+                <Switch
+                  id="quiet-hours"
+                  checked={quietHoursEnabled}
+                  onCheckedChange={setQuietHoursEnabled}
+                  disabled={!enabled}
+                />
+              </div>
+              {quietHoursEnabled && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={quietStart}
+                    onChange={e => setQuietStart(e.target.value)}
+                    disabled={!enabled}
+                  />
+                  <span className="text-muted-foreground">→</span>
+                  <Input
+                    type="time"
+                    value={quietEnd}
+                    onChange={e => setQuietEnd(e.target.value)}
+                    disabled={!enabled}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Seules les alertes critiques passent ; les autres vous attendent à la fin de la plage.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={updateMutation.isPending || isLoading}>
+            <Save className="mr-2 h-4 w-4" />
+            {updateMutation.isPending ? "Enregistrement..." : "Enregistrer les préférences"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
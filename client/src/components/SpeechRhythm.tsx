@@ -0,0 +1,112 @@
+import { trpc } from "@/lib/trpc";
+import { Activity } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--background))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+};
+
+function formatSeconds(seconds: number | null) {
+  return seconds === null ? "—" : `${seconds.toFixed(1)}s`;
+}
+
+/**
+ * Rythme de parole d'un enregistrement : débit, pauses, tours de parole,
+ * interruptions et latence de réponse par intervenant
+ */
+export function SpeechRhythmChart({ audioId }: { audioId: number }) {
+  const { data: audio } = trpc.audio.get.useQuery({ id: audioId });
+  const rhythm = audio?.speechRhythm;
+
+  if (!rhythm || rhythm.speakers.length === 0) return null;
+
+  const names = new Map(audio.speakers.map(s => [s.speakerId, s.name]));
+  const data = rhythm.speakers.map(speaker => ({
+    name: names.get(speaker.speakerId) || speaker.speakerId.replace("speaker_", "Intervenant "),
+    wpm: speaker.wordsPerMinute,
+    turn: speaker.averageTurnLength,
+    short: speaker.pauses.short,
+    medium: speaker.pauses.medium,
+    long: speaker.pauses.long,
+  }));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium flex items-center gap-1">
+        <Activity className="h-3 w-3" />
+        Rythme de parole
+      </p>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        <div>
+          <p className="text-sm font-semibold">{Math.round(rhythm.wordsPerMinute)}</p>
+          <p className="text-[10px] text-muted-foreground">mots/min</p>
+        </div>
+        <div>
+          <p className="text-sm font-semibold">{formatSeconds(rhythm.averageTurnLength)}</p>
+          <p className="text-[10px] text-muted-foreground">tour moyen</p>
+        </div>
+        <div>
+          <p className="text-sm font-semibold">{rhythm.interruptions}</p>
+          <p className="text-[10px] text-muted-foreground">
+            interruptions ({rhythm.overlaps} chevauchements)
+          </p>
+        </div>
+        <div>
+          <p className="text-sm font-semibold">{formatSeconds(rhythm.averageResponseLatency)}</p>
+          <p className="text-[10px] text-muted-foreground">latence de réponse</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="h-[140px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="name" className="text-xs" />
+              <YAxis className="text-xs" />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Bar dataKey="wpm" fill="oklch(0.65 0.18 230)" name="Mots/min" />
+              <Bar dataKey="turn" fill="oklch(0.65 0.18 150)" name="Tour moyen (s)" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-[140px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="name" className="text-xs" />
+              <YAxis allowDecimals={false} className="text-xs" />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              <Bar dataKey="short" stackId="pauses" fill="oklch(0.8 0.1 150)" name="Pauses < 1s" />
+              <Bar dataKey="medium" stackId="pauses" fill="oklch(0.7 0.15 80)" name="1-3s" />
+              <Bar dataKey="long" stackId="pauses" fill="oklch(0.6 0.2 30)" name="≥ 3s" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {rhythm.speakers.map(speaker => (
+          <p key={speaker.speakerId} className="text-xs text-muted-foreground">
+            {names.get(speaker.speakerId) || speaker.speakerId.replace("speaker_", "Intervenant ")} :{" "}
+            {speaker.turnCount} tours · {speaker.interruptionsMade} interruption(s) faites,{" "}
+            {speaker.interruptionsReceived} subies · latence {formatSeconds(speaker.averageResponseLatency)}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { trpc } from "@/lib/trpc";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { Notification } from "../../../server/notifications";
+import { usePersistFn } from "./usePersistFn";
+
+/** Notification as received over SSE (dates are serialized) */
+export type LiveNotification = Omit<Notification, "timestamp"> & {
+  timestamp: string;
+};
+
+export interface UseNotificationStreamOptions {
+  /** Attach the stream to a project (project-wide broadcasts) */
+  projectId?: number;
+  enabled?: boolean;
+  onNotification?: (notification: LiveNotification) => void;
+}
+
+/**
+ * Subscribes to /api/notifications/stream and displays incoming notifications
+ * according to their `style`: toasts and subtle messages go through sonner,
+ * banners (and modals) are returned so the page can render them inline.
+ * EventSource sends Last-Event-ID on reconnect, so missed items are replayed.
+ */
+export function useNotificationStream(options: UseNotificationStreamOptions = {}) {
+  const { projectId, enabled = true } = options;
+  const [banner, setBanner] = useState<LiveNotification | null>(null);
+  const utils = trpc.useUtils();
+
+  const handleNotification = usePersistFn((notification: LiveNotification) => {
+    utils.notifications.list.invalidate();
+    utils.notifications.unreadCount.invalidate();
+
+    const toastOptions = {
+      id: notification.id,
+      description: notification.message,
+      duration: notification.duration || Infinity,
+    };
+
+    switch (notification.style) {
+      case "banner":
+      case "modal":
+        setBanner(notification);
+        break;
+      case "subtle":
+        toast.message(notification.title, toastOptions);
+        break;
+      default:
+        if (notification.priority <= 2) {
+          toast.warning(notification.title, toastOptions);
+        } else {
+          toast.info(notification.title, toastOptions);
+        }
+    }
+
+    options.onNotification?.(notification);
+  });
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return;
+
+    const url = projectId
+      ? `/api/notifications/stream?projectId=${projectId}`
+      : "/api/notifications/stream";
+    const source = new EventSource(url, { withCredentials: true });
+
+    source.addEventListener("notification", event => {
+      try {
+        handleNotification(JSON.parse((event as MessageEvent).data));
+      } catch (error) {
+        console.error("[Notifications] Invalid payload", error);
+      }
+    });
+
+    return () => source.close();
+  }, [enabled, projectId, handleNotification]);
+
+  // Auto-hide banners that are not persistent
+  useEffect(() => {
+    if (!banner || banner.duration === 0) return;
+    const timer = setTimeout(() => setBanner(null), banner.duration);
+    return () => clearTimeout(timer);
+  }, [banner]);
+
+  return {
+    banner,
+    dismissBanner: () => setBanner(null),
+  };
+}
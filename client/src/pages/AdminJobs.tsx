@@ -0,0 +1,246 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getLoginUrl } from "@/const";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Loader2, RefreshCw, RotateCcw, ShieldAlert } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+
+type JobStatus = "pending" | "running" | "completed" | "dead";
+type JobType =
+  | "audio_transcription"
+  | "message_analysis"
+  | "memory_embedding"
+  | "metrics_recompute"
+  | "document_extraction"
+  | "decision_vote_close";
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  pending: "En attente",
+  running: "En cours",
+  completed: "Terminé",
+  dead: "Échec définitif",
+};
+
+const STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  running: "secondary",
+  completed: "default",
+  dead: "destructive",
+};
+
+const TYPE_LABELS: Record<JobType, string> = {
+  audio_transcription: "Transcription audio",
+  message_analysis: "Analyse LLM de message",
+  memory_embedding: "Vectorisation de mémoire",
+  metrics_recompute: "Recalcul des métriques",
+  document_extraction: "Extraction de document",
+  decision_vote_close: "Clôture de vote",
+};
+
+export default function AdminJobs() {
+  const { user, loading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [status, setStatus] = useState<JobStatus | "all">("all");
+  const [type, setType] = useState<JobType | "all">("all");
+
+  const utils = trpc.useUtils();
+  const isAdmin = user?.role === "admin";
+  const { data, isLoading, isFetching, refetch } = trpc.jobs.list.useQuery(
+    {
+      status: status === "all" ? undefined : status,
+      type: type === "all" ? undefined : type,
+    },
+    { enabled: isAdmin, refetchInterval: 10000 }
+  );
+
+  const retryMutation = trpc.jobs.retry.useMutation({
+    onSuccess: () => {
+      toast.success("Job replanifié");
+      utils.jobs.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Impossible de relancer le job");
+    },
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    window.location.href = getLoginUrl();
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <CardTitle>Accès réservé</CardTitle>
+            <CardDescription>Cette page est réservée aux administrateurs.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => setLocation("/dashboard")}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Tâches en arrière-plan</h1>
+              <p className="text-sm text-muted-foreground">
+                Transcriptions, analyses LLM, vectorisations, métriques et extractions de documents
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Actualiser
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(Object.keys(STATUS_LABELS) as JobStatus[]).map((s) => (
+            <Card key={s}>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">{STATUS_LABELS[s]}</p>
+                <p className="text-2xl font-bold">{data?.counts[s] ?? 0}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <div>
+              <CardTitle>Jobs</CardTitle>
+              <CardDescription>
+                Les jobs en échec définitif ont épuisé leurs tentatives et peuvent être relancés
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={status} onValueChange={(v) => setStatus(v as JobStatus | "all")}>
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous les statuts</SelectItem>
+                  {(Object.keys(STATUS_LABELS) as JobStatus[]).map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {STATUS_LABELS[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={type} onValueChange={(v) => setType(v as JobType | "all")}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous les types</SelectItem>
+                  {(Object.keys(TYPE_LABELS) as JobType[]).map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {TYPE_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : data && data.jobs.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Statut</TableHead>
+                    <TableHead>Tentatives</TableHead>
+                    <TableHead>Prochaine exécution</TableHead>
+                    <TableHead>Dernière erreur</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.jobs.map((job) => (
+                    <TableRow key={job.id}>
+                      <TableCell className="font-mono text-xs">{job.id}</TableCell>
+                      <TableCell>
+                        <p>{TYPE_LABELS[job.type]}</p>
+                        <p className="text-xs text-muted-foreground font-mono">
+                          {JSON.stringify(job.payload)}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[job.status]}>{STATUS_LABELS[job.status]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {job.attempts}/{job.maxAttempts}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {job.status === "pending" ? new Date(job.runAt).toLocaleString("fr-FR") : "—"}
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <p className="text-xs text-destructive line-clamp-2">{job.lastError ?? ""}</p>
+                      </TableCell>
+                      <TableCell>
+                        {job.status === "dead" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => retryMutation.mutate({ id: job.id })}
+                            disabled={retryMutation.isPending}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Relancer
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground py-8">Aucun job</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -41,6 +41,7 @@ import {
   Lightbulb,
   User,
   UserCircle,
+  ListChecks,
 } from "lucide-react";
 import { CSSProperties, useState } from "react";
 import { useLocation } from "wouter";
@@ -184,6 +185,18 @@ export default function Dashboard() {
                 </SidebarMenuItem>
               );
             })}
+            {user?.role === "admin" && (
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  onClick={() => setLocation("/admin/jobs")}
+                  tooltip="Tâches de fond"
+                  className="h-10"
+                >
+                  <ListChecks className="h-4 w-4" />
+                  <span>Tâches de fond</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            )}
           </SidebarMenu>
         </SidebarContent>
 
@@ -53,6 +53,7 @@ import {
 import { CSSProperties, useState } from "react";
 import { useLocation } from "wouter";
 import { Streamdown } from "streamdown";
+import type { PatternMatch } from "../../../server/vectorMemory";
 
 const menuItems = [
   { icon: Activity, label: "Dashboard", path: "/dashboard" },
@@ -77,6 +78,16 @@ export default function MemoryExplorer() {
 
   const searchMutation = trpc.memory.searchWithAI.useMutation();
 
+  const [suggestionContext, setSuggestionContext] = useState("");
+  const { data: patterns, isLoading: patternsLoading } = trpc.memory.patterns.useQuery(
+    {},
+    { enabled: !!user }
+  );
+  const { data: suggestions, isLoading: suggestionsLoading } = trpc.memory.suggestions.useQuery(
+    { context: suggestionContext },
+    { enabled: !!user && suggestionContext.length > 0 }
+  );
+
   if (loading) {
     return <MemorySkeleton />;
   }
@@ -100,6 +111,7 @@ export default function MemoryExplorer() {
       query: searchQuery,
       context: searchContext || undefined,
     });
+    setSuggestionContext([searchQuery, searchContext].filter(Boolean).join("\n"));
   };
 
   const getOutcomeIcon = (outcome: string | null) => {
@@ -280,6 +292,9 @@ export default function MemoryExplorer() {
                 </Card>
               )}
 
+              {/* Suggestions */}
+              <SuggestionsSection suggestions={suggestions} isLoading={suggestionsLoading} />
+
               {/* Memory Results */}
               <Card>
                 <CardHeader>
@@ -307,11 +322,14 @@ export default function MemoryExplorer() {
                               </span>
                               {getOutcomeIcon(memory.outcome)}
                             </div>
-                            {memory.impactScore && (
-                              <span className="text-sm text-muted-foreground">
-                                Impact: {Math.round(memory.impactScore * 100)}%
+                            <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                              <span title={memory.matchType === "semantic" ? "Similarité sémantique" : "Correspondance par mots-clés"}>
+                                Pertinence: {Math.min(100, Math.round(memory.score * 100))}%
                               </span>
-                            )}
+                              {memory.impactScore && (
+                                <span>Impact: {Math.round(memory.impactScore * 100)}%</span>
+                              )}
+                            </div>
                           </div>
                           <h4 className="font-semibold mb-2">{memory.title}</h4>
                           <p className="text-sm text-muted-foreground mb-3">
@@ -344,6 +362,11 @@ export default function MemoryExplorer() {
             </div>
           )}
 
+          {/* Recurring Patterns */}
+          {!searchMutation.data && (
+            <PatternsSection patterns={patterns} isLoading={patternsLoading} />
+          )}
+
           {/* Global Memories */}
           {!searchMutation.data && (
             <div className="space-y-4">
@@ -425,6 +448,128 @@ export default function MemoryExplorer() {
   );
 }
 
+const PATTERN_LABELS: Record<string, string> = {
+  recurring_bias: "Biais récurrent",
+  decision_pattern: "Décisions similaires",
+  recurring_error: "Erreur répétée",
+};
+
+function PatternsSection({ patterns, isLoading }: { patterns?: PatternMatch[]; isLoading: boolean }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5 text-primary" />
+          Patterns récurrents
+        </CardTitle>
+        <CardDescription>
+          Biais, décisions et erreurs qui reviennent dans la mémoire de vos équipes
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-20" />
+            ))}
+          </div>
+        ) : patterns && patterns.length > 0 ? (
+          <div className="space-y-4">
+            {patterns.map((pattern, i) => (
+              <div key={`${pattern.patternType}-${i}`} className="p-4 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="px-2 py-1 rounded-full text-xs font-medium bg-cognitive-warning/20 text-cognitive-warning">
+                    {PATTERN_LABELS[pattern.patternType] ?? pattern.patternType}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {pattern.occurrences} occurrences
+                  </span>
+                </div>
+                <p className="text-sm">{pattern.description}</p>
+                <p className="text-sm text-muted-foreground flex items-start gap-2">
+                  <Lightbulb className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                  {pattern.recommendation}
+                </p>
+                {pattern.examples.length > 0 && (
+                  <ul className="text-xs text-muted-foreground list-disc pl-5">
+                    {pattern.examples.map((example) => (
+                      <li key={example.id}>
+                        {example.summary.substring(0, 100)}
+                        {example.summary.length > 100 && "..."}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Aucun pattern récurrent détecté pour le moment
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type MemorySuggestion = {
+  type: "similar_decision" | "past_error" | "learned_lesson" | "pattern_warning";
+  title: string;
+  description: string;
+  confidence: number;
+};
+
+function SuggestionsSection({
+  suggestions,
+  isLoading,
+}: {
+  suggestions?: MemorySuggestion[];
+  isLoading: boolean;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lightbulb className="h-5 w-5 text-primary" />
+          Suggestions
+        </CardTitle>
+        <CardDescription>
+          Décisions, erreurs et apprentissages passés proches de votre recherche
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16" />
+        ) : suggestions && suggestions.length > 0 ? (
+          <div className="space-y-3">
+            {suggestions.map((suggestion, i) => (
+              <div key={`${suggestion.type}-${i}`} className="flex items-start gap-3 p-3 rounded-lg border">
+                {suggestion.type === "past_error" || suggestion.type === "pattern_warning" ? (
+                  <AlertTriangle className="h-5 w-5 text-cognitive-warning shrink-0" />
+                ) : (
+                  <CheckCircle2 className="h-5 w-5 text-cognitive-success shrink-0" />
+                )}
+                <div className="flex-1">
+                  <p className="font-medium text-sm">{suggestion.title}</p>
+                  <p className="text-sm text-muted-foreground">{suggestion.description}</p>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {Math.round(suggestion.confidence * 100)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Aucune suggestion pour cette recherche
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function MemorySkeleton() {
   return (
     <div className="flex min-h-screen bg-background">
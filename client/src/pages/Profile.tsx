@@ -1,4 +1,5 @@
 import { useAuth } from "@/_core/hooks/useAuth";
+import { NotificationSettings } from "@/components/NotificationSettings";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -409,6 +410,9 @@ export default function Profile() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Notification preferences */}
+            <NotificationSettings />
           </div>
         </main>
       </SidebarInset>
@@ -1,4 +1,5 @@
 import { useAuth } from "@/_core/hooks/useAuth";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -18,7 +19,13 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import { AudioParticipation, AudioSpeakers, TalkTimeTimeline } from "@/components/AudioSpeakers";
+import { DecisionVoting } from "@/components/DecisionVoting";
+import { HypothesisRegister } from "@/components/HypothesisRegister";
+import { SpeechRhythmChart } from "@/components/SpeechRhythm";
+import { NotificationBanner } from "@/components/NotificationBanner";
 import { getLoginUrl } from "@/const";
+import { useNotificationStream } from "@/hooks/useNotificationStream";
 import { trpc } from "@/lib/trpc";
 import {
   Brain,
@@ -32,6 +39,8 @@ import {
   Lightbulb,
   Users,
   TrendingUp,
+  TrendingDown,
+  ArrowRight,
   ArrowLeft,
   Plus,
   FileText,
@@ -60,6 +69,9 @@ import {
   BookOpen,
   Waves,
   AlertCircle,
+  History,
+  RotateCcw,
+  GitCompare,
 } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { useLocation, useParams } from "wouter";
@@ -84,6 +96,9 @@ function AudioMessageContent({ message }: { message: any }) {
   const audioUrl = metadata.audioUrl as string | undefined;
   const transcription = metadata.transcription as string | undefined;
   const transcriptionStatus = metadata.transcriptionStatus as string | undefined;
+  const transcriptionProgress = metadata.transcriptionProgress as
+    | { completedChunks: number; totalChunks: number }
+    | undefined;
   const analysisResult = metadata.analysisResult as any;
   const biases = analysisResult?.biases as any[] | undefined;
 
@@ -117,6 +132,11 @@ function AudioMessageContent({ message }: { message: any }) {
         <div className="p-2 bg-muted/30 rounded-lg flex items-center gap-2 text-sm text-muted-foreground">
           <Loader2 className="h-4 w-4 animate-spin" />
           Transcription en cours...
+          {transcriptionProgress && transcriptionProgress.totalChunks > 1 && (
+            <span>
+              ({transcriptionProgress.completedChunks}/{transcriptionProgress.totalChunks} parties)
+            </span>
+          )}
         </div>
       ) : transcriptionStatus === "failed" ? (
         <div className="p-2 bg-destructive/10 rounded-lg text-sm text-destructive">
@@ -161,6 +181,7 @@ export default function ProjectView() {
   const [isDecisionDialogOpen, setIsDecisionDialogOpen] = useState(false);
   const [newDecisionTitle, setNewDecisionTitle] = useState("");
   const [newDecisionDescription, setNewDecisionDescription] = useState("");
+  const [selectedDecisionId, setSelectedDecisionId] = useState<number | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [aiRecommendations, setAiRecommendations] = useState<string | null>(null);
   const [showPingsPanel, setShowPingsPanel] = useState(true);
@@ -181,6 +202,19 @@ export default function ProjectView() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const utils = trpc.useUtils();
 
+  // Live notifications (SSE) for this project
+  const { banner, dismissBanner } = useNotificationStream({
+    projectId,
+    enabled: !!projectId && !!user,
+    onNotification: (notification) => {
+      if (notification.type === "ping_triggered" || notification.type === "bias_alert") {
+        utils.chat.getMessages.invalidate();
+      } else if (notification.type === "decision_made") {
+        utils.decision.list.invalidate();
+      }
+    },
+  });
+
   const { data: project, isLoading: projectLoading } = trpc.project.get.useQuery(
     { id: projectId },
     { enabled: !!projectId && !!user }
@@ -206,6 +240,12 @@ export default function ProjectView() {
     { enabled: !!projectId && !!user }
   );
 
+  // Team over its monthly LLM budget: analyses run locally only
+  const { data: llmStatus } = trpc.llmUsage.status.useQuery(
+    { projectId },
+    { enabled: !!projectId && !!user, refetchInterval: 60000 }
+  );
+
   const sendMessageMutation = trpc.chat.send.useMutation({
     onSuccess: (data) => {
       utils.chat.getMessages.invalidate();
@@ -239,7 +279,12 @@ export default function ProjectView() {
     onSuccess: (data) => {
       utils.metrics.getHistory.invalidate();
       utils.project.get.invalidate();
-      toast.success("Analyse cognitive terminée");
+      if (data.degraded === "budget_exceeded") {
+        toast.warning("Budget LLM atteint : analyse locale par mots-clés uniquement");
+        utils.llmUsage.status.invalidate();
+      } else {
+        toast.success("Analyse cognitive terminée");
+      }
       setIsAnalyzing(false);
       
       // Create pings from detected biases
@@ -435,7 +480,7 @@ export default function ProjectView() {
       await uploadAudioMutation.mutateAsync({
         projectId,
         content: base64,
-        mimeType: "audio/webm",
+        mimeType: audioBlob.type || "audio/webm",
         duration: recordingTime,
       });
     }
@@ -609,6 +654,25 @@ export default function ProjectView() {
         </div>
       </header>
 
+      {banner && (
+        <div className="container pt-4">
+          <NotificationBanner notification={banner} onDismiss={dismissBanner} />
+        </div>
+      )}
+
+      {llmStatus?.degraded && (
+        <div className="container pt-4">
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Mode dégradé</AlertTitle>
+            <AlertDescription>
+              Le budget LLM mensuel de l'équipe est atteint. Les analyses utilisent la détection
+              locale par mots-clés jusqu'au mois prochain.
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {/* Smart Pings Panel - Floating */}
       {showPingsPanel && activePings.length > 0 && (
         <div className="fixed top-20 right-4 z-40 w-96 max-h-[60vh] overflow-y-auto space-y-3">
@@ -1051,7 +1115,11 @@ export default function ProjectView() {
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
               {decisions && decisions.length > 0 ? (
                 decisions.map((decision) => (
-                  <Card key={decision.id} className="hover:shadow-md transition-shadow">
+                  <Card
+                    key={decision.id}
+                    className="hover:shadow-md transition-shadow cursor-pointer"
+                    onClick={() => setSelectedDecisionId(decision.id)}
+                  >
                     <CardHeader className="pb-3">
                       <div className="flex items-start justify-between">
                         <CardTitle className="text-lg">{decision.title}</CardTitle>
@@ -1064,17 +1132,7 @@ export default function ProjectView() {
                               : "bg-muted text-muted-foreground"
                           }`}
                         >
-                          {decision.status === "decided"
-                            ? "Décidée"
-                            : decision.status === "implemented"
-                            ? "Implémentée"
-                            : decision.status === "revised"
-                            ? "Révisée"
-                            : decision.status === "voting"
-                            ? "En vote"
-                            : decision.status === "discussing"
-                            ? "En discussion"
-                            : "Proposée"}
+                          {DECISION_STATUS_LABELS[decision.status]}
                         </span>
                       </div>
                       <CardDescription>{decision.description}</CardDescription>
@@ -1106,6 +1164,10 @@ export default function ProjectView() {
                 </div>
               )}
             </div>
+
+            <HypothesisRegister projectId={projectId} teamId={project.teamId} decisions={decisions ?? []} />
+
+            <DecisionLifecycleDialog decisionId={selectedDecisionId} onClose={() => setSelectedDecisionId(null)} />
           </TabsContent>
 
           {/* Metrics Tab */}
@@ -1176,13 +1238,15 @@ export default function ProjectView() {
                 )}
               </CardContent>
             </Card>
+
+            <CSAWPanel projectId={projectId} />
           </TabsContent>
 
           {/* Files Tab */}
           <TabsContent value="files" className="space-y-6">
             <div className="grid gap-6 lg:grid-cols-2">
               <DocumentsSection projectId={projectId} />
-              <AudioSection projectId={projectId} />
+              <AudioSection projectId={projectId} teamId={project.teamId} />
             </div>
           </TabsContent>
 
@@ -1259,15 +1323,312 @@ function ProjectSkeleton() {
 
 
 // ==================== DOCUMENTS SECTION ====================
+// CSAW: métriques par fenêtre temporelle, tendances et anomalies
+const CSAW_METRICS = [
+  { key: "diversityIndex", label: "Diversité" },
+  { key: "criticalThinkingScore", label: "Pensée critique" },
+  { key: "biasRiskLevel", label: "Risque de biais" },
+  { key: "participationBalance", label: "Participation" },
+  { key: "decisionQuality", label: "Qualité" },
+] as const;
+
+const ANOMALY_SEVERITY_CLASSES: Record<string, string> = {
+  high: "border-red-500/30 bg-red-500/10 text-red-600",
+  medium: "border-orange-500/30 bg-orange-500/10 text-orange-600",
+  low: "border-blue-500/30 bg-blue-500/10 text-blue-600",
+};
+
+function TrendArrow({ direction }: { direction: "improving" | "stable" | "declining" }) {
+  if (direction === "improving") return <TrendingUp className="h-4 w-4 text-green-500" />;
+  if (direction === "declining") return <TrendingDown className="h-4 w-4 text-red-500" />;
+  return <ArrowRight className="h-4 w-4 text-muted-foreground" />;
+}
+
+function CSAWPanel({ projectId }: { projectId: number }) {
+  const utils = trpc.useUtils();
+
+  const csawMutation = trpc.metrics.csaw.useMutation({
+    onSuccess: (data) => {
+      if (data.storedAlerts > 0) {
+        utils.cognitiveEvent.list.invalidate({ projectId });
+      }
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+  const result = csawMutation.data;
+
+  useEffect(() => {
+    if (projectId) csawMutation.mutate({ projectId });
+  }, [projectId]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Waves className="h-5 w-5 text-primary" />
+            Analyse multi-fenêtres (CSAW)
+          </CardTitle>
+          <CardDescription>
+            {result?.display.summary ?? "Dynamique de l'équipe de l'immédiat à la semaine"}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => csawMutation.mutate({ projectId })}
+          disabled={csawMutation.isPending}
+        >
+          <RefreshCw className={`mr-2 h-4 w-4 ${csawMutation.isPending ? "animate-spin" : ""}`} />
+          Actualiser
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!result ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Fenêtre</th>
+                    <th className="py-2 pr-4 font-medium">Messages</th>
+                    {CSAW_METRICS.map((metric) => (
+                      <th key={metric.key} className="py-2 pr-4 font-medium">
+                        {metric.label}
+                      </th>
+                    ))}
+                    <th className="py-2 font-medium">Tendance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.windows.map((window) => (
+                    <tr key={window.windowId} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium">{window.windowName}</td>
+                      <td className="py-2 pr-4 text-muted-foreground">
+                        {window.messageCount}
+                        <span className="ml-1 text-xs">({window.participantCount} part.)</span>
+                      </td>
+                      {CSAW_METRICS.map((metric) => (
+                        <td key={metric.key} className="py-2 pr-4">
+                          {window.messageCount > 0
+                            ? `${Math.round(window.metrics[metric.key] * 100)}%`
+                            : "—"}
+                        </td>
+                      ))}
+                      <td className="py-2">
+                        <div className="flex items-center gap-2" title={window.trends.prediction}>
+                          <TrendArrow direction={window.trends.direction} />
+                          <span className="text-xs text-muted-foreground">
+                            {Math.round(window.trends.confidence * 100)}%
+                          </span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <h4 className="flex items-center gap-2 text-sm font-medium">
+                  <AlertCircle className="h-4 w-4" />
+                  Anomalies
+                </h4>
+                {result.crossWindowAnalysis.anomalies.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Aucune anomalie détectée</p>
+                ) : (
+                  result.crossWindowAnalysis.anomalies.map((anomaly, index) => (
+                    <div
+                      key={index}
+                      className={`rounded-lg border p-3 text-sm ${ANOMALY_SEVERITY_CLASSES[anomaly.severity]}`}
+                    >
+                      <p className="font-medium">{anomaly.type.replace(/_/g, " ")}</p>
+                      <p className="text-xs opacity-80">{anomaly.description}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="flex items-center gap-2 text-sm font-medium">
+                  <Lightbulb className="h-4 w-4" />
+                  Recommandations
+                </h4>
+                {result.display.topRecommendations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Rien à signaler</p>
+                ) : (
+                  <ul className="space-y-1 text-sm text-muted-foreground">
+                    {result.display.topRecommendations.map((recommendation, index) => (
+                      <li key={index}>• {recommendation}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const DECISION_STATUS_LABELS: Record<string, string> = {
+  proposed: "Proposée",
+  discussing: "En discussion",
+  voting: "En vote",
+  decided: "Décidée",
+  implemented: "Implémentée",
+  revised: "Révisée",
+};
+
+const DECISION_TRANSITION_LABELS: Record<string, string> = {
+  discussing: "Ouvrir la discussion",
+  voting: "Passer au vote",
+  decided: "Décider",
+  implemented: "Marquer implémentée",
+  revised: "Réviser",
+};
+
+function DecisionLifecycleDialog({ decisionId, onClose }: { decisionId: number | null; onClose: () => void }) {
+  const utils = trpc.useUtils();
+  const [reason, setReason] = useState("");
+
+  const { data: decisionData } = trpc.decision.get.useQuery({ id: decisionId ?? 0 }, { enabled: decisionId !== null });
+  const { data, isLoading } = trpc.decision.history.useQuery({ id: decisionId ?? 0 }, { enabled: decisionId !== null });
+
+  const transitionMutation = trpc.decision.transition.useMutation({
+    onSuccess: (result) => {
+      utils.decision.list.invalidate();
+      utils.decision.get.invalidate();
+      utils.decision.history.invalidate();
+      setReason("");
+      toast.success(`Décision passée au statut « ${DECISION_STATUS_LABELS[result.status]} »`);
+      if (result.untestedHypotheses.length > 0) {
+        toast.warning(`Cette décision repose sur ${result.untestedHypotheses.length} hypothèse(s) non testée(s)`);
+      }
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const close = () => {
+    setReason("");
+    onClose();
+  };
+
+  const decision = decisionData?.decision;
+  const transitions = data?.availableTransitions ?? [];
+
+  return (
+    <Dialog open={decisionId !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary" />
+            {decision?.title ?? "Décision"}
+          </DialogTitle>
+          <DialogDescription>
+            {data ? `Statut actuel : ${DECISION_STATUS_LABELS[data.status]}` : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <ScrollArea className="max-h-[300px]">
+            <ol className="relative border-l border-border ml-2 space-y-4 py-1">
+              {data?.entries.map(({ entry, user }) => (
+                <li key={entry.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                  <p className="text-sm font-medium">
+                    {entry.fromStatus
+                      ? `${DECISION_STATUS_LABELS[entry.fromStatus]} → ${DECISION_STATUS_LABELS[entry.toStatus]}`
+                      : `Créée · ${DECISION_STATUS_LABELS[entry.toStatus]}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleString("fr-FR")} · {user?.name ?? "Utilisateur inconnu"}
+                  </p>
+                  {entry.reason && <p className="text-sm mt-1">{entry.reason}</p>}
+                </li>
+              ))}
+              {data?.entries.length === 0 && (
+                <li className="ml-4 text-sm text-muted-foreground">Aucune transition enregistrée</li>
+              )}
+            </ol>
+          </ScrollArea>
+        )}
+
+        {decisionId !== null && <DecisionVoting decisionId={decisionId} />}
+
+        {transitions.length > 0 ? (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="decision-transition-reason">Raison (optionnelle)</Label>
+              <Textarea
+                id="decision-transition-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Pourquoi ce changement de statut ?"
+                rows={2}
+              />
+            </div>
+            <DialogFooter>
+              {transitions.map((status) => (
+                <Button
+                  key={status}
+                  variant={status === "decided" || status === "implemented" ? "default" : "outline"}
+                  disabled={transitionMutation.isPending}
+                  onClick={() =>
+                    decisionId !== null &&
+                    transitionMutation.mutate({ id: decisionId, status, reason: reason.trim() || undefined })
+                  }
+                >
+                  {DECISION_TRANSITION_LABELS[status]}
+                </Button>
+              ))}
+            </DialogFooter>
+          </div>
+        ) : data ? (
+          <p className="text-sm text-muted-foreground">Aucune transition disponible pour votre rôle.</p>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function DocumentsSection({ projectId }: { projectId: number }) {
   const [isDragging, setIsDragging] = useState(false);
   const [uploadingFiles, setUploadingFiles] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const versionInputRef = useRef<HTMLInputElement>(null);
   const utils = trpc.useUtils();
 
+  const [selectedDocumentId, setSelectedDocumentId] = useState<number | null>(null);
+  const [historyDocumentId, setHistoryDocumentId] = useState<number | null>(null);
+  const [versionTargetId, setVersionTargetId] = useState<number | null>(null);
+
   const { data: documents, isLoading } = trpc.document.list.useQuery(
     { projectId },
-    { enabled: !!projectId }
+    {
+      enabled: !!projectId,
+      // Text extraction runs in the background job queue: poll until it settles
+      refetchInterval: (query) =>
+        query.state.data?.some((item) =>
+          item.document.extractionStatus === "pending" || item.document.extractionStatus === "processing"
+        )
+          ? 5000
+          : false,
+    }
   );
 
   const uploadMutation = trpc.document.upload.useMutation({
@@ -1287,6 +1648,63 @@ function DocumentsSection({ projectId }: { projectId: number }) {
     },
   });
 
+  const uploadVersionMutation = trpc.document.uploadVersion.useMutation({
+    onSuccess: (data) => {
+      utils.document.list.invalidate();
+      utils.document.history.invalidate();
+      toast.success(`Version ${data.version} uploadée`);
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const handleVersionSelect = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file || versionTargetId === null) return;
+    if (file.size > 10 * 1024 * 1024) {
+      toast.error(`${file.name} dépasse la limite de 10MB`);
+      return;
+    }
+
+    setUploadingFiles((prev) => [...prev, file.name]);
+    try {
+      await uploadVersionMutation.mutateAsync({
+        documentId: versionTargetId,
+        name: file.name,
+        content: await fileToBase64(file),
+        mimeType: file.type,
+      });
+    } catch (error) {
+      console.error("Upload error:", error);
+    } finally {
+      setUploadingFiles((prev) => prev.filter((n) => n !== file.name));
+      setVersionTargetId(null);
+      if (versionInputRef.current) versionInputRef.current.value = "";
+    }
+  };
+
+  const { data: events } = trpc.cognitiveEvent.list.useQuery(
+    { projectId, limit: 50 },
+    { enabled: !!projectId }
+  );
+  const contradictions = events?.filter((event) => event.type === "contradiction_detected") ?? [];
+
+  const contradictionsMutation = trpc.cognitiveEvent.detectContradictions.useMutation({
+    onSuccess: (data) => {
+      utils.cognitiveEvent.list.invalidate({ projectId });
+      if (data.degraded === "budget_exceeded") {
+        toast.warning("Budget LLM atteint : seuls les écarts de chiffres ont été vérifiés");
+      }
+      toast.success(
+        data.stored > 0 ? `${data.stored} nouvelle(s) incohérence(s) détectée(s)` : "Aucune nouvelle incohérence"
+      );
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
   const handleFileSelect = async (files: FileList | null) => {
     if (!files) return;
 
@@ -1335,13 +1753,33 @@ function DocumentsSection({ projectId }: { projectId: number }) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <FileText className="h-5 w-5 text-primary" />
-          Documents
-        </CardTitle>
-        <CardDescription>
-          {documents?.length || 0} document(s) partagé(s)
-        </CardDescription>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" />
+              Documents
+            </CardTitle>
+            <CardDescription>
+              {documents?.length || 0} document(s) partagé(s)
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => contradictionsMutation.mutate({ projectId })}
+            disabled={
+              contradictionsMutation.isPending ||
+              !documents?.some((item) => item.document.extractionStatus === "completed")
+            }
+          >
+            {contradictionsMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Scale className="h-4 w-4 mr-2" />
+            )}
+            Vérifier la cohérence
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Upload Zone */}
@@ -1356,14 +1794,14 @@ function DocumentsSection({ projectId }: { projectId: number }) {
           <p className="text-sm font-medium">
             {isDragging ? "Déposez ici" : "Glissez-déposez ou cliquez"}
           </p>
-          <p className="text-xs text-muted-foreground">PDF, Word, Images (max 10MB)</p>
+          <p className="text-xs text-muted-foreground">PDF, Word, Markdown, texte, CSV, Images (max 10MB)</p>
           <input
             ref={fileInputRef}
             type="file"
             multiple
             className="hidden"
             onChange={(e) => handleFileSelect(e.target.files)}
-            accept=".pdf,.doc,.docx,.png,.jpg,.jpeg,.svg,.md"
+            accept=".pdf,.doc,.docx,.png,.jpg,.jpeg,.svg,.md,.txt,.csv"
           />
         </div>
 
@@ -1404,10 +1842,56 @@ function DocumentsSection({ projectId }: { projectId: number }) {
                     <p className="font-medium text-sm truncate">{item.document.name}</p>
                     <p className="text-xs text-muted-foreground">
                       {new Date(item.document.createdAt).toLocaleDateString("fr-FR")}
+                      {item.versionCount > 1 && ` · v${item.document.version} (${item.versionCount} versions)`}
                     </p>
                   </div>
                 </div>
                 <div className="flex items-center gap-1">
+                  {(item.document.extractionStatus === "pending" ||
+                    item.document.extractionStatus === "processing") && (
+                    <span className="analysis-indicator analysis-info">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Lecture...
+                    </span>
+                  )}
+                  {item.document.extractionStatus === "failed" && (
+                    <span className="analysis-indicator analysis-danger">
+                      <XCircle className="h-3 w-3" />
+                      Illisible
+                    </span>
+                  )}
+                  {item.document.extractionStatus === "completed" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setSelectedDocumentId(item.document.id)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Historique des versions"
+                    onClick={() => setHistoryDocumentId(item.document.id)}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Nouvelle version"
+                    disabled={uploadVersionMutation.isPending}
+                    onClick={() => {
+                      setVersionTargetId(item.document.id);
+                      versionInputRef.current?.click();
+                    }}
+                  >
+                    <Upload className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -1434,13 +1918,294 @@ function DocumentsSection({ projectId }: { projectId: number }) {
             <p className="text-sm text-muted-foreground">Aucun document</p>
           </div>
         )}
+        <input
+          ref={versionInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => handleVersionSelect(e.target.files)}
+          accept=".pdf,.doc,.docx,.png,.jpg,.jpeg,.svg,.md,.txt,.csv"
+        />
+
+        {/* Contradictions between documents and discussions */}
+        {contradictions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-cognitive-warning" />
+              Incohérences
+            </p>
+            {contradictions.map((event) => {
+              const data = (event.data ?? {}) as { documentName?: string; passage?: string; statement?: string };
+              return (
+                <div
+                  key={event.id}
+                  className={`p-2 rounded-lg text-sm border-l-2 ${
+                    event.severity === "critical"
+                      ? "bg-cognitive-danger/10 border-cognitive-danger"
+                      : "bg-cognitive-warning/10 border-cognitive-warning"
+                  }`}
+                >
+                  <p className="font-medium">{event.description}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {data.documentName} : « {data.passage} »
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {event.sourceDecisionId ? "Décision" : "Message"} : « {data.statement} »
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </CardContent>
+
+      <DocumentDetailDialog documentId={selectedDocumentId} onClose={() => setSelectedDocumentId(null)} />
+      <DocumentHistoryDialog
+        documentId={historyDocumentId}
+        onClose={() => setHistoryDocumentId(null)}
+        onView={setSelectedDocumentId}
+      />
     </Card>
   );
 }
 
+function DocumentHistoryDialog({
+  documentId,
+  onClose,
+  onView,
+}: {
+  documentId: number | null;
+  onClose: () => void;
+  onView: (id: number) => void;
+}) {
+  const utils = trpc.useUtils();
+  const [compared, setCompared] = useState<{ fromId: number; toId: number } | null>(null);
+
+  const { data: versions, isLoading } = trpc.document.history.useQuery(
+    { id: documentId ?? 0 },
+    { enabled: documentId !== null }
+  );
+  const { data: diff, isLoading: isDiffLoading, error: diffError } = trpc.document.diff.useQuery(
+    compared ?? { fromId: 0, toId: 0 },
+    { enabled: compared !== null, retry: false }
+  );
+
+  const restoreMutation = trpc.document.restore.useMutation({
+    onSuccess: (data) => {
+      utils.document.list.invalidate();
+      utils.document.history.invalidate();
+      toast.success(`Restaurée comme version ${data.version}`);
+    },
+    onError: (error) => {
+      toast.error("Erreur: " + error.message);
+    },
+  });
+
+  const close = () => {
+    setCompared(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={documentId !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Historique des versions
+          </DialogTitle>
+          <DialogDescription>{versions?.[0]?.document.name}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-2">
+            {versions?.map(({ document, uploader }, index) => {
+              const previous = versions[index + 1]?.document;
+              return (
+                <div key={document.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      v{document.version} · {document.name}
+                      {index === 0 && <span className="text-xs text-muted-foreground"> (actuelle)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(document.createdAt).toLocaleString("fr-FR")} · {uploader.name}
+                      {document.description && ` · ${document.description}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {previous &&
+                      previous.extractionStatus === "completed" &&
+                      document.extractionStatus === "completed" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title={`Comparer avec la version ${previous.version}`}
+                          onClick={() => setCompared({ fromId: previous.id, toId: document.id })}
+                        >
+                          <GitCompare className="h-4 w-4" />
+                        </Button>
+                      )}
+                    {document.extractionStatus === "completed" && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onView(document.id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {index > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Restaurer cette version"
+                        disabled={restoreMutation.isPending}
+                        onClick={() => restoreMutation.mutate({ id: document.id })}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {compared && (
+          <div className="space-y-2">
+            {isDiffLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : diffError ? (
+              <p className="text-sm text-destructive">{diffError.message}</p>
+            ) : diff ? (
+              <>
+                <p className="text-xs font-medium text-muted-foreground">
+                  v{diff.from.version} → v{diff.to.version} ·{" "}
+                  <span className="text-cognitive-success">+{diff.addedLines}</span>{" "}
+                  <span className="text-cognitive-danger">-{diff.removedLines}</span> lignes
+                  {diff.truncated && " · textes trop différents pour une comparaison détaillée"}
+                </p>
+                <ScrollArea className="h-[300px] rounded-lg border">
+                  <div className="p-2 font-mono text-xs">
+                    {diff.blocks.map((block, i) => (
+                      <div key={i}>
+                        {block.lines.map((line, j) => (
+                          <p
+                            key={j}
+                            className={`whitespace-pre-wrap px-1 ${
+                              block.type === "added"
+                                ? "bg-cognitive-success/10 text-cognitive-success"
+                                : block.type === "removed"
+                                ? "bg-cognitive-danger/10 text-cognitive-danger line-through"
+                                : "text-muted-foreground"
+                            }`}
+                          >
+                            {block.type === "added" ? "+ " : block.type === "removed" ? "- " : "  "}
+                            {line}
+                          </p>
+                        ))}
+                        {block.hiddenLines !== undefined && (
+                          <p className="px-1 py-1 text-center text-muted-foreground italic">
+                            … {block.hiddenLines} ligne(s) inchangée(s)
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </>
+            ) : null}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DocumentDetailDialog({ documentId, onClose }: { documentId: number | null; onClose: () => void }) {
+  const { data: document, isLoading } = trpc.document.get.useQuery(
+    { id: documentId ?? 0 },
+    { enabled: documentId !== null }
+  );
+  const analysis = document?.analysis;
+
+  return (
+    <Dialog open={documentId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-primary" />
+            <span className="truncate">{document?.name ?? "Document"}</span>
+          </DialogTitle>
+          {analysis && (
+            <DialogDescription>
+              {analysis.wordCount.toLocaleString("fr-FR")} mots · Sentiment{" "}
+              {analysis.sentiment > 0.2 ? "positif" : analysis.sentiment < -0.2 ? "négatif" : "neutre"} ·
+              Esprit critique {Math.round(analysis.criticalThinkingScore * 100)}%
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !document ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {document.summary && (
+              <div className="p-3 bg-muted/50 rounded-lg border-l-2 border-primary">
+                <p className="text-xs font-medium text-muted-foreground mb-1">Résumé</p>
+                <p className="text-sm">{document.summary}</p>
+              </div>
+            )}
+
+            {analysis && analysis.biasIndicators.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-cognitive-warning" />
+                  Biais détectés
+                </p>
+                {analysis.biasIndicators.map((bias) => (
+                  <div key={bias.type} className="p-2 bg-cognitive-warning/10 rounded-lg text-sm">
+                    <p className="font-medium">
+                      {bias.type.replace(/_/g, " ")} ({Math.round(bias.confidence * 100)}%)
+                    </p>
+                    {bias.evidence.length > 0 && (
+                      <p className="text-xs text-muted-foreground">« {bias.evidence.join(" », « ")} »</p>
+                    )}
+                    <p className="text-xs mt-1">{bias.recommendation}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {analysis && analysis.cognitivePatterns.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {analysis.cognitivePatterns.map((pattern) => (
+                  <span key={pattern} className="px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary">
+                    {pattern.replace(/_/g, " ")}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1">Texte extrait</p>
+              <ScrollArea className="h-[300px] rounded-lg border p-3">
+                <p className="text-sm whitespace-pre-wrap">{document.extractedText || "Aucun texte"}</p>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // ==================== AUDIO SECTION ====================
-function AudioSection({ projectId }: { projectId: number }) {
+function AudioSection({ projectId, teamId }: { projectId: number; teamId: number }) {
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
@@ -1452,14 +2217,22 @@ function AudioSection({ projectId }: { projectId: number }) {
 
   const { data: audioRecordings, isLoading } = trpc.audio.list.useQuery(
     { projectId },
-    { enabled: !!projectId }
+    {
+      enabled: !!projectId,
+      // Transcriptions run in the background job queue: poll until they settle
+      refetchInterval: (query) =>
+        query.state.data?.some((item) =>
+          item.audio.transcriptionStatus === "pending" || item.audio.transcriptionStatus === "processing"
+        )
+          ? 5000
+          : false,
+    }
   );
 
   const uploadMutation = trpc.audio.upload.useMutation({
-    onSuccess: (data) => {
+    onSuccess: () => {
       utils.audio.list.invalidate();
       toast.success("Audio uploadé, transcription en cours...");
-      transcribeMutation.mutate({ audioId: data.id });
     },
     onError: (error) => {
       toast.error("Erreur: " + error.message);
@@ -1467,20 +2240,6 @@ function AudioSection({ projectId }: { projectId: number }) {
     },
   });
 
-  const transcribeMutation = trpc.audio.transcribe.useMutation({
-    onSuccess: (data) => {
-      utils.audio.list.invalidate();
-      toast.success("Transcription terminée");
-      
-      if (data.analysis?.triggeredPings?.length > 0) {
-        toast.warning(`${data.analysis.triggeredPings.length} alerte(s) cognitive(s) détectée(s)`);
-      }
-    },
-    onError: () => {
-      toast.error("Erreur de transcription");
-    },
-  });
-
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -1531,7 +2290,7 @@ function AudioSection({ projectId }: { projectId: number }) {
       await uploadMutation.mutateAsync({
         projectId,
         content: base64,
-        mimeType: "audio/webm",
+        mimeType: audioBlob.type || "audio/webm",
         duration: recordingTime,
       });
       setAudioBlob(null);
@@ -1607,6 +2366,9 @@ function AudioSection({ projectId }: { projectId: number }) {
           )}
         </div>
 
+        <AudioParticipation projectId={projectId} />
+        <TalkTimeTimeline teamId={teamId} />
+
         {/* Audio Recordings List */}
         {isLoading ? (
           <div className="space-y-2">
@@ -1615,7 +2377,7 @@ function AudioSection({ projectId }: { projectId: number }) {
             ))}
           </div>
         ) : audioRecordings && audioRecordings.length > 0 ? (
-          <div className="space-y-3 max-h-[300px] overflow-y-auto">
+          <div className="space-y-3 max-h-[600px] overflow-y-auto">
             {audioRecordings.map((item) => (
               <div
                 key={item.audio.id}
@@ -1661,6 +2423,13 @@ function AudioSection({ projectId }: { projectId: number }) {
                     </p>
                   </div>
                 )}
+
+                {item.audio.transcriptionStatus === "completed" && (
+                  <>
+                    <AudioSpeakers audioId={item.audio.id} teamId={teamId} />
+                    <SpeechRhythmChart audioId={item.audio.id} />
+                  </>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,255 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getLoginUrl } from "@/const";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Loader2, ShieldAlert } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { toast } from "sonner";
+
+const PURPOSE_LABELS: Record<string, string> = {
+  default: "Divers",
+  bias_detection: "Détection de biais",
+  analysis: "Analyse de messages",
+  summary: "Résumés de mémoire",
+  cv_extraction: "Extraction de CV",
+  diarization: "Diarisation audio",
+  decision_extraction: "Extraction de décisions",
+  insights: "Recommandations",
+  contradiction_detection: "Détection d'incohérences",
+  hypothesis_extraction: "Extraction d'hypothèses",
+};
+
+const formatTokens = (value: number) => value.toLocaleString("fr-FR");
+
+type UsageRow = { calls: number; tokens: number };
+
+const byTokens = <T extends UsageRow>(rows: T[]) => [...rows].sort((a, b) => b.tokens - a.tokens);
+
+function UsageTable({ title, rows }: { title: string; rows: Array<UsageRow & { label: string }> }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">Appels</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.label}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell className="text-right">{row.calls}</TableCell>
+                  <TableCell className="text-right">{formatTokens(row.tokens)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-center text-sm text-muted-foreground py-4">Aucun appel ce mois-ci</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function TeamUsage() {
+  const { user, loading } = useAuth();
+  const [, setLocation] = useLocation();
+  const params = useParams<{ id: string }>();
+  const teamId = parseInt(params.id || "0");
+  const [budgetInput, setBudgetInput] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data, isLoading, error } = trpc.llmUsage.summary.useQuery(
+    { teamId },
+    { enabled: !!teamId && !!user, retry: false }
+  );
+
+  useEffect(() => {
+    if (data) setBudgetInput(data.budget === null ? "" : String(data.budget));
+  }, [data?.budget]);
+
+  const setBudgetMutation = trpc.llmUsage.setBudget.useMutation({
+    onSuccess: () => {
+      toast.success("Budget mis à jour");
+      utils.llmUsage.summary.invalidate({ teamId });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Impossible de modifier le budget");
+    },
+  });
+
+  if (loading || (isLoading && !!user)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    window.location.href = getLoginUrl();
+    return null;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <CardTitle>Accès réservé</CardTitle>
+            <CardDescription>La consommation LLM est réservée au propriétaire de l'équipe.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const saveBudget = () => {
+    const trimmed = budgetInput.trim();
+    const budget = trimmed === "" ? null : Number(trimmed);
+    if (budget !== null && (!Number.isInteger(budget) || budget < 0)) {
+      toast.error("Le budget doit être un nombre entier de tokens");
+      return;
+    }
+    setBudgetMutation.mutate({ teamId, monthlyTokenBudget: budget });
+  };
+
+  const totalCalls = data.byPurpose.reduce((sum, row) => sum + row.calls, 0);
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/teams")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Consommation LLM</h1>
+            <p className="text-sm text-muted-foreground">
+              Depuis le {new Date(data.periodStart).toLocaleDateString("fr-FR")}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Tokens consommés</p>
+              <p className="text-2xl font-bold">{formatTokens(data.used)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Appels</p>
+              <p className="text-2xl font-bold">{totalCalls}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Tokens restants</p>
+              <p className="text-2xl font-bold">
+                {data.remaining === null ? "Illimité" : formatTokens(data.remaining)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Budget mensuel</CardTitle>
+                <CardDescription>
+                  Une fois le budget atteint, les analyses passent en mode dégradé (détection locale
+                  par mots-clés) jusqu'au mois suivant
+                </CardDescription>
+              </div>
+              {data.exceeded && <Badge variant="destructive">Mode dégradé</Badge>}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.budget !== null && (
+              <Progress value={data.budget > 0 ? Math.min(100, (data.used / data.budget) * 100) : 100} />
+            )}
+            <div className="flex items-end gap-2">
+              <div className="space-y-2 flex-1 max-w-xs">
+                <Label htmlFor="budget">Tokens par mois</Label>
+                <Input
+                  id="budget"
+                  type="number"
+                  min={0}
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  placeholder="Illimité"
+                />
+              </div>
+              <Button onClick={saveBudget} disabled={setBudgetMutation.isPending}>
+                Enregistrer
+              </Button>
+              {data.budget !== null && (
+                <Button
+                  variant="outline"
+                  onClick={() => setBudgetMutation.mutate({ teamId, monthlyTokenBudget: null })}
+                  disabled={setBudgetMutation.isPending}
+                >
+                  Supprimer la limite
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <UsageTable
+            title="Par usage"
+            rows={byTokens(data.byPurpose).map((row) => ({ ...row, label: PURPOSE_LABELS[row.purpose] ?? row.purpose }))}
+          />
+          <UsageTable
+            title="Par projet"
+            rows={byTokens(data.byProject).map((row) => ({
+              ...row,
+              label: row.projectName ?? (row.projectId === null ? "Hors projet" : `Projet #${row.projectId}`),
+            }))}
+          />
+          <UsageTable
+            title="Par membre"
+            rows={byTokens(data.byUser).map((row) => ({
+              ...row,
+              label: row.userName ?? (row.userId === null ? "Traitements automatiques" : `Utilisateur #${row.userId}`),
+            }))}
+          />
+          <UsageTable
+            title="Par jour"
+            rows={data.byDay.map((row) => ({
+              ...row,
+              label: new Date(row.day).toLocaleDateString("fr-FR"),
+            }))}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,13 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Sidebar,
   SidebarContent,
@@ -54,10 +61,12 @@ import {
   Copy,
   Link,
   Loader2,
+  Gauge,
 } from "lucide-react";
 import { CSSProperties, useState } from "react";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
+import type { TemplateType } from "../../../server/cognitiveTemplates";
 
 const menuItems = [
   { icon: Activity, label: "Dashboard", path: "/dashboard" },
@@ -78,6 +87,7 @@ export default function Teams() {
   const [newTeamDescription, setNewTeamDescription] = useState("");
   const [newProjectName, setNewProjectName] = useState("");
   const [newProjectDescription, setNewProjectDescription] = useState("");
+  const [newProjectTemplate, setNewProjectTemplate] = useState<TemplateType | null>(null);
   const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
   const [inviteTeamId, setInviteTeamId] = useState<number | null>(null);
   const [inviteEmail, setInviteEmail] = useState("");
@@ -94,6 +104,19 @@ export default function Teams() {
     { enabled: !!selectedTeam }
   );
 
+  const { data: templates } = trpc.template.list.useQuery(undefined, {
+    enabled: isCreateProjectOpen,
+  });
+
+  const { data: suggestedTemplate } = trpc.template.suggest.useQuery(
+    { teamId: selectedTeam! },
+    { enabled: !!selectedTeam && isCreateProjectOpen }
+  );
+
+  // Template suggéré tant que l'utilisateur n'en a pas choisi un autre
+  const projectTemplate = newProjectTemplate ?? suggestedTemplate?.templateId;
+  const projectTemplateInfo = templates?.find(t => t.id === projectTemplate);
+
   const createTeamMutation = trpc.team.create.useMutation({
     onSuccess: () => {
       utils.team.list.invalidate();
@@ -113,6 +136,7 @@ export default function Teams() {
       setIsCreateProjectOpen(false);
       setNewProjectName("");
       setNewProjectDescription("");
+      setNewProjectTemplate(null);
       toast.success("Projet créé avec succès");
     },
     onError: (error) => {
@@ -181,6 +205,7 @@ export default function Teams() {
       teamId: selectedTeam,
       name: newProjectName,
       description: newProjectDescription || undefined,
+      templateType: projectTemplate,
     });
   };
 
@@ -291,6 +316,30 @@ export default function Teams() {
                         placeholder="Décrivez les objectifs du projet..."
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="projectTemplate">Template cognitif</Label>
+                      <Select
+                        value={projectTemplate}
+                        onValueChange={(value) => setNewProjectTemplate(value as TemplateType)}
+                      >
+                        <SelectTrigger id="projectTemplate" className="w-full">
+                          <SelectValue placeholder="Choisir un template" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates?.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.emoji} {template.name}
+                              {template.id === suggestedTemplate?.templateId && " (suggéré)"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {projectTemplateInfo && (
+                        <p className="text-xs text-muted-foreground">
+                          {projectTemplateInfo.description}
+                        </p>
+                      )}
+                    </div>
                   </div>
                   <DialogFooter>
                     <Button variant="outline" onClick={() => setIsCreateProjectOpen(false)}>
@@ -491,6 +540,12 @@ export default function Teams() {
                                 <Settings className="mr-2 h-4 w-4" />
                                 Paramètres
                               </DropdownMenuItem>
+                              {team.ownerId === user?.id && (
+                                <DropdownMenuItem onClick={() => setLocation(`/teams/${team.id}/usage`)}>
+                                  <Gauge className="mr-2 h-4 w-4" />
+                                  Consommation LLM
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuItem
                                 className="text-destructive"
                                 onClick={() => deleteTeamMutation.mutate({ id: team.id })}
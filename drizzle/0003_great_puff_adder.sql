@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `notificationPreferences` json;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `inbox_notifications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`projectId` int,
+	`notificationType` enum('bias_alert','ping_triggered','decision_made','member_joined','cognitive_insight','celebration','reminder') NOT NULL,
+	`priority` int NOT NULL DEFAULT 3,
+	`title` varchar(255) NOT NULL,
+	`message` text NOT NULL,
+	`notificationStyle` enum('toast','banner','subtle','modal') NOT NULL DEFAULT 'toast',
+	`duration` int NOT NULL DEFAULT 5000,
+	`action` json,
+	`data` json,
+	`inboxStatus` enum('unread','read','archived') NOT NULL DEFAULT 'unread',
+	`readAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `inbox_notifications_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,4 @@
+ALTER TABLE `projects` ADD `templateType` enum('startup','product_tech','consulting','creative','research','operations','custom');--> statement-breakpoint
+ALTER TABLE `projects` ADD `customTemplate` json;--> statement-breakpoint
+ALTER TABLE `teams` ADD `templateType` enum('startup','product_tech','consulting','creative','research','operations','custom');--> statement-breakpoint
+ALTER TABLE `teams` ADD `customTemplate` json;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `ping_alert_states` (
+	`projectId` int NOT NULL,
+	`lastAlertTimes` json NOT NULL,
+	`lastPingTimes` json NOT NULL,
+	`recentPings` json NOT NULL,
+	`alertCount` int NOT NULL DEFAULT 0,
+	`sessionStart` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ping_alert_states_projectId` PRIMARY KEY(`projectId`)
+);
+--> statement-breakpoint
+CREATE TABLE `suppressed_pings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`pingType` varchar(64) NOT NULL,
+	`biasType` varchar(64),
+	`suppressionReason` enum('disabled','hourly_limit','cooldown','session_limit') NOT NULL,
+	`content` text NOT NULL,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `suppressed_pings_id` PRIMARY KEY(`id`)
+);
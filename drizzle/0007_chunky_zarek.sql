@@ -0,0 +1,6 @@
+ALTER TABLE `projects` ADD `lastPingCTByType` json;--> statement-breakpoint
+UPDATE `projects` SET `lastPingCTByType` = JSON_OBJECT('dominance', `lastPingCT`) WHERE `lastPingCT` >= 80;--> statement-breakpoint
+UPDATE `projects` SET `lastPingCTByType` = JSON_SET(`lastPingCTByType`, '$.bias', `lastPingCT`) WHERE `lastPingCT` >= 120;--> statement-breakpoint
+UPDATE `projects` SET `lastPingCTByType` = JSON_SET(`lastPingCTByType`, '$.groupthink', `lastPingCT`) WHERE `lastPingCT` >= 150;--> statement-breakpoint
+UPDATE `projects` SET `lastPingCTByType` = JSON_SET(`lastPingCTByType`, '$.cognitivelock', `lastPingCT`) WHERE `lastPingCT` >= 200;--> statement-breakpoint
+ALTER TABLE `projects` DROP COLUMN `lastPingCT`;
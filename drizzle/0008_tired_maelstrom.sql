@@ -0,0 +1 @@
+ALTER TABLE `cognitive_memories` ADD `embeddingModel` varchar(100);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `cognitive_memories` ADD `decisionId` int;
\ No newline at end of file
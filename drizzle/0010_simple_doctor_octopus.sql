@@ -0,0 +1,16 @@
+CREATE TABLE `audio_segments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`audioId` int NOT NULL,
+	`projectId` int NOT NULL,
+	`speakerId` varchar(50) NOT NULL,
+	`startTime` float NOT NULL,
+	`endTime` float NOT NULL,
+	`text` text NOT NULL,
+	`confidence` float,
+	`cognitiveTokens` int NOT NULL DEFAULT 0,
+	`biasIndicators` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audio_segments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `audio_recordings` ADD `speakerMapping` json;
\ No newline at end of file
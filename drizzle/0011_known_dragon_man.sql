@@ -0,0 +1 @@
+ALTER TABLE `audio_recordings` ADD `speechRhythm` json;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobType` enum('audio_transcription','message_analysis','memory_embedding','metrics_recompute') NOT NULL,
+	`payload` json NOT NULL,
+	`jobStatus` enum('pending','running','completed','dead') NOT NULL DEFAULT 'pending',
+	`idempotencyKey` varchar(191),
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 5,
+	`runAt` timestamp NOT NULL DEFAULT (now()),
+	`lockedAt` timestamp,
+	`lockedBy` varchar(64),
+	`lastError` text,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `jobs_idempotencyKey_unique` UNIQUE(`idempotencyKey`)
+);
@@ -0,0 +1,17 @@
+CREATE TABLE `llm_usage` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`teamId` int,
+	`projectId` int,
+	`userId` int,
+	`purpose` varchar(32) NOT NULL,
+	`provider` varchar(32) NOT NULL,
+	`model` varchar(100) NOT NULL,
+	`promptTokens` int NOT NULL DEFAULT 0,
+	`completionTokens` int NOT NULL DEFAULT 0,
+	`totalTokens` int NOT NULL DEFAULT 0,
+	`durationMs` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `llm_usage_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `teams` ADD `llmMonthlyTokenBudget` int;
\ No newline at end of file
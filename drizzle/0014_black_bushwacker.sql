@@ -0,0 +1,6 @@
+ALTER TABLE `jobs` MODIFY COLUMN `jobType` enum('audio_transcription','message_analysis','memory_embedding','metrics_recompute','document_extraction') NOT NULL;--> statement-breakpoint
+ALTER TABLE `documents` ADD `extractionStatus` enum('pending','processing','completed','failed','unsupported') DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE `documents` ADD `extractedText` mediumtext;--> statement-breakpoint
+ALTER TABLE `documents` ADD `summary` text;--> statement-breakpoint
+ALTER TABLE `documents` ADD `analysis` json;--> statement-breakpoint
+ALTER TABLE `documents` ADD `extractionError` text;
\ No newline at end of file
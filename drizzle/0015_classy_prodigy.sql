@@ -0,0 +1 @@
+ALTER TABLE `cognitive_events` MODIFY COLUMN `eventType` enum('bias_detected','convergence_warning','diversity_alert','decision_quality_change','pattern_recognized','intervention_triggered','milestone_reached','contradiction_detected') NOT NULL;
\ No newline at end of file
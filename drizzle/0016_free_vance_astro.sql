@@ -0,0 +1,42 @@
+CREATE TABLE `decision_hypotheses` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`decisionId` int NOT NULL,
+	`hypothesisId` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `decision_hypotheses_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `hypotheses` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`statement` text NOT NULL,
+	`ownerId` int,
+	`hypothesisStatus` enum('untested','validated','invalidated') NOT NULL DEFAULT 'untested',
+	`hypothesisOrigin` enum('manual','extracted') NOT NULL DEFAULT 'manual',
+	`createdBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `hypotheses_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `hypothesis_evidence` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`hypothesisId` int NOT NULL,
+	`evidenceSourceType` enum('message','document','decision') NOT NULL,
+	`sourceId` int NOT NULL,
+	`note` text,
+	`addedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `hypothesis_evidence_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `hypothesis_status_changes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`hypothesisId` int NOT NULL,
+	`fromStatus` enum('untested','validated','invalidated'),
+	`toStatus` enum('untested','validated','invalidated') NOT NULL,
+	`changedBy` int,
+	`note` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `hypothesis_status_changes_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,10 @@
+CREATE TABLE `decision_history` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`decisionId` int NOT NULL,
+	`fromStatus` enum('proposed','discussing','voting','decided','implemented','revised'),
+	`toStatus` enum('proposed','discussing','voting','decided','implemented','revised') NOT NULL,
+	`changedBy` int,
+	`reason` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `decision_history_id` PRIMARY KEY(`id`)
+);
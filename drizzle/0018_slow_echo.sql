@@ -0,0 +1,7 @@
+ALTER TABLE `jobs` MODIFY COLUMN `jobType` enum('audio_transcription','message_analysis','memory_embedding','metrics_recompute','document_extraction','decision_vote_close') NOT NULL;--> statement-breakpoint
+ALTER TABLE `decisions` ADD `votingConfig` json;--> statement-breakpoint
+ALTER TABLE `decisions` ADD `votingDeadline` timestamp;--> statement-breakpoint
+ALTER TABLE `votes` ADD `ranking` json;--> statement-breakpoint
+ALTER TABLE `votes` ADD `updatedAt` timestamp DEFAULT (now()) NOT NULL ON UPDATE CURRENT_TIMESTAMP;--> statement-breakpoint
+DELETE `older` FROM `votes` `older` JOIN `votes` `newer` ON `older`.`decisionId` = `newer`.`decisionId` AND `older`.`userId` = `newer`.`userId` AND `older`.`id` < `newer`.`id`;--> statement-breakpoint
+ALTER TABLE `votes` ADD CONSTRAINT `votes_decision_user_idx` UNIQUE(`decisionId`,`userId`);
\ No newline at end of file
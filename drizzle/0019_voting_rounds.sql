@@ -0,0 +1,4 @@
+ALTER TABLE `votes` DROP INDEX `votes_decision_user_idx`;--> statement-breakpoint
+ALTER TABLE `decisions` ADD `votingRound` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `votes` ADD `round` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `votes` ADD CONSTRAINT `votes_decision_round_user_idx` UNIQUE(`decisionId`,`round`,`userId`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `audio_recordings` ADD `mimeType` varchar(100);
\ No newline at end of file
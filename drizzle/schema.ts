@@ -1,4 +1,9 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, float, boolean } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, mediumtext, timestamp, varchar, json, float, boolean, uniqueIndex } from "drizzle-orm/mysql-core";
+import type { CognitiveTemplate } from "../server/cognitiveTemplates";
+import type { CTPingMarks } from "../server/cognitiveTokens";
+import type { VotingConfig } from "../server/decisionVoting";
+import type { DocumentAnalysis } from "../server/documentExtraction";
+import type { SpeechRhythmAnalysis } from "../server/speechRhythm";
 
 // ==================== USERS ====================
 export const users = mysqlTable("users", {
@@ -43,6 +48,15 @@ export const users = mysqlTable("users", {
     source: 'linkedin' | 'cv' | 'manual';
     lastUpdated: string;
   }>(),
+  // Real-time notification preferences (types, priority, quiet hours)
+  notificationPreferences: json("notificationPreferences").$type<{
+    enabled: boolean;
+    allowedTypes: string[];
+    minPriority: 1 | 2 | 3 | 4;
+    silent: boolean;
+    quietHours?: string;
+    timezone?: string;
+  }>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
@@ -63,6 +77,9 @@ export const teams = mysqlTable("teams", {
     diversityTarget: number;
     convergenceWarningLevel: number;
   }>(),
+  templateType: mysqlEnum("templateType", ["startup", "product_tech", "consulting", "creative", "research", "operations", "custom"]),
+  customTemplate: json("customTemplate").$type<CognitiveTemplate>(),
+  llmMonthlyTokenBudget: int("llmMonthlyTokenBudget"), // null = unlimited
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -118,7 +135,9 @@ export const projects = mysqlTable("projects", {
     decisionQuality: number;
   }>(),
   cognitiveTokens: int("cognitiveTokens").default(0).notNull(),
-  lastPingCT: int("lastPingCT").default(0).notNull(),
+  lastPingCTByType: json("lastPingCTByType").$type<CTPingMarks>(),
+  templateType: mysqlEnum("templateType", ["startup", "product_tech", "consulting", "creative", "research", "operations", "custom"]),
+  customTemplate: json("customTemplate").$type<CognitiveTemplate>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -142,6 +161,10 @@ export const decisions = mysqlTable("decisions", {
   impactScore: float("impactScore"),
   confidenceLevel: float("confidenceLevel"),
   biasesDetected: json("biasesDetected").$type<string[]>(),
+  votingConfig: json("votingConfig").$type<VotingConfig>(),
+  votingDeadline: timestamp("votingDeadline"),
+  // Incremented each time voting opens; ballots belong to one round
+  votingRound: int("votingRound").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -149,20 +172,96 @@ export const decisions = mysqlTable("decisions", {
 export type Decision = typeof decisions.$inferSelect;
 export type InsertDecision = typeof decisions.$inferInsert;
 
+// Every status transition of a decision, with who made it and why
+export const decisionHistory = mysqlTable("decision_history", {
+  id: int("id").autoincrement().primaryKey(),
+  decisionId: int("decisionId").notNull(),
+  fromStatus: mysqlEnum("fromStatus", ["proposed", "discussing", "voting", "decided", "implemented", "revised"]),
+  toStatus: mysqlEnum("toStatus", ["proposed", "discussing", "voting", "decided", "implemented", "revised"]).notNull(),
+  changedBy: int("changedBy"),
+  reason: text("reason"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DecisionHistoryEntry = typeof decisionHistory.$inferSelect;
+export type InsertDecisionHistoryEntry = typeof decisionHistory.$inferInsert;
+
 // ==================== VOTES ====================
 export const votes = mysqlTable("votes", {
   id: int("id").autoincrement().primaryKey(),
   decisionId: int("decisionId").notNull(),
   userId: int("userId").notNull(),
+  // Voting round of the decision the ballot was cast in
+  round: int("round").default(0).notNull(),
   choice: varchar("choice", { length: 255 }).notNull(),
+  // Ranked-choice ballots: every option in order of preference (choice = first)
+  ranking: json("ranking").$type<string[]>(),
   reasoning: text("reasoning"),
   confidence: float("confidence"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  // One ballot per member and round; earlier rounds are kept for the record
+  uniqueIndex("votes_decision_round_user_idx").on(table.decisionId, table.round, table.userId),
+]);
 
 export type Vote = typeof votes.$inferSelect;
 export type InsertVote = typeof votes.$inferInsert;
 
+// ==================== HYPOTHESES ====================
+export const hypotheses = mysqlTable("hypotheses", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("projectId").notNull(),
+  statement: text("statement").notNull(),
+  ownerId: int("ownerId"),
+  status: mysqlEnum("hypothesisStatus", ["untested", "validated", "invalidated"]).default("untested").notNull(),
+  origin: mysqlEnum("hypothesisOrigin", ["manual", "extracted"]).default("manual").notNull(),
+  createdBy: int("createdBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Hypothesis = typeof hypotheses.$inferSelect;
+export type InsertHypothesis = typeof hypotheses.$inferInsert;
+export type HypothesisStatus = Hypothesis["status"];
+
+// Messages, documents and decisions supporting or refuting a hypothesis
+export const hypothesisEvidence = mysqlTable("hypothesis_evidence", {
+  id: int("id").autoincrement().primaryKey(),
+  hypothesisId: int("hypothesisId").notNull(),
+  sourceType: mysqlEnum("evidenceSourceType", ["message", "document", "decision"]).notNull(),
+  sourceId: int("sourceId").notNull(),
+  note: text("note"),
+  addedBy: int("addedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type HypothesisEvidence = typeof hypothesisEvidence.$inferSelect;
+export type InsertHypothesisEvidence = typeof hypothesisEvidence.$inferInsert;
+
+// Decisions resting on a hypothesis
+export const decisionHypotheses = mysqlTable("decision_hypotheses", {
+  id: int("id").autoincrement().primaryKey(),
+  decisionId: int("decisionId").notNull(),
+  hypothesisId: int("hypothesisId").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DecisionHypothesis = typeof decisionHypotheses.$inferSelect;
+
+export const hypothesisStatusChanges = mysqlTable("hypothesis_status_changes", {
+  id: int("id").autoincrement().primaryKey(),
+  hypothesisId: int("hypothesisId").notNull(),
+  fromStatus: mysqlEnum("fromStatus", ["untested", "validated", "invalidated"]),
+  toStatus: mysqlEnum("toStatus", ["untested", "validated", "invalidated"]).notNull(),
+  changedBy: int("changedBy"),
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type HypothesisStatusChange = typeof hypothesisStatusChanges.$inferSelect;
+export type InsertHypothesisStatusChange = typeof hypothesisStatusChanges.$inferInsert;
+
 // ==================== MESSAGES (Chat) ====================
 export const messages = mysqlTable("messages", {
   id: int("id").autoincrement().primaryKey(),
@@ -184,6 +283,7 @@ export const messages = mysqlTable("messages", {
     duration?: number;
     transcription?: string;
     transcriptionStatus?: "pending" | "processing" | "completed" | "failed";
+    transcriptionProgress?: { completedChunks: number; totalChunks: number };
     // Document-specific metadata
     documentId?: number;
     documentUrl?: string;
@@ -192,6 +292,9 @@ export const messages = mysqlTable("messages", {
     // CT-specific metadata
     ctTrigger?: number;
     ctValue?: number;
+    // Smart ping metadata
+    stats?: { label: string; value: string };
+    dominanceScope?: "recording" | "series";
   }>(),
   parentId: int("parentId"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -211,7 +314,8 @@ export const cognitiveEvents = mysqlTable("cognitive_events", {
     "decision_quality_change",
     "pattern_recognized",
     "intervention_triggered",
-    "milestone_reached"
+    "milestone_reached",
+    "contradiction_detected"
   ]).notNull(),
   severity: mysqlEnum("severity", ["info", "warning", "critical"]).default("info").notNull(),
   title: varchar("title", { length: 255 }).notNull(),
@@ -262,12 +366,14 @@ export const cognitiveMemories = mysqlTable("cognitive_memories", {
   id: int("id").autoincrement().primaryKey(),
   projectId: int("projectId"),
   teamId: int("teamId"),
+  decisionId: int("decisionId"),
   type: mysqlEnum("memoryType", ["decision_outcome", "error_pattern", "success_pattern", "strategy", "lesson_learned"]).notNull(),
   title: varchar("title", { length: 500 }).notNull(),
   content: text("content").notNull(),
   context: text("context"),
   tags: json("tags").$type<string[]>(),
   embedding: json("embedding").$type<number[]>(),
+  embeddingModel: varchar("embeddingModel", { length: 100 }),
   outcome: mysqlEnum("outcomeType", ["success", "failure", "neutral", "pending"]).default("pending"),
   impactScore: float("impactScore"),
   usageCount: int("usageCount").default(0),
@@ -312,6 +418,12 @@ export const documents = mysqlTable("documents", {
   version: int("version").default(1).notNull(),
   parentId: int("parentId"),
   description: text("description"),
+  // Text extraction and analysis of this version
+  extractionStatus: mysqlEnum("extractionStatus", ["pending", "processing", "completed", "failed", "unsupported"]).default("pending").notNull(),
+  extractedText: mediumtext("extractedText"),
+  summary: text("summary"),
+  analysis: json("analysis").$type<DocumentAnalysis>(),
+  extractionError: text("extractionError"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -362,6 +474,7 @@ export const audioRecordings = mysqlTable("audio_recordings", {
   userId: int("userId").notNull(),
   fileUrl: text("fileUrl").notNull(),
   fileKey: varchar("fileKey", { length: 500 }).notNull(),
+  mimeType: varchar("mimeType", { length: 100 }),
   duration: int("duration"), // in seconds
   transcription: text("transcription"),
   transcriptionStatus: mysqlEnum("transcriptionStatus", ["pending", "processing", "completed", "failed"]).default("pending").notNull(),
@@ -373,12 +486,34 @@ export const audioRecordings = mysqlTable("audio_recordings", {
     psychologicalState: { stress: number; confidence: number; engagement: number };
     keyTopics: string[];
   }>(),
+  // Diarization speakers (speaker_1, speaker_2...) mapped to team members
+  speakerMapping: json("speakerMapping").$type<Record<string, number>>(),
+  // Speech rhythm computed from the diarized segment timings
+  speechRhythm: json("speechRhythm").$type<SpeechRhythmAnalysis>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type AudioRecording = typeof audioRecordings.$inferSelect;
 export type InsertAudioRecording = typeof audioRecordings.$inferInsert;
 
+// ==================== AUDIO SEGMENTS (Diarization) ====================
+export const audioSegments = mysqlTable("audio_segments", {
+  id: int("id").autoincrement().primaryKey(),
+  audioId: int("audioId").notNull(),
+  projectId: int("projectId").notNull(),
+  speakerId: varchar("speakerId", { length: 50 }).notNull(),
+  startTime: float("startTime").notNull(), // seconds
+  endTime: float("endTime").notNull(), // seconds
+  text: text("text").notNull(),
+  confidence: float("confidence"),
+  cognitiveTokens: int("cognitiveTokens").default(0).notNull(),
+  biasIndicators: json("biasIndicators").$type<{ type: string; confidence: number }[]>(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AudioSegment = typeof audioSegments.$inferSelect;
+export type InsertAudioSegment = typeof audioSegments.$inferInsert;
+
 // ==================== REAL-TIME ANALYSIS ====================
 export const realtimeAnalysis = mysqlTable("realtime_analysis", {
   id: int("id").autoincrement().primaryKey(),
@@ -398,3 +533,96 @@ export const realtimeAnalysis = mysqlTable("realtime_analysis", {
 
 export type RealtimeAnalysis = typeof realtimeAnalysis.$inferSelect;
 export type InsertRealtimeAnalysis = typeof realtimeAnalysis.$inferInsert;
+
+// ==================== NOTIFICATION INBOX ====================
+export const inboxNotifications = mysqlTable("inbox_notifications", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  projectId: int("projectId"),
+  type: mysqlEnum("notificationType", ["bias_alert", "ping_triggered", "decision_made", "member_joined", "cognitive_insight", "celebration", "reminder"]).notNull(),
+  priority: int("priority").default(3).notNull(), // 1 = critique ... 4 = subtil
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message").notNull(),
+  style: mysqlEnum("notificationStyle", ["toast", "banner", "subtle", "modal"]).default("toast").notNull(),
+  duration: int("duration").default(5000).notNull(), // in ms, 0 = persistent
+  action: json("action").$type<{
+    label: string;
+    url?: string;
+    handler?: string;
+  }>(),
+  data: json("data").$type<Record<string, unknown>>(),
+  status: mysqlEnum("inboxStatus", ["unread", "read", "archived"]).default("unread").notNull(),
+  readAt: timestamp("readAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type InboxNotification = typeof inboxNotifications.$inferSelect;
+export type InsertInboxNotification = typeof inboxNotifications.$inferInsert;
+
+// ==================== SMART PING DISPATCH ====================
+export const pingAlertStates = mysqlTable("ping_alert_states", {
+  projectId: int("projectId").primaryKey(),
+  lastAlertTimes: json("lastAlertTimes").$type<Record<string, number>>().notNull(), // bias type -> ms timestamp
+  lastPingTimes: json("lastPingTimes").$type<Record<string, number>>().notNull(), // ping type -> ms timestamp
+  recentPings: json("recentPings").$type<Array<{ pingType: string; sentAt: number }>>().notNull(), // last hour
+  alertCount: int("alertCount").default(0).notNull(), // pings sent during the current session
+  sessionStart: timestamp("sessionStart").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type PingAlertState = typeof pingAlertStates.$inferSelect;
+export type InsertPingAlertState = typeof pingAlertStates.$inferInsert;
+
+export const suppressedPings = mysqlTable("suppressed_pings", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("projectId").notNull(),
+  pingType: varchar("pingType", { length: 64 }).notNull(),
+  biasType: varchar("biasType", { length: 64 }),
+  reason: mysqlEnum("suppressionReason", ["disabled", "hourly_limit", "cooldown", "session_limit"]).notNull(),
+  content: text("content").notNull(),
+  metadata: json("metadata").$type<Record<string, unknown>>(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type SuppressedPing = typeof suppressedPings.$inferSelect;
+export type InsertSuppressedPing = typeof suppressedPings.$inferInsert;
+
+// ==================== BACKGROUND JOBS ====================
+export const jobs = mysqlTable("jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  type: mysqlEnum("jobType", ["audio_transcription", "message_analysis", "memory_embedding", "metrics_recompute", "document_extraction", "decision_vote_close"]).notNull(),
+  payload: json("payload").$type<Record<string, unknown>>().notNull(),
+  status: mysqlEnum("jobStatus", ["pending", "running", "completed", "dead"]).default("pending").notNull(),
+  idempotencyKey: varchar("idempotencyKey", { length: 191 }).unique(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(5).notNull(),
+  runAt: timestamp("runAt").defaultNow().notNull(), // next attempt
+  lockedAt: timestamp("lockedAt"),
+  lockedBy: varchar("lockedBy", { length: 64 }),
+  lastError: text("lastError"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+
+// ==================== LLM USAGE ====================
+export const llmUsage = mysqlTable("llm_usage", {
+  id: int("id").autoincrement().primaryKey(),
+  teamId: int("teamId"),
+  projectId: int("projectId"),
+  userId: int("userId"),
+  purpose: varchar("purpose", { length: 32 }).notNull(), // LLM use case
+  provider: varchar("provider", { length: 32 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  promptTokens: int("promptTokens").default(0).notNull(),
+  completionTokens: int("completionTokens").default(0).notNull(),
+  totalTokens: int("totalTokens").default(0).notNull(),
+  durationMs: int("durationMs").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LLMUsage = typeof llmUsage.$inferSelect;
+export type InsertLLMUsage = typeof llmUsage.$inferInsert;
@@ -7,4 +7,12 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  embeddingProvider: process.env.EMBEDDING_PROVIDER ?? "",
+  embeddingModel: process.env.EMBEDDING_MODEL ?? "",
+  llmProvider: process.env.LLM_PROVIDER ?? "",
+  llmModel: process.env.LLM_MODEL ?? "",
+  // Per use case overrides: "bias_detection=gemini-2.5-pro,summary=gemini-2.5-flash-lite"
+  llmModels: process.env.LLM_MODELS ?? "",
+  llmTimeoutMs: process.env.LLM_TIMEOUT_MS ?? "",
+  llmMaxRetries: process.env.LLM_MAX_RETRIES ?? "",
 };
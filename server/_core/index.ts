@@ -4,8 +4,14 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerNotificationRoutes } from "../notificationRoutes";
+import { backfillDocumentExtractions } from "../documentExtraction";
+import { startJobWorker } from "../jobQueue";
+import { llmUsageTracker } from "../llmUsage";
+import { startMemoryEmbeddingBackfill } from "../memoryIndex";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
+import { setLLMUsageTracker } from "./llm";
 import { serveStatic, setupVite } from "./vite";
 
 function isPortAvailable(port: number): Promise<boolean> {
@@ -28,6 +34,9 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 }
 
 async function startServer() {
+  // Record every LLM call and enforce the teams' monthly budgets
+  setLLMUsageTracker(llmUsageTracker);
+
   const app = express();
   const server = createServer(app);
   // Configure body parser with larger size limit for file uploads
@@ -35,6 +44,8 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Real-time notifications (SSE) under /api/notifications/stream
+  registerNotificationRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +71,13 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Embed memories created without an embedding in the background
+  startMemoryEmbeddingBackfill();
+  // Run queued transcriptions, LLM analyses, embeddings and metric recomputations
+  startJobWorker();
+  // Extract documents left pending, including those uploaded before extraction existed
+  void backfillDocumentExtractions();
 }
 
 startServer().catch(console.error);
@@ -1,4 +1,5 @@
 import { ENV } from "./env";
+import { createLocalLLMProvider } from "./localLLM";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -55,7 +56,33 @@ export type ToolChoice =
   | ToolChoiceByName
   | ToolChoiceExplicit;
 
+// Each use case can run on its own model (see LLM_MODELS)
+export const LLM_USE_CASES = [
+  "default",
+  "bias_detection",
+  "analysis",
+  "summary",
+  "cv_extraction",
+  "diarization",
+  "decision_extraction",
+  "insights",
+  "contradiction_detection",
+  "hypothesis_extraction",
+] as const;
+
+export type LLMUseCase = (typeof LLM_USE_CASES)[number];
+
+// Who a call is made for: recorded with its usage and checked against the
+// team's budget
+export type LLMCallContext = {
+  teamId?: number;
+  projectId?: number;
+  userId?: number;
+};
+
 export type InvokeParams = {
+  useCase?: LLMUseCase;
+  context?: LLMCallContext;
   messages: Message[];
   tools?: Tool[];
   toolChoice?: ToolChoice;
@@ -209,17 +236,6 @@ const normalizeToolChoice = (
   return toolChoice;
 };
 
-const resolveApiUrl = () =>
-  ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
-    ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
-    : "https://forge.manus.im/v1/chat/completions";
-
-const assertApiKey = () => {
-  if (!ENV.forgeApiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-};
-
 const normalizeResponseFormat = ({
   responseFormat,
   response_format,
@@ -265,10 +281,49 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
+// A provider receives the params with the model and token budget resolved
+export type LLMRequest = InvokeParams & {
+  model: string;
+  maxTokens: number;
+};
+
+export interface LLMProvider {
+  name: string;
+  invoke(request: LLMRequest): Promise<InvokeResult>;
+}
 
+// Usage accounting, installed by the app (see server/llmUsage.ts). Calls
+// made before a tracker is installed are neither recorded nor limited.
+export interface LLMUsageTracker {
+  // Throws LLMBudgetExceededError to refuse the call
+  beforeInvoke(request: LLMRequest): Promise<void>;
+  afterInvoke(request: LLMRequest, provider: string, result: InvokeResult, durationMs: number): Promise<void>;
+}
+
+export class LLMBudgetExceededError extends Error {
+  constructor(readonly teamId: number) {
+    super(`Monthly LLM budget exceeded for team ${teamId}`);
+    this.name = "LLMBudgetExceededError";
+  }
+}
+
+let usageTracker: LLMUsageTracker | undefined;
+
+export function setLLMUsageTracker(tracker: LLMUsageTracker | undefined): void {
+  usageTracker = tracker;
+}
+
+export const DEFAULT_LLM_MODEL = "gemini-2.5-flash";
+export const DEFAULT_MAX_TOKENS = 32768;
+const DEFAULT_API_URL = "https://forge.manus.im";
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+
+const buildPayload = (request: LLMRequest): Record<string, unknown> => {
   const {
+    model,
+    maxTokens,
     messages,
     tools,
     toolChoice,
@@ -277,10 +332,10 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     output_schema,
     responseFormat,
     response_format,
-  } = params;
+  } = request;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model,
     messages: messages.map(normalizeMessage),
   };
 
@@ -296,7 +351,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.tool_choice = normalizedToolChoice;
   }
 
-  payload.max_tokens = 32768
+  payload.max_tokens = maxTokens;
   payload.thinking = {
     "budget_tokens": 128
   }
@@ -312,21 +367,143 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
-  const response = await fetch(resolveApiUrl(), {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${ENV.forgeApiKey}`,
+  return payload;
+};
+
+// Rate limits and server errors are transient, other statuses are not
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * OpenAI-compatible chat completions API. Every attempt is bounded by the
+ * timeout; 429, 5xx, network errors and timeouts are retried with an
+ * exponential backoff (or the server's Retry-After).
+ */
+export function createHttpLLMProvider(options: {
+  apiUrl?: string;
+  apiKey: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}): LLMProvider {
+  const url = `${(options.apiUrl || DEFAULT_API_URL).replace(/\/$/, "")}/v1/chat/completions`;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  return {
+    name: "http",
+    async invoke(request) {
+      if (!options.apiKey) {
+        throw new Error("BUILT_IN_FORGE_API_KEY is not configured");
+      }
+      const body = JSON.stringify(buildPayload(request));
+
+      for (let attempt = 0; ; attempt++) {
+        const canRetry = attempt < maxRetries;
+        const backoff = retryDelayMs * 2 ** attempt;
+
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            method: "POST",
+            headers: {
+              "content-type": "application/json",
+              authorization: `Bearer ${options.apiKey}`,
+            },
+            body,
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+        } catch (error) {
+          const timedOut = error instanceof Error && error.name === "TimeoutError";
+          if (canRetry) {
+            console.warn(`[LLM] ${timedOut ? "Timeout" : "Network error"}, retrying (${attempt + 1}/${maxRetries})`);
+            await sleep(backoff);
+            continue;
+          }
+          if (timedOut) throw new Error(`LLM invoke timed out after ${timeoutMs}ms`);
+          throw error;
+        }
+
+        if (response.ok) {
+          return (await response.json()) as InvokeResult;
+        }
+
+        if (canRetry && isRetryableStatus(response.status)) {
+          console.warn(`[LLM] ${response.status} ${response.statusText}, retrying (${attempt + 1}/${maxRetries})`);
+          await sleep(parseRetryAfter(response.headers.get("retry-after")) ?? backoff);
+          continue;
+        }
+
+        const errorText = await response.text();
+        throw new Error(
+          `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
+        );
+      }
     },
-    body: JSON.stringify(payload),
-  });
+  };
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
-    );
+const parseModelOverrides = (value: string): Partial<Record<LLMUseCase, string>> => {
+  const overrides: Partial<Record<LLMUseCase, string>> = {};
+  for (const entry of value.split(",")) {
+    const [useCase, model] = entry.split("=").map(part => part.trim());
+    if (model && (LLM_USE_CASES as readonly string[]).includes(useCase)) {
+      overrides[useCase as LLMUseCase] = model;
+    }
   }
+  return overrides;
+};
+
+// LLM_MODELS override, then LLM_MODEL, then the built-in default
+export function resolveLLMModel(useCase: LLMUseCase = "default"): string {
+  return parseModelOverrides(ENV.llmModels)[useCase] || ENV.llmModel || DEFAULT_LLM_MODEL;
+}
+
+const parseInteger = (value: string, min: number): number | undefined => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : undefined;
+};
+
+/**
+ * Configured provider: the offline provider only when LLM_PROVIDER=local,
+ * the HTTP API otherwise. A missing API key still throws at invoke time so
+ * callers fall back as before.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (ENV.llmProvider === "local") return createLocalLLMProvider();
+
+  return createHttpLLMProvider({
+    apiUrl: ENV.forgeApiUrl,
+    apiKey: ENV.forgeApiKey,
+    timeoutMs: parseInteger(ENV.llmTimeoutMs, 1),
+    maxRetries: parseInteger(ENV.llmMaxRetries, 0),
+  });
+}
+
+export async function invokeLLM(
+  params: InvokeParams,
+  provider: LLMProvider = getLLMProvider()
+): Promise<InvokeResult> {
+  const request: LLMRequest = {
+    ...params,
+    model: resolveLLMModel(params.useCase),
+    maxTokens: params.maxTokens ?? params.max_tokens ?? DEFAULT_MAX_TOKENS,
+  };
+  await usageTracker?.beforeInvoke(request);
 
-  return (await response.json()) as InvokeResult;
+  const startedAt = Date.now();
+  const result = await provider.invoke(request);
+  await usageTracker?.afterInvoke(request, provider.name, result, Date.now() - startedAt);
+  return result;
 }
@@ -0,0 +1,160 @@
+import type { InvokeResult, JsonSchema, LLMProvider, LLMRequest, Message } from "./llm";
+
+// Offline, deterministic LLM provider. Structured requests (json_schema
+// response format or a forced tool call) get a fixture that validates
+// against the requested schema; plain text requests get a fixed sentence.
+// The same request always yields the same response, so the app and its
+// tests run without network.
+
+type FixtureValue = unknown | ((request: LLMRequest) => unknown);
+
+export type LocalLLMOptions = {
+  // Fixtures by schema (or tool) name, used instead of the generated ones
+  fixtures?: Record<string, FixtureValue>;
+  text?: string;
+};
+
+const DEFAULT_TEXT = "Réponse générée hors ligne par le fournisseur LLM local.";
+
+type SchemaNode = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  anyOf?: SchemaNode[];
+  oneOf?: SchemaNode[];
+  default?: unknown;
+};
+
+// Simple, neutral value accepted by a JSON Schema node
+export function fixtureFromSchema(node: SchemaNode | undefined): unknown {
+  if (!node) return null;
+  if ("const" in node) return node.const;
+  if (node.default !== undefined) return node.default;
+  // Ordered scales (low..high, negative..positive) land on their middle value
+  if (node.enum && node.enum.length > 0) return node.enum[Math.floor((node.enum.length - 1) / 2)];
+
+  const variant = node.anyOf?.[0] ?? node.oneOf?.[0];
+  if (variant) return fixtureFromSchema(variant);
+
+  const types = Array.isArray(node.type) ? node.type : [node.type];
+  const type = types.find(t => t !== "null") ?? types[0];
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(node.properties ?? {}).map(([key, child]) => [key, fixtureFromSchema(child)])
+      );
+    case "array":
+      return Array.from({ length: node.minItems ?? 0 }, () => fixtureFromSchema(node.items));
+    case "string":
+      return "x".repeat(node.minLength ?? 0);
+    case "number":
+    case "integer": {
+      // Middle of the range when bounded: scores stay neutral
+      const minimum = node.minimum ?? (node.exclusiveMinimum !== undefined ? node.exclusiveMinimum + 1 : undefined);
+      if (minimum !== undefined && node.maximum !== undefined) {
+        const middle = (minimum + node.maximum) / 2;
+        return type === "integer" ? Math.floor(middle) : middle;
+      }
+      return minimum ?? Math.min(0, node.maximum ?? 0);
+    }
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+const resolveSchema = (request: LLMRequest): JsonSchema | undefined => {
+  const format = request.responseFormat || request.response_format;
+  if (format?.type === "json_schema") return format.json_schema;
+  return request.outputSchema || request.output_schema;
+};
+
+// Name of the tool the request forces, if any
+const forcedToolName = (request: LLMRequest): string | undefined => {
+  const choice = request.toolChoice || request.tool_choice;
+  if (!choice || choice === "none" || choice === "auto") return undefined;
+  if (choice === "required") return request.tools?.length === 1 ? request.tools[0].function.name : undefined;
+  return "name" in choice ? choice.name : choice.function.name;
+};
+
+const messageText = (messages: Message[]) =>
+  messages
+    .map(m => (Array.isArray(m.content) ? m.content : [m.content])
+      .map(part => (typeof part === "string" ? part : part.type === "text" ? part.text : ""))
+      .join(" "))
+    .join("\n");
+
+// FNV-1a 32 bits
+const hash = (text: string) => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(16);
+};
+
+// Rough token count, enough for usage accounting offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function createLocalLLMProvider(options: LocalLLMOptions = {}): LLMProvider {
+  const fixture = (name: string, request: LLMRequest, generate: () => unknown) => {
+    const value = options.fixtures?.[name];
+    if (value === undefined) return generate();
+    return typeof value === "function" ? value(request) : value;
+  };
+
+  return {
+    name: "local",
+    async invoke(request) {
+      const prompt = messageText(request.messages);
+      const toolName = forcedToolName(request);
+      const schema = resolveSchema(request);
+
+      let content = "";
+      let toolCalls: NonNullable<InvokeResult["choices"][number]["message"]["tool_calls"]> | undefined;
+
+      if (toolName) {
+        const tool = request.tools?.find(t => t.function.name === toolName);
+        const args = fixture(toolName, request, () => fixtureFromSchema(tool?.function.parameters as SchemaNode));
+        toolCalls = [{
+          id: `call_${hash(prompt + toolName)}`,
+          type: "function",
+          function: { name: toolName, arguments: JSON.stringify(args) },
+        }];
+      } else if (schema) {
+        content = JSON.stringify(fixture(schema.name, request, () => fixtureFromSchema(schema.schema as SchemaNode)));
+      } else {
+        content = options.text ?? DEFAULT_TEXT;
+      }
+
+      const promptTokens = estimateTokens(prompt);
+      const completionTokens = estimateTokens(content + (toolCalls?.[0].function.arguments ?? ""));
+
+      return {
+        id: `local-${hash(`${request.model}\n${prompt}`)}`,
+        created: 0,
+        model: request.model,
+        choices: [{
+          index: 0,
+          message: { role: "assistant", content, ...(toolCalls ? { tool_calls: toolCalls } : {}) },
+          finish_reason: toolCalls ? "tool_calls" : "stop",
+        }],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import {
+  invokeLLM,
+  LLMBudgetExceededError,
+  type InvokeParams,
+  type InvokeResult,
+  type LLMProvider,
+  type Message,
+  type ResponseFormat,
+} from "./llm";
+
+// Structured LLM calls: the json_schema response format is derived from a
+// zod schema and the output is validated against it. An invalid output gets
+// one repair round-trip (the model sees its answer and the validation
+// errors) before the call resolves to a typed error. Callers never parse
+// model output themselves.
+
+export type StructuredLLMErrorCode =
+  | "BUDGET_EXCEEDED"
+  | "LLM_UNAVAILABLE"
+  | "EMPTY_RESPONSE"
+  | "INVALID_JSON"
+  | "SCHEMA_MISMATCH";
+
+export type StructuredLLMError = {
+  code: StructuredLLMErrorCode;
+  message: string;
+  issues: string[];
+};
+
+export type StructuredLLMResult<T> =
+  | { ok: true; data: T; repaired: boolean }
+  | { ok: false; error: StructuredLLMError };
+
+export type StructuredInvokeParams<T extends z.ZodType> = Omit<
+  InvokeParams,
+  "tools" | "toolChoice" | "tool_choice" | "outputSchema" | "output_schema" | "responseFormat" | "response_format"
+> & {
+  schema: T;
+  schemaName: string;
+};
+
+export function toResponseFormat(name: string, schema: z.ZodType): ResponseFormat {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return {
+    type: "json_schema",
+    json_schema: { name, strict: true, schema: jsonSchema },
+  };
+}
+
+const responseText = (result: InvokeResult): string => {
+  const content = result.choices[0]?.message?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.map(part => (part.type === "text" ? part.text : "")).join("");
+};
+
+// Some models wrap JSON in a markdown fence despite the response format
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join(".") : "(racine)"}: ${issue.message}`);
+
+export function parseStructuredOutput<T extends z.ZodType>(
+  schema: T,
+  text: string
+): { ok: true; data: z.output<T> } | { ok: false; error: StructuredLLMError } {
+  if (!text.trim()) {
+    return { ok: false, error: { code: "EMPTY_RESPONSE", message: "Empty LLM response", issues: [] } };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, error: { code: "INVALID_JSON", message: "LLM response is not valid JSON", issues: [message] } };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: {
+        code: "SCHEMA_MISMATCH",
+        message: "LLM response does not match the schema",
+        issues: formatIssues(parsed.error),
+      },
+    };
+  }
+  return { ok: true, data: parsed.data };
+}
+
+const repairPrompt = (error: StructuredLLMError) =>
+  `Ta réponse précédente ne respecte pas le format JSON attendu :
+${[error.message, ...error.issues].map(line => `- ${line}`).join("\n")}
+Renvoie uniquement le JSON corrigé, conforme au schéma, sans texte autour.`;
+
+export async function invokeStructuredLLM<T extends z.ZodType>(
+  params: StructuredInvokeParams<T>,
+  provider?: LLMProvider
+): Promise<StructuredLLMResult<z.output<T>>> {
+  const { schema, schemaName, ...invokeParams } = params;
+  const responseFormat = toResponseFormat(schemaName, schema);
+
+  const attempt = async (messages: Message[]) => {
+    try {
+      const text = responseText(await invokeLLM({ ...invokeParams, messages, response_format: responseFormat }, provider));
+      return { text, ...parseStructuredOutput(schema, text) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code: StructuredLLMErrorCode =
+        error instanceof LLMBudgetExceededError ? "BUDGET_EXCEEDED" : "LLM_UNAVAILABLE";
+      return { text: "", ok: false as const, error: { code, message, issues: [] } };
+    }
+  };
+
+  const first = await attempt(params.messages);
+  if (first.ok) return { ok: true, data: first.data, repaired: false };
+  // Nothing to repair when the model could not be reached
+  if (first.error.code === "LLM_UNAVAILABLE" || first.error.code === "BUDGET_EXCEEDED") {
+    return { ok: false, error: first.error };
+  }
+
+  console.warn(`[LLM] Invalid ${schemaName} output, requesting a repair:`, first.error.issues);
+  const repaired = await attempt([
+    ...params.messages,
+    { role: "assistant", content: first.text },
+    { role: "user", content: repairPrompt(first.error) },
+  ]);
+  if (repaired.ok) return { ok: true, data: repaired.data, repaired: true };
+  return { ok: false, error: repaired.error };
+}
@@ -25,12 +25,29 @@
  * });
  * ```
  */
+import {
+  getAudioFileExtension,
+  MAX_TRANSCRIPTION_BYTES,
+  mergeChunkTranscriptions,
+  normalizeMimeType,
+  splitAudio,
+  type ChunkTranscription,
+} from "../audioChunking";
 import { ENV } from "./env";
 
+export type TranscriptionProgress = {
+  completedChunks: number;
+  totalChunks: number;
+};
+
 export type TranscribeOptions = {
   audioUrl: string; // URL to the audio file (e.g., S3 URL)
   language?: string; // Optional: specify language code (e.g., "en", "es", "zh")
   prompt?: string; // Optional: custom prompt for the transcription
+  mimeType?: string; // Optional: overrides the downloaded content-type
+  durationSeconds?: number; // Optional: known duration, improves chunk offsets
+  concurrency?: number; // Optional: chunks transcribed in parallel (default 2)
+  onProgress?: (progress: TranscriptionProgress) => void | Promise<void>;
 };
 
 // Native Whisper API segment format
@@ -67,6 +84,10 @@ export type TranscriptionError = {
 /**
  * Transcribe audio to text using the internal Speech-to-Text service
  * 
+ * Files above the 16MB service limit are split into overlapping chunks
+ * (WAV, MP3 and WebM) whose transcriptions are merged back into a single
+ * response with recording-relative timestamps.
+ * 
  * @param options - Audio data and metadata
  * @returns Transcription result or error
  */
@@ -104,17 +125,7 @@ export async function transcribeAudio(
       }
       
       audioBuffer = Buffer.from(await response.arrayBuffer());
-      mimeType = response.headers.get('content-type') || 'audio/mpeg';
-      
-      // Check file size (16MB limit)
-      const sizeMB = audioBuffer.length / (1024 * 1024);
-      if (sizeMB > 16) {
-        return {
-          error: "Audio file exceeds maximum size limit",
-          code: "FILE_TOO_LARGE",
-          details: `File size is ${sizeMB.toFixed(2)}MB, maximum allowed is 16MB`
-        };
-      }
+      mimeType = normalizeMimeType(options.mimeType || response.headers.get('content-type') || 'audio/mpeg');
     } catch (error) {
       return {
         error: "Failed to fetch audio file",
@@ -123,66 +134,48 @@ export async function transcribeAudio(
       };
     }
 
-    // Step 3: Create FormData for multipart upload to Whisper API
-    const formData = new FormData();
-    
-    // Create a Blob from the buffer and append to form
-    const filename = `audio.${getFileExtension(mimeType)}`;
-    const audioBlob = new Blob([new Uint8Array(audioBuffer)], { type: mimeType });
-    formData.append("file", audioBlob, filename);
-    
-    formData.append("model", "whisper-1");
-    formData.append("response_format", "verbose_json");
-    
-    // Add prompt - use custom prompt if provided, otherwise generate based on language
-    const prompt = options.prompt || (
-      options.language 
-        ? `Transcribe the user's voice to text, the user's working language is ${getLanguageName(options.language)}`
-        : "Transcribe the user's voice to text"
-    );
-    formData.append("prompt", prompt);
-
-    // Step 4: Call the transcription service
-    const baseUrl = ENV.forgeApiUrl.endsWith("/")
-      ? ENV.forgeApiUrl
-      : `${ENV.forgeApiUrl}/`;
-    
-    const fullUrl = new URL(
-      "v1/audio/transcriptions",
-      baseUrl
-    ).toString();
-
-    const response = await fetch(fullUrl, {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${ENV.forgeApiKey}`,
-        "Accept-Encoding": "identity",
-      },
-      body: formData,
-    });
+    // Step 3: Split files above the 16MB limit into overlapping chunks
+    const chunks = audioBuffer.length > MAX_TRANSCRIPTION_BYTES
+      ? splitAudio(audioBuffer, mimeType, { durationSeconds: options.durationSeconds })
+      : [{ index: 0, buffer: audioBuffer, offset: 0 }];
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "");
+    if (!chunks) {
+      const sizeMB = audioBuffer.length / (1024 * 1024);
       return {
-        error: "Transcription service request failed",
-        code: "TRANSCRIPTION_FAILED",
-        details: `${response.status} ${response.statusText}${errorText ? `: ${errorText}` : ""}`
+        error: "Audio file exceeds maximum size limit",
+        code: "FILE_TOO_LARGE",
+        details: `File size is ${sizeMB.toFixed(2)}MB and ${mimeType} recordings cannot be split, maximum allowed is 16MB`
       };
     }
 
-    // Step 5: Parse and return the transcription result
-    const whisperResponse = await response.json() as WhisperResponse;
-    
-    // Validate response structure
-    if (!whisperResponse.text || typeof whisperResponse.text !== 'string') {
-      return {
-        error: "Invalid transcription response",
-        code: "SERVICE_ERROR",
-        details: "Transcription service returned an invalid response format"
-      };
-    }
+    // Step 4: Transcribe the chunks, a few at a time
+    const results: ChunkTranscription[] = [];
+    let failure: TranscriptionError | null = null;
+    let nextChunk = 0;
+
+    await options.onProgress?.({ completedChunks: 0, totalChunks: chunks.length });
+
+    const worker = async () => {
+      while (!failure && nextChunk < chunks.length) {
+        const chunk = chunks[nextChunk++];
+        const result = await transcribeBuffer(chunk.buffer, mimeType, options);
+        if ('error' in result) {
+          failure = chunks.length > 1
+            ? { ...result, details: `Chunk ${chunk.index + 1}/${chunks.length}: ${result.details ?? ""}` }
+            : result;
+          return;
+        }
+        results.push({ offset: chunk.offset, response: result });
+        await options.onProgress?.({ completedChunks: results.length, totalChunks: chunks.length });
+      }
+    };
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? 2, chunks.length));
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    if (failure) return failure;
 
-    return whisperResponse; // Return native Whisper API response directly
+    // Step 5: Merge chunk transcriptions (offsets, overlap dedupe)
+    return results.length === 1 ? results[0].response : mergeChunkTranscriptions(results);
 
   } catch (error) {
     // Handle unexpected errors
@@ -195,21 +188,73 @@ export async function transcribeAudio(
 }
 
 /**
- * Helper function to get file extension from MIME type
+ * Send one audio buffer (at most 16MB) to the Whisper API
  */
-function getFileExtension(mimeType: string): string {
-  const mimeToExt: Record<string, string> = {
-    'audio/webm': 'webm',
-    'audio/mp3': 'mp3',
-    'audio/mpeg': 'mp3',
-    'audio/wav': 'wav',
-    'audio/wave': 'wav',
-    'audio/ogg': 'ogg',
-    'audio/m4a': 'm4a',
-    'audio/mp4': 'm4a',
-  };
+async function transcribeBuffer(
+  audioBuffer: Buffer,
+  mimeType: string,
+  options: TranscribeOptions
+): Promise<TranscriptionResponse | TranscriptionError> {
+  // Create FormData for multipart upload to Whisper API
+  const formData = new FormData();
+  
+  // Create a Blob from the buffer and append to form
+  const filename = `audio.${getAudioFileExtension(mimeType)}`;
+  const audioBlob = new Blob([new Uint8Array(audioBuffer)], { type: mimeType });
+  formData.append("file", audioBlob, filename);
+  
+  formData.append("model", "whisper-1");
+  formData.append("response_format", "verbose_json");
   
-  return mimeToExt[mimeType] || 'audio';
+  // Add prompt - use custom prompt if provided, otherwise generate based on language
+  const prompt = options.prompt || (
+    options.language 
+      ? `Transcribe the user's voice to text, the user's working language is ${getLanguageName(options.language)}`
+      : "Transcribe the user's voice to text"
+  );
+  formData.append("prompt", prompt);
+
+  // Call the transcription service
+  const baseUrl = ENV.forgeApiUrl.endsWith("/")
+    ? ENV.forgeApiUrl
+    : `${ENV.forgeApiUrl}/`;
+  
+  const fullUrl = new URL(
+    "v1/audio/transcriptions",
+    baseUrl
+  ).toString();
+
+  const response = await fetch(fullUrl, {
+    method: "POST",
+    headers: {
+      authorization: `Bearer ${ENV.forgeApiKey}`,
+      "Accept-Encoding": "identity",
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    return {
+      error: "Transcription service request failed",
+      code: "TRANSCRIPTION_FAILED",
+      details: `${response.status} ${response.statusText}${errorText ? `: ${errorText}` : ""}`
+    };
+  }
+
+  // Parse and return the transcription result
+  const whisperResponse = await response.json() as WhisperResponse;
+  
+  // Validate response structure
+  if (!whisperResponse.text || typeof whisperResponse.text !== 'string') {
+    return {
+      error: "Invalid transcription response",
+      code: "SERVICE_ERROR",
+      details: "Transcription service returned an invalid response format"
+    };
+  }
+
+  return whisperResponse; // Return native Whisper API response directly
 }
 
 /**
@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { WhisperResponse, WhisperSegment } from "./_core/voiceTranscription";
+import {
+  dedupeOverlapText,
+  getAudioFileExtension,
+  mergeChunkTranscriptions,
+  splitAudio,
+} from "./audioChunking";
+
+const { ENV } = await import("./_core/env");
+const { transcribeAudio } = await import("./_core/voiceTranscription");
+
+/** WAV PCM 16 bits mono : 1 seconde = 2 * sampleRate octets */
+function wav(seconds: number, sampleRate = 1000): Buffer {
+  const dataSize = seconds * sampleRate * 2;
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // byteRate
+  header.writeUInt16LE(2, 32); // blockAlign
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataSize, 40);
+  return Buffer.concat([header, Buffer.alloc(dataSize, 1)]);
+}
+
+/** WebM minimal : en-tête puis un Cluster par seconde */
+function webm(seconds: number, clusterPayload = 100): Buffer {
+  const header = Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x80, 0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+  const clusters = Array.from({ length: seconds }, (_, i) => {
+    const timecode = Buffer.alloc(2);
+    timecode.writeUInt16BE(i * 1000);
+    return Buffer.concat([
+      Buffer.from([0x1f, 0x43, 0xb6, 0x75, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+      Buffer.from([0xe7, 0x82]),
+      timecode,
+      Buffer.alloc(clusterPayload, 0x42),
+    ]);
+  });
+  return Buffer.concat([header, ...clusters]);
+}
+
+function segment(id: number, start: number, end: number, text: string): WhisperSegment {
+  return {
+    id,
+    seek: 0,
+    start,
+    end,
+    text,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: 0,
+    compression_ratio: 1,
+    no_speech_prob: 0,
+  };
+}
+
+function response(duration: number, segments: WhisperSegment[]): WhisperResponse {
+  return {
+    task: "transcribe",
+    language: "fr",
+    duration,
+    text: segments.map(s => s.text).join(""),
+    segments,
+  };
+}
+
+describe("audio chunking", () => {
+  it("déduit l'extension du type MIME", () => {
+    expect(getAudioFileExtension("audio/webm;codecs=opus")).toBe("webm");
+    expect(getAudioFileExtension("audio/mpeg")).toBe("mp3");
+    expect(getAudioFileExtension("audio/x-wav")).toBe("wav");
+    expect(getAudioFileExtension("application/octet-stream")).toBe("audio");
+  });
+
+  it("découpe un WAV en morceaux chevauchants avec un en-tête valide", () => {
+    // 60s à 2000 octets/s, morceaux de 20s max, 2s de chevauchement
+    const chunks = splitAudio(wav(60), "audio/wav", { maxChunkBytes: 44 + 40_000, overlapSeconds: 2 })!;
+
+    expect(chunks.map(c => c.offset)).toEqual([0, 18, 36, 54]);
+    for (const chunk of chunks) {
+      expect(chunk.buffer.length).toBeLessThanOrEqual(44 + 40_000);
+      expect(chunk.buffer.toString("ascii", 0, 4)).toBe("RIFF");
+      expect(chunk.buffer.readUInt32LE(40)).toBe(chunk.buffer.length - 44);
+      expect(chunk.buffer.readUInt32LE(4)).toBe(chunk.buffer.length - 8);
+    }
+  });
+
+  it("découpe un WebM sur les Clusters en recopiant l'en-tête", () => {
+    const chunks = splitAudio(webm(30), "audio/webm", { maxChunkBytes: 1200, overlapSeconds: 2 })!;
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[0].offset).toBe(0);
+    for (const chunk of chunks) {
+      expect(chunk.buffer.length).toBeLessThanOrEqual(1200);
+      expect(chunk.buffer.subarray(0, 4)).toEqual(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]));
+    }
+    // Chaque morceau reprend les 2 dernières secondes du précédent
+    const clustersPerChunk = Math.floor((1200 - 17) / 116);
+    expect(chunks[1].offset).toBe(clustersPerChunk - 2);
+  });
+
+  it("refuse de découper un format sans structure connue", () => {
+    expect(splitAudio(Buffer.alloc(2000), "audio/ogg", { maxChunkBytes: 1000 })).toBeNull();
+  });
+
+  it("supprime le texte répété à la jonction", () => {
+    expect(dedupeOverlapText("nous allons lancer la migration", "la migration dès lundi")).toBe("dès lundi");
+    expect(dedupeOverlapText("on valide", "valide le budget")).toBe("valide le budget");
+  });
+
+  it("fusionne les morceaux en décalant les horodatages", () => {
+    const merged = mergeChunkTranscriptions([
+      {
+        offset: 0,
+        response: response(20, [
+          segment(0, 0, 8, " Nous allons lancer la migration."),
+          segment(1, 8, 16, " Le budget est validé."),
+          segment(2, 16, 20, " Il reste les tests de"),
+        ]),
+      },
+      {
+        offset: 17,
+        response: response(15, [
+          segment(0, 0, 3, " les tests de charge à planifier."),
+          segment(1, 3, 15, " On vise la fin du mois."),
+        ]),
+      },
+    ]);
+
+    expect(merged.duration).toBe(32);
+    // La phrase coupée en fin de premier morceau est complétée sans répétition
+    expect(merged.segments.map(s => [s.id, s.start, s.end])).toEqual([
+      [0, 0, 8],
+      [1, 8, 16],
+      [2, 16, 20],
+      [3, 20, 20],
+      [4, 20, 32],
+    ]);
+    expect(merged.text).toBe(
+      "Nous allons lancer la migration. Le budget est validé. Il reste les tests de charge à planifier. On vise la fin du mois."
+    );
+  });
+});
+
+describe("chunked transcription", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("transcrit un long enregistrement par morceaux et rapporte la progression", async () => {
+    ENV.forgeApiUrl = "https://forge.example";
+    ENV.forgeApiKey = "key";
+
+    // ~20 Mo de WAV 16 kHz mono (32 000 octets/s)
+    const file = wav(640, 16_000);
+    let call = 0;
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url === "https://storage.example/meeting.wav") {
+        return { ok: true, arrayBuffer: async () => file, headers: new Headers({ "content-type": "audio/wav" }) };
+      }
+      const index = call++;
+      return {
+        ok: true,
+        json: async () => response(index === 0 ? 491.5 : 151.5, [segment(0, 1, 5, ` morceau ${index}`)]),
+      };
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const progress: Array<{ completedChunks: number; totalChunks: number }> = [];
+    const result = await transcribeAudio({
+      audioUrl: "https://storage.example/meeting.wav",
+      concurrency: 1,
+      onProgress: p => {
+        progress.push(p);
+      },
+    });
+
+    expect("error" in result).toBe(false);
+    if ("error" in result) return;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(progress).toEqual([
+      { completedChunks: 0, totalChunks: 2 },
+      { completedChunks: 1, totalChunks: 2 },
+      { completedChunks: 2, totalChunks: 2 },
+    ]);
+    expect(result.segments.map(s => s.text.trim())).toEqual(["morceau 0", "morceau 1"]);
+    expect(result.segments[1].start).toBeGreaterThan(480);
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Audio Chunking - Découpage des longs enregistrements pour la transcription
+ *
+ * Le service de transcription refuse les fichiers de plus de 16 Mo. Les
+ * enregistrements plus longs sont découpés en morceaux qui se chevauchent de
+ * quelques secondes, en respectant la structure du format :
+ * - WAV : données PCM alignées sur les blocs, en-tête réécrit par morceau
+ * - MP3 : coupure sur les en-têtes de trame
+ * - WebM : coupure sur les Clusters, en-tête (EBML, Segment, Tracks) recopié
+ * Les autres formats ne sont pas découpables sans décodage.
+ *
+ * Les transcriptions des morceaux sont ensuite fusionnées : horodatages
+ * décalés, chevauchement coupé en son milieu et texte dupliqué supprimé.
+ */
+
+import type { WhisperResponse, WhisperSegment } from "./_core/voiceTranscription";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AudioChunk {
+  index: number;
+  buffer: Buffer;
+  /** Début du morceau dans l'enregistrement (secondes) */
+  offset: number;
+}
+
+export interface ChunkingOptions {
+  /** Taille maximale d'un morceau, en-tête compris */
+  maxChunkBytes?: number;
+  /** Chevauchement entre deux morceaux consécutifs (secondes) */
+  overlapSeconds?: number;
+  /** Durée connue de l'enregistrement, pour estimer le débit des MP3 */
+  durationSeconds?: number;
+}
+
+export interface ChunkTranscription {
+  offset: number;
+  response: WhisperResponse;
+}
+
+// ============================================================================
+// CONSTANTES
+// ============================================================================
+
+/** Limite du service de transcription */
+export const MAX_TRANSCRIPTION_BYTES = 16 * 1024 * 1024;
+
+/** Marge sous la limite pour les en-têtes recopiés */
+export const DEFAULT_CHUNK_BYTES = 15 * 1024 * 1024;
+
+export const DEFAULT_OVERLAP_SECONDS = 3;
+
+/** Nombre maximum de mots comparés lors de la déduplication du chevauchement */
+const MAX_OVERLAP_WORDS = 40;
+
+/** En dessous, une répétition est considérée comme fortuite */
+const MIN_OVERLAP_WORDS = 2;
+
+// ============================================================================
+// TYPES MIME
+// ============================================================================
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/mp3": "mp3",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/ogg": "ogg",
+  "audio/m4a": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/mp4": "m4a",
+};
+
+/**
+ * Type MIME sans paramètres (« audio/webm;codecs=opus » → « audio/webm »)
+ */
+export function normalizeMimeType(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Extension de fichier correspondant à un type MIME audio
+ */
+export function getAudioFileExtension(mimeType: string): string {
+  return MIME_EXTENSIONS[normalizeMimeType(mimeType)] || "audio";
+}
+
+// ============================================================================
+// DÉCOUPAGE
+// ============================================================================
+
+/**
+ * Découpe un enregistrement en morceaux transcriptibles. Retourne null si le
+ * format ne peut pas être découpé sans décodage.
+ */
+export function splitAudio(buffer: Buffer, mimeType: string, options: ChunkingOptions = {}): AudioChunk[] | null {
+  const maxChunkBytes = options.maxChunkBytes ?? DEFAULT_CHUNK_BYTES;
+  const overlapSeconds = options.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS;
+
+  if (buffer.length <= maxChunkBytes) {
+    return [{ index: 0, buffer, offset: 0 }];
+  }
+
+  switch (getAudioFileExtension(mimeType)) {
+    case "wav":
+      return splitWav(buffer, maxChunkBytes, overlapSeconds);
+    case "mp3":
+      return splitMp3(buffer, maxChunkBytes, overlapSeconds, options.durationSeconds);
+    case "webm":
+      return splitWebm(buffer, maxChunkBytes, overlapSeconds);
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+// ---------------------------------------------------------------------------
+
+function splitWav(buffer: Buffer, maxChunkBytes: number, overlapSeconds: number): AudioChunk[] | null {
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") return null;
+
+  let byteRate = 0;
+  let blockAlign = 0;
+  let dataOffset = 0;
+  let dataSize = 0;
+
+  for (let pos = 12; pos + 8 <= buffer.length; ) {
+    const id = buffer.toString("ascii", pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    if (id === "fmt ") {
+      byteRate = buffer.readUInt32LE(pos + 16);
+      blockAlign = buffer.readUInt16LE(pos + 20);
+    } else if (id === "data") {
+      dataOffset = pos + 8;
+      dataSize = Math.min(size, buffer.length - dataOffset);
+      break;
+    }
+    pos += 8 + size + (size % 2);
+  }
+  if (!byteRate || !blockAlign || !dataOffset) return null;
+
+  const header = buffer.subarray(0, dataOffset);
+  const payloadBytes = Math.floor((maxChunkBytes - header.length) / blockAlign) * blockAlign;
+  const overlapBytes = Math.round((overlapSeconds * byteRate) / blockAlign) * blockAlign;
+  const step = payloadBytes - overlapBytes;
+  if (step <= 0) return null;
+
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < dataSize; start += step) {
+    const end = Math.min(start + payloadBytes, dataSize);
+    const chunkHeader = Buffer.from(header);
+    chunkHeader.writeUInt32LE(header.length - 8 + (end - start), 4);
+    chunkHeader.writeUInt32LE(end - start, header.length - 4);
+
+    chunks.push({
+      index: chunks.length,
+      buffer: Buffer.concat([chunkHeader, buffer.subarray(dataOffset + start, dataOffset + end)]),
+      offset: start / byteRate,
+    });
+    if (end === dataSize) break;
+  }
+  return chunks;
+}
+
+// ---------------------------------------------------------------------------
+// MP3
+// ---------------------------------------------------------------------------
+
+const MPEG1_LAYER3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+/** Taille maximale d'une trame MP3 : au-delà, une synchro est introuvable */
+const MP3_SYNC_SEARCH_BYTES = 4096;
+
+function isMp3FrameSync(buffer: Buffer, pos: number): boolean {
+  return (
+    pos + 4 <= buffer.length &&
+    buffer[pos] === 0xff &&
+    (buffer[pos + 1] & 0xe0) === 0xe0 &&
+    ((buffer[pos + 1] >> 1) & 0x03) === 0x01 && // Layer III
+    (buffer[pos + 2] >> 4) !== 0x0f
+  );
+}
+
+function findMp3FrameSync(buffer: Buffer, from: number): number {
+  const limit = Math.min(buffer.length, from + MP3_SYNC_SEARCH_BYTES);
+  for (let pos = Math.max(0, from); pos < limit; pos++) {
+    if (isMp3FrameSync(buffer, pos)) return pos;
+  }
+  return -1;
+}
+
+/** Débit (octets/s) lu dans l'en-tête de la première trame */
+function readMp3ByteRate(buffer: Buffer, pos: number): number {
+  const mpeg1 = ((buffer[pos + 1] >> 3) & 0x03) === 0x03;
+  const kbps = (mpeg1 ? MPEG1_LAYER3_KBPS : MPEG2_LAYER3_KBPS)[buffer[pos + 2] >> 4] ?? 0;
+  return (kbps * 1000) / 8;
+}
+
+function splitMp3(
+  buffer: Buffer,
+  maxChunkBytes: number,
+  overlapSeconds: number,
+  durationSeconds?: number
+): AudioChunk[] | null {
+  // Tag ID3v2 éventuel (taille « syncsafe » sur 4 octets)
+  let audioStart = 0;
+  if (buffer.toString("ascii", 0, 3) === "ID3") {
+    audioStart = 10 + ((buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9]);
+  }
+  const firstFrame = findMp3FrameSync(buffer, audioStart);
+  if (firstFrame < 0) return null;
+
+  // Débit constant supposé : la durée connue donne la moyenne réelle (VBR)
+  const audioBytes = buffer.length - firstFrame;
+  const byteRate = durationSeconds ? audioBytes / durationSeconds : readMp3ByteRate(buffer, firstFrame);
+  if (!byteRate) return null;
+
+  const overlapBytes = Math.round(overlapSeconds * byteRate);
+  const chunks: AudioChunk[] = [];
+
+  for (let start = firstFrame; start < buffer.length; ) {
+    let end = buffer.length;
+    if (start + maxChunkBytes < buffer.length) {
+      const sync = findMp3FrameSync(buffer, start + maxChunkBytes - MP3_SYNC_SEARCH_BYTES);
+      end = sync > start ? sync : start + maxChunkBytes;
+    }
+
+    chunks.push({
+      index: chunks.length,
+      buffer: buffer.subarray(start, end),
+      offset: (start - firstFrame) / byteRate,
+    });
+    if (end >= buffer.length) break;
+
+    const next = findMp3FrameSync(buffer, end - overlapBytes);
+    start = next > start ? next : end;
+  }
+  return chunks;
+}
+
+// ---------------------------------------------------------------------------
+// WebM
+// ---------------------------------------------------------------------------
+
+const EBML_CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const EBML_TIMECODE_SCALE_ID = [0x2a, 0xd7, 0xb1];
+const EBML_CLUSTER_TIMECODE_ID = 0xe7;
+
+/** TimecodeScale par défaut : 1 ms */
+const DEFAULT_TIMECODE_SCALE_NS = 1_000_000;
+
+/** Lit un entier de taille variable EBML : longueur en octets et valeur */
+function readVint(buffer: Buffer, pos: number): { length: number; value: number } | null {
+  const first = buffer[pos];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (pos + length > buffer.length) return null;
+
+  let value = first & (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[pos + i];
+  }
+  return { length, value };
+}
+
+function readUint(buffer: Buffer, pos: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + buffer[pos + i];
+  }
+  return value;
+}
+
+function matchesAt(buffer: Buffer, pos: number, id: number[]): boolean {
+  return id.every((byte, i) => buffer[pos + i] === byte);
+}
+
+/**
+ * Timecode (en unités de TimecodeScale) d'un Cluster, ou null si la position
+ * ne correspond pas à un vrai Cluster (l'identifiant peut apparaître par
+ * hasard dans les données audio)
+ */
+function readClusterTimecode(buffer: Buffer, pos: number): number | null {
+  const size = readVint(buffer, pos + EBML_CLUSTER_ID.length);
+  if (!size) return null;
+
+  const child = pos + EBML_CLUSTER_ID.length + size.length;
+  if (buffer[child] !== EBML_CLUSTER_TIMECODE_ID) return null;
+  const timecodeSize = readVint(buffer, child + 1);
+  if (!timecodeSize || timecodeSize.value > 8) return null;
+
+  return readUint(buffer, child + 1 + timecodeSize.length, timecodeSize.value);
+}
+
+function readTimecodeScale(header: Buffer): number {
+  const pos = header.indexOf(Buffer.from(EBML_TIMECODE_SCALE_ID));
+  if (pos < 0) return DEFAULT_TIMECODE_SCALE_NS;
+  const size = readVint(header, pos + EBML_TIMECODE_SCALE_ID.length);
+  if (!size || size.value > 8) return DEFAULT_TIMECODE_SCALE_NS;
+  return readUint(header, pos + EBML_TIMECODE_SCALE_ID.length + size.length, size.value) || DEFAULT_TIMECODE_SCALE_NS;
+}
+
+function splitWebm(buffer: Buffer, maxChunkBytes: number, overlapSeconds: number): AudioChunk[] | null {
+  const clusters: Array<{ pos: number; time: number }> = [];
+  const clusterId = Buffer.from(EBML_CLUSTER_ID);
+
+  for (let pos = buffer.indexOf(clusterId); pos >= 0; pos = buffer.indexOf(clusterId, pos + 1)) {
+    const timecode = readClusterTimecode(buffer, pos);
+    if (timecode !== null) clusters.push({ pos, time: timecode });
+  }
+  if (clusters.length === 0) return null;
+
+  const header = buffer.subarray(0, clusters[0].pos);
+  const secondsPerUnit = readTimecodeScale(header) / 1e9;
+  const clusterEnd = (i: number) => (i + 1 < clusters.length ? clusters[i + 1].pos : buffer.length);
+
+  const chunks: AudioChunk[] = [];
+  for (let first = 0; first < clusters.length; ) {
+    // Regroupe autant de Clusters que possible (au moins un)
+    let last = first;
+    while (
+      last + 1 < clusters.length &&
+      header.length + clusterEnd(last + 1) - clusters[first].pos <= maxChunkBytes
+    ) {
+      last++;
+    }
+
+    chunks.push({
+      index: chunks.length,
+      buffer: Buffer.concat([header, buffer.subarray(clusters[first].pos, clusterEnd(last))]),
+      offset: clusters[first].time * secondsPerUnit,
+    });
+    if (last + 1 >= clusters.length) break;
+
+    // Le morceau suivant reprend les Clusters des dernières secondes
+    const endTime = clusters[last + 1].time * secondsPerUnit;
+    let next = last + 1;
+    while (next - 1 > first && clusters[next - 1].time * secondsPerUnit >= endTime - overlapSeconds) {
+      next--;
+    }
+    first = next;
+  }
+  return chunks;
+}
+
+// ============================================================================
+// FUSION
+// ============================================================================
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[.,;:!?…"«»()\[\]-]/g, "");
+}
+
+/**
+ * Retire du début de `next` les mots qui répètent la fin de `previous`
+ */
+export function dedupeOverlapText(previous: string, next: string): string {
+  const previousWords = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const nextTokens = next.split(/\s+/).filter(Boolean);
+  const nextWords = nextTokens.map(normalizeWord);
+
+  const max = Math.min(MAX_OVERLAP_WORDS, previousWords.length, nextWords.length);
+  for (let k = max; k >= MIN_OVERLAP_WORDS; k--) {
+    const tail = previousWords.slice(-k);
+    if (tail.every((word, i) => word === nextWords[i])) {
+      return nextTokens.slice(k).join(" ");
+    }
+  }
+  return next.trim();
+}
+
+function segmentMidpoint(segment: Pick<WhisperSegment, "start" | "end">): number {
+  return (segment.start + segment.end) / 2;
+}
+
+/**
+ * Fusionne les transcriptions des morceaux d'un enregistrement. Dans la zone
+ * de chevauchement, chaque morceau garde les segments de sa moitié ; le texte
+ * encore répété à la jonction est supprimé.
+ */
+export function mergeChunkTranscriptions(chunks: ChunkTranscription[]): WhisperResponse {
+  const ordered = [...chunks].sort((a, b) => a.offset - b.offset);
+  const segments: WhisperSegment[] = [];
+  let text = "";
+  let previousEnd = 0;
+
+  ordered.forEach((chunk, i) => {
+    const cut = i > 0 && chunk.offset < previousEnd ? (chunk.offset + previousEnd) / 2 : chunk.offset;
+
+    // Segments du morceau précédent situés après la coupure
+    while (segments.length > 0 && segmentMidpoint(segments[segments.length - 1]) >= cut) {
+      segments.pop();
+    }
+
+    for (const segment of chunk.response.segments ?? []) {
+      const shifted = { ...segment, start: segment.start + chunk.offset, end: segment.end + chunk.offset };
+      if (i > 0 && segmentMidpoint(shifted) < cut) continue;
+
+      const last = segments[segments.length - 1];
+      if (last) {
+        const deduped = dedupeOverlapText(last.text, shifted.text);
+        if (!deduped) continue;
+        shifted.text = shifted.text.startsWith(" ") ? ` ${deduped}` : deduped;
+        shifted.start = Math.max(shifted.start, last.end);
+      }
+      segments.push(shifted);
+    }
+
+    text = text ? `${text} ${dedupeOverlapText(text, chunk.response.text)}`.trim() : chunk.response.text.trim();
+    previousEnd = chunk.offset + chunk.response.duration;
+  });
+
+  const hasSegments = ordered.every(chunk => (chunk.response.segments ?? []).length > 0);
+  const last = ordered[ordered.length - 1];
+
+  return {
+    task: "transcribe",
+    language: ordered[0]?.response.language ?? "",
+    duration: last ? last.offset + last.response.duration : 0,
+    text: hasSegments ? segments.map(s => s.text.trim()).filter(Boolean).join(" ") : text,
+    segments: segments.map((segment, id) => ({ ...segment, id })),
+  };
+}
@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AudioSegment } from "../drizzle/schema";
+import type { WhisperSegment } from "./_core/voiceTranscription";
+
+vi.mock("./_core/llm", async importOriginal => ({
+  ...(await importOriginal<typeof import("./_core/llm")>()),
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    replaceAudioSegments: vi.fn(async () => undefined),
+    updateAudioRecording: vi.fn(async () => undefined),
+  };
+});
+
+const { invokeLLM } = await import("./_core/llm");
+const db = await import("./db");
+const { diarizeTimedSegments, labelSegmentsFallback } = await import("./speakerDiarization");
+const { aggregateMemberParticipation, attributeSpeakers, diarizeRecording } = await import("./audioSpeakers");
+
+function whisper(id: number, start: number, end: number, text: string): WhisperSegment {
+  return {
+    id,
+    seek: 0,
+    start,
+    end,
+    text,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: 0,
+    compression_ratio: 1,
+    no_speech_prob: 0,
+  };
+}
+
+function segment(audioId: number, speakerId: string, startTime: number, endTime: number, overrides: Partial<AudioSegment> = {}): AudioSegment {
+  return {
+    id: startTime,
+    audioId,
+    projectId: 1,
+    speakerId,
+    startTime,
+    endTime,
+    text: "texte",
+    confidence: 0.8,
+    cognitiveTokens: 2,
+    biasIndicators: [],
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function mockAssignments(assignments: Array<{ index: number; speakerId: string; confidence: number }>) {
+  vi.mocked(invokeLLM).mockResolvedValueOnce({
+    id: "test",
+    created: 0,
+    model: "test",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content: JSON.stringify({ assignments }) },
+        finish_reason: "stop",
+      },
+    ],
+  });
+}
+
+const MEETING = [
+  whisper(0, 0, 12, "On a déjà investi trop pour arrêter maintenant, il faut continuer."),
+  whisper(1, 12.5, 20, "Je ne suis pas convaincue, quels sont les chiffres ?"),
+  whisper(2, 21, 30, "Les chiffres de la semaine dernière sont bons."),
+];
+
+describe("speaker diarization", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("conserve les horodatages de la transcription", async () => {
+    mockAssignments([
+      { index: 0, speakerId: "speaker_1", confidence: 0.9 },
+      { index: 1, speakerId: "speaker_2", confidence: 0.8 },
+      { index: 2, speakerId: "speaker_1", confidence: 0.7 },
+    ]);
+
+    const result = await diarizeTimedSegments(MEETING, 2);
+
+    expect(result.totalSpeakers).toBe(2);
+    expect(result.segments.map(s => [s.speakerId, s.startTime, s.endTime])).toEqual([
+      ["speaker_1", 0, 12],
+      ["speaker_2", 12.5, 20],
+      ["speaker_1", 21, 30],
+    ]);
+    expect(result.conversationMetrics.totalDuration).toBe(30);
+    expect(result.speakers[0]).toMatchObject({ id: "speaker_1", totalSpeakingTime: 21 });
+  });
+
+  it("se replie sur les préfixes puis sur l'intervenant précédent", () => {
+    const labels = labelSegmentsFallback([
+      { start: 0, end: 2, text: "Bonjour à tous" },
+      { start: 2, end: 4, text: "Intervenant 2 : bonjour" },
+      { start: 4, end: 6, text: "on commence ?" },
+    ]);
+
+    expect(labels.map(l => l.speakerId)).toEqual(["speaker_1", "speaker_2", "speaker_2"]);
+  });
+
+  it("reste utilisable si le LLM échoue", async () => {
+    vi.mocked(invokeLLM).mockRejectedValueOnce(new Error("down"));
+    const result = await diarizeTimedSegments(MEETING);
+
+    expect(result.totalSpeakers).toBe(1);
+    expect(result.segments).toHaveLength(3);
+  });
+
+  it("persiste les segments avec leurs CT et indicateurs de biais", async () => {
+    mockAssignments([
+      { index: 0, speakerId: "speaker_1", confidence: 0.9 },
+      { index: 1, speakerId: "speaker_2", confidence: 0.8 },
+      { index: 2, speakerId: "speaker_1", confidence: 0.7 },
+    ]);
+
+    await diarizeRecording({ id: 7, projectId: 3 }, MEETING, 2);
+
+    const [audioId, rows] = vi.mocked(db.replaceAudioSegments).mock.calls[0];
+    expect(audioId).toBe(7);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({ audioId: 7, projectId: 3, speakerId: "speaker_1", startTime: 0, endTime: 12 });
+    expect(rows[0].cognitiveTokens).toBeGreaterThan(0);
+    expect(rows[0].biasIndicators).toEqual(
+      expect.arrayContaining([expect.objectContaining({ type: "sunk_cost" })])
+    );
+    expect(db.updateAudioRecording).toHaveBeenCalledWith(7, {
+      speechRhythm: expect.objectContaining({ turnCount: 3 }),
+    });
+  });
+});
+
+describe("speaker attribution", () => {
+  const users = [
+    { id: 10, name: "Alice" },
+    { id: 20, name: "Bob" },
+  ];
+
+  const segments = [
+    segment(1, "speaker_1", 0, 30, { cognitiveTokens: 5, biasIndicators: [{ type: "anchoring", confidence: 0.6 }] }),
+    segment(1, "speaker_2", 30, 40, { cognitiveTokens: 1 }),
+    segment(1, "speaker_1", 40, 50, { cognitiveTokens: 3 }),
+  ];
+
+  it("attribue temps de parole, CT et biais au membre associé", () => {
+    const speakers = attributeSpeakers(segments, { speaker_1: 10 }, users);
+
+    expect(speakers[0]).toMatchObject({
+      speakerId: "speaker_1",
+      userId: 10,
+      name: "Alice",
+      speakingTime: 40,
+      speakingPercentage: 80,
+      segmentCount: 2,
+      cognitiveTokens: 8,
+      biases: { anchoring: 1 },
+    });
+    expect(speakers[1]).toMatchObject({ speakerId: "speaker_2", userId: null, name: null });
+  });
+
+  it("agrège la participation des membres sur plusieurs enregistrements", () => {
+    const participation = aggregateMemberParticipation(
+      [
+        { audio: { id: 1, speakerMapping: { speaker_1: 10, speaker_2: 20 } }, segments },
+        {
+          audio: { id: 2, speakerMapping: { speaker_1: 20 } },
+          segments: [segment(2, "speaker_1", 0, 50, { cognitiveTokens: 4 }), segment(2, "speaker_2", 50, 60)],
+        },
+      ],
+      users
+    );
+
+    expect(participation).toEqual([
+      expect.objectContaining({ userId: 20, recordingCount: 2, speakingTime: 60, cognitiveTokens: 5 }),
+      expect.objectContaining({ userId: 10, recordingCount: 1, speakingTime: 40, biases: { anchoring: 1 } }),
+    ]);
+    expect(participation[0].speakingPercentage).toBeCloseTo(60);
+  });
+});
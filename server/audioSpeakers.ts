@@ -0,0 +1,212 @@
+/**
+ * Audio Speakers - Diarisation des enregistrements et attribution aux membres
+ *
+ * Après transcription, chaque segment horodaté est attribué à un intervenant
+ * (speaker_1, speaker_2...) puis persisté avec ses CT et ses indicateurs de
+ * biais. Un membre de l'équipe associe ensuite les intervenants aux membres
+ * réels, ce qui permet d'attribuer CT, biais et participation à chacun.
+ * Le rythme de parole est calculé à partir des mêmes segments.
+ */
+
+import type { AudioRecording, AudioSegment, User } from "../drizzle/schema";
+import type { WhisperSegment } from "./_core/voiceTranscription";
+import { detectBiasKeywords } from "./biasDetection";
+import { calculateCognitiveTokens } from "./cognitiveTokens";
+import * as db from "./db";
+import {
+  buildDiarizationResult,
+  diarizeTimedSegments,
+  type DiarizationResult,
+  type SpeakerSegment,
+} from "./speakerDiarization";
+import { analyzeSpeechRhythm } from "./speechRhythm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SpeakerAttribution {
+  speakerId: string;
+  /** Membre associé à l'intervenant (null tant que non associé) */
+  userId: number | null;
+  name: string | null;
+  speakingTime: number; // secondes
+  speakingPercentage: number; // 0-100
+  segmentCount: number;
+  participationScore: number; // 0-1
+  cognitiveTokens: number;
+  biases: Record<string, number>;
+}
+
+export interface MemberParticipation {
+  userId: number;
+  name: string | null;
+  recordingCount: number;
+  speakingTime: number; // secondes
+  speakingPercentage: number; // 0-100, sur l'ensemble des enregistrements
+  cognitiveTokens: number;
+  biases: Record<string, number>;
+}
+
+type SpeakerMapping = Record<string, number>;
+
+// ============================================================================
+// DIARISATION
+// ============================================================================
+
+/**
+ * Diarise un enregistrement transcrit, remplace ses segments persistés et
+ * enregistre son analyse du rythme de parole
+ */
+export async function diarizeRecording(
+  audio: Pick<AudioRecording, "id" | "projectId">,
+  segments: WhisperSegment[],
+  expectedSpeakers?: number
+): Promise<DiarizationResult> {
+  const diarization = await diarizeTimedSegments(segments, expectedSpeakers, { projectId: audio.projectId });
+
+  await db.replaceAudioSegments(
+    audio.id,
+    diarization.segments.map(segment => ({
+      audioId: audio.id,
+      projectId: audio.projectId,
+      speakerId: segment.speakerId,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      text: segment.text,
+      confidence: segment.confidence,
+      cognitiveTokens: calculateCognitiveTokens(segment.text),
+      biasIndicators: detectBiasKeywords(segment.text).map(b => ({
+        type: b.type,
+        confidence: b.confidence,
+      })),
+    }))
+  );
+  await db.updateAudioRecording(audio.id, {
+    speechRhythm: analyzeSpeechRhythm(diarization.segments),
+  });
+
+  return diarization;
+}
+
+export function toSpeakerSegment(segment: AudioSegment): SpeakerSegment {
+  return {
+    speakerId: segment.speakerId,
+    speakerLabel: segment.speakerId.replace("speaker_", "Intervenant "),
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    duration: Math.max(0, segment.endTime - segment.startTime),
+    text: segment.text,
+    confidence: segment.confidence ?? 0.5,
+  };
+}
+
+// ============================================================================
+// ATTRIBUTION AUX MEMBRES
+// ============================================================================
+
+function countBiases(segments: AudioSegment[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const segment of segments) {
+    for (const bias of segment.biasIndicators ?? []) {
+      counts[bias.type] = (counts[bias.type] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+function mergeCounts(target: Record<string, number>, source: Record<string, number>): Record<string, number> {
+  for (const [key, count] of Object.entries(source)) {
+    target[key] = (target[key] || 0) + count;
+  }
+  return target;
+}
+
+/**
+ * Attribue temps de parole, CT et biais de chaque intervenant d'un
+ * enregistrement au membre qui lui est associé
+ */
+export function attributeSpeakers(
+  segments: AudioSegment[],
+  mapping: SpeakerMapping | null,
+  users: Array<Pick<User, "id" | "name">>
+): SpeakerAttribution[] {
+  const { speakers } = buildDiarizationResult(segments.map(toSpeakerSegment));
+
+  return speakers.map(profile => {
+    const speakerSegments = segments.filter(s => s.speakerId === profile.id);
+    const userId = mapping?.[profile.id] ?? null;
+
+    return {
+      speakerId: profile.id,
+      userId,
+      name: users.find(u => u.id === userId)?.name ?? null,
+      speakingTime: profile.totalSpeakingTime,
+      speakingPercentage: profile.speakingPercentage,
+      segmentCount: profile.segmentCount,
+      participationScore: profile.participationScore,
+      cognitiveTokens: speakerSegments.reduce((sum, s) => sum + s.cognitiveTokens, 0),
+      biases: countBiases(speakerSegments),
+    };
+  });
+}
+
+/**
+ * Participation orale des membres sur l'ensemble des enregistrements d'un
+ * projet. Les intervenants non associés ne sont pas comptés.
+ */
+export function aggregateMemberParticipation(
+  recordings: Array<{ audio: Pick<AudioRecording, "id" | "speakerMapping">; segments: AudioSegment[] }>,
+  users: Array<Pick<User, "id" | "name">>
+): MemberParticipation[] {
+  const members = new Map<number, MemberParticipation & { recordings: Set<number> }>();
+  let totalSpeakingTime = 0;
+
+  for (const { audio, segments } of recordings) {
+    for (const speaker of attributeSpeakers(segments, audio.speakerMapping, users)) {
+      if (speaker.userId === null) continue;
+      totalSpeakingTime += speaker.speakingTime;
+
+      const member = members.get(speaker.userId) ?? {
+        userId: speaker.userId,
+        name: speaker.name,
+        recordingCount: 0,
+        speakingTime: 0,
+        speakingPercentage: 0,
+        cognitiveTokens: 0,
+        biases: {},
+        recordings: new Set<number>(),
+      };
+      member.recordings.add(audio.id);
+      member.speakingTime += speaker.speakingTime;
+      member.cognitiveTokens += speaker.cognitiveTokens;
+      mergeCounts(member.biases, speaker.biases);
+      members.set(speaker.userId, member);
+    }
+  }
+
+  return Array.from(members.values())
+    .map(({ recordings: recordingIds, ...member }) => ({
+      ...member,
+      recordingCount: recordingIds.size,
+      speakingPercentage: totalSpeakingTime > 0 ? (member.speakingTime / totalSpeakingTime) * 100 : 0,
+    }))
+    .sort((a, b) => b.speakingTime - a.speakingTime);
+}
+
+/**
+ * Participation orale des membres d'un projet
+ */
+export async function getMemberParticipation(projectId: number, teamId: number): Promise<MemberParticipation[]> {
+  const recordings = await db.getAudioRecordingsByProjectId(projectId);
+  const segments = await db.getAudioSegmentsByProjectId(projectId);
+  const members = await db.getTeamMembers(teamId);
+
+  return aggregateMemberParticipation(
+    recordings.map(({ audio }) => ({
+      audio,
+      segments: segments.filter(s => s.audioId === audio.id),
+    })),
+    members.map(m => m.user)
+  );
+}
@@ -1,4 +1,6 @@
-import { invokeLLM } from "./_core/llm";
+import { z } from "zod";
+import type { LLMCallContext } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
 
 // Types for bias detection
 export interface BiasIndicator {
@@ -20,6 +22,18 @@ export type BiasType =
   | "availability"
   | "bandwagon";
 
+export const BIAS_TYPES = [
+  "confirmation",
+  "groupthink",
+  "sunk_cost",
+  "overconfidence",
+  "authority",
+  "anchoring",
+  "halo_effect",
+  "availability",
+  "bandwagon",
+] as const satisfies readonly BiasType[];
+
 export interface MessageAnalysis {
   sentiment: number; // -1 to 1
   cognitivePatterns: string[];
@@ -233,9 +247,30 @@ export function detectBiasKeywords(text: string): BiasIndicator[] {
   return indicators.sort((a, b) => b.confidence - a.confidence);
 }
 
+// Expected LLM output, also sent to the model as its response format
+const biasAnalysisSchema = z.object({
+  biases: z.array(
+    z.object({
+      type: z.enum(BIAS_TYPES),
+      confidence: z.number().min(0).max(1),
+      evidence: z.array(z.string()),
+      severity: z.enum(["low", "medium", "high"]),
+      recommendation: z.string(),
+    })
+  ),
+  cognitiveHealth: z.object({
+    diversityIndex: z.number().min(0).max(1),
+    criticalThinkingScore: z.number().min(0).max(1),
+    convergenceRate: z.number().min(0).max(1),
+    biasRiskLevel: z.number().min(0).max(1),
+  }),
+  recommendations: z.array(z.string()),
+});
+
 // Advanced LLM-based bias detection
 export async function detectBiasWithLLM(
-  context: ConversationContext
+  context: ConversationContext,
+  callContext?: LLMCallContext
 ): Promise<{
   biases: BiasIndicator[];
   cognitiveHealth: {
@@ -245,6 +280,8 @@ export async function detectBiasWithLLM(
     biasRiskLevel: number;
   };
   recommendations: string[];
+  // Set when the keyword fallback replaced the LLM analysis
+  degraded?: "budget_exceeded" | "llm_unavailable";
 }> {
   const recentMessages = context.messages.slice(-20);
   const conversationText = recentMessages
@@ -284,65 +321,22 @@ Réponds en JSON avec le format suivant:
   "recommendations": ["recommandation stratégique"]
 }`;
 
-  try {
-    const response = await invokeLLM({
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: `Conversation à analyser:\n${conversationText}\n\nContexte: Équipe de ${context.teamSize} personnes.`,
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "bias_analysis",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              biases: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    type: { type: "string" },
-                    confidence: { type: "number" },
-                    evidence: { type: "array", items: { type: "string" } },
-                    severity: { type: "string", enum: ["low", "medium", "high"] },
-                    recommendation: { type: "string" },
-                  },
-                  required: ["type", "confidence", "evidence", "severity", "recommendation"],
-                  additionalProperties: false,
-                },
-              },
-              cognitiveHealth: {
-                type: "object",
-                properties: {
-                  diversityIndex: { type: "number" },
-                  criticalThinkingScore: { type: "number" },
-                  convergenceRate: { type: "number" },
-                  biasRiskLevel: { type: "number" },
-                },
-                required: ["diversityIndex", "criticalThinkingScore", "convergenceRate", "biasRiskLevel"],
-                additionalProperties: false,
-              },
-              recommendations: { type: "array", items: { type: "string" } },
-            },
-            required: ["biases", "cognitiveHealth", "recommendations"],
-            additionalProperties: false,
-          },
-        },
+  const result = await invokeStructuredLLM({
+    useCase: "bias_detection",
+    context: callContext,
+    messages: [
+      { role: "system", content: systemPrompt },
+      {
+        role: "user",
+        content: `Conversation à analyser:\n${conversationText}\n\nContexte: Équipe de ${context.teamSize} personnes.`,
       },
-    });
+    ],
+    schemaName: "bias_analysis",
+    schema: biasAnalysisSchema,
+  });
 
-    const content = response.choices[0]?.message?.content;
-    if (content && typeof content === 'string') {
-      return JSON.parse(content);
-    }
-  } catch (error) {
-    console.error("[BiasDetection] LLM analysis failed:", error);
-  }
+  if (result.ok) return result.data;
+  console.error("[BiasDetection] LLM analysis failed:", result.error);
 
   // Fallback to keyword detection
   const keywordBiases = detectBiasKeywords(
@@ -358,6 +352,7 @@ Réponds en JSON avec le format suivant:
       biasRiskLevel: keywordBiases.length > 0 ? 0.6 : 0.3,
     },
     recommendations: keywordBiases.map((b) => b.recommendation),
+    degraded: result.error.code === "BUDGET_EXCEEDED" ? "budget_exceeded" : "llm_unavailable",
   };
 }
 
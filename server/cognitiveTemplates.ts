@@ -8,7 +8,7 @@
  * - Les métriques de santé cognitive
  */
 
-import type { BiasType } from "./biasDetection";
+import type { BiasIndicator, BiasType } from "./biasDetection";
 
 // ============================================================================
 // TYPES DE TEMPLATES
@@ -23,6 +23,16 @@ export type TemplateType =
   | "operations"        // Équipe opérations
   | "custom";           // Personnalisé
 
+export const TEMPLATE_TYPES = [
+  "startup",
+  "product_tech",
+  "consulting",
+  "creative",
+  "research",
+  "operations",
+  "custom",
+] as const satisfies readonly TemplateType[];
+
 export interface CognitiveTemplate {
   id: TemplateType;
   name: string;
@@ -433,12 +443,22 @@ export function suggestTemplate(characteristics: {
   return "product_tech";
 }
 
+/** Personnalisations partielles d'un template (chaque bloc est fusionné) */
+export type TemplateCustomizations = Partial<
+  Omit<CognitiveTemplate, "biasConfig" | "pingConfig" | "targetMetrics" | "customMessages">
+> & {
+  biasConfig?: Partial<CognitiveTemplate["biasConfig"]>;
+  pingConfig?: Partial<CognitiveTemplate["pingConfig"]>;
+  targetMetrics?: Partial<CognitiveTemplate["targetMetrics"]>;
+  customMessages?: Partial<CognitiveTemplate["customMessages"]>;
+};
+
 /**
  * Fusionne un template avec des personnalisations
  */
 export function customizeTemplate(
   baseTemplateId: TemplateType,
-  customizations: Partial<CognitiveTemplate>
+  customizations: TemplateCustomizations
 ): CognitiveTemplate {
   const base = getTemplate(baseTemplateId);
   
@@ -549,3 +569,107 @@ export function evaluateMetricsAgainstTemplate(
 
   return { overall, details };
 }
+
+// ============================================================================
+// APPLICATION DES TEMPLATES
+// ============================================================================
+
+/** Template choisi pour une équipe ou un projet */
+export interface TemplateSelection {
+  templateType: TemplateType | null;
+  customTemplate: CognitiveTemplate | null;
+}
+
+/**
+ * Résout le template actif : la première source configurée l'emporte
+ * (typiquement le projet, puis son équipe). `null` si aucun template choisi.
+ */
+export function resolveTemplate(
+  ...sources: Array<TemplateSelection | null | undefined>
+): CognitiveTemplate | null {
+  for (const source of sources) {
+    if (!source) continue;
+    if (source.customTemplate) return source.customTemplate;
+    if (source.templateType) return getTemplate(source.templateType);
+  }
+  return null;
+}
+
+/** Seuil de confiance historique quand aucun template n'est choisi */
+const DEFAULT_BIAS_PING_THRESHOLD = 0.6;
+
+/** Les biais prioritaires alertent un peu plus tôt que le seuil du template */
+const PRIORITY_BIAS_THRESHOLD_BONUS = 0.1;
+
+/**
+ * Retire les biais que le template demande d'ignorer
+ */
+export function withoutIgnoredBiases(
+  indicators: BiasIndicator[],
+  template: CognitiveTemplate | null
+): BiasIndicator[] {
+  if (!template) return indicators;
+  return indicators.filter(b => !template.biasConfig.ignoredBiases.includes(b.type));
+}
+
+/**
+ * Choisit le biais qui mérite un Smart Ping selon la configuration du template :
+ * biais ignorés exclus, seuil `alertThreshold` (abaissé pour les biais
+ * prioritaires), biais prioritaires d'abord puis par confiance décroissante.
+ */
+export function selectBiasForPing(
+  indicators: BiasIndicator[],
+  template: CognitiveTemplate | null
+): BiasIndicator | undefined {
+  if (!template) {
+    return indicators.find(b => b.confidence > DEFAULT_BIAS_PING_THRESHOLD);
+  }
+
+  const { priorityBiases, alertThreshold } = template.biasConfig;
+  const isPriority = (b: BiasIndicator) => priorityBiases.includes(b.type);
+
+  return withoutIgnoredBiases(indicators, template)
+    .filter(b => b.confidence > (isPriority(b) ? alertThreshold - PRIORITY_BIAS_THRESHOLD_BONUS : alertThreshold))
+    .sort((a, b) => Number(isPriority(b)) - Number(isPriority(a)) || b.confidence - a.confidence)[0];
+}
+
+/** Ping déjà envoyé sur le projet */
+export interface RecentPing {
+  pingType?: string;
+  createdAt: Date;
+}
+
+export type PingDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "disabled" | "hourly_limit" | "cooldown" };
+
+/**
+ * Vérifie qu'un ping est autorisé par la configuration du template :
+ * type activé, plafond horaire et délai minimum entre pings du même type.
+ */
+export function evaluatePing(
+  template: CognitiveTemplate | null,
+  pingType: string,
+  recentPings: RecentPing[],
+  now: Date = new Date()
+): PingDecision {
+  if (!template) return { allowed: true };
+
+  const { enabledPings, maxPingsPerHour, cooldownMinutes } = template.pingConfig;
+  if (!enabledPings.includes(pingType)) {
+    return { allowed: false, reason: "disabled" };
+  }
+
+  const hourAgo = now.getTime() - 60 * 60 * 1000;
+  const pingsLastHour = recentPings.filter(p => p.createdAt.getTime() > hourAgo);
+  if (pingsLastHour.length >= maxPingsPerHour) {
+    return { allowed: false, reason: "hourly_limit" };
+  }
+
+  const cooldownStart = now.getTime() - cooldownMinutes * 60 * 1000;
+  if (recentPings.some(p => p.pingType === pingType && p.createdAt.getTime() > cooldownStart)) {
+    return { allowed: false, reason: "cooldown" };
+  }
+
+  return { allowed: true };
+}
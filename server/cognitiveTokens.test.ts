@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateCognitiveTokens,
+  CT_CYCLES,
+  getDueCTPings,
+  isCTPingDue,
+  markCTPings,
+  type CTPingMarks,
+  type CTPingType,
+} from "./cognitiveTokens";
+
+/**
+ * Rejoue une conversation message par message et retourne les pings
+ * déclenchés avec le total de CT au moment du déclenchement.
+ */
+function simulateConversation(messages: string[], canFire: (pingType: CTPingType) => boolean = () => true) {
+  let totalCT = 0;
+  let marks: CTPingMarks = {};
+  const fired: Array<{ pingType: CTPingType; totalCT: number }> = [];
+
+  for (const message of messages) {
+    totalCT += calculateCognitiveTokens(message);
+    const due = getDueCTPings(totalCT, marks).filter(canFire);
+    fired.push(...due.map(pingType => ({ pingType, totalCT })));
+    marks = markCTPings(marks, due, totalCT);
+  }
+
+  return { totalCT, marks, fired };
+}
+
+const ARGUMENT =
+  "Je pense que nous devrions revoir la stratégie parce que les retours clients montrent une attente différente, donc il faut prioriser l'onboarding.";
+
+describe("calculateCognitiveTokens", () => {
+  it("compte 1 CT pour un simple accord", () => {
+    expect(calculateCognitiveTokens("ok")).toBe(1);
+    expect(calculateCognitiveTokens("je suis d'accord")).toBe(1);
+  });
+
+  it("valorise les décisions entre 6 et 10 CT", () => {
+    const ct = calculateCognitiveTokens("Nous avons décidé de lancer la version bêta en mars avec trois clients pilotes.");
+    expect(ct).toBeGreaterThanOrEqual(6);
+    expect(ct).toBeLessThanOrEqual(10);
+  });
+
+  it("plafonne un message à 12 CT", () => {
+    expect(calculateCognitiveTokens(Array(400).fill("mot").join(" "))).toBeLessThanOrEqual(12);
+  });
+});
+
+describe("CT propagation cycles", () => {
+  it("déclenche chaque type une première fois à son seuil", () => {
+    expect(isCTPingDue("dominance", 79, {})).toBe(false);
+    expect(isCTPingDue("dominance", 80, {})).toBe(true);
+    expect(getDueCTPings(130, {})).toEqual(["bias", "dominance"]);
+  });
+
+  it("réarme un type après un cycle complet depuis son dernier déclenchement", () => {
+    const marks: CTPingMarks = { bias: 130 };
+    expect(isCTPingDue("bias", 130 + CT_CYCLES.bias.every - 1, marks)).toBe(false);
+    expect(isCTPingDue("bias", 130 + CT_CYCLES.bias.every, marks)).toBe(true);
+  });
+
+  it("suit chaque type indépendamment", () => {
+    const marks = markCTPings({}, ["dominance"], 90);
+    expect(marks).toEqual({ dominance: 90 });
+    expect(getDueCTPings(125, marks)).toEqual(["bias"]);
+    expect(getDueCTPings(190, marks)).toEqual(["bias", "groupthink", "dominance"]);
+  });
+
+  it("ne déclenche qu'une fois lors d'un saut de plusieurs cycles", () => {
+    const marks = markCTPings({ dominance: 100 }, getDueCTPings(1000, { dominance: 100 }), 1000);
+    expect(marks.dominance).toBe(1000);
+    expect(getDueCTPings(1010, marks)).toEqual([]);
+  });
+});
+
+describe("long conversations", () => {
+  it("continue à émettre des pings bien au-delà de 300 CT", () => {
+    const { totalCT, fired } = simulateConversation(Array(200).fill(ARGUMENT));
+
+    expect(totalCT).toBeGreaterThan(1000);
+    const afterThreshold = fired.filter(f => f.totalCT > 300);
+    for (const pingType of ["bias", "groupthink", "dominance", "cognitivelock"] as const) {
+      expect(afterThreshold.some(f => f.pingType === pingType)).toBe(true);
+    }
+  });
+
+  it("espace les pings d'un même type d'au moins un cycle", () => {
+    const { fired } = simulateConversation(Array(200).fill(ARGUMENT));
+
+    for (const pingType of ["bias", "groupthink", "dominance", "cognitivelock"] as const) {
+      const triggers = fired.filter(f => f.pingType === pingType).map(f => f.totalCT);
+      expect(triggers[0]).toBeGreaterThanOrEqual(CT_CYCLES[pingType].firstAt);
+      for (let i = 1; i < triggers.length; i++) {
+        expect(triggers[i] - triggers[i - 1]).toBeGreaterThanOrEqual(CT_CYCLES[pingType].every);
+      }
+    }
+  });
+
+  it("émet un nombre de pings proportionnel à la durée de la conversation", () => {
+    const short = simulateConversation(Array(50).fill(ARGUMENT));
+    const long = simulateConversation(Array(200).fill(ARGUMENT));
+
+    const dominanceCount = (run: typeof short) => run.fired.filter(f => f.pingType === "dominance").length;
+    expect(dominanceCount(long)).toBeGreaterThan(dominanceCount(short) * 3);
+  });
+
+  it("garde un type en attente tant qu'il ne peut pas être émis", () => {
+    // Sans biais détecté, le Bias Ping reste armé jusqu'au prochain message biaisé
+    const messages = Array(60).fill(ARGUMENT);
+    const { marks, fired } = simulateConversation(messages, pingType => pingType !== "bias");
+
+    expect(fired.some(f => f.pingType === "bias")).toBe(false);
+    expect(marks.bias).toBeUndefined();
+    expect(getDueCTPings(marks.dominance ?? 0, marks)).toContain("bias");
+  });
+
+  it("ne déclenche rien sur une conversation faite d'acquiescements", () => {
+    const { totalCT, fired } = simulateConversation(Array(70).fill("ok"));
+    expect(totalCT).toBe(70);
+    expect(fired).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Cognitive Tokens (CT) - Mesure de l'effort cognitif d'une discussion
+ *
+ * Chaque message rapporte des CT selon sa complexité. Les Smart Pings liés aux
+ * CT suivent des cycles de propagation : un type de ping se déclenche une
+ * première fois à `firstAt` CT, puis se réarme tous les `every` CT depuis son
+ * dernier déclenchement, tout au long de la conversation.
+ */
+
+// ============================================================================
+// CALCUL DES CT
+// ============================================================================
+
+/**
+ * Calcule les CT d'un message selon sa complexité
+ */
+export function calculateCognitiveTokens(text: string): number {
+  const wordCount = text.split(/\s+/).filter(w => w.length > 0).length;
+  const lineCount = text.split('\n').filter(l => l.trim().length > 0).length;
+  const hasStructure = /^[-*\d]+\.?\s/m.test(text); // Lists, numbered points
+  const hasQuestions = (text.match(/\?/g) || []).length;
+  const hasConclusion = /donc|ainsi|en conclusion|par conséquent|finalement/i.test(text);
+  const hasArguments = /parce que|car|puisque|en effet|d'une part|d'autre part/i.test(text);
+  const isDecision = /décidé|décision|validé|approuvé|rejeté|adopté/i.test(text);
+  const isAgreement = /^(ok|d'accord|oui|non|je suis d'accord|parfait|entendu)$/i.test(text.trim());
+
+  // Simple agreement = 1 CT
+  if (isAgreement || wordCount <= 5) {
+    return 1;
+  }
+
+  // Base CT calculation
+  let ct = Math.ceil(wordCount / 15); // ~1 CT per 15 words
+
+  // Bonuses for complexity
+  if (hasStructure) ct += 2;
+  if (hasQuestions >= 2) ct += 1;
+  if (hasConclusion) ct += 2;
+  if (hasArguments) ct += 2;
+  if (isDecision) ct += 4;
+  if (lineCount >= 5) ct += Math.floor(lineCount / 5);
+
+  // Cap based on message type
+  if (isDecision) {
+    return Math.min(Math.max(ct, 6), 10); // 6-10 CT for decisions
+  } else if (lineCount >= 10 || wordCount >= 150) {
+    return Math.min(Math.max(ct, 8), 12); // 8-12 CT for long strategic analysis
+  } else if (lineCount >= 5 || wordCount >= 50) {
+    return Math.min(Math.max(ct, 4), 6); // 4-6 CT for structured arguments
+  }
+
+  return Math.min(ct, 12); // Max 12 CT per message
+}
+
+// ============================================================================
+// CYCLES DE PROPAGATION
+// ============================================================================
+
+export const CT_PING_TYPES = ["bias", "groupthink", "dominance", "cognitivelock"] as const;
+
+export type CTPingType = (typeof CT_PING_TYPES)[number];
+
+export interface CTCycle {
+  /** CT totaux à partir desquels le ping se déclenche la première fois */
+  firstAt: number;
+  /** CT à accumuler depuis le dernier déclenchement pour se réarmer */
+  every: number;
+}
+
+/** Dernier déclenchement (en CT totaux) par type de ping */
+export type CTPingMarks = Partial<Record<CTPingType, number>>;
+
+export const CT_CYCLES: Record<CTPingType, CTCycle> = {
+  bias: { firstAt: 120, every: 120 },           // Biais cognitifs
+  groupthink: { firstAt: 150, every: 150 },     // Groupthink
+  dominance: { firstAt: 80, every: 100 },       // Dominance
+  cognitivelock: { firstAt: 200, every: 150 },  // Verrouillage cognitif
+};
+
+/**
+ * Indique si un type de ping est réarmé pour le total de CT courant
+ */
+export function isCTPingDue(
+  pingType: CTPingType,
+  totalCT: number,
+  marks: CTPingMarks,
+  cycles: Record<CTPingType, CTCycle> = CT_CYCLES
+): boolean {
+  const cycle = cycles[pingType];
+  const lastPing = marks[pingType];
+  if (lastPing === undefined) return totalCT >= cycle.firstAt;
+  return totalCT - lastPing >= cycle.every;
+}
+
+/**
+ * Types de ping dont le cycle est arrivé à échéance
+ */
+export function getDueCTPings(
+  totalCT: number,
+  marks: CTPingMarks,
+  cycles: Record<CTPingType, CTCycle> = CT_CYCLES
+): CTPingType[] {
+  return CT_PING_TYPES.filter(pingType => isCTPingDue(pingType, totalCT, marks, cycles));
+}
+
+/**
+ * Enregistre le déclenchement des pings au total de CT courant. Un saut de
+ * plusieurs cycles ne produit qu'un seul ping : le cycle repart de `totalCT`.
+ */
+export function markCTPings(marks: CTPingMarks, pingTypes: CTPingType[], totalCT: number): CTPingMarks {
+  const next = { ...marks };
+  for (const pingType of pingTypes) {
+    next[pingType] = totalCT;
+  }
+  return next;
+}
@@ -3,7 +3,11 @@ import {
   analyzeWithCSAW,
   DEFAULT_WINDOWS,
   formatCSAWForDisplay,
+  getCSAWAlertKey,
+  getCSAWEventType,
+  selectNewCSAWAlerts,
   type AnalyzableMessage,
+  type CSAWAlert,
 } from "./cognitiveWindows";
 
 // Helper to create test messages
@@ -218,4 +222,42 @@ describe("CSAW - Cognitive Sliding Analysis Windows", () => {
       expect(result.crossWindowAnalysis).toHaveProperty("longTermTrend");
     });
   });
+
+  describe("cognitive events", () => {
+    const biasAlert: CSAWAlert = {
+      type: "threshold",
+      severity: "warning",
+      title: "Risque de biais élevé",
+      message: "Le niveau de risque de biais dépasse le seuil.",
+      windowId: "immediate",
+      metric: "biasRiskLevel",
+      value: 0.8,
+      threshold: 0.6,
+    };
+    const trendAlert: CSAWAlert = {
+      ...biasAlert,
+      type: "trend",
+      windowId: "short",
+      metric: "decisionQuality",
+    };
+
+    it("should map alerts to cognitive event types", () => {
+      expect(getCSAWEventType(biasAlert)).toBe("bias_detected");
+      expect(getCSAWEventType(trendAlert)).toBe("decision_quality_change");
+      expect(getCSAWEventType({ ...biasAlert, metric: "participationBalance" })).toBe("diversity_alert");
+      expect(getCSAWEventType({ ...biasAlert, type: "pattern", metric: "divergenceScore" })).toBe("pattern_recognized");
+    });
+
+    it("should skip alerts already stored during the cooldown", () => {
+      const now = new Date();
+      const stored = (alert: CSAWAlert, minutesAgo: number) => ({
+        data: { source: "csaw", alertKey: getCSAWAlertKey(alert) },
+        createdAt: new Date(now.getTime() - minutesAgo * 60 * 1000),
+      });
+
+      expect(selectNewCSAWAlerts([biasAlert, trendAlert], [stored(biasAlert, 10)], now)).toEqual([trendAlert]);
+      expect(selectNewCSAWAlerts([biasAlert], [stored(biasAlert, 120)], now)).toEqual([biasAlert]);
+      expect(selectNewCSAWAlerts([biasAlert, biasAlert], [], now)).toHaveLength(1);
+    });
+  });
 });
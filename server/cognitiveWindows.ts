@@ -678,3 +678,62 @@ export function formatCSAWForDisplay(result: CSAWResult): {
     topRecommendations: result.recommendations.slice(0, 3)
   };
 }
+
+// ==================== COGNITIVE EVENTS ====================
+
+export type CSAWEventType =
+  | "bias_detected"
+  | "convergence_warning"
+  | "diversity_alert"
+  | "decision_quality_change"
+  | "pattern_recognized";
+
+// An alert already stored within this delay is not stored again
+export const CSAW_ALERT_COOLDOWN_MINUTES = 60;
+
+// Covers the longest window so that every window gets its messages
+export const CSAW_HISTORY_MINUTES = Math.max(...DEFAULT_WINDOWS.map(w => w.duration));
+
+export function getCSAWAlertKey(alert: CSAWAlert): string {
+  return `${alert.type}:${alert.windowId}:${alert.metric}`;
+}
+
+export function getCSAWEventType(alert: CSAWAlert): CSAWEventType {
+  switch (alert.metric) {
+    case "biasRiskLevel":
+      return "bias_detected";
+    case "convergenceRate":
+      return "convergence_warning";
+    case "diversityIndex":
+    case "participationBalance":
+      return "diversity_alert";
+    case "decisionQuality":
+      return alert.type === "anomaly" ? "pattern_recognized" : "decision_quality_change";
+    default:
+      return "pattern_recognized";
+  }
+}
+
+/**
+ * Keeps the alerts that were not already stored as CSAW cognitive events
+ * during the cooldown, so that re-running the analysis does not flood the feed.
+ */
+export function selectNewCSAWAlerts(
+  alerts: CSAWAlert[],
+  recentEvents: Array<{ data: Record<string, unknown> | null; createdAt: Date }>,
+  now: Date = new Date()
+): CSAWAlert[] {
+  const cooldownStart = now.getTime() - CSAW_ALERT_COOLDOWN_MINUTES * 60 * 1000;
+  const storedKeys = new Set(
+    recentEvents
+      .filter(e => e.data?.source === "csaw" && e.createdAt.getTime() > cooldownStart)
+      .map(e => e.data?.alertKey)
+  );
+
+  return alerts.filter(alert => {
+    const key = getCSAWAlertKey(alert);
+    if (storedKeys.has(key)) return false;
+    storedKeys.add(key);
+    return true;
+  });
+}
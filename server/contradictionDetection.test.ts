@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CognitiveEvent, Decision } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getExtractedDocumentsByProjectId: vi.fn(async () => []),
+    getMessagesByProjectId: vi.fn(async () => []),
+    getDecisionsByProjectId: vi.fn(async () => []),
+    createCognitiveEvent: vi.fn(async () => 1),
+  };
+});
+
+vi.mock("./_core/structuredLLM", () => ({
+  invokeStructuredLLM: vi.fn(),
+}));
+
+const db = await import("./db");
+const { invokeStructuredLLM } = await import("./_core/structuredLLM");
+const {
+  detectContradictions,
+  detectContradictionsLocally,
+  extractQuantities,
+  recordContradictions,
+  splitIntoPassages,
+} = await import("./contradictionDetection");
+
+const spec = "Contexte du projet.\nLa refonte du tableau de bord prendra 3 mois. Le budget alloué est de 40 000 €.";
+
+function withProject() {
+  vi.mocked(db.getExtractedDocumentsByProjectId).mockResolvedValue([
+    { id: 12, name: "spec.pdf", extractedText: spec },
+  ]);
+  vi.mocked(db.getMessagesByProjectId).mockResolvedValue([
+    { message: { id: 45, type: "user", content: "On livre la refonte du tableau de bord en 6 semaines" }, user: null },
+    { message: { id: 46, type: "smart_ping", content: "Pensez à la refonte : 2 semaines de marge" }, user: null },
+  ] as Awaited<ReturnType<typeof db.getMessagesByProjectId>>);
+  vi.mocked(db.getDecisionsByProjectId).mockResolvedValue([
+    { id: 7, title: "Budget de la refonte", description: "Budget validé à 40k€", outcome: null } as Decision,
+  ]);
+}
+
+describe("contradiction detection", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("découpe le texte en passages positionnés", () => {
+    const passages = splitIntoPassages(12, "spec.pdf", spec);
+
+    expect(passages.map(p => p.id)).toEqual(["D12.1", "D12.2", "D12.3"]);
+    expect(spec.slice(passages[1].start, passages[1].end)).toBe("La refonte du tableau de bord prendra 3 mois.");
+  });
+
+  it("normalise les durées et les montants", () => {
+    expect(extractQuantities("trois mois, 6 semaines et 2 ans")).toMatchObject([
+      { kind: "duration", value: 90 },
+      { kind: "duration", value: 42 },
+      { kind: "duration", value: 730 },
+    ]);
+    expect(extractQuantities("40 000 €, 40k€ ou 15 %")).toMatchObject([
+      { kind: "amount", value: 40000 },
+      { kind: "amount", value: 40000 },
+      { kind: "percent", value: 15 },
+    ]);
+  });
+
+  it("repère localement les chiffres divergents sur un même sujet", () => {
+    const passages = splitIntoPassages(12, "spec.pdf", spec);
+    const found = detectContradictionsLocally(passages, [
+      { id: "M45", source: "message", sourceId: 45, text: "On livre la refonte du tableau de bord en 6 semaines" },
+      { id: "M47", source: "message", sourceId: 47, text: "Le recrutement prendra 6 semaines" },
+      { id: "DEC7", source: "decision", sourceId: 7, text: "Budget de la refonte validé à 40k€" },
+    ]);
+
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({
+      kind: "duration",
+      severity: "warning",
+      explanation: "« spec.pdf » indique 3 mois, la discussion 6 semaines",
+      passage: { id: "D12.2" },
+      statement: { id: "M45" },
+    });
+  });
+
+  it("rattache les incohérences du LLM aux passages et messages cités", async () => {
+    withProject();
+    vi.mocked(invokeStructuredLLM).mockResolvedValue({
+      ok: true,
+      repaired: false,
+      data: {
+        contradictions: [
+          { passageId: "D12.3", statementId: "DEC7", kind: "figure", severity: "critical", explanation: "Budget différent" },
+          { passageId: "D99.1", statementId: "M45", kind: "claim", severity: "warning", explanation: "Inventé" },
+        ],
+      },
+    });
+
+    const report = await detectContradictions(3, { teamId: 2 });
+
+    expect(invokeStructuredLLM).toHaveBeenCalledWith(
+      expect.objectContaining({ useCase: "contradiction_detection", context: { teamId: 2, projectId: 3 } })
+    );
+    // Les messages automatiques ne sont pas confrontés aux documents
+    expect(JSON.stringify(vi.mocked(invokeStructuredLLM).mock.calls[0][0].messages)).not.toContain("M46");
+    expect(report.degraded).toBeUndefined();
+    expect(report.contradictions.map(c => [c.passage.id, c.statement.id, c.kind])).toEqual([
+      ["D12.3", "DEC7", "figure"],
+      ["D12.2", "M45", "duration"],
+    ]);
+  });
+
+  it("se replie sur la comparaison locale sans LLM", async () => {
+    withProject();
+    vi.mocked(invokeStructuredLLM).mockResolvedValue({
+      ok: false,
+      error: { code: "BUDGET_EXCEEDED", message: "Budget atteint", issues: [] },
+    });
+
+    const report = await detectContradictions(3);
+
+    expect(report.degraded).toBe("budget_exceeded");
+    expect(report.contradictions.map(c => c.statement.id)).toEqual(["M45"]);
+  });
+
+  it("enregistre chaque incohérence une seule fois, liée à sa source", async () => {
+    const passages = splitIntoPassages(12, "spec.pdf", spec);
+    const contradictions = detectContradictionsLocally(passages, [
+      { id: "M45", source: "message", sourceId: 45, text: "On livre la refonte du tableau de bord en 6 semaines" },
+    ]);
+
+    expect(await recordContradictions(3, contradictions, [])).toBe(1);
+    expect(db.createCognitiveEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "contradiction_detected",
+        sourceMessageId: 45,
+        data: expect.objectContaining({
+          documentId: 12,
+          passage: "La refonte du tableau de bord prendra 3 mois.",
+          passageStart: passages[1].start,
+        }),
+      })
+    );
+
+    const stored = vi.mocked(db.createCognitiveEvent).mock.calls[0][0];
+    const existing = [{ type: "contradiction_detected", data: stored.data ?? null }] as CognitiveEvent[];
+    expect(await recordContradictions(3, contradictions, existing)).toBe(0);
+  });
+});
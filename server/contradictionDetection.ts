@@ -0,0 +1,397 @@
+/**
+ * Contradiction Detection - Incohérences entre documents et discussions
+ *
+ * Les affirmations, chiffres et engagements des documents du projet sont
+ * confrontés aux messages récents et aux décisions de l'équipe (ex. la spec
+ * prévoit 3 mois, le chat a tranché pour 6 semaines). Chaque incohérence
+ * devient un événement cognitif `contradiction_detected` qui pointe vers le
+ * passage exact du document et le message ou la décision concernés.
+ */
+
+import { z } from "zod";
+import type { CognitiveEvent } from "../drizzle/schema";
+import type { LLMCallContext } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
+import * as db from "./db";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DocumentPassage {
+  /** Identifiant transmis au LLM, ex. "D12.3" */
+  id: string;
+  documentId: number;
+  documentName: string;
+  text: string;
+  /** Position du passage dans le texte extrait du document */
+  start: number;
+  end: number;
+}
+
+export interface DiscussionStatement {
+  /** Identifiant transmis au LLM, ex. "M45" ou "DEC7" */
+  id: string;
+  source: "message" | "decision";
+  sourceId: number;
+  text: string;
+}
+
+export type ContradictionKind = "duration" | "figure" | "commitment" | "claim";
+
+export interface Contradiction {
+  kind: ContradictionKind;
+  severity: "warning" | "critical";
+  explanation: string;
+  passage: DocumentPassage;
+  statement: DiscussionStatement;
+}
+
+export interface ContradictionReport {
+  contradictions: Contradiction[];
+  /** Seule la comparaison locale des chiffres a pu être faite */
+  degraded?: "budget_exceeded" | "llm_unavailable";
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Messages récents confrontés aux documents */
+const MESSAGE_WINDOW = 100;
+
+/** Passages transmis au LLM, répartis entre les documents */
+const MAX_PASSAGES = 150;
+
+const MAX_PASSAGE_CHARS = 400;
+
+/** Écart relatif en dessous duquel deux chiffres sont considérés identiques */
+const FIGURE_TOLERANCE = 0.1;
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  heure: 1 / 24,
+  jour: 1,
+  semaine: 7,
+  mois: 30,
+  an: 365,
+  annee: 365,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6,
+  sept: 7, huit: 8, neuf: 9, dix: 10, onze: 11, douze: 12,
+};
+
+// Mots trop courants pour rapprocher un passage d'un message
+const STOPWORDS = new Set([
+  "avant", "apres", "entre", "depuis", "pendant", "aussi", "alors", "encore", "toujours",
+  "comme", "cette", "celui", "celle", "leurs", "notre", "votre", "nous", "vous", "elles",
+  "avons", "avez", "etait", "sera", "seront", "serait", "doit", "doivent", "peut", "peuvent",
+  "faire", "faut", "plus", "moins", "tres", "bien", "donc", "mais", "dans", "pour", "avec",
+  "sans", "sous", "chez", "tout", "tous", "toutes", "autre", "autres", "meme", "quand",
+  "projet", "equipe", "document", "total", "environ", "maximum", "minimum",
+  // Verbes qui accompagnent les durées et les montants
+  "prendra", "prendre", "durera", "durer", "coutera", "couter", "faudra", "livrer", "livrera",
+  "prevoir", "prevu", "prevue", "estime", "estimee", "compter", "allons", "aurons",
+]);
+
+// ============================================================================
+// PRÉPARATION
+// ============================================================================
+
+function normalizeWord(word: string): string {
+  return word.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Découpe un texte extrait en passages (phrases ou lignes), avec leur position
+ */
+export function splitIntoPassages(
+  documentId: number,
+  documentName: string,
+  text: string
+): DocumentPassage[] {
+  const passages: DocumentPassage[] = [];
+  for (const match of Array.from(text.matchAll(/[^.!?\n]+[.!?]*/g))) {
+    const raw = match[0];
+    const content = raw.trim();
+    if (content.split(/\s+/).length < 3) continue;
+
+    const start = match.index + raw.indexOf(content);
+    const clipped = content.slice(0, MAX_PASSAGE_CHARS);
+    passages.push({
+      id: `D${documentId}.${passages.length + 1}`,
+      documentId,
+      documentName,
+      text: clipped,
+      start,
+      end: start + clipped.length,
+    });
+  }
+  return passages;
+}
+
+interface Quantity {
+  kind: "duration" | "amount" | "percent";
+  /** Durées en jours, montants en euros */
+  value: number;
+  raw: string;
+}
+
+const QUANTITY_PATTERN = new RegExp(
+  String.raw`\b(\d{1,3}(?:[ \u00A0\u202F]\d{3})+|\d+(?:[.,]\d+)?|un|une|deux|trois|quatre|cinq|six|sept|huit|neuf|dix|onze|douze)\s*` +
+    String.raw`(heures?|h\b|jours?|j\b|semaines?|mois\b|ans?\b|ann[ée]es?|k€|m€|€|euros?|keuros?|%)`,
+  "gi"
+);
+
+/**
+ * Durées, montants et pourcentages cités dans un texte
+ */
+export function extractQuantities(text: string): Quantity[] {
+  const quantities: Quantity[] = [];
+  for (const match of Array.from(text.matchAll(QUANTITY_PATTERN))) {
+    const amount = normalizeWord(match[1]);
+    const number = NUMBER_WORDS[amount] ?? parseFloat(amount.replace(/[ \u00A0\u202F]/g, "").replace(",", "."));
+    const unit = normalizeWord(match[2]);
+
+    if (unit === "%") {
+      quantities.push({ kind: "percent", value: number, raw: match[0] });
+    } else if (/^(k€|m€|€|euros?|keuros?)$/.test(unit)) {
+      const factor = unit === "m€" ? 1_000_000 : unit.startsWith("k") ? 1000 : 1;
+      quantities.push({ kind: "amount", value: number * factor, raw: match[0] });
+    } else {
+      const base = unit === "h" ? "heure" : unit === "j" ? "jour" : unit === "mois" ? unit : unit.replace(/s$/, "");
+      const days = DAYS_PER_UNIT[base];
+      if (days !== undefined) quantities.push({ kind: "duration", value: number * days, raw: match[0] });
+    }
+  }
+  return quantities;
+}
+
+function topicWords(text: string): Set<string> {
+  const words = normalizeWord(text.replace(QUANTITY_PATTERN, " ")).match(/[a-z]{5,}/g) ?? [];
+  return new Set(words.filter(word => !STOPWORDS.has(word)));
+}
+
+function sameFigure(a: number, b: number): boolean {
+  return Math.abs(a - b) <= FIGURE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+}
+
+// ============================================================================
+// DÉTECTION
+// ============================================================================
+
+/**
+ * Comparaison locale : un passage et un message qui parlent du même sujet
+ * mais ne citent aucune durée (ou aucun montant, pourcentage) en commun
+ */
+export function detectContradictionsLocally(
+  passages: DocumentPassage[],
+  statements: DiscussionStatement[]
+): Contradiction[] {
+  const contradictions: Contradiction[] = [];
+  const statementFacts = statements.map(statement => ({
+    statement,
+    quantities: extractQuantities(statement.text),
+    topics: topicWords(statement.text),
+  }));
+
+  for (const passage of passages) {
+    const passageQuantities = extractQuantities(passage.text);
+    if (passageQuantities.length === 0) continue;
+    const passageTopics = topicWords(passage.text);
+
+    for (const { statement, quantities, topics } of statementFacts) {
+      const sharedTopic = Array.from(topics).some(word => passageTopics.has(word));
+      if (!sharedTopic) continue;
+
+      const kind = (["duration", "amount", "percent"] as const).find(k => {
+        const documentValues = passageQuantities.filter(q => q.kind === k);
+        const discussionValues = quantities.filter(q => q.kind === k);
+        return (
+          documentValues.length > 0 &&
+          discussionValues.length > 0 &&
+          !documentValues.some(d => discussionValues.some(s => sameFigure(d.value, s.value)))
+        );
+      });
+      if (!kind) continue;
+
+      const cited = (values: Quantity[]) =>
+        values.filter(q => q.kind === kind).map(q => q.raw.trim()).join(", ");
+      contradictions.push({
+        kind: kind === "duration" ? "duration" : "figure",
+        severity: statement.source === "decision" ? "critical" : "warning",
+        explanation: `« ${passage.documentName} » indique ${cited(passageQuantities)}, ` +
+          `${statement.source === "decision" ? "la décision" : "la discussion"} ${cited(quantities)}`,
+        passage,
+        statement,
+      });
+    }
+  }
+  return contradictions;
+}
+
+// Sortie attendue du LLM, transmise aussi comme format de réponse
+const contradictionsSchema = z.object({
+  contradictions: z.array(
+    z.object({
+      passageId: z.string(),
+      statementId: z.string(),
+      kind: z.enum(["duration", "figure", "commitment", "claim"]),
+      severity: z.enum(["warning", "critical"]),
+      explanation: z.string(),
+    })
+  ),
+});
+
+async function detectContradictionsWithLLM(
+  passages: DocumentPassage[],
+  statements: DiscussionStatement[],
+  context?: LLMCallContext
+): Promise<ContradictionReport> {
+  const result = await invokeStructuredLLM({
+    useCase: "contradiction_detection",
+    context,
+    messages: [
+      {
+        role: "system",
+        content: `Tu vérifies la cohérence entre les documents d'un projet et les échanges de l'équipe.
+Signale uniquement les contradictions réelles entre un passage de document et un message ou une décision :
+- durées et échéances différentes (ex. 3 mois contre 6 semaines)
+- chiffres, budgets ou objectifs différents
+- engagements ou affirmations incompatibles
+Ignore les simples précisions et les sujets différents.
+"severity" vaut "critical" si une décision est contredite, "warning" sinon.
+Réponds en JSON: {"contradictions": [{"passageId": "D1.2", "statementId": "M3", "kind": "duration|figure|commitment|claim", "severity": "warning|critical", "explanation": "..."}]}`,
+      },
+      {
+        role: "user",
+        content: `PASSAGES DE DOCUMENTS :
+${passages.map(p => `[${p.id}] (${p.documentName}) ${p.text}`).join("\n")}
+
+MESSAGES ET DÉCISIONS :
+${statements.map(s => `[${s.id}] ${s.text}`).join("\n")}`,
+      },
+    ],
+    schemaName: "contradictions",
+    schema: contradictionsSchema,
+  });
+
+  const local = detectContradictionsLocally(passages, statements);
+  if (!result.ok) {
+    const degraded =
+      result.error.code === "BUDGET_EXCEEDED" ? "budget_exceeded"
+        : result.error.code === "LLM_UNAVAILABLE" ? "llm_unavailable"
+          : undefined;
+    return { contradictions: local, degraded };
+  }
+
+  const passagesById = new Map(passages.map(p => [p.id, p]));
+  const statementsById = new Map(statements.map(s => [s.id, s]));
+  const found: Contradiction[] = [];
+  for (const item of result.data.contradictions) {
+    // Les identifiants inventés par le modèle sont ignorés
+    const passage = passagesById.get(item.passageId);
+    const statement = statementsById.get(item.statementId);
+    if (!passage || !statement) continue;
+    found.push({ kind: item.kind, severity: item.severity, explanation: item.explanation, passage, statement });
+  }
+
+  // Les écarts de chiffres repérés localement complètent ceux du modèle
+  const keys = new Set(found.map(getContradictionKey));
+  return { contradictions: [...found, ...local.filter(c => !keys.has(getContradictionKey(c)))] };
+}
+
+/**
+ * Compare les documents extraits du projet aux messages récents et aux décisions
+ */
+export async function detectContradictions(
+  projectId: number,
+  context?: LLMCallContext
+): Promise<ContradictionReport> {
+  const [documents, recentMessages, decisions] = await Promise.all([
+    db.getExtractedDocumentsByProjectId(projectId),
+    db.getMessagesByProjectId(projectId, MESSAGE_WINDOW),
+    db.getDecisionsByProjectId(projectId),
+  ]);
+
+  const perDocument = Math.max(1, Math.floor(MAX_PASSAGES / Math.max(documents.length, 1)));
+  const passages = documents.flatMap(doc =>
+    splitIntoPassages(doc.id, doc.name, doc.extractedText ?? "").slice(0, perDocument)
+  );
+
+  const statements: DiscussionStatement[] = [
+    ...recentMessages
+      .filter(({ message }) => message.type === "user" || message.type === "audio")
+      .map(({ message }) => ({
+        id: `M${message.id}`,
+        source: "message" as const,
+        sourceId: message.id,
+        text: message.content,
+      })),
+    ...decisions.map(decision => ({
+      id: `DEC${decision.id}`,
+      source: "decision" as const,
+      sourceId: decision.id,
+      text: [decision.title, decision.description, decision.outcome].filter(Boolean).join(" — "),
+    })),
+  ];
+
+  if (passages.length === 0 || statements.length === 0) return { contradictions: [] };
+  return detectContradictionsWithLLM(passages, statements, { ...context, projectId });
+}
+
+// ============================================================================
+// ÉVÉNEMENTS COGNITIFS
+// ============================================================================
+
+export function getContradictionKey(contradiction: Contradiction): string {
+  const { passage, statement } = contradiction;
+  return `${passage.documentId}:${passage.start}:${statement.id}`;
+}
+
+/**
+ * Enregistre les incohérences qui n'ont pas déjà été signalées
+ */
+export async function recordContradictions(
+  projectId: number,
+  contradictions: Contradiction[],
+  existingEvents: Pick<CognitiveEvent, "type" | "data">[]
+): Promise<number> {
+  const storedKeys = new Set(
+    existingEvents
+      .filter(e => e.type === "contradiction_detected")
+      .map(e => e.data?.contradictionKey)
+  );
+
+  let stored = 0;
+  for (const contradiction of contradictions) {
+    const key = getContradictionKey(contradiction);
+    if (storedKeys.has(key)) continue;
+    storedKeys.add(key);
+
+    const { passage, statement } = contradiction;
+    await db.createCognitiveEvent({
+      projectId,
+      type: "contradiction_detected",
+      severity: contradiction.severity,
+      title: `Incohérence avec « ${passage.documentName} »`.slice(0, 255),
+      description: contradiction.explanation,
+      sourceMessageId: statement.source === "message" ? statement.sourceId : undefined,
+      sourceDecisionId: statement.source === "decision" ? statement.sourceId : undefined,
+      data: {
+        source: "contradiction",
+        contradictionKey: key,
+        kind: contradiction.kind,
+        documentId: passage.documentId,
+        documentName: passage.documentName,
+        passage: passage.text,
+        passageStart: passage.start,
+        passageEnd: passage.end,
+        statement: statement.text,
+      },
+    });
+    stored++;
+  }
+  return stored;
+}
@@ -1,4 +1,4 @@
-import { eq, and, desc, sql, like, or, gte, lte } from "drizzle-orm";
+import { eq, ne, and, desc, asc, sql, or, gt, gte, lt, lte, inArray, isNull, like, getTableColumns } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
   InsertUser, users,
@@ -7,7 +7,12 @@ import {
   InsertTeamInvitation, teamInvitations,
   InsertProject, projects,
   InsertDecision, decisions,
+  InsertDecisionHistoryEntry, decisionHistory,
   InsertVote, votes,
+  InsertHypothesis, hypotheses,
+  InsertHypothesisEvidence, hypothesisEvidence,
+  decisionHypotheses,
+  InsertHypothesisStatusChange, hypothesisStatusChanges,
   InsertMessage, messages,
   InsertCognitiveEvent, cognitiveEvents,
   InsertBiasPattern, biasPatterns,
@@ -17,9 +22,16 @@ import {
   InsertCognitiveMetric, cognitiveMetrics,
   InsertAlert, alerts,
   InsertAudioRecording, audioRecordings,
+  InsertAudioSegment, audioSegments,
   InsertRealtimeAnalysis, realtimeAnalysis,
+  InsertInboxNotification, inboxNotifications,
+  InsertPingAlertState, pingAlertStates,
+  InsertSuppressedPing, suppressedPings,
+  InsertJob, Job, jobs,
+  InsertLLMUsage, llmUsage,
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { CTPingMarks } from './cognitiveTokens';
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -122,6 +134,15 @@ export async function updateUserProfessionalProfile(userId: number, professional
   await db.update(users).set({ professionalProfile }).where(eq(users.id, userId));
 }
 
+export async function updateUserNotificationPreferences(
+  userId: number,
+  notificationPreferences: NonNullable<InsertUser["notificationPreferences"]>
+) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(users).set({ notificationPreferences }).where(eq(users.id, userId));
+}
+
 // ==================== TEAM QUERIES ====================
 export async function createTeam(team: InsertTeam) {
   const db = await getDb();
@@ -137,15 +158,21 @@ export async function getTeamById(id: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function getTeamsByUserId(userId: number) {
+export async function getTeamIdsByUserId(userId: number) {
   const db = await getDb();
   if (!db) return [];
   const memberTeams = await db
     .select({ teamId: teamMembers.teamId })
     .from(teamMembers)
     .where(eq(teamMembers.userId, userId));
-  if (memberTeams.length === 0) return [];
-  const teamIds = memberTeams.map(m => m.teamId);
+  return memberTeams.map(m => m.teamId);
+}
+
+export async function getTeamsByUserId(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const teamIds = await getTeamIdsByUserId(userId);
+  if (teamIds.length === 0) return [];
   return db.select().from(teams).where(sql`${teams.id} IN (${sql.join(teamIds, sql`, `)})`);
 }
 
@@ -187,6 +214,17 @@ export async function removeTeamMember(teamId: number, userId: number) {
   await db.delete(teamMembers).where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
 }
 
+export async function getTeamMembership(teamId: number, userId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db
+    .select()
+    .from(teamMembers)
+    .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function updateTeamMemberRole(teamId: number, userId: number, role: "owner" | "admin" | "member") {
   const db = await getDb();
   if (!db) return;
@@ -253,21 +291,209 @@ export async function updateDecision(id: number, data: Partial<InsertDecision>)
   await db.update(decisions).set(data).where(eq(decisions.id, id));
 }
 
+// Status change guarded by the expected current status, recorded in the
+// history in the same transaction: false if another transition got there first
+export async function transitionDecisionStatus(
+  id: number,
+  fromStatus: NonNullable<InsertDecision["status"]>,
+  data: Partial<InsertDecision>,
+  entry: InsertDecisionHistoryEntry
+) {
+  const db = await getDb();
+  if (!db) return false;
+  return db.transaction(async tx => {
+    const result = await tx
+      .update(decisions)
+      .set(data)
+      .where(and(eq(decisions.id, id), eq(decisions.status, fromStatus)));
+    if (result[0].affectedRows === 0) return false;
+    await tx.insert(decisionHistory).values(entry);
+    return true;
+  });
+}
+
+export async function createDecisionHistoryEntry(entry: InsertDecisionHistoryEntry) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(decisionHistory).values(entry);
+}
+
+export async function getDecisionHistory(decisionId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ entry: decisionHistory, user: users })
+    .from(decisionHistory)
+    .leftJoin(users, eq(decisionHistory.changedBy, users.id))
+    .where(eq(decisionHistory.decisionId, decisionId))
+    .orderBy(asc(decisionHistory.createdAt), asc(decisionHistory.id));
+}
+
 // ==================== VOTE QUERIES ====================
-export async function createVote(vote: InsertVote) {
+// One ballot per member and round: voting again revises the previous ballot
+export async function upsertVote(vote: InsertVote) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  await db.insert(votes).values(vote);
+  await db
+    .insert(votes)
+    .values(vote)
+    .onDuplicateKeyUpdate({
+      set: {
+        choice: vote.choice,
+        ranking: vote.ranking ?? null,
+        reasoning: vote.reasoning ?? null,
+        confidence: vote.confidence ?? null,
+      },
+    });
+}
+
+export async function getUserVote(decisionId: number, round: number, userId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db
+    .select()
+    .from(votes)
+    .where(and(eq(votes.decisionId, decisionId), eq(votes.round, round), eq(votes.userId, userId)))
+    .limit(1);
+  return result[0];
 }
 
-export async function getVotesByDecisionId(decisionId: number) {
+// Ballots of one voting round
+export async function getVotesByDecisionId(decisionId: number, round: number) {
   const db = await getDb();
   if (!db) return [];
   return db
     .select({ vote: votes, user: users })
     .from(votes)
     .innerJoin(users, eq(votes.userId, users.id))
-    .where(eq(votes.decisionId, decisionId));
+    .where(and(eq(votes.decisionId, decisionId), eq(votes.round, round)));
+}
+
+// ==================== HYPOTHESIS QUERIES ====================
+export async function createHypothesis(hypothesis: InsertHypothesis) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(hypotheses).values(hypothesis);
+  return result[0].insertId;
+}
+
+export async function getHypothesisById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(hypotheses).where(eq(hypotheses.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getHypothesesByProjectId(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ hypothesis: hypotheses, owner: users })
+    .from(hypotheses)
+    .leftJoin(users, eq(hypotheses.ownerId, users.id))
+    .where(eq(hypotheses.projectId, projectId))
+    .orderBy(desc(hypotheses.createdAt));
+}
+
+export async function updateHypothesis(id: number, data: Partial<InsertHypothesis>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(hypotheses).set(data).where(eq(hypotheses.id, id));
+}
+
+export async function deleteHypothesis(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(hypothesisEvidence).where(eq(hypothesisEvidence.hypothesisId, id));
+  await db.delete(decisionHypotheses).where(eq(decisionHypotheses.hypothesisId, id));
+  await db.delete(hypothesisStatusChanges).where(eq(hypothesisStatusChanges.hypothesisId, id));
+  await db.delete(hypotheses).where(eq(hypotheses.id, id));
+}
+
+export async function addHypothesisEvidence(evidence: InsertHypothesisEvidence) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(hypothesisEvidence).values(evidence);
+  return result[0].insertId;
+}
+
+export async function getEvidenceByHypothesisIds(hypothesisIds: number[]) {
+  const db = await getDb();
+  if (!db || hypothesisIds.length === 0) return [];
+  return db
+    .select()
+    .from(hypothesisEvidence)
+    .where(inArray(hypothesisEvidence.hypothesisId, hypothesisIds))
+    .orderBy(asc(hypothesisEvidence.createdAt));
+}
+
+export async function deleteHypothesisEvidence(hypothesisId: number, evidenceId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db
+    .delete(hypothesisEvidence)
+    .where(and(eq(hypothesisEvidence.id, evidenceId), eq(hypothesisEvidence.hypothesisId, hypothesisId)));
+}
+
+export async function linkDecisionHypothesis(decisionId: number, hypothesisId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const existing = await db
+    .select({ id: decisionHypotheses.id })
+    .from(decisionHypotheses)
+    .where(and(eq(decisionHypotheses.decisionId, decisionId), eq(decisionHypotheses.hypothesisId, hypothesisId)))
+    .limit(1);
+  if (existing.length > 0) return false;
+  await db.insert(decisionHypotheses).values({ decisionId, hypothesisId });
+  return true;
+}
+
+export async function unlinkDecisionHypothesis(decisionId: number, hypothesisId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db
+    .delete(decisionHypotheses)
+    .where(and(eq(decisionHypotheses.decisionId, decisionId), eq(decisionHypotheses.hypothesisId, hypothesisId)));
+}
+
+// Decision/hypothesis links of a project
+export async function getDecisionHypothesisLinks(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ decisionId: decisionHypotheses.decisionId, hypothesisId: decisionHypotheses.hypothesisId })
+    .from(decisionHypotheses)
+    .innerJoin(hypotheses, eq(decisionHypotheses.hypothesisId, hypotheses.id))
+    .where(eq(hypotheses.projectId, projectId));
+}
+
+// Hypotheses a decision rests on
+export async function getHypothesesByDecisionId(decisionId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const result = await db
+    .select({ hypothesis: hypotheses })
+    .from(decisionHypotheses)
+    .innerJoin(hypotheses, eq(decisionHypotheses.hypothesisId, hypotheses.id))
+    .where(eq(decisionHypotheses.decisionId, decisionId));
+  return result.map((row) => row.hypothesis);
+}
+
+export async function createHypothesisStatusChange(change: InsertHypothesisStatusChange) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(hypothesisStatusChanges).values(change);
+}
+
+export async function getHypothesisStatusChanges(hypothesisId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ change: hypothesisStatusChanges, user: users })
+    .from(hypothesisStatusChanges)
+    .leftJoin(users, eq(hypothesisStatusChanges.changedBy, users.id))
+    .where(eq(hypothesisStatusChanges.hypothesisId, hypothesisId))
+    .orderBy(asc(hypothesisStatusChanges.createdAt));
 }
 
 // ==================== MESSAGE QUERIES ====================
@@ -309,6 +535,13 @@ export async function updateMessage(messageId: number, data: Partial<InsertMessa
   await db.update(messages).set(data).where(eq(messages.id, messageId));
 }
 
+export async function getMessageById(messageId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(messages).where(eq(messages.id, messageId)).limit(1);
+  return result[0];
+}
+
 export async function getMessageByAudioId(audioId: number) {
   const db = await getDb();
   if (!db) return null;
@@ -340,6 +573,13 @@ export async function getCognitiveEventsByProjectId(projectId: number, limit = 5
     .limit(limit);
 }
 
+export async function getCognitiveEventById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(cognitiveEvents).where(eq(cognitiveEvents.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function acknowledgeEvent(eventId: number, userId: number) {
   const db = await getDb();
   if (!db) return;
@@ -373,21 +613,80 @@ export async function createCognitiveMemory(memory: InsertCognitiveMemory) {
   return result[0].insertId;
 }
 
-export async function searchCognitiveMemories(query: string, limit = 20) {
+export async function getCognitiveMemoryById(memoryId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(cognitiveMemories).where(eq(cognitiveMemories.id, memoryId)).limit(1);
+  return result[0];
+}
+
+export async function getCognitiveMemoryByDecisionId(decisionId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db
+    .select()
+    .from(cognitiveMemories)
+    .where(eq(cognitiveMemories.decisionId, decisionId))
+    .limit(1);
+  return result[0];
+}
+
+export async function updateCognitiveMemory(memoryId: number, data: Partial<InsertCognitiveMemory>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(cognitiveMemories).set(data).where(eq(cognitiveMemories.id, memoryId));
+}
+
+// Memories visible to members of the given teams: global ones, plus those
+// attached to one of the teams or to one of their projects
+function visibleMemoriesCondition(teamIds: number[]) {
+  if (teamIds.length === 0) return eq(cognitiveMemories.isGlobal, true);
+  return or(
+    eq(cognitiveMemories.isGlobal, true),
+    inArray(cognitiveMemories.teamId, teamIds),
+    inArray(
+      cognitiveMemories.projectId,
+      sql`(SELECT ${projects.id} FROM ${projects} WHERE ${inArray(projects.teamId, teamIds)})`
+    )
+  );
+}
+
+// One page of visible memories in id order: pass the last id of a page to get the next one
+export async function getVisibleCognitiveMemories(teamIds: number[], limit = 500, afterId = 0) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(cognitiveMemories)
+    .where(and(visibleMemoriesCondition(teamIds), gt(cognitiveMemories.id, afterId)))
+    .orderBy(asc(cognitiveMemories.id))
+    .limit(limit);
+}
+
+// Memories with no embedding, or one computed by another provider
+export async function getCognitiveMemoriesToEmbed(embeddingModel: string, limit = 50) {
   const db = await getDb();
   if (!db) return [];
   return db
     .select()
     .from(cognitiveMemories)
     .where(or(
-      like(cognitiveMemories.title, `%${query}%`),
-      like(cognitiveMemories.content, `%${query}%`),
-      like(cognitiveMemories.context, `%${query}%`)
+      isNull(cognitiveMemories.embedding),
+      isNull(cognitiveMemories.embeddingModel),
+      ne(cognitiveMemories.embeddingModel, embeddingModel)
     ))
-    .orderBy(desc(cognitiveMemories.usageCount))
+    .orderBy(asc(cognitiveMemories.id))
     .limit(limit);
 }
 
+export async function updateCognitiveMemoryEmbedding(memoryId: number, embedding: number[], embeddingModel: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(cognitiveMemories)
+    .set({ embedding, embeddingModel })
+    .where(eq(cognitiveMemories.id, memoryId));
+}
+
 export async function getGlobalMemories(limit = 50) {
   const db = await getDb();
   if (!db) return [];
@@ -426,6 +725,13 @@ export async function getTasksByProjectId(projectId: number) {
     .orderBy(tasks.priority, tasks.createdAt);
 }
 
+export async function getTaskById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(tasks).where(eq(tasks.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function updateTask(id: number, data: Partial<InsertTask>) {
   const db = await getDb();
   if (!db) return;
@@ -446,15 +752,29 @@ export async function createDocument(doc: InsertDocument) {
   return result[0].insertId;
 }
 
+// Latest version of each document with its number of versions, without the
+// extracted text (only loaded by the document detail view)
 export async function getDocumentsByProjectId(projectId: number) {
   const db = await getDb();
   if (!db) return [];
-  return db
-    .select({ document: documents, uploader: users })
+  const { extractedText: _extractedText, ...documentColumns } = getTableColumns(documents);
+  const rows = await db
+    .select({ document: documentColumns, uploader: users })
     .from(documents)
     .innerJoin(users, eq(documents.uploadedBy, users.id))
     .where(eq(documents.projectId, projectId))
-    .orderBy(desc(documents.createdAt));
+    .orderBy(desc(documents.version));
+
+  const latest = new Map<number, (typeof rows)[number] & { versionCount: number }>();
+  for (const row of rows) {
+    const rootId = row.document.parentId ?? row.document.id;
+    const entry = latest.get(rootId);
+    if (entry) entry.versionCount++;
+    else latest.set(rootId, { ...row, versionCount: 1 });
+  }
+  return Array.from(latest.values()).sort(
+    (a, b) => b.document.createdAt.getTime() - a.document.createdAt.getTime()
+  );
 }
 
 export async function getDocumentById(id: number) {
@@ -464,10 +784,69 @@ export async function getDocumentById(id: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function deleteDocument(id: number) {
+// Document versions still waiting for text extraction
+export async function getPendingExtractionDocumentIds() {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .select({ id: documents.id })
+    .from(documents)
+    .where(eq(documents.extractionStatus, "pending"));
+  return rows.map((row) => row.id);
+}
+
+// All versions of a document (newest first), without the extracted text
+export async function getDocumentVersions(rootId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const { extractedText: _extractedText, ...documentColumns } = getTableColumns(documents);
+  return db
+    .select({ document: documentColumns, uploader: users })
+    .from(documents)
+    .innerJoin(users, eq(documents.uploadedBy, users.id))
+    .where(or(eq(documents.id, rootId), eq(documents.parentId, rootId)))
+    .orderBy(desc(documents.version));
+}
+
+// Latest version of each document, with its text once extracted
+export async function getExtractedDocumentsByProjectId(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const versions = await db
+    .select({ id: documents.id, parentId: documents.parentId, extractionStatus: documents.extractionStatus })
+    .from(documents)
+    .where(eq(documents.projectId, projectId))
+    .orderBy(desc(documents.version));
+
+  // Only the latest version counts, even while its text is being extracted
+  const latest = new Map<number, (typeof versions)[number]>();
+  for (const version of versions) {
+    const rootId = version.parentId ?? version.id;
+    if (!latest.has(rootId)) latest.set(rootId, version);
+  }
+  const ids = Array.from(latest.values())
+    .filter((version) => version.extractionStatus === "completed")
+    .map((version) => version.id);
+  if (ids.length === 0) return [];
+
+  return db
+    .select({ id: documents.id, name: documents.name, extractedText: documents.extractedText })
+    .from(documents)
+    .where(inArray(documents.id, ids))
+    .orderBy(desc(documents.createdAt));
+}
+
+export async function updateDocument(id: number, data: Partial<InsertDocument>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(documents).set(data).where(eq(documents.id, id));
+}
+
+// Deletes a document with all its versions
+export async function deleteDocument(rootId: number) {
   const db = await getDb();
   if (!db) return;
-  await db.delete(documents).where(eq(documents.id, id));
+  await db.delete(documents).where(or(eq(documents.id, rootId), eq(documents.parentId, rootId)));
 }
 
 // ==================== COGNITIVE METRICS QUERIES ====================
@@ -532,6 +911,13 @@ export async function getAlertsByProjectId(projectId: number) {
     .orderBy(desc(alerts.createdAt));
 }
 
+export async function getAlertById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(alerts).where(eq(alerts.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function markAlertAsRead(alertId: number) {
   const db = await getDb();
   if (!db) return;
@@ -576,6 +962,39 @@ export async function updateAudioRecording(id: number, data: Partial<InsertAudio
   await db.update(audioRecordings).set(data).where(eq(audioRecordings.id, id));
 }
 
+// ==================== AUDIO SEGMENT QUERIES ====================
+// A recording's segments are replaced as a whole on each diarization
+export async function replaceAudioSegments(audioId: number, segments: InsertAudioSegment[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.transaction(async tx => {
+    await tx.delete(audioSegments).where(eq(audioSegments.audioId, audioId));
+    if (segments.length > 0) {
+      await tx.insert(audioSegments).values(segments);
+    }
+  });
+}
+
+export async function getAudioSegmentsByAudioId(audioId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(audioSegments)
+    .where(eq(audioSegments.audioId, audioId))
+    .orderBy(asc(audioSegments.startTime));
+}
+
+export async function getAudioSegmentsByProjectId(projectId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(audioSegments)
+    .where(eq(audioSegments.projectId, projectId))
+    .orderBy(asc(audioSegments.audioId), asc(audioSegments.startTime));
+}
+
 // ==================== REALTIME ANALYSIS QUERIES ====================
 export async function createRealtimeAnalysis(analysis: InsertRealtimeAnalysis) {
   const db = await getDb();
@@ -623,10 +1042,10 @@ export async function incrementProjectCognitiveTokens(projectId: number, ctValue
   return newTotal;
 }
 
-export async function updateProjectLastPingCT(projectId: number, ctValue: number) {
+export async function updateProjectLastPingCT(projectId: number, marks: CTPingMarks) {
   const db = await getDb();
   if (!db) return;
-  await db.update(projects).set({ lastPingCT: ctValue }).where(eq(projects.id, projectId));
+  await db.update(projects).set({ lastPingCTByType: marks }).where(eq(projects.id, projectId));
 }
 
 export async function getProjectCognitiveTokens(projectId: number) {
@@ -653,6 +1072,17 @@ export async function getTeamInvitationByCode(code: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getTeamInvitationById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db
+    .select()
+    .from(teamInvitations)
+    .where(eq(teamInvitations.id, id))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function getTeamInvitationsByTeamId(teamId: number) {
   const db = await getDb();
   if (!db) return [];
@@ -727,3 +1157,342 @@ export async function deleteTeamInvitation(id: number) {
   if (!db) return;
   await db.delete(teamInvitations).where(eq(teamInvitations.id, id));
 }
+
+// ==================== NOTIFICATION INBOX QUERIES ====================
+export type InboxStatus = "unread" | "read" | "archived";
+
+export async function createInboxNotification(notification: InsertInboxNotification) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(inboxNotifications).values(notification);
+  return result[0].insertId;
+}
+
+/**
+ * Page of a user's inbox, newest first. `cursor` is the id of the last item
+ * of the previous page; archived items are only returned when asked for.
+ */
+export async function getInboxNotifications(
+  userId: number,
+  options: { status?: InboxStatus; cursor?: number; limit: number }
+) {
+  const db = await getDb();
+  if (!db) return [];
+  const conditions = [
+    eq(inboxNotifications.userId, userId),
+    options.status
+      ? eq(inboxNotifications.status, options.status)
+      : inArray(inboxNotifications.status, ["unread", "read"]),
+  ];
+  if (options.cursor !== undefined) {
+    conditions.push(lt(inboxNotifications.id, options.cursor));
+  }
+  return db
+    .select()
+    .from(inboxNotifications)
+    .where(and(...conditions))
+    .orderBy(desc(inboxNotifications.id))
+    .limit(options.limit);
+}
+
+/** Unread notifications created after `afterId` (SSE Last-Event-ID replay) */
+export async function getUnreadInboxNotificationsSince(userId: number, afterId: number, limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(inboxNotifications)
+    .where(and(
+      eq(inboxNotifications.userId, userId),
+      eq(inboxNotifications.status, "unread"),
+      gt(inboxNotifications.id, afterId)
+    ))
+    .orderBy(asc(inboxNotifications.id))
+    .limit(limit);
+}
+
+export async function countUnreadInboxNotifications(userId: number) {
+  const db = await getDb();
+  if (!db) return 0;
+  const result = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(inboxNotifications)
+    .where(and(eq(inboxNotifications.userId, userId), eq(inboxNotifications.status, "unread")));
+  return Number(result[0]?.count ?? 0);
+}
+
+export async function markInboxNotificationsRead(userId: number, ids: number[]) {
+  const db = await getDb();
+  if (!db || ids.length === 0) return;
+  await db.update(inboxNotifications).set({ status: "read", readAt: new Date() }).where(and(
+    eq(inboxNotifications.userId, userId),
+    eq(inboxNotifications.status, "unread"),
+    inArray(inboxNotifications.id, ids)
+  ));
+}
+
+export async function markAllInboxNotificationsRead(userId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(inboxNotifications).set({ status: "read", readAt: new Date() }).where(and(
+    eq(inboxNotifications.userId, userId),
+    eq(inboxNotifications.status, "unread")
+  ));
+}
+
+export async function archiveInboxNotification(userId: number, id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(inboxNotifications).set({ status: "archived" }).where(and(
+    eq(inboxNotifications.userId, userId),
+    eq(inboxNotifications.id, id)
+  ));
+}
+
+// ==================== SMART PING DISPATCH QUERIES ====================
+export async function getPingAlertState(projectId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db
+    .select()
+    .from(pingAlertStates)
+    .where(eq(pingAlertStates.projectId, projectId))
+    .limit(1);
+  return result[0];
+}
+
+export async function upsertPingAlertState(state: InsertPingAlertState) {
+  const db = await getDb();
+  if (!db) return;
+  const { projectId, ...updateSet } = state;
+  await db.insert(pingAlertStates).values(state).onDuplicateKeyUpdate({ set: updateSet });
+}
+
+export async function createSuppressedPing(ping: InsertSuppressedPing) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(suppressedPings).values(ping);
+  return result[0].insertId;
+}
+
+export async function getSuppressedPingsByProjectId(projectId: number, limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(suppressedPings)
+    .where(eq(suppressedPings.projectId, projectId))
+    .orderBy(desc(suppressedPings.createdAt))
+    .limit(limit);
+}
+
+// ==================== BACKGROUND JOB QUERIES ====================
+// A job carrying an existing idempotency key is not inserted again: the id of
+// the existing job is returned instead (LAST_INSERT_ID trick)
+export async function createJob(job: InsertJob) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db
+    .insert(jobs)
+    .values(job)
+    .onDuplicateKeyUpdate({ set: { id: sql`LAST_INSERT_ID(${jobs.id})` } });
+  return result[0].insertId;
+}
+
+export async function getJobById(jobId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
+  return result[0];
+}
+
+// Lock the oldest due job for a worker. The status guard on the update makes
+// the claim safe when several workers poll the same table.
+export async function claimNextJob(workerId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const [candidate] = await db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, "pending"), lte(jobs.runAt, new Date())))
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(1);
+    if (!candidate) return undefined;
+
+    const result = await db
+      .update(jobs)
+      .set({
+        status: "running",
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        attempts: sql`${jobs.attempts} + 1`,
+      })
+      .where(and(eq(jobs.id, candidate.id), eq(jobs.status, "pending")));
+    if (result[0].affectedRows > 0) return getJobById(candidate.id);
+  }
+  return undefined;
+}
+
+export async function completeJob(jobId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db
+    .update(jobs)
+    .set({ status: "completed", completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null })
+    .where(eq(jobs.id, jobId));
+}
+
+export async function scheduleJobRetry(jobId: number, error: string, runAt: Date) {
+  const db = await getDb();
+  if (!db) return;
+  await db
+    .update(jobs)
+    .set({ status: "pending", runAt, lockedAt: null, lockedBy: null, lastError: error })
+    .where(eq(jobs.id, jobId));
+}
+
+export async function markJobDead(jobId: number, error: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db
+    .update(jobs)
+    .set({ status: "dead", lockedAt: null, lockedBy: null, lastError: error })
+    .where(eq(jobs.id, jobId));
+}
+
+// Jobs left running by a worker that stopped (restart, crash), recognized by
+// a lock older than `lockedBefore`: those with attempts left go back to the
+// queue, the others are returned so that the queue moves them to the
+// dead-letter state through its usual path.
+export async function releaseStaleJobs(lockedBefore: Date) {
+  const db = await getDb();
+  if (!db) return { requeued: 0, exhausted: [] as Job[] };
+  const stale = and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore));
+
+  const exhausted = await db.select().from(jobs).where(and(stale, gte(jobs.attempts, jobs.maxAttempts)));
+  const requeued = await db
+    .update(jobs)
+    .set({
+      status: "pending",
+      runAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: "Worker stopped while the job was running",
+    })
+    .where(and(stale, lt(jobs.attempts, jobs.maxAttempts)));
+  return { requeued: requeued[0].affectedRows, exhausted };
+}
+
+// Dead-letters a stale job unless another process got to it first
+export async function markStaleJobDead(jobId: number, lockedBefore: Date, error: string) {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db
+    .update(jobs)
+    .set({ status: "dead", lockedAt: null, lockedBy: null, lastError: error })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)));
+  return result[0].affectedRows > 0;
+}
+
+// Manual retry from the admin view: the job gets a fresh set of attempts.
+// Explicit re-runs may also restart a completed job.
+export async function retryJob(jobId: number, fromStatuses: Job["status"][] = ["dead"]) {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db
+    .update(jobs)
+    .set({ status: "pending", attempts: 0, runAt: new Date(), lockedAt: null, lockedBy: null })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, fromStatuses)));
+  return result[0].affectedRows > 0;
+}
+
+export async function listJobs(filters: {
+  status?: Job["status"];
+  type?: Job["type"];
+  limit?: number;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+  const conditions = [];
+  if (filters.status) conditions.push(eq(jobs.status, filters.status));
+  if (filters.type) conditions.push(eq(jobs.type, filters.type));
+  return db
+    .select()
+    .from(jobs)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(jobs.createdAt), desc(jobs.id))
+    .limit(filters.limit ?? 100);
+}
+
+export async function countJobsByStatus() {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select({ status: jobs.status, count: sql<number>`count(*)` })
+    .from(jobs)
+    .groupBy(jobs.status);
+}
+
+// ==================== LLM USAGE QUERIES ====================
+
+export async function recordLLMUsage(usage: InsertLLMUsage) {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(llmUsage).values(usage);
+}
+
+export async function getTeamLLMTokensSince(teamId: number, since: Date) {
+  const db = await getDb();
+  if (!db) return 0;
+  const result = await db
+    .select({ total: sql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)` })
+    .from(llmUsage)
+    .where(and(eq(llmUsage.teamId, teamId), gte(llmUsage.createdAt, since)));
+  return Number(result[0]?.total ?? 0);
+}
+
+// Calls and tokens of a team since a date, by purpose, project, user and day
+export async function getTeamLLMUsageBreakdown(teamId: number, since: Date) {
+  const db = await getDb();
+  if (!db) return { byPurpose: [], byProject: [], byUser: [], byDay: [] };
+  const scope = and(eq(llmUsage.teamId, teamId), gte(llmUsage.createdAt, since));
+  const totals = {
+    calls: sql<number>`count(*)`,
+    tokens: sql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)`,
+  };
+  const day = sql<string>`date_format(${llmUsage.createdAt}, '%Y-%m-%d')`;
+
+  const [byPurpose, byProject, byUser, byDay] = await Promise.all([
+    db.select({ purpose: llmUsage.purpose, ...totals })
+      .from(llmUsage)
+      .where(scope)
+      .groupBy(llmUsage.purpose),
+    db.select({ projectId: llmUsage.projectId, projectName: projects.name, ...totals })
+      .from(llmUsage)
+      .leftJoin(projects, eq(llmUsage.projectId, projects.id))
+      .where(scope)
+      .groupBy(llmUsage.projectId, projects.name),
+    db.select({ userId: llmUsage.userId, userName: users.name, ...totals })
+      .from(llmUsage)
+      .leftJoin(users, eq(llmUsage.userId, users.id))
+      .where(scope)
+      .groupBy(llmUsage.userId, users.name),
+    db.select({ day, ...totals })
+      .from(llmUsage)
+      .where(scope)
+      .groupBy(day)
+      .orderBy(day),
+  ]);
+
+  // MySQL returns aggregates as strings
+  const numeric = <T extends { calls: number; tokens: number }>(rows: T[]) =>
+    rows.map(row => ({ ...row, calls: Number(row.calls), tokens: Number(row.tokens) }));
+  return {
+    byPurpose: numeric(byPurpose),
+    byProject: numeric(byProject),
+    byUser: numeric(byUser),
+    byDay: numeric(byDay),
+  };
+}
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Decision } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    transitionDecisionStatus: vi.fn(async () => true),
+  };
+});
+
+const db = await import("./db");
+const { canTransitionDecision, getAvailableTransitions, transitionDecision } = await import("./decisionLifecycle");
+
+function decision(status: Decision["status"]): Decision {
+  return { id: 7, projectId: 3, title: "Passer au SSO", status, votingRound: 1 } as Decision;
+}
+
+describe("decision lifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("n'accepte que les transitions prévues", () => {
+    expect(canTransitionDecision("proposed", "discussing")).toBe(true);
+    expect(canTransitionDecision("voting", "decided")).toBe(true);
+    expect(canTransitionDecision("decided", "revised")).toBe(true);
+    expect(canTransitionDecision("proposed", "decided")).toBe(false);
+    expect(canTransitionDecision("implemented", "proposed")).toBe(false);
+  });
+
+  it("réserve aux administrateurs le fait de trancher", () => {
+    expect(getAvailableTransitions("voting", "member")).toEqual([]);
+    expect(getAvailableTransitions("discussing", "member")).toEqual(["voting"]);
+    expect(getAvailableTransitions("decided", "admin")).toEqual(["implemented", "revised"]);
+    expect(getAvailableTransitions("decided", "member")).toEqual([]);
+  });
+
+  it("inscrit chaque transition dans l'historique", async () => {
+    const updated = await transitionDecision(decision("decided"), "implemented", { userId: 5, role: "owner" }, "En production");
+
+    expect(updated.status).toBe("implemented");
+    expect(db.transitionDecisionStatus).toHaveBeenCalledWith(
+      7,
+      "decided",
+      { status: "implemented" },
+      { decisionId: 7, fromStatus: "decided", toStatus: "implemented", changedBy: 5, reason: "En production" }
+    );
+  });
+
+  it("ouvre un nouveau tour de vote à chaque réouverture", async () => {
+    const reopened = await transitionDecision(decision("discussing"), "voting", { userId: 5, role: "member" });
+
+    expect(reopened.votingRound).toBe(2);
+    expect(db.transitionDecisionStatus).toHaveBeenCalledWith(
+      7,
+      "discussing",
+      { status: "voting", votingRound: 2 },
+      expect.objectContaining({ toStatus: "voting" })
+    );
+  });
+
+  it("réserve au dépouillement le fait de trancher un vote", async () => {
+    expect(getAvailableTransitions("voting", "admin")).toEqual(["discussing"]);
+    await expect(transitionDecision(decision("voting"), "discussing", { userId: 6, role: "member" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(transitionDecision(decision("voting"), "decided", { userId: 5, role: "owner" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(db.transitionDecisionStatus).not.toHaveBeenCalled();
+  });
+
+  it("refuse une transition déjà faite par une autre requête", async () => {
+    vi.mocked(db.transitionDecisionStatus).mockResolvedValueOnce(false);
+    await expect(transitionDecision(decision("voting"), "discussing", { userId: 5, role: "admin" })).rejects.toMatchObject({
+      code: "CONFLICT",
+    });
+  });
+
+  it("refuse une transition interdite ou un rôle insuffisant sans rien écrire", async () => {
+    await expect(transitionDecision(decision("proposed"), "decided", { userId: 5, role: "owner" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    await expect(transitionDecision(decision("decided"), "implemented", { userId: 6, role: "member" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(db.transitionDecisionStatus).not.toHaveBeenCalled();
+  });
+});
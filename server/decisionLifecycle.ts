@@ -0,0 +1,193 @@
+/**
+ * Decision Lifecycle - Cycle de vie des décisions
+ *
+ * Une décision suit le parcours proposée → en discussion → en vote →
+ * décidée → implémentée ou révisée. Seules les transitions prévues sont
+ * acceptées, et trancher (décider, implémenter, réviser) est réservé aux
+ * administrateurs de l'équipe. Chaque transition est inscrite dans
+ * `decision_history` avec son auteur et sa raison.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { TEAM_ROLE_ERR_MSG } from "@shared/const";
+import type { Decision, Hypothesis } from "../drizzle/schema";
+import * as db from "./db";
+import { warnIfDecidedOnUntested } from "./hypotheses";
+import { rememberDecision } from "./memoryIndex";
+import { createDecisionNotification, notifyProjectMembers } from "./notifications";
+import { hasTeamRole, type TeamRole } from "./teamAccess";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DecisionStatus = Decision["status"];
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/** Statuts accessibles depuis chaque statut */
+export const DECISION_TRANSITIONS: Record<DecisionStatus, DecisionStatus[]> = {
+  proposed: ["discussing"],
+  discussing: ["voting"],
+  // Un vote peut être annulé pour reprendre la discussion
+  voting: ["decided", "discussing"],
+  decided: ["implemented", "revised"],
+  implemented: ["revised"],
+  // Une décision révisée est rediscutée
+  revised: ["discussing"],
+};
+
+/** Rôle minimum pour amener une décision dans chaque statut */
+export const DECISION_STATUS_MIN_ROLE: Record<DecisionStatus, TeamRole> = {
+  proposed: "member",
+  discussing: "member",
+  voting: "member",
+  decided: "admin",
+  implemented: "admin",
+  revised: "admin",
+};
+
+/**
+ * Transitions plus exigeantes que leur statut d'arrivée : annuler un vote en
+ * cours écarte les bulletins déjà déposés, c'est aux administrateurs d'en
+ * décider
+ */
+const DECISION_TRANSITION_MIN_ROLE: Partial<Record<`${DecisionStatus}->${DecisionStatus}`, TeamRole>> = {
+  "voting->discussing": "admin",
+};
+
+/** Rôle minimum pour faire passer une décision de `from` à `to` */
+export function getTransitionMinRole(from: DecisionStatus, to: DecisionStatus): TeamRole {
+  return DECISION_TRANSITION_MIN_ROLE[`${from}->${to}`] ?? DECISION_STATUS_MIN_ROLE[to];
+}
+
+export function canTransitionDecision(from: DecisionStatus, to: DecisionStatus): boolean {
+  return DECISION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Un vote en cours ne se tranche que par son dépouillement (clôture du vote),
+ * jamais par une transition manuelle
+ */
+export function isTallyOnlyTransition(from: DecisionStatus, to: DecisionStatus): boolean {
+  return from === "voting" && to === "decided";
+}
+
+/**
+ * Statuts vers lesquels un membre de ce rôle peut faire passer la décision
+ */
+export function getAvailableTransitions(from: DecisionStatus, role: TeamRole): DecisionStatus[] {
+  return DECISION_TRANSITIONS[from].filter(
+    to => !isTallyOnlyTransition(from, to) && hasTeamRole(role, getTransitionMinRole(from, to))
+  );
+}
+
+/**
+ * Lève BAD_REQUEST pour une transition non prévue ou réservée au
+ * dépouillement, FORBIDDEN si le rôle ne suffit pas
+ */
+export function assertDecisionTransition(from: DecisionStatus, to: DecisionStatus, role: TeamRole): void {
+  if (!canTransitionDecision(from, to)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Decision cannot move from ${from} to ${to}`,
+    });
+  }
+  if (isTallyOnlyTransition(from, to)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Close the vote to decide this decision" });
+  }
+  if (!hasTeamRole(role, getTransitionMinRole(from, to))) {
+    throw new TRPCError({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+  }
+}
+
+// ============================================================================
+// HISTORIQUE
+// ============================================================================
+
+/**
+ * Fait passer une décision dans un nouveau statut et l'inscrit dans son
+ * historique. Renvoie la décision à jour.
+ */
+export async function transitionDecision(
+  decision: Decision,
+  to: DecisionStatus,
+  actor: { userId: number; role: TeamRole },
+  reason?: string
+): Promise<Decision> {
+  assertDecisionTransition(decision.status, to, actor.role);
+  return applyDecisionTransition(decision, to, actor.userId, reason);
+}
+
+/**
+ * Transition sans contrôle de rôle, pour celles que déclenche l'application
+ * elle-même (clôture d'un vote). `changedBy` est null sans auteur humain.
+ * Lève CONFLICT si la décision a changé de statut entre-temps (clôture
+ * manuelle concurrente de celle à la date limite, par exemple).
+ */
+export async function applyDecisionTransition(
+  decision: Decision,
+  to: DecisionStatus,
+  changedBy: number | null,
+  reason?: string,
+  extra: Partial<Pick<Decision, "outcome">> = {}
+): Promise<Decision> {
+  if (!canTransitionDecision(decision.status, to)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Decision cannot move from ${decision.status} to ${to}`,
+    });
+  }
+
+  const changes: Partial<Decision> = { ...extra, status: to };
+  if (to === "decided") changes.decidedAt = new Date();
+  // Chaque ouverture du vote est un nouveau tour : les bulletins précédents restent archivés
+  if (to === "voting") changes.votingRound = decision.votingRound + 1;
+
+  // Statut, tour de vote et historique changent ensemble ou pas du tout
+  const applied = await db.transitionDecisionStatus(decision.id, decision.status, changes, {
+    decisionId: decision.id,
+    fromStatus: decision.status,
+    toStatus: to,
+    changedBy,
+    reason,
+  });
+  if (!applied) {
+    throw new TRPCError({ code: "CONFLICT", message: "Decision status changed in the meantime" });
+  }
+  return { ...decision, ...changes };
+}
+
+/**
+ * Suites d'une transition : notification et alerte sur les hypothèses non
+ * testées pour une décision prise, mémoire collective pour une décision
+ * prise ou implémentée. Renvoie les hypothèses non testées.
+ */
+export async function applyDecisionStatusEffects(decision: Decision, teamId: number, actorId?: number) {
+  let untestedHypotheses: Hypothesis[] = [];
+  if (decision.status === "decided") {
+    await notifyProjectMembers(decision.projectId, createDecisionNotification(decision), {
+      excludeUserId: actorId,
+    });
+    untestedHypotheses = await warnIfDecidedOnUntested(decision);
+  }
+  if (decision.status === "decided" || decision.status === "implemented") {
+    // Mémorisée en arrière-plan, résumé compris
+    void rememberDecision(decision, teamId);
+  }
+  return untestedHypotheses;
+}
+
+/**
+ * Première entrée de l'historique, à la création de la décision
+ */
+export async function recordDecisionCreated(
+  decisionId: number,
+  status: DecisionStatus,
+  userId: number,
+  reason?: string
+): Promise<void> {
+  await db.createDecisionHistoryEntry({ decisionId, toStatus: status, changedBy: userId, reason });
+}
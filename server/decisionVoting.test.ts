@@ -0,0 +1,286 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Decision, User, Vote } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDecisionById: vi.fn(),
+    getVotesByDecisionId: vi.fn(async () => []),
+    getProjectById: vi.fn(async () => ({ id: 3, teamId: 1 })),
+    transitionDecisionStatus: vi.fn(async () => true),
+    createCognitiveEvent: vi.fn(async () => 1),
+  };
+});
+
+vi.mock("./decisionLifecycle", async importOriginal => {
+  const actual = await importOriginal<typeof import("./decisionLifecycle")>();
+  return { ...actual, applyDecisionStatusEffects: vi.fn(async () => []) };
+});
+
+const db = await import("./db");
+const {
+  ABSTAIN,
+  normalizeBallot,
+  tallyVotes,
+  closeDecisionVote,
+  closeVoteAtDeadline,
+  computeVoteDispersion,
+  presentVotes,
+} = await import("./decisionVoting");
+
+const majority = { mode: "majority" as const, anonymous: false, quorum: null, blind: false };
+const options = ["Postgres", "MySQL", "SQLite"];
+
+function ballots(choices: string[], confidence?: number[]) {
+  return choices.map((choice, i) => ({ choice, confidence: confidence?.[i] ?? null }));
+}
+
+function ranked(...rankings: string[][]) {
+  return rankings.map(ranking => ({ choice: ranking[0], ranking }));
+}
+
+function vote(overrides: Partial<Vote> = {}): Vote {
+  return {
+    id: 1,
+    decisionId: 7,
+    userId: 5,
+    round: 1,
+    choice: "SQLite",
+    ranking: null,
+    reasoning: null,
+    confidence: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function member(id: number, name: string): User {
+  return { id, name } as User;
+}
+
+/** Bulletins tels que renvoyés par `getVotesByDecisionId`, un membre par bulletin */
+function storedBallots(choices: string[]) {
+  return ballots(choices).map((ballot, i) => ({
+    vote: vote({ id: i + 1, userId: 10 + i, ...ballot }),
+    user: member(10 + i, `Membre ${i + 1}`),
+  }));
+}
+
+function decision(overrides: Partial<Decision> = {}): Decision {
+  return {
+    id: 7,
+    projectId: 3,
+    title: "Choisir la base",
+    status: "voting",
+    votingRound: 1,
+    alternatives: options.map(option => ({ option, pros: [], cons: [] })),
+    votingConfig: null,
+    ...overrides,
+  } as Decision;
+}
+
+describe("decision voting", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("valide les bulletins selon le mode", () => {
+    expect(normalizeBallot(majority, options, { choice: "MySQL" })).toEqual({
+      choice: "MySQL",
+      ranking: null,
+      confidence: null,
+    });
+    expect(normalizeBallot(majority, options, { choice: ABSTAIN }).choice).toBe(ABSTAIN);
+    expect(() => normalizeBallot(majority, options, { choice: "Oracle" })).toThrow("Unknown option");
+    expect(() => normalizeBallot({ ...majority, mode: "weighted" }, options, { choice: "MySQL" })).toThrow(
+      "Confidence is required"
+    );
+
+    const rankedConfig = { ...majority, mode: "ranked" as const };
+    expect(normalizeBallot(rankedConfig, options, { ranking: ["SQLite", "Postgres"] }).choice).toBe("SQLite");
+    expect(() => normalizeBallot(rankedConfig, options, { ranking: ["SQLite", "SQLite"] })).toThrow("only be ranked once");
+  });
+
+  it("dépouille à la majorité absolue en signalant les égalités", () => {
+    const tally = tallyVotes(majority, options, ballots(["Postgres", "MySQL", "Postgres", ABSTAIN]));
+    expect(tally.results[0]).toEqual({ option: "Postgres", votes: 2, weight: 2 });
+    expect(tally).toMatchObject({ ballots: 4, abstentions: 1, winner: "Postgres", tie: false, quorumReached: true });
+
+    expect(tallyVotes(majority, options, ballots(["Postgres", "MySQL"]))).toMatchObject({ winner: null, tie: true });
+  });
+
+  it("n'élit personne sans plus de la moitié des voix exprimées", () => {
+    const split = ballots(["Postgres", "Postgres", "Postgres", "MySQL", "MySQL", "SQLite", "SQLite", ABSTAIN]);
+    expect(tallyVotes(majority, options, split)).toMatchObject({ winner: null, tie: false, noMajority: true });
+
+    // Le mode pondéré garde l'option la plus lourde, sans seuil
+    const weighted = { ...majority, mode: "weighted" as const };
+    expect(tallyVotes(weighted, options, ballots(["Postgres", "MySQL", "SQLite"], [0.9, 0.5, 0.5])).winner).toBe("Postgres");
+  });
+
+  it("pondère chaque voix par la confiance de son auteur", () => {
+    const weighted = { ...majority, mode: "weighted" as const };
+    const tally = tallyVotes(weighted, options, ballots(["Postgres", "Postgres", "MySQL"], [0.3, 0.2, 0.9]));
+    expect(tally.winner).toBe("MySQL");
+    expect(tally.results[0]).toEqual({ option: "MySQL", votes: 1, weight: 0.9 });
+  });
+
+  it("reporte les voix des options éliminées au vote par classement", () => {
+    const rankedConfig = { ...majority, mode: "ranked" as const };
+    const tally = tallyVotes(
+      rankedConfig,
+      options,
+      ranked(
+        ["Postgres", "MySQL"],
+        ["Postgres", "SQLite"],
+        ["MySQL", "Postgres"],
+        ["MySQL", "SQLite"],
+        ["SQLite", "MySQL"]
+      )
+    );
+
+    expect(tally.rounds).toEqual([
+      {
+        counts: [
+          { option: "Postgres", votes: 2 },
+          { option: "MySQL", votes: 2 },
+          { option: "SQLite", votes: 1 },
+        ],
+        eliminated: ["SQLite"],
+      },
+      {
+        counts: [
+          { option: "Postgres", votes: 2 },
+          { option: "MySQL", votes: 3 },
+        ],
+        eliminated: [],
+      },
+    ]);
+    expect(tally.winner).toBe("MySQL");
+  });
+
+  it("prend la décision avec l'option gagnante à la clôture", async () => {
+    vi.mocked(db.getDecisionById).mockResolvedValue(decision());
+    vi.mocked(db.getVotesByDecisionId).mockResolvedValue(storedBallots(["SQLite", "SQLite", "MySQL"]));
+
+    const closed = await closeDecisionVote(7, 5);
+
+    expect(closed?.decision).toMatchObject({ status: "decided", outcome: "SQLite" });
+    expect(closed?.groupthink).toBe(false);
+    expect(db.createCognitiveEvent).not.toHaveBeenCalled();
+    expect(db.getVotesByDecisionId).toHaveBeenCalledWith(7, 1);
+    expect(db.transitionDecisionStatus).toHaveBeenCalledWith(
+      7,
+      "voting",
+      expect.objectContaining({ status: "decided", outcome: "SQLite" }),
+      expect.objectContaining({ fromStatus: "voting", toStatus: "decided", changedBy: 5 })
+    );
+  });
+
+  it("renvoie la décision en discussion sans quorum", async () => {
+    vi.mocked(db.getDecisionById).mockResolvedValue(
+      decision({ votingConfig: { mode: "majority", anonymous: true, quorum: 3, blind: true } })
+    );
+    vi.mocked(db.getVotesByDecisionId).mockResolvedValue(storedBallots(["SQLite"]));
+
+    const closed = await closeDecisionVote(7, null);
+
+    expect(closed?.tally).toMatchObject({ quorumReached: false, winner: "SQLite" });
+    expect(closed?.decision.status).toBe("discussing");
+    expect(db.transitionDecisionStatus).toHaveBeenCalledWith(
+      7,
+      "voting",
+      { status: "discussing" },
+      expect.objectContaining({ toStatus: "discussing", changedBy: null, reason: "Vote clos sans quorum (1/3 bulletins)" })
+    );
+  });
+
+  it("laisse la clôture manuelle l'emporter sur celle à la date limite", async () => {
+    const deadline = new Date("2026-03-01T12:00:00Z");
+    vi.mocked(db.getDecisionById).mockResolvedValue(decision({ votingDeadline: deadline }));
+    vi.mocked(db.transitionDecisionStatus).mockResolvedValueOnce(false);
+
+    await expect(closeVoteAtDeadline(7, deadline.toISOString())).resolves.toBeUndefined();
+    expect(db.getProjectById).not.toHaveBeenCalled();
+  });
+
+  it("cache les choix des autres jusqu'à son propre vote en vote à l'aveugle", () => {
+    const alice = member(5, "Alice");
+    const bob = member(6, "Bob");
+    const votes = [
+      { vote: vote({ id: 1, userId: 5, choice: "SQLite", reasoning: "Simple", confidence: 0.8 }), user: alice },
+      { vote: vote({ id: 2, userId: 6, choice: "MySQL", reasoning: "Connue", confidence: 0.6 }), user: bob },
+    ];
+
+    const blind = presentVotes(decision(), votes, 7);
+    expect(blind.revealed).toBe(false);
+    expect(blind.tally).toBeNull();
+    expect(blind.votes.map(({ vote, user }) => [vote.choice, vote.reasoning, user])).toEqual([
+      [null, null, alice],
+      [null, null, bob],
+    ]);
+
+    const afterVoting = presentVotes(decision(), votes, 5);
+    expect(afterVoting.revealed).toBe(true);
+    expect(afterVoting.votes[1].vote.choice).toBe("MySQL");
+    expect(afterVoting.tally?.ballots).toBe(2);
+
+    expect(presentVotes(decision({ status: "decided" }), votes, 7).revealed).toBe(true);
+  });
+
+  it("rend le bulletin définitif une fois déposé en vote à l'aveugle", () => {
+    const ballot = { vote: vote({ userId: 5 }), user: member(5, "Alice") };
+
+    expect(presentVotes(decision(), [], 5).canVote).toBe(true);
+    expect(presentVotes(decision(), [ballot], 5).canVote).toBe(false);
+    const open = decision({ votingConfig: { ...majority, blind: false } });
+    expect(presentVotes(open, [ballot], 5).canVote).toBe(true);
+    expect(presentVotes(decision({ status: "decided" }), [], 5).canVote).toBe(false);
+  });
+
+  it("ne tient compte que des bulletins du tour en cours", () => {
+    const votes = [
+      { vote: vote({ id: 1, userId: 5, round: 1, choice: "SQLite" }), user: member(5, "Alice") },
+      { vote: vote({ id: 2, userId: 6, round: 2, choice: "MySQL" }), user: member(6, "Bob") },
+    ];
+
+    const presented = presentVotes(decision({ votingRound: 2 }), votes, 5);
+    expect(presented.myVote).toBeNull();
+    expect(presented.revealed).toBe(false);
+    expect(presented.votes).toHaveLength(1);
+  });
+
+  it("mesure la dispersion des jugements", () => {
+    expect(computeVoteDispersion(options, ballots(["SQLite", "SQLite", "SQLite", ABSTAIN]))).toMatchObject({
+      ballots: 3,
+      agreement: 1,
+      entropy: 0,
+      unanimous: true,
+    });
+
+    const split = computeVoteDispersion(options, ballots(["SQLite", "MySQL", "Postgres"], [0.2, 0.5, 0.8]));
+    expect(split.agreement).toBeCloseTo(1 / 3);
+    expect(split.entropy).toBeCloseTo(1);
+    expect(split.confidenceSpread).toBeCloseTo(0.245, 3);
+    expect(split.unanimous).toBe(false);
+  });
+
+  it("signale une pensée de groupe quand le vote est unanime", async () => {
+    vi.mocked(db.getDecisionById).mockResolvedValue(decision());
+    vi.mocked(db.getVotesByDecisionId).mockResolvedValue(storedBallots(["Postgres", "Postgres", "Postgres"]));
+
+    const closed = await closeDecisionVote(7, 5);
+
+    expect(closed?.groupthink).toBe(true);
+    expect(db.createCognitiveEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 3,
+        type: "bias_detected",
+        sourceDecisionId: 7,
+        data: expect.objectContaining({ source: "vote", biasType: "groupthink" }),
+      })
+    );
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Decision Voting - Votes sur les décisions
+ *
+ * Chaque décision porte sa configuration de vote : majorité absolue (plus
+ * de la moitié des voix exprimées), vote pondéré par la confiance de chacun
+ * (`votes.confidence`) ou vote par classement sur les alternatives (second
+ * tour instantané), bulletins anonymes, quorum et date limite. Un membre n'a
+ * qu'un bulletin, qu'il peut réviser tant que le vote est ouvert. Chaque
+ * ouverture du vote est un nouveau tour : seuls ses bulletins comptent, ceux
+ * des tours précédents restent archivés. À la clôture, le dépouillement fait
+ * passer la décision à `decided` avec l'option gagnante pour résultat, ou la
+ * renvoie en discussion si le quorum n'est pas atteint, faute de majorité ou
+ * en cas d'égalité.
+ *
+ * En vote à l'aveugle, les choix et raisonnements des autres restent cachés
+ * tant que l'on n'a pas voté soi-même ou que le vote n'est pas clos, pour
+ * éviter les effets d'ancrage et de suivisme ; le bulletin devient alors
+ * définitif, sans quoi un vote jetable suffirait à tout voir avant de voter.
+ * À la clôture, la dispersion des jugements indépendants est mesurée ; une
+ * unanimité trop parfaite est signalée comme un risque de pensée de groupe.
+ */
+
+import { TRPCError } from "@trpc/server";
+import type { Decision, Vote } from "../drizzle/schema";
+import * as db from "./db";
+import { applyDecisionStatusEffects, applyDecisionTransition } from "./decisionLifecycle";
+import { enqueueJob } from "./jobQueue";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VotingMode = "majority" | "weighted" | "ranked";
+
+export interface VotingConfig {
+  mode: VotingMode;
+  /** Bulletins affichés sans le nom de leur auteur */
+  anonymous: boolean;
+  /** Nombre minimum de bulletins (abstentions comprises) */
+  quorum: number | null;
+  /** Choix des autres cachés jusqu'à son propre vote ou la clôture */
+  blind: boolean;
+}
+
+export interface Ballot {
+  choice: string;
+  ranking?: string[] | null;
+  confidence?: number | null;
+}
+
+export interface VoteOptionResult {
+  option: string;
+  votes: number;
+  /** Somme des confiances en mode pondéré, nombre de voix sinon */
+  weight: number;
+}
+
+export interface RankedRound {
+  counts: { option: string; votes: number }[];
+  eliminated: string[];
+}
+
+export interface VoteTally {
+  mode: VotingMode;
+  ballots: number;
+  abstentions: number;
+  quorum: number | null;
+  quorumReached: boolean;
+  /** Premier tour pour le vote par classement, du meilleur score au moins bon */
+  results: VoteOptionResult[];
+  rounds?: RankedRound[];
+  winner: string | null;
+  tie: boolean;
+  /** Option en tête sans plus de la moitié des voix exprimées (mode majorité) */
+  noMajority: boolean;
+}
+
+export interface VoteDispersion {
+  /** Bulletins exprimés (hors abstentions) */
+  ballots: number;
+  /** Part de l'option la plus choisie */
+  agreement: number;
+  /** Entropie des choix rapportée au maximum possible (0 = unanimité) */
+  entropy: number;
+  /** Écart type des confiances déclarées */
+  confidenceSpread: number | null;
+  unanimous: boolean;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DEFAULT_VOTING_CONFIG: VotingConfig = { mode: "majority", anonymous: false, quorum: null, blind: true };
+
+export const ABSTAIN = "Abstention";
+
+/** Options d'une décision sans alternatives */
+const DEFAULT_OPTIONS = ["Pour", "Contre"];
+
+/** En dessous, une unanimité n'a rien de suspect */
+const GROUPTHINK_MIN_BALLOTS = 3;
+
+export function getVotingConfig(decision: Pick<Decision, "votingConfig">): VotingConfig {
+  return { ...DEFAULT_VOTING_CONFIG, ...decision.votingConfig };
+}
+
+export function getVotingOptions(decision: Pick<Decision, "alternatives">): string[] {
+  const options = Array.from(new Set((decision.alternatives ?? []).map(a => a.option.trim()).filter(Boolean)));
+  return options.length > 0 ? options : DEFAULT_OPTIONS;
+}
+
+/**
+ * Vérifie qu'une configuration convient à la décision : le vote par
+ * classement n'a de sens qu'avec au moins deux alternatives
+ */
+export function assertVotingConfig(decision: Pick<Decision, "alternatives">, config: VotingConfig): void {
+  if (config.mode === "ranked" && (decision.alternatives ?? []).length < 2) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Ranked-choice voting needs at least two alternatives",
+    });
+  }
+}
+
+// ============================================================================
+// BULLETINS
+// ============================================================================
+
+/**
+ * Valide un bulletin selon le mode de vote. Le choix d'un bulletin classé
+ * est sa première préférence.
+ */
+export function normalizeBallot(
+  config: VotingConfig,
+  options: string[],
+  input: { choice?: string; ranking?: string[]; confidence?: number }
+): Ballot {
+  const invalid = (message: string) => new TRPCError({ code: "BAD_REQUEST", message });
+
+  if (config.mode === "ranked") {
+    const ranking = input.ranking ?? [];
+    if (ranking.length === 0) throw invalid("A ranking is required for ranked-choice voting");
+    if (new Set(ranking).size !== ranking.length) throw invalid("Each option can only be ranked once");
+    if (ranking.some(option => !options.includes(option))) throw invalid("Unknown option in ranking");
+    return { choice: ranking[0], ranking, confidence: input.confidence ?? null };
+  }
+
+  const choice = input.choice?.trim();
+  if (!choice) throw invalid("A choice is required");
+  if (choice !== ABSTAIN && !options.includes(choice)) throw invalid("Unknown option");
+  if (config.mode === "weighted" && choice !== ABSTAIN && input.confidence === undefined) {
+    throw invalid("Confidence is required for confidence-weighted voting");
+  }
+  return { choice, ranking: null, confidence: input.confidence ?? null };
+}
+
+// ============================================================================
+// DÉPOUILLEMENT
+// ============================================================================
+
+function byScore(a: { option: string; weight: number }, b: { option: string; weight: number }): number {
+  return b.weight - a.weight;
+}
+
+/**
+ * Meilleur score s'il est unique, égalité sinon. Avec `requireMajority`, il
+ * doit en plus dépasser la moitié du poids exprimé (abstentions exclues).
+ */
+function pickWinner(
+  results: { option: string; weight: number }[],
+  requireMajority: boolean
+): { winner: string | null; tie: boolean; noMajority: boolean } {
+  const [first, second] = [...results].sort(byScore);
+  if (!first || first.weight <= 0) return { winner: null, tie: false, noMajority: false };
+  if (second && second.weight === first.weight) return { winner: null, tie: true, noMajority: false };
+  const expressed = results.reduce((sum, result) => sum + result.weight, 0);
+  if (requireMajority && first.weight * 2 <= expressed) return { winner: null, tie: false, noMajority: true };
+  return { winner: first.option, tie: false, noMajority: false };
+}
+
+/**
+ * Second tour instantané : tant qu'aucune option n'a la majorité des
+ * bulletins encore en lice, les moins bien placées sont éliminées et leurs
+ * bulletins reportés sur la préférence suivante
+ */
+function runInstantRunoff(options: string[], ballots: Ballot[]) {
+  const rounds: RankedRound[] = [];
+  let remaining = [...options];
+
+  while (remaining.length > 0) {
+    const counts = remaining.map(option => ({ option, votes: 0 }));
+    for (const ballot of ballots) {
+      const preferred = (ballot.ranking ?? []).find(option => remaining.includes(option));
+      const entry = counts.find(count => count.option === preferred);
+      if (entry) entry.votes++;
+    }
+
+    const continuing = counts.reduce((sum, count) => sum + count.votes, 0);
+    const top = Math.max(...counts.map(count => count.votes));
+    if (continuing === 0) {
+      rounds.push({ counts, eliminated: [] });
+      return { rounds, winner: null, tie: false };
+    }
+    if (top * 2 > continuing) {
+      rounds.push({ counts, eliminated: [] });
+      return { rounds, winner: counts.find(count => count.votes === top)!.option, tie: false };
+    }
+
+    const lowest = Math.min(...counts.map(count => count.votes));
+    const eliminated = counts.filter(count => count.votes === lowest).map(count => count.option);
+    rounds.push({ counts, eliminated });
+    // Toutes les options restantes à égalité : personne ne peut être départagé
+    if (eliminated.length === remaining.length) return { rounds, winner: null, tie: true };
+    remaining = remaining.filter(option => !eliminated.includes(option));
+  }
+  return { rounds, winner: null, tie: false };
+}
+
+/**
+ * Dépouille les bulletins d'une décision selon sa configuration
+ */
+export function tallyVotes(config: VotingConfig, options: string[], ballots: Ballot[]): VoteTally {
+  const abstentions = ballots.filter(ballot => ballot.choice === ABSTAIN).length;
+  const quorumReached = config.quorum === null || ballots.length >= config.quorum;
+
+  const results: VoteOptionResult[] = options.map(option => ({ option, votes: 0, weight: 0 }));
+  for (const ballot of ballots) {
+    const result = results.find(r => r.option === ballot.choice);
+    if (!result) continue;
+    result.votes++;
+    result.weight += config.mode === "weighted" ? (ballot.confidence ?? 0) : 1;
+  }
+  results.sort(byScore);
+
+  const base = { mode: config.mode, ballots: ballots.length, abstentions, quorum: config.quorum, quorumReached, results };
+  if (config.mode === "ranked") {
+    return { ...base, ...runInstantRunoff(options, ballots), noMajority: false };
+  }
+  return { ...base, ...pickWinner(results, config.mode === "majority") };
+}
+
+export function tallyDecisionVotes(decision: Decision, votes: Pick<Vote, "choice" | "ranking" | "confidence">[]): VoteTally {
+  return tallyVotes(getVotingConfig(decision), getVotingOptions(decision), votes);
+}
+
+// ============================================================================
+// DISPERSION
+// ============================================================================
+
+/**
+ * Mesure à quel point les jugements exprimés divergent
+ */
+export function computeVoteDispersion(options: string[], ballots: Ballot[]): VoteDispersion {
+  const expressed = ballots.filter(ballot => ballot.choice !== ABSTAIN);
+  const counts = new Map<string, number>();
+  for (const ballot of expressed) counts.set(ballot.choice, (counts.get(ballot.choice) ?? 0) + 1);
+
+  const total = expressed.length;
+  const top = Math.max(0, ...Array.from(counts.values()));
+  const entropy = Array.from(counts.values()).reduce((sum, count) => {
+    const share = count / total;
+    return sum - share * Math.log(share);
+  }, 0);
+  const maxEntropy = Math.log(Math.min(Math.max(options.length, 2), Math.max(total, 2)));
+
+  const confidences = expressed.map(ballot => ballot.confidence).filter((c): c is number => typeof c === "number");
+  let confidenceSpread: number | null = null;
+  if (confidences.length >= 2) {
+    const mean = confidences.reduce((sum, c) => sum + c, 0) / confidences.length;
+    confidenceSpread = Math.sqrt(confidences.reduce((sum, c) => sum + (c - mean) ** 2, 0) / confidences.length);
+  }
+
+  return {
+    ballots: total,
+    agreement: total > 0 ? top / total : 0,
+    entropy: total > 0 ? entropy / maxEntropy : 0,
+    confidenceSpread,
+    unanimous: total > 0 && counts.size === 1,
+  };
+}
+
+/** Unanimité sur assez de bulletins pour que la diversité ait pu s'exprimer */
+export function isSuspiciouslyUnanimous(dispersion: VoteDispersion): boolean {
+  return dispersion.unanimous && dispersion.ballots >= GROUPTHINK_MIN_BALLOTS;
+}
+
+async function recordGroupthink(decision: Decision, dispersion: VoteDispersion): Promise<void> {
+  await db.createCognitiveEvent({
+    projectId: decision.projectId,
+    type: "bias_detected",
+    severity: "warning",
+    title: "Vote unanime : risque de pensée de groupe",
+    description: `Les ${dispersion.ballots} bulletins exprimés sur « ${decision.title} » font le même choix. Vérifiez que les objections ont bien pu s'exprimer.`,
+    sourceDecisionId: decision.id,
+    data: { source: "vote", biasType: "groupthink", dispersion },
+  });
+}
+
+// ============================================================================
+// VISIBILITÉ
+// ============================================================================
+
+/**
+ * Vrai quand le lecteur peut voir les choix des autres : hors vote à
+ * l'aveugle, une fois son propre bulletin déposé ou après la clôture
+ */
+export function isVoteRevealed(decision: Pick<Decision, "status" | "votingConfig">, hasVoted: boolean): boolean {
+  return !getVotingConfig(decision).blind || decision.status !== "voting" || hasVoted;
+}
+
+/**
+ * Un bulletin se révise tant que le vote est ouvert, sauf à l'aveugle : le
+ * déposer révèle les choix des autres, il ne peut plus changer ensuite
+ */
+export function canReviseBallot(decision: Pick<Decision, "votingConfig">, hasVoted: boolean): boolean {
+  return !hasVoted || !getVotingConfig(decision).blind;
+}
+
+/**
+ * Bulletins d'une décision tels que `viewerId` peut les voir : contenu des
+ * autres masqué tant que le vote n'est pas révélé, auteur masqué en vote
+ * anonyme. Seuls les bulletins du tour en cours comptent : un bulletin d'un
+ * tour précédent ne révèle rien. Le dépouillement n'est fourni qu'une fois
+ * le vote révélé, la dispersion qu'une fois le vote clos.
+ */
+export function presentVotes<U>(decision: Decision, roundVotes: { vote: Vote; user: U }[], viewerId: number) {
+  const config = getVotingConfig(decision);
+  const votes = roundVotes.filter(({ vote }) => vote.round === decision.votingRound);
+  const myVote = votes.find(({ vote }) => vote.userId === viewerId)?.vote ?? null;
+  const revealed = isVoteRevealed(decision, myVote !== null);
+
+  const visible = votes.map(({ vote, user }) => {
+    const own = vote.userId === viewerId;
+    const ballot = revealed || own ? vote : { ...vote, choice: null, ranking: null, confidence: null, reasoning: null };
+    return config.anonymous && !own ? { vote: { ...ballot, userId: 0 }, user: null } : { vote: ballot, user };
+  });
+
+  const ballots = votes.map(({ vote }) => vote);
+  const dispersion =
+    decision.status !== "voting" && ballots.length > 0
+      ? computeVoteDispersion(getVotingOptions(decision), ballots)
+      : null;
+  return {
+    votes: visible,
+    myVote,
+    canVote: decision.status === "voting" && canReviseBallot(decision, myVote !== null),
+    revealed,
+    tally: revealed ? tallyDecisionVotes(decision, ballots) : null,
+    dispersion,
+    groupthink: dispersion !== null && isSuspiciouslyUnanimous(dispersion),
+  };
+}
+
+// ============================================================================
+// CLÔTURE
+// ============================================================================
+
+function describeOutcome(tally: VoteTally): string {
+  if (!tally.quorumReached) return `Vote clos sans quorum (${tally.ballots}/${tally.quorum} bulletins)`;
+  if (tally.winner) return `Vote clos : « ${tally.winner} » l'emporte (${tally.ballots} bulletin(s))`;
+  if (tally.tie) return "Vote clos sur une égalité";
+  if (tally.noMajority) return "Vote clos sans majorité absolue";
+  return "Vote clos sans option exprimée";
+}
+
+/**
+ * Clôt le vote d'une décision. Avec le quorum et une option gagnante, la
+ * décision est prise avec cette option pour résultat ; sinon elle retourne
+ * en discussion. `closedBy` est null pour une clôture à la date limite.
+ */
+export async function closeDecisionVote(decisionId: number, closedBy: number | null) {
+  const decision = await db.getDecisionById(decisionId);
+  if (!decision || decision.status !== "voting") return null;
+
+  const votes = await db.getVotesByDecisionId(decisionId, decision.votingRound);
+  const ballots = votes.map(v => v.vote);
+  const tally = tallyDecisionVotes(decision, ballots);
+  const reason = describeOutcome(tally);
+
+  const closed =
+    tally.quorumReached && tally.winner
+      ? await applyDecisionTransition(decision, "decided", closedBy, reason, { outcome: tally.winner })
+      : await applyDecisionTransition(decision, "discussing", closedBy, reason);
+
+  // Révélation : les jugements ont été formés indépendamment, leur accord parfait se remarque
+  const dispersion = computeVoteDispersion(getVotingOptions(decision), ballots);
+  const groupthink = isSuspiciouslyUnanimous(dispersion);
+  if (groupthink) await recordGroupthink(closed, dispersion);
+
+  const project = await db.getProjectById(closed.projectId);
+  const untestedHypotheses = project
+    ? await applyDecisionStatusEffects(closed, project.teamId, closedBy ?? undefined)
+    : [];
+  return { decision: closed, tally, dispersion, groupthink, untestedHypotheses };
+}
+
+/**
+ * Programme la clôture automatique à la date limite du vote
+ */
+export async function scheduleVoteClosing(decision: Pick<Decision, "id" | "votingDeadline">): Promise<void> {
+  if (!decision.votingDeadline) return;
+  const deadline = decision.votingDeadline;
+  await enqueueJob(
+    "decision_vote_close",
+    { decisionId: decision.id, deadline: deadline.toISOString() },
+    { runAt: deadline, idempotencyKey: `decision_vote_close:${decision.id}:${deadline.getTime()}` }
+  );
+}
+
+/**
+ * Exécution du job de clôture : ignorée si la décision n'est plus en vote ou
+ * si la date limite a changé depuis
+ */
+export async function closeVoteAtDeadline(decisionId: number, deadline: string): Promise<void> {
+  const decision = await db.getDecisionById(decisionId);
+  if (!decision || decision.status !== "voting") return;
+  // Les timestamps MySQL n'ont qu'une précision à la seconde
+  if (!decision.votingDeadline || Math.abs(decision.votingDeadline.getTime() - Date.parse(deadline)) >= 1000) return;
+  try {
+    await closeDecisionVote(decisionId, null);
+  } catch (error) {
+    // Vote clos manuellement pendant le dépouillement : plus rien à faire
+    if (error instanceof TRPCError && error.code === "CONFLICT") return;
+    throw error;
+  }
+}
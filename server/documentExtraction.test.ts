@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Document } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDocumentById: vi.fn(async () => undefined),
+    updateDocument: vi.fn(async () => undefined),
+    getPendingExtractionDocumentIds: vi.fn(async () => []),
+    createJob: vi.fn(async () => 1),
+  };
+});
+
+vi.mock("./_core/structuredLLM", () => ({
+  invokeStructuredLLM: vi.fn(async () => ({
+    ok: true,
+    data: { summary: "Proposition de lancer la V2 au prochain trimestre." },
+    repaired: false,
+  })),
+}));
+
+const db = await import("./db");
+const { invokeStructuredLLM } = await import("./_core/structuredLLM");
+const { NonRetryableJobError } = await import("./jobQueue");
+const {
+  backfillDocumentExtractions,
+  csvToText,
+  detectDocumentFormat,
+  extractDocumentText,
+  markdownToText,
+  parseCsv,
+  processDocument,
+} = await import("./documentExtraction");
+
+function storedDocument(name: string, mimeType: string): Document {
+  return {
+    id: 12,
+    projectId: 4,
+    uploadedBy: 7,
+    name,
+    mimeType,
+    url: `https://storage.test/${name}`,
+  } as Document;
+}
+
+function serveFile(content: string | Buffer) {
+  const body = typeof content === "string" ? Buffer.from(content) : content;
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(body)));
+}
+
+describe("document extraction", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reconnaît le format par extension puis par type MIME", () => {
+    expect(detectDocumentFormat("notes.MD", "text/plain")).toBe("markdown");
+    expect(detectDocumentFormat("export.csv", "")).toBe("csv");
+    expect(detectDocumentFormat("spec", "application/pdf")).toBe("pdf");
+    expect(detectDocumentFormat("maquette.png", "image/png")).toBeUndefined();
+  });
+
+  it("retire la syntaxe Markdown en gardant le contenu", () => {
+    const text = markdownToText("# Roadmap\n\n* **V2** : voir [la spec](https://x.test)\n> `API` _publique_\n\n---");
+
+    expect(text.trim()).toBe("Roadmap\n\n- V2 : voir la spec\nAPI publique");
+  });
+
+  it("lit les CSV avec guillemets et point-virgule", () => {
+    const csv = 'Option;Coût;Avis\r\n"Refonte; complète";120;"Trop ""risqué"""\nStatu quo;0;\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ["Option", "Coût", "Avis"],
+      ["Refonte; complète", "120", 'Trop "risqué"'],
+      ["Statu quo", "0", ""],
+    ]);
+    expect(csvToText(csv)).toBe('Option: Refonte; complète ; Coût: 120 ; Avis: Trop "risqué"\nOption: Statu quo ; Coût: 0');
+  });
+
+  it("décode les fichiers texte qui ne sont pas en UTF-8", async () => {
+    const text = await extractDocumentText(Buffer.from("Décision prise à l'unanimité", "latin1"), "text");
+
+    expect(text).toBe("Décision prise à l'unanimité");
+  });
+
+  it("enregistre le texte, le résumé et l'analyse d'un document", async () => {
+    vi.mocked(db.getDocumentById).mockResolvedValue(storedDocument("compte-rendu.md", "text/markdown"));
+    serveFile("## Compte rendu\n\nOn a déjà trop investi pour arrêter maintenant.");
+
+    await processDocument(12);
+
+    expect(invokeStructuredLLM).toHaveBeenCalledWith(
+      expect.objectContaining({ context: { projectId: 4, userId: 7 } })
+    );
+    expect(db.updateDocument).toHaveBeenLastCalledWith(12, {
+      extractionStatus: "completed",
+      extractedText: "Compte rendu\n\nOn a déjà trop investi pour arrêter maintenant.",
+      summary: "Proposition de lancer la V2 au prochain trimestre.",
+      analysis: expect.objectContaining({
+        wordCount: 10,
+        biasIndicators: [expect.objectContaining({ type: "sunk_cost" })],
+      }),
+      extractionError: null,
+    });
+  });
+
+  it("marque les formats non pris en charge sans les télécharger", async () => {
+    vi.mocked(db.getDocumentById).mockResolvedValue(storedDocument("maquette.png", "image/png"));
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    await processDocument(12);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(db.updateDocument).toHaveBeenCalledWith(12, { extractionStatus: "unsupported" });
+  });
+
+  it("n'insiste pas sur un fichier illisible", async () => {
+    vi.mocked(db.getDocumentById).mockResolvedValue(storedDocument("spec.pdf", "application/pdf"));
+    serveFile("ceci n'est pas un PDF");
+
+    await expect(processDocument(12)).rejects.toBeInstanceOf(NonRetryableJobError);
+  });
+
+  it("programme au démarrage l'extraction des documents restés en attente", async () => {
+    vi.mocked(db.getPendingExtractionDocumentIds).mockResolvedValue([3, 12]);
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    expect(await backfillDocumentExtractions()).toBe(2);
+    expect(db.createJob).toHaveBeenCalledTimes(2);
+    expect(db.createJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "document_extraction",
+        payload: { documentId: 12 },
+        idempotencyKey: "document_extraction:12",
+      })
+    );
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Document Extraction - Lecture et analyse cognitive des documents partagés
+ *
+ * Le texte des fichiers PDF, DOCX, Markdown, texte brut et CSV est extrait
+ * en arrière-plan (job `document_extraction`), résumé, puis analysé avec les
+ * détecteurs de biais et de sentiment appliqués aux messages. Chaque version
+ * d'un document conserve son propre texte, son résumé et son analyse.
+ */
+
+import mammoth from "mammoth";
+import { extractText as extractPdfText } from "unpdf";
+import { z } from "zod";
+import type { LLMCallContext } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
+import { analyzeMessage, type BiasIndicator } from "./biasDetection";
+import * as db from "./db";
+import { enqueueJob, NonRetryableJobError } from "./jobQueue";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DocumentFormat = "pdf" | "docx" | "markdown" | "text" | "csv";
+
+export interface DocumentAnalysis {
+  sentiment: number; // -1 à 1
+  cognitivePatterns: string[];
+  biasIndicators: BiasIndicator[];
+  criticalThinkingScore: number;
+  wordCount: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Texte conservé par version (colonne mediumtext) */
+export const MAX_EXTRACTED_CHARS = 500_000;
+
+/** Début du texte transmis au LLM pour le résumé */
+const SUMMARY_INPUT_CHARS = 12_000;
+
+/** Longueur du résumé local, utilisé quand le LLM n'est pas disponible */
+const FALLBACK_SUMMARY_CHARS = 400;
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  md: "markdown",
+  markdown: "markdown",
+  txt: "text",
+  text: "text",
+  csv: "csv",
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/plain": "text",
+  "text/csv": "csv",
+  "application/csv": "csv",
+};
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Format d'un fichier d'après son extension, puis son type MIME : les
+ * navigateurs envoient souvent text/plain ou rien pour .md et .csv
+ */
+export function detectDocumentFormat(name: string, mimeType?: string | null): DocumentFormat | undefined {
+  const extension = name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+  const mime = mimeType?.split(";")[0].trim().toLowerCase() ?? "";
+  return EXTENSION_FORMATS[extension] ?? MIME_FORMATS[mime];
+}
+
+/** UTF-8, ou Windows-1252/Latin-1 pour les exports qui ne sont pas en UTF-8 */
+function decodeText(buffer: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    text = buffer.toString("latin1");
+  }
+  return text.replace(/^\uFEFF/, "");
+}
+
+/**
+ * Texte brut d'un document Markdown : la syntaxe est retirée, le contenu
+ * (titres, listes, code, texte des liens) est conservé
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^\s{0,3}([-*_])(\s*\1){2,}\s*$/gm, "") // séparateurs
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^(\s*)[*+]\s+/gm, "$1- ")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?![\w*])/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1");
+}
+
+/**
+ * Découpe un CSV (guillemets doublés, retours à la ligne entre guillemets).
+ * Le séparateur est le plus fréquent de la première ligne parmi , ; et tab.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split("\n", 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+/**
+ * Une ligne de texte par ligne du CSV, chaque valeur précédée de son en-tête
+ */
+export function csvToText(csv: string): string {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) return "";
+  if (rows.length === 0) return header.join(", ");
+
+  const columns = header.map((name, i) => name.trim() || `Colonne ${i + 1}`);
+  return rows
+    .map(row =>
+      row
+        .map((value, i) => (value.trim() ? `${columns[i] ?? `Colonne ${i + 1}`}: ${value.trim()}` : ""))
+        .filter(Boolean)
+        .join(" ; ")
+    )
+    .join("\n");
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .slice(0, MAX_EXTRACTED_CHARS);
+}
+
+export async function extractDocumentText(buffer: Buffer, format: DocumentFormat): Promise<string> {
+  switch (format) {
+    case "pdf": {
+      const { text } = await extractPdfText(new Uint8Array(buffer), { mergePages: true });
+      return normalizeText(text);
+    }
+    case "docx":
+      return normalizeText((await mammoth.extractRawText({ buffer })).value);
+    case "markdown":
+      return normalizeText(markdownToText(decodeText(buffer)));
+    case "csv":
+      return normalizeText(csvToText(decodeText(buffer)));
+    case "text":
+      return normalizeText(decodeText(buffer));
+  }
+}
+
+// ============================================================================
+// RÉSUMÉ ET ANALYSE
+// ============================================================================
+
+// Sortie attendue du LLM, transmise aussi comme format de réponse
+const documentSummarySchema = z.object({
+  summary: z.string(),
+});
+
+/**
+ * Début du texte coupé à la dernière phrase complète
+ */
+function localSummary(text: string): string {
+  if (text.length <= FALLBACK_SUMMARY_CHARS) return text;
+  const excerpt = text.slice(0, FALLBACK_SUMMARY_CHARS);
+  const lastSentence = excerpt.search(/[.!?][^.!?]*$/);
+  return (lastSentence > FALLBACK_SUMMARY_CHARS / 2 ? excerpt.slice(0, lastSentence + 1) : excerpt) + " …";
+}
+
+export async function summarizeDocument(text: string, name: string, context?: LLMCallContext): Promise<string> {
+  const result = await invokeStructuredLLM({
+    useCase: "summary",
+    context,
+    messages: [
+      {
+        role: "system",
+        content: `Tu résumes les documents partagés par une équipe projet.
+Génère un résumé factuel (max 120 mots) qui couvre :
+- L'objet du document
+- Les propositions, décisions ou chiffres clés
+- Les hypothèses et points ouverts
+Réponds en JSON: {"summary": "..."}`,
+      },
+      { role: "user", content: `Document « ${name} » :\n\n${text.slice(0, SUMMARY_INPUT_CHARS)}` },
+    ],
+    schemaName: "document_summary",
+    schema: documentSummarySchema,
+  });
+
+  return result.ok && result.data.summary.trim() ? result.data.summary.trim() : localSummary(text);
+}
+
+/**
+ * Sentiment, patterns cognitifs et biais du contenu, avec les détecteurs
+ * appliqués aux messages
+ */
+export async function analyzeDocumentText(text: string): Promise<DocumentAnalysis> {
+  const analysis = await analyzeMessage(text);
+  return {
+    sentiment: analysis.sentiment,
+    cognitivePatterns: analysis.cognitivePatterns,
+    biasIndicators: analysis.biasIndicators,
+    criticalThinkingScore: analysis.criticalThinkingScore,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+  };
+}
+
+// ============================================================================
+// TRAITEMENT D'UN DOCUMENT
+// ============================================================================
+
+/**
+ * Télécharge une version de document, en extrait le texte, puis enregistre
+ * son résumé et son analyse. Un fichier illisible échoue sans nouvelle
+ * tentative ; un téléchargement en échec est retenté par la file.
+ */
+export async function processDocument(documentId: number): Promise<void> {
+  const document = await db.getDocumentById(documentId);
+  if (!document) throw new NonRetryableJobError(`Document ${documentId} not found`);
+
+  const format = detectDocumentFormat(document.name, document.mimeType);
+  if (!format) {
+    await db.updateDocument(documentId, { extractionStatus: "unsupported" });
+    return;
+  }
+  await db.updateDocument(documentId, { extractionStatus: "processing", extractionError: null });
+
+  const response = await fetch(document.url);
+  if (!response.ok) {
+    throw new Error(`Document download failed: HTTP ${response.status} ${response.statusText}`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+
+  let text: string;
+  try {
+    text = await extractDocumentText(buffer, format);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new NonRetryableJobError(`Unreadable ${format} file: ${message}`);
+  }
+
+  const context: LLMCallContext = { projectId: document.projectId, userId: document.uploadedBy };
+  const [summary, analysis] = text
+    ? await Promise.all([summarizeDocument(text, document.name, context), analyzeDocumentText(text)])
+    : [null, null];
+
+  await db.updateDocument(documentId, {
+    extractionStatus: "completed",
+    extractedText: text,
+    summary,
+    analysis,
+    extractionError: null,
+  });
+}
+
+/**
+ * Programme l'extraction d'une version de document, une seule fois par version
+ */
+export async function queueDocumentExtraction(documentId: number): Promise<void> {
+  await enqueueJob("document_extraction", { documentId }, {
+    idempotencyKey: `document_extraction:${documentId}`,
+  });
+}
+
+/**
+ * Rattrapage au démarrage : programme l'extraction des versions encore en
+ * attente, dont celles déposées avant l'existence de l'extraction. Les
+ * versions déjà programmées ne le sont pas une seconde fois.
+ */
+export async function backfillDocumentExtractions(): Promise<number> {
+  try {
+    const documentIds = await db.getPendingExtractionDocumentIds();
+    for (const documentId of documentIds) {
+      await queueDocumentExtraction(documentId);
+    }
+    if (documentIds.length > 0) {
+      console.log(`[Documents] Queued extraction for ${documentIds.length} pending documents`);
+    }
+    return documentIds.length;
+  } catch (error) {
+    console.warn("[Documents] Extraction backfill failed", error);
+    return 0;
+  }
+}
+
+export async function markDocumentExtractionFailed(documentId: number, error: string): Promise<void> {
+  await db.updateDocument(documentId, { extractionStatus: "failed", extractionError: error });
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { diffDocumentTexts, getDocumentRootId, getNextVersionNumber } from "./documentVersions";
+
+const lines = (count: number, prefix = "Ligne") => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe("document versions", () => {
+  it("rattache chaque version à la première", () => {
+    expect(getDocumentRootId({ id: 4, parentId: null })).toBe(4);
+    expect(getDocumentRootId({ id: 9, parentId: 4 })).toBe(4);
+    expect(getNextVersionNumber([{ version: 1 }, { version: 3 }, { version: 2 }])).toBe(4);
+  });
+
+  it("compare les textes ligne à ligne", () => {
+    const diff = diffDocumentTexts(
+      "Objectif : lancer la V2\nDélai : 3 mois\nBudget : 40 k€",
+      "Objectif : lancer la V2\nDélai : 6 semaines\nBudget : 40 k€\nRisque : recrutement"
+    );
+
+    expect(diff).toEqual({
+      blocks: [
+        { type: "unchanged", lines: ["Objectif : lancer la V2"] },
+        { type: "removed", lines: ["Délai : 3 mois"] },
+        { type: "added", lines: ["Délai : 6 semaines"] },
+        { type: "unchanged", lines: ["Budget : 40 k€"] },
+        { type: "added", lines: ["Risque : recrutement"] },
+      ],
+      addedLines: 2,
+      removedLines: 1,
+      truncated: false,
+    });
+  });
+
+  it("masque les longues portions inchangées en gardant le contexte", () => {
+    const before = [...lines(10), "Ancienne conclusion", ...lines(10, "Annexe")].join("\n");
+    const after = [...lines(10), "Nouvelle conclusion", ...lines(10, "Annexe")].join("\n");
+
+    const { blocks } = diffDocumentTexts(before, after);
+
+    expect(blocks).toEqual([
+      { type: "unchanged", lines: [], hiddenLines: 7 },
+      { type: "unchanged", lines: ["Ligne 8", "Ligne 9", "Ligne 10"] },
+      { type: "removed", lines: ["Ancienne conclusion"] },
+      { type: "added", lines: ["Nouvelle conclusion"] },
+      { type: "unchanged", lines: ["Annexe 1", "Annexe 2", "Annexe 3"] },
+      { type: "unchanged", lines: [], hiddenLines: 7 },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Document Versions - Révisions d'un document partagé
+ *
+ * Toutes les versions d'un document pointent vers la première (`parentId`),
+ * numérotées par `version`. Chaque version garde son fichier, son texte
+ * extrait et son analyse ; restaurer une ancienne version en crée une
+ * nouvelle, l'historique n'est jamais réécrit. Les versions sont comparées
+ * sur leur texte extrait, ligne à ligne.
+ */
+
+import { diffLines } from "diff";
+import type { Document } from "../drizzle/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiffLineType = "added" | "removed" | "unchanged";
+
+export interface DiffBlock {
+  type: DiffLineType;
+  lines: string[];
+  /** Lignes inchangées masquées à cet endroit (bloc sans lignes affichées) */
+  hiddenLines?: number;
+}
+
+export interface DocumentDiff {
+  blocks: DiffBlock[];
+  addedLines: number;
+  removedLines: number;
+  /** Textes trop différents pour être comparés ligne à ligne dans le temps imparti */
+  truncated: boolean;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Lignes inchangées affichées autour de chaque modification */
+const CONTEXT_LINES = 3;
+
+/** Durée maximale du calcul d'une comparaison */
+const DIFF_TIMEOUT_MS = 2000;
+
+// ============================================================================
+// VERSIONS
+// ============================================================================
+
+/** Première version du document, à laquelle toutes les autres sont rattachées */
+export function getDocumentRootId(document: Pick<Document, "id" | "parentId">): number {
+  return document.parentId ?? document.id;
+}
+
+export function getNextVersionNumber(versions: Pick<Document, "version">[]): number {
+  return versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+}
+
+// ============================================================================
+// COMPARAISON
+// ============================================================================
+
+// Sans retour à la ligne final, la dernière ligne paraîtrait toujours modifiée
+function withFinalNewline(text: string): string {
+  return text && !text.endsWith("\n") ? `${text}\n` : text;
+}
+
+function splitLines(value: string): string[] {
+  const lines = value.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Ne garde des blocs inchangés que le contexte des modifications voisines
+ */
+function collapseUnchanged(lines: string[], isFirst: boolean, isLast: boolean): DiffBlock[] {
+  // Le contexte suit la modification précédente et précède la suivante
+  const keepBefore = isFirst ? 0 : CONTEXT_LINES;
+  const keepAfter = isLast ? 0 : CONTEXT_LINES;
+  if (lines.length <= keepBefore + keepAfter) return [{ type: "unchanged", lines }];
+
+  return [
+    { type: "unchanged" as const, lines: lines.slice(0, keepBefore) },
+    { type: "unchanged" as const, lines: [], hiddenLines: lines.length - keepBefore - keepAfter },
+    { type: "unchanged" as const, lines: lines.slice(lines.length - keepAfter) },
+  ].filter(block => block.lines.length > 0 || block.hiddenLines);
+}
+
+/**
+ * Différences ligne à ligne entre les textes extraits de deux versions
+ */
+export function diffDocumentTexts(before: string, after: string): DocumentDiff {
+  const changes = diffLines(withFinalNewline(before), withFinalNewline(after), { timeout: DIFF_TIMEOUT_MS });
+  if (!changes) {
+    // Comparaison abandonnée : tout le texte est considéré comme remplacé
+    const removed = splitLines(before);
+    const added = splitLines(after);
+    return {
+      blocks: [
+        { type: "removed" as const, lines: removed },
+        { type: "added" as const, lines: added },
+      ].filter(block => block.lines.length > 0),
+      addedLines: added.length,
+      removedLines: removed.length,
+      truncated: true,
+    };
+  }
+
+  const blocks: DiffBlock[] = [];
+  let addedLines = 0;
+  let removedLines = 0;
+  changes.forEach((change, index) => {
+    const lines = splitLines(change.value);
+    if (change.added) {
+      addedLines += lines.length;
+      blocks.push({ type: "added", lines });
+    } else if (change.removed) {
+      removedLines += lines.length;
+      blocks.push({ type: "removed", lines });
+    } else {
+      blocks.push(...collapseUnchanged(lines, index === 0, index === changes.length - 1));
+    }
+  });
+
+  return { blocks, addedLines, removedLines, truncated: false };
+}
@@ -0,0 +1,301 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CognitiveMemory, Decision } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getCognitiveMemoriesToEmbed: vi.fn(async () => []),
+    updateCognitiveMemoryEmbedding: vi.fn(async () => undefined),
+    getVisibleCognitiveMemories: vi.fn(async () => []),
+    getCognitiveMemoryByDecisionId: vi.fn(async () => undefined),
+    updateCognitiveMemory: vi.fn(async () => undefined),
+    createCognitiveMemory: vi.fn(async () => 99),
+  };
+});
+
+const db = await import("./db");
+const {
+  cosineSimilarity,
+  createHttpEmbeddingProvider,
+  createLocalEmbeddingProvider,
+  hashEmbedding,
+  LOCAL_EMBEDDING_DIMENSIONS,
+} = await import("./embeddings");
+const {
+  backfillMemoryEmbeddings,
+  getMemoryPatterns,
+  indexMemory,
+  rankMemories,
+  rememberDecision,
+  searchMemories,
+  toMemoryItem,
+} = await import("./memoryIndex");
+
+const local = createLocalEmbeddingProvider();
+
+function memory(id: number, title: string, content: string, overrides: Partial<CognitiveMemory> = {}): CognitiveMemory {
+  return {
+    id,
+    projectId: null,
+    teamId: 1,
+    decisionId: null,
+    type: "lesson_learned",
+    title,
+    content,
+    context: null,
+    tags: null,
+    embedding: hashEmbedding(`${title}\n${content}`),
+    embeddingModel: local.name,
+    outcome: "pending",
+    impactScore: null,
+    usageCount: 0,
+    isGlobal: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("embeddings", () => {
+  describe("cosineSimilarity", () => {
+    it("vaut 1 pour des vecteurs colinéaires et 0 pour des vecteurs orthogonaux", () => {
+      expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    });
+
+    it("vaut 0 pour un vecteur nul ou des dimensions différentes", () => {
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+      expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    });
+  });
+
+  describe("fournisseur local", () => {
+    it("est déterministe et normalisé", async () => {
+      const [a, b] = await local.embed(["Migration vers Kubernetes", "Migration vers Kubernetes"]);
+      expect(a).toEqual(b);
+      expect(a).toHaveLength(LOCAL_EMBEDDING_DIMENSIONS);
+      expect(Math.hypot(...a)).toBeCloseTo(1);
+    });
+
+    it("rapproche les textes qui partagent du vocabulaire", () => {
+      const query = hashEmbedding("retard de livraison du fournisseur");
+      const related = hashEmbedding("Le fournisseur a eu un retard de livraison sur les composants");
+      const unrelated = hashEmbedding("Atelier de brainstorming sur la nouvelle identité visuelle");
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(0.4);
+    });
+
+    it("retourne un vecteur nul pour un texte sans mot significatif", () => {
+      expect(hashEmbedding("le la les").every(v => v === 0)).toBe(true);
+    });
+  });
+
+  describe("fournisseur HTTP", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("appelle /v1/embeddings et remet les vecteurs dans l'ordre", async () => {
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        json: async () => ({
+          data: [
+            { index: 1, embedding: [0, 1] },
+            { index: 0, embedding: [1, 0] },
+          ],
+        }),
+      }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const provider = createHttpEmbeddingProvider({ apiUrl: "https://forge.example/", apiKey: "key" });
+      const vectors = await provider.embed(["a", "b"]);
+
+      expect(provider.name).toBe("http-text-embedding-3-small");
+      expect(vectors).toEqual([[1, 0], [0, 1]]);
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://forge.example/v1/embeddings",
+        expect.objectContaining({ method: "POST" })
+      );
+    });
+
+    it("lève une erreur si l'API répond en erreur", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => ({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        text: async () => "down",
+      })));
+
+      const provider = createHttpEmbeddingProvider({ apiUrl: "https://forge.example", apiKey: "key" });
+      await expect(provider.embed(["a"])).rejects.toThrow("Embedding request failed: 503");
+    });
+  });
+});
+
+describe("memoryIndex", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("rankMemories", () => {
+    const memories = [
+      memory(1, "Retard fournisseur", "Le fournisseur de composants a livré avec trois semaines de retard."),
+      memory(2, "Identité visuelle", "Atelier créatif sur le logo et la charte graphique."),
+      memory(3, "Planning", "Prévoir une marge pour les livraisons du fournisseur.", { embedding: null, embeddingModel: null }),
+    ];
+
+    it("classe par similarité cosinus et masque les embeddings", () => {
+      const query = "retard du fournisseur";
+      const results = rankMemories(query, { vector: hashEmbedding(query), model: local.name }, memories);
+
+      expect(results[0].id).toBe(1);
+      expect(results[0].matchType).toBe("semantic");
+      expect(results.map(r => r.id)).not.toContain(2);
+      expect(results[0]).not.toHaveProperty("embedding");
+    });
+
+    it("classe les mémoires sans embedding sur les mots-clés", () => {
+      const query = "fournisseur";
+      const results = rankMemories(query, { vector: hashEmbedding(query), model: local.name }, memories);
+
+      const planning = results.find(r => r.id === 3);
+      expect(planning?.matchType).toBe("keyword");
+      expect(planning?.score).toBeCloseTo(0.3);
+    });
+
+    it("ignore les embeddings d'un autre fournisseur", () => {
+      const query = "charte graphique";
+      const other = memories.map(m => ({ ...m, embeddingModel: "http-text-embedding-3-small" }));
+      const results = rankMemories(query, { vector: hashEmbedding(query), model: local.name }, other);
+
+      expect(results.every(r => r.matchType === "keyword")).toBe(true);
+    });
+  });
+
+  it("vectorise une mémoire à sa création", async () => {
+    expect(await indexMemory(12, { title: "Leçon", content: "Tester avant de livrer" }, local)).toBe(true);
+    expect(db.updateCognitiveMemoryEmbedding).toHaveBeenCalledWith(12, expect.any(Array), local.name);
+  });
+
+  it("n'échoue pas si le fournisseur est indisponible", async () => {
+    const failing = { name: "http-test", embed: vi.fn(async () => { throw new Error("down"); }) };
+    expect(await indexMemory(12, { title: "Leçon", content: "Tester" }, failing)).toBe(false);
+    expect(db.updateCognitiveMemoryEmbedding).not.toHaveBeenCalled();
+  });
+
+  it("rattrape les mémoires sans embedding par lots", async () => {
+    vi.mocked(db.getCognitiveMemoriesToEmbed)
+      .mockResolvedValueOnce([memory(1, "A", "alpha"), memory(2, "B", "beta")])
+      .mockResolvedValueOnce([memory(3, "C", "gamma")]);
+
+    expect(await backfillMemoryEmbeddings(local, 2)).toEqual({ indexed: 3 });
+    expect(db.getCognitiveMemoriesToEmbed).toHaveBeenCalledWith(local.name, 2);
+    expect(db.updateCognitiveMemoryEmbedding).toHaveBeenCalledTimes(3);
+  });
+
+  it("se replie sur les mots-clés si la requête ne peut pas être vectorisée", async () => {
+    vi.mocked(db.getVisibleCognitiveMemories).mockResolvedValueOnce([
+      memory(1, "Retard fournisseur", "Le fournisseur a livré en retard."),
+    ]);
+    const failing = { name: local.name, embed: vi.fn(async () => { throw new Error("down"); }) };
+
+    const results = await searchMemories("fournisseur", [1], 10, failing);
+    expect(results).toHaveLength(1);
+    expect(results[0].matchType).toBe("keyword");
+  });
+
+  it("parcourt toutes les mémoires visibles, pas seulement les plus récentes", async () => {
+    const filler = Array.from({ length: 500 }, (_, i) => memory(i + 1, `Note ${i + 1}`, "Point d'équipe hebdomadaire"));
+    vi.mocked(db.getVisibleCognitiveMemories)
+      .mockResolvedValueOnce(filler)
+      .mockResolvedValueOnce([memory(501, "Retard fournisseur", "Le fournisseur a livré en retard.")]);
+    const embed = vi.fn(local.embed);
+
+    const results = await searchMemories("fournisseur", [1], 5, { name: local.name, embed });
+    expect(db.getVisibleCognitiveMemories).toHaveBeenLastCalledWith([1], 500, 500);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(results[0].id).toBe(501);
+  });
+
+  describe("collective memory", () => {
+    const decision: Decision = {
+      id: 5,
+      projectId: 3,
+      title: "Choisir PostgreSQL",
+      description: "Base de données principale",
+      type: "technical",
+      status: "decided",
+      outcome: null,
+      rationale: "Support JSON et extensions",
+      alternatives: null,
+      proposedBy: 1,
+      decidedAt: new Date(),
+      impactScore: null,
+      confidenceLevel: null,
+      biasesDetected: ["anchoring"],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it("convertit une mémoire stockée en MemoryItem", () => {
+      const item = toMemoryItem(
+        memory(4, "Stack technique", "Migration ratée vers le nouveau framework", {
+          type: "error_pattern",
+          outcome: "failure",
+          tags: ["framework", "confirmation"],
+          impactScore: 0.8,
+        })
+      );
+
+      expect(item).toMatchObject({
+        id: "4",
+        type: "error",
+        relevanceScore: 0.8,
+        metadata: { teamId: 1, outcome: "failure", biasesDetected: ["confirmation"] },
+      });
+      expect(item.keywords).toContain("framework");
+      expect(item.keywords).not.toContain("confirmation");
+    });
+
+    it("détecte les biais récurrents à partir des tags", async () => {
+      vi.mocked(db.getVisibleCognitiveMemories).mockResolvedValueOnce(
+        [1, 2, 3].map(id => memory(id, `Décision ${id}`, "Choix rapide", { tags: ["anchoring"] }))
+      );
+
+      const patterns = await getMemoryPatterns([1]);
+      expect(patterns).toEqual([
+        expect.objectContaining({ patternType: "recurring_bias", occurrences: 3 }),
+      ]);
+    });
+
+    it("mémorise une décision prise", async () => {
+      expect(await rememberDecision(decision, 1)).toBe(99);
+      expect(db.createCognitiveMemory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          projectId: 3,
+          teamId: 1,
+          decisionId: 5,
+          type: "decision_outcome",
+          title: "Choisir PostgreSQL",
+          tags: expect.arrayContaining(["anchoring"]),
+        })
+      );
+      expect(db.updateCognitiveMemoryEmbedding).toHaveBeenCalledWith(99, expect.any(Array), expect.any(String));
+    });
+
+    it("met à jour la mémoire existante quand la décision est implémentée", async () => {
+      vi.mocked(db.getCognitiveMemoryByDecisionId).mockResolvedValueOnce(
+        memory(42, "Choisir PostgreSQL", "ancien contenu", { decisionId: 5 })
+      );
+
+      expect(await rememberDecision({ ...decision, status: "implemented", outcome: "Migration terminée" }, 1)).toBe(42);
+      expect(db.createCognitiveMemory).not.toHaveBeenCalled();
+      expect(db.updateCognitiveMemory).toHaveBeenCalledWith(
+        42,
+        expect.objectContaining({ content: expect.stringContaining("Migration terminée"), embedding: null })
+      );
+    });
+  });
+});
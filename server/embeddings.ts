@@ -0,0 +1,179 @@
+/**
+ * Embeddings - Vectorisation des textes pour la recherche sémantique
+ *
+ * Deux fournisseurs interchangeables :
+ * - local : embedding par hachage (TF sous-linéaire sur mots et bigrammes),
+ *   déterministe et disponible hors ligne
+ * - http : API d'embeddings compatible OpenAI exposée par forgeApiUrl
+ *
+ * Les vecteurs de fournisseurs différents ne sont pas comparables : chaque
+ * embedding est stocké avec le nom du fournisseur qui l'a produit.
+ */
+
+import { ENV } from "./_core/env";
+import { tokenize } from "./vectorMemory";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EmbeddingProvider {
+  /** Identifiant stocké avec chaque embedding (fournisseur + modèle) */
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ============================================================================
+// CALCULS VECTORIELS
+// ============================================================================
+
+/**
+ * Similarité cosinus entre deux vecteurs (0 si l'un est nul ou si les
+ * dimensions diffèrent)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+// ============================================================================
+// FOURNISSEUR LOCAL (HACHAGE)
+// ============================================================================
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+/** Poids des bigrammes par rapport aux mots seuls */
+const BIGRAM_WEIGHT = 0.5;
+
+/** FNV-1a 32 bits */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embedding par hachage : chaque mot (et bigramme) est projeté sur une
+ * dimension avec un signe pseudo-aléatoire, pondéré par 1 + ln(tf).
+ */
+export function hashEmbedding(text: string, dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): number[] {
+  const tokens = tokenize(text);
+  const features = new Map<string, number>();
+
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight);
+  };
+  tokens.forEach((token, i) => {
+    add(token, 1);
+    if (i > 0) add(`${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, tf] of Array.from(features.entries())) {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(tf));
+  }
+
+  return normalize(vector);
+}
+
+export function createLocalEmbeddingProvider(
+  dimensions: number = LOCAL_EMBEDDING_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    name: `local-hash-${dimensions}`,
+    embed: async texts => texts.map(text => hashEmbedding(text, dimensions)),
+  };
+}
+
+// ============================================================================
+// FOURNISSEUR HTTP
+// ============================================================================
+
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * Fournisseur HTTP compatible avec l'API OpenAI /v1/embeddings
+ */
+export function createHttpEmbeddingProvider(options: {
+  apiUrl: string;
+  apiKey: string;
+  model?: string;
+}): EmbeddingProvider {
+  const model = options.model || DEFAULT_EMBEDDING_MODEL;
+  const url = `${options.apiUrl.replace(/\/$/, "")}/v1/embeddings`;
+
+  return {
+    name: `http-${model}`,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${options.apiKey}`,
+        },
+        body: JSON.stringify({ model, input: texts }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Embedding request failed: ${response.status} ${response.statusText} – ${errorText}`
+        );
+      }
+
+      const result = (await response.json()) as {
+        data: Array<{ index: number; embedding: number[] }>;
+      };
+      return result.data
+        .slice()
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    },
+  };
+}
+
+// ============================================================================
+// SÉLECTION DU FOURNISSEUR
+// ============================================================================
+
+/**
+ * Fournisseur configuré : EMBEDDING_PROVIDER=local|http, sinon l'API HTTP
+ * dès que forgeApiUrl et sa clé sont configurés.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const useHttp =
+    ENV.embeddingProvider === "http" ||
+    (ENV.embeddingProvider !== "local" && ENV.forgeApiUrl !== "" && ENV.forgeApiKey !== "");
+
+  if (useHttp) {
+    return createHttpEmbeddingProvider({
+      apiUrl: ENV.forgeApiUrl,
+      apiKey: ENV.forgeApiKey,
+      model: ENV.embeddingModel,
+    });
+  }
+  return createLocalEmbeddingProvider();
+}
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Decision, Hypothesis } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    updateHypothesis: vi.fn(async () => undefined),
+    createHypothesisStatusChange: vi.fn(async () => undefined),
+    getHypothesesByDecisionId: vi.fn(async () => []),
+    createCognitiveEvent: vi.fn(async () => 1),
+  };
+});
+
+vi.mock("./_core/structuredLLM", () => ({
+  invokeStructuredLLM: vi.fn(),
+}));
+
+const db = await import("./db");
+const { invokeStructuredLLM } = await import("./_core/structuredLLM");
+const { extractHypotheses, setHypothesisStatus, warnIfDecidedOnUntested } = await import("./hypotheses");
+
+const conversation = [
+  { id: 31, author: "Alice", content: "Les PME vont adopter l'outil sans formation" },
+  { id: 32, author: "Bob", content: "Et le SSO, tout le monde l'a déjà" },
+];
+
+function hypothesis(id: number, status: Hypothesis["status"], statement = `Hypothèse ${id}`): Hypothesis {
+  return { id, projectId: 3, statement, status } as Hypothesis;
+}
+
+const decided = { id: 7, projectId: 3, title: "Lancer sans onboarding", status: "decided" } as Decision;
+
+describe("hypotheses", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("extrait les hypothèses nouvelles rattachées à leur message", async () => {
+    vi.mocked(invokeStructuredLLM).mockResolvedValue({
+      ok: true,
+      repaired: false,
+      data: {
+        hypotheses: [
+          { statement: "Les PME adopteront l'outil sans formation", messageId: 31 },
+          { statement: "Tous les clients ont déjà un SSO", messageId: 99 },
+          { statement: "  les PME adopteront l’outil sans formation ! ", messageId: 31 },
+          { statement: "Le budget marketing suffit", messageId: null },
+        ],
+      },
+    });
+
+    const result = await extractHypotheses(conversation, ["Le budget marketing suffit."], { projectId: 3 });
+
+    expect(invokeStructuredLLM).toHaveBeenCalledWith(
+      expect.objectContaining({ useCase: "hypothesis_extraction", context: { projectId: 3 } })
+    );
+    expect(result.hypotheses).toEqual([
+      { statement: "Les PME adopteront l'outil sans formation", messageId: 31 },
+      { statement: "Tous les clients ont déjà un SSO", messageId: undefined },
+    ]);
+  });
+
+  it("signale le mode dégradé quand le LLM n'est pas disponible", async () => {
+    vi.mocked(invokeStructuredLLM).mockResolvedValue({
+      ok: false,
+      error: { code: "BUDGET_EXCEEDED", message: "Budget atteint", issues: [] },
+    });
+
+    expect(await extractHypotheses(conversation, [])).toEqual({ hypotheses: [], degraded: "budget_exceeded" });
+  });
+
+  it("inscrit chaque changement de statut dans l'historique", async () => {
+    expect(await setHypothesisStatus(hypothesis(4, "untested"), "invalidated", 5, "Test utilisateurs négatif")).toBe(true);
+    expect(db.updateHypothesis).toHaveBeenCalledWith(4, { status: "invalidated" });
+    expect(db.createHypothesisStatusChange).toHaveBeenCalledWith({
+      hypothesisId: 4,
+      fromStatus: "untested",
+      toStatus: "invalidated",
+      changedBy: 5,
+      note: "Test utilisateurs négatif",
+    });
+
+    vi.clearAllMocks();
+    expect(await setHypothesisStatus(hypothesis(4, "validated"), "validated", 5)).toBe(false);
+    expect(db.createHypothesisStatusChange).not.toHaveBeenCalled();
+  });
+
+  it("avertit quand une décision prise repose sur des hypothèses non testées", async () => {
+    vi.mocked(db.getHypothesesByDecisionId).mockResolvedValue([
+      hypothesis(4, "untested", "Les PME adopteront l'outil sans formation"),
+      hypothesis(5, "validated"),
+    ]);
+
+    const untested = await warnIfDecidedOnUntested(decided);
+
+    expect(untested.map(h => h.id)).toEqual([4]);
+    expect(db.createCognitiveEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 3,
+        type: "decision_quality_change",
+        severity: "warning",
+        sourceDecisionId: 7,
+        data: { source: "hypotheses", hypothesisIds: [4] },
+      })
+    );
+  });
+
+  it("n'avertit pas pour une décision encore en discussion ou des hypothèses testées", async () => {
+    expect(await warnIfDecidedOnUntested({ ...decided, status: "discussing" }, [hypothesis(4, "untested")])).toEqual([]);
+    expect(await warnIfDecidedOnUntested(decided, [hypothesis(5, "validated")])).toEqual([]);
+    expect(db.createCognitiveEvent).not.toHaveBeenCalled();
+  });
+});
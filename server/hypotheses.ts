@@ -0,0 +1,178 @@
+/**
+ * Hypotheses - Registre des hypothèses du projet
+ *
+ * Les hypothèses (explicites ou implicites dans la discussion) sont suivies
+ * avec leur responsable, leur statut (non testée, validée, invalidée), les
+ * messages, documents et décisions qui les étayent, et l'historique de leurs
+ * changements de statut. Une décision prise sur des hypothèses encore non
+ * testées déclenche un avertissement.
+ */
+
+import { z } from "zod";
+import type { Decision, Hypothesis, HypothesisStatus } from "../drizzle/schema";
+import type { LLMCallContext } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
+import * as db from "./db";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConversationMessage {
+  id: number;
+  author: string;
+  content: string;
+}
+
+export interface ExtractedHypothesis {
+  statement: string;
+  /** Message où l'hypothèse apparaît, s'il fait partie de la conversation */
+  messageId?: number;
+}
+
+export interface HypothesisExtraction {
+  hypotheses: ExtractedHypothesis[];
+  degraded?: "budget_exceeded" | "llm_unavailable";
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+// Sortie attendue du LLM, transmise aussi comme format de réponse
+const extractedHypothesesSchema = z.object({
+  hypotheses: z.array(
+    z.object({
+      statement: z.string(),
+      messageId: z.number().int().nullable(),
+    })
+  ),
+});
+
+function normalizeStatement(statement: string): string {
+  return statement
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Hypothèses implicites de la conversation (ce que l'équipe tient pour acquis
+ * sans l'avoir vérifié), sans celles déjà présentes dans le registre
+ */
+export async function extractHypotheses(
+  conversation: ConversationMessage[],
+  existingStatements: string[],
+  context?: LLMCallContext
+): Promise<HypothesisExtraction> {
+  if (conversation.length === 0) return { hypotheses: [] };
+
+  const result = await invokeStructuredLLM({
+    useCase: "hypothesis_extraction",
+    context,
+    messages: [
+      {
+        role: "system",
+        content: `Tu identifies les hypothèses implicites d'une équipe projet : ce qu'elle tient pour acquis
+sans l'avoir vérifié (comportement des clients, délais, coûts, faisabilité technique, marché...).
+Formule chaque hypothèse comme une affirmation testable et courte.
+Ignore les faits établis, les décisions et les simples opinions.
+Indique l'identifiant du message d'où vient l'hypothèse.
+Réponds en JSON: {"hypotheses": [{"statement": "...", "messageId": 12}]}`,
+      },
+      {
+        role: "user",
+        content: `Hypothèses déjà enregistrées :
+${existingStatements.map(s => `- ${s}`).join("\n") || "(aucune)"}
+
+Conversation :
+${conversation.map(m => `[${m.id}] ${m.author}: ${m.content}`).join("\n")}`,
+      },
+    ],
+    schemaName: "hypotheses_extraction",
+    schema: extractedHypothesesSchema,
+  });
+
+  if (!result.ok) {
+    console.error("[Hypotheses] Extraction failed:", result.error);
+    const degraded =
+      result.error.code === "BUDGET_EXCEEDED" ? "budget_exceeded"
+        : result.error.code === "LLM_UNAVAILABLE" ? "llm_unavailable"
+          : undefined;
+    return { hypotheses: [], degraded };
+  }
+
+  const messageIds = new Set(conversation.map(m => m.id));
+  const known = new Set(existingStatements.map(normalizeStatement));
+  const hypotheses: ExtractedHypothesis[] = [];
+  for (const item of result.data.hypotheses) {
+    const statement = item.statement.trim();
+    const key = normalizeStatement(statement);
+    if (!key || known.has(key)) continue;
+    known.add(key);
+    hypotheses.push({
+      statement,
+      messageId: item.messageId !== null && messageIds.has(item.messageId) ? item.messageId : undefined,
+    });
+  }
+  return { hypotheses };
+}
+
+// ============================================================================
+// STATUT
+// ============================================================================
+
+/**
+ * Change le statut d'une hypothèse et l'inscrit dans son historique
+ */
+export async function setHypothesisStatus(
+  hypothesis: Hypothesis,
+  status: HypothesisStatus,
+  changedBy: number,
+  note?: string
+): Promise<boolean> {
+  if (hypothesis.status === status) return false;
+
+  await db.updateHypothesis(hypothesis.id, { status });
+  await db.createHypothesisStatusChange({
+    hypothesisId: hypothesis.id,
+    fromStatus: hypothesis.status,
+    toStatus: status,
+    changedBy,
+    note,
+  });
+  return true;
+}
+
+// ============================================================================
+// DÉCISIONS
+// ============================================================================
+
+/**
+ * Avertit l'équipe quand une décision prise repose sur des hypothèses non
+ * testées. Renvoie ces hypothèses.
+ */
+export async function warnIfDecidedOnUntested(
+  decision: Decision,
+  candidates?: Hypothesis[]
+): Promise<Hypothesis[]> {
+  if (decision.status !== "decided") return [];
+
+  const hypotheses = candidates ?? (await db.getHypothesesByDecisionId(decision.id));
+  const untested = hypotheses.filter(h => h.status === "untested");
+  if (untested.length === 0) return [];
+
+  await db.createCognitiveEvent({
+    projectId: decision.projectId,
+    type: "decision_quality_change",
+    severity: "warning",
+    title: "Décision prise sur des hypothèses non testées",
+    description: `« ${decision.title} » repose sur ${untested.length} hypothèse(s) non testée(s) : ` +
+      untested.map(h => `« ${h.statement} »`).join(", "),
+    sourceDecisionId: decision.id,
+    data: { source: "hypotheses", hypothesisIds: untested.map(h => h.id) },
+  });
+  return untested;
+}
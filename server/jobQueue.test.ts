@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    createJob: vi.fn(async () => 42),
+    claimNextJob: vi.fn(async () => undefined),
+    completeJob: vi.fn(async () => undefined),
+    scheduleJobRetry: vi.fn(async () => undefined),
+    markJobDead: vi.fn(async () => undefined),
+    releaseStaleJobs: vi.fn(async () => ({ requeued: 0, exhausted: [] })),
+    markStaleJobDead: vi.fn(async () => true),
+  };
+});
+
+const db = await import("./db");
+const {
+  BACKOFF_BASE_MS,
+  BACKOFF_MAX_MS,
+  computeBackoff,
+  enqueueJob,
+  NonRetryableJobError,
+  processNextJob,
+  registerJobHandler,
+  releaseStaleJobs,
+  runJob,
+} = await import("./jobQueue");
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 7,
+    type: "memory_embedding",
+    payload: { memoryId: 12 },
+    status: "running",
+    idempotencyKey: null,
+    attempts: 1,
+    maxAttempts: 5,
+    runAt: new Date(),
+    lockedAt: new Date(),
+    lockedBy: "test-1",
+    lastError: null,
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("job queue", () => {
+  const run = vi.fn(async () => undefined);
+  const onDead = vi.fn(async () => undefined);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registerJobHandler("memory_embedding", { run, onDead });
+  });
+
+  it("double le délai à chaque échec, plafonné", () => {
+    expect(computeBackoff(1)).toBe(BACKOFF_BASE_MS);
+    expect(computeBackoff(2)).toBe(BACKOFF_BASE_MS * 2);
+    expect(computeBackoff(4)).toBe(BACKOFF_BASE_MS * 8);
+    expect(computeBackoff(20)).toBe(BACKOFF_MAX_MS);
+  });
+
+  it("enregistre un job avec sa clé d'idempotence", async () => {
+    const jobId = await enqueueJob("memory_embedding", { memoryId: 12 }, { idempotencyKey: "memory_embedding:12" });
+
+    expect(jobId).toBe(42);
+    expect(db.createJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "memory_embedding",
+        payload: { memoryId: 12 },
+        idempotencyKey: "memory_embedding:12",
+      })
+    );
+  });
+
+  it("termine un job dont le gestionnaire réussit", async () => {
+    expect(await runJob(job())).toBe("completed");
+    expect(run).toHaveBeenCalledWith({ memoryId: 12 }, expect.objectContaining({ id: 7 }));
+    expect(db.completeJob).toHaveBeenCalledWith(7);
+  });
+
+  it("replanifie un échec avec un délai exponentiel", async () => {
+    run.mockRejectedValueOnce(new Error("provider timeout"));
+    const before = Date.now();
+
+    expect(await runJob(job({ attempts: 3 }))).toBe("retry");
+
+    const [jobId, error, runAt] = vi.mocked(db.scheduleJobRetry).mock.calls[0];
+    expect(jobId).toBe(7);
+    expect(error).toBe("provider timeout");
+    expect(runAt.getTime()).toBeGreaterThanOrEqual(before + BACKOFF_BASE_MS * 4);
+    expect(db.markJobDead).not.toHaveBeenCalled();
+  });
+
+  it("passe en dead-letter après la dernière tentative", async () => {
+    run.mockRejectedValueOnce(new Error("provider timeout"));
+
+    expect(await runJob(job({ attempts: 5 }))).toBe("dead");
+    expect(db.markJobDead).toHaveBeenCalledWith(7, "provider timeout");
+    expect(onDead).toHaveBeenCalledWith({ memoryId: 12 }, "provider timeout");
+    expect(db.scheduleJobRetry).not.toHaveBeenCalled();
+  });
+
+  it("ne retente pas une erreur définitive", async () => {
+    run.mockRejectedValueOnce(new NonRetryableJobError("Memory 12 not found"));
+
+    expect(await runJob(job({ attempts: 1 }))).toBe("dead");
+    expect(db.markJobDead).toHaveBeenCalledWith(7, "Memory 12 not found");
+  });
+
+  it("exécute le prochain job dû et signale une file vide", async () => {
+    vi.mocked(db.claimNextJob).mockResolvedValueOnce(job());
+
+    expect(await processNextJob("test-1")).toBe(true);
+    expect(db.claimNextJob).toHaveBeenCalledWith("test-1");
+    expect(db.completeJob).toHaveBeenCalledWith(7);
+    expect(await processNextJob("test-1")).toBe(false);
+  });
+
+  it("passe par onDead un job interrompu à sa dernière tentative", async () => {
+    const lockedBefore = new Date();
+    vi.mocked(db.releaseStaleJobs).mockResolvedValueOnce({ requeued: 2, exhausted: [job({ attempts: 5 })] });
+
+    await releaseStaleJobs(lockedBefore);
+
+    expect(db.releaseStaleJobs).toHaveBeenCalledWith(lockedBefore);
+    expect(db.markStaleJobDead).toHaveBeenCalledWith(7, lockedBefore, "Worker stopped while the job was running");
+    expect(onDead).toHaveBeenCalledWith({ memoryId: 12 }, "Worker stopped while the job was running");
+  });
+
+  it("laisse onDead au processus qui a déjà repris le job", async () => {
+    vi.mocked(db.releaseStaleJobs).mockResolvedValueOnce({ requeued: 0, exhausted: [job({ attempts: 5 })] });
+    vi.mocked(db.markStaleJobDead).mockResolvedValueOnce(false);
+
+    await releaseStaleJobs(new Date());
+
+    expect(onDead).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Job Queue - File de tâches persistante (table `jobs`)
+ *
+ * Les traitements longs ou dépendants d'un service externe (transcription,
+ * analyse LLM, embeddings, recalcul des métriques, extraction de documents)
+ * sont enregistrés en base
+ * puis exécutés par un worker. Un échec est retenté avec un délai
+ * exponentiel ; après maxAttempts, le job passe en dead-letter et peut être
+ * relancé depuis la vue d'administration. Une clé d'idempotence évite
+ * d'enregistrer deux fois le même traitement.
+ */
+
+import { hostname } from "node:os";
+import type { Job } from "../drizzle/schema";
+import * as db from "./db";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JobType = Job["type"];
+
+export interface JobPayloads {
+  audio_transcription: { audioId: number; teamId: number; messageId?: number; mimeType?: string };
+  message_analysis: { projectId: number; messageId: number; totalCT: number };
+  memory_embedding: { memoryId: number };
+  metrics_recompute: { projectId: number };
+  document_extraction: { documentId: number };
+  decision_vote_close: { decisionId: number; deadline: string };
+}
+
+export interface JobHandler<T extends JobType> {
+  run: (payload: JobPayloads[T], job: Job) => Promise<void>;
+  /** Appelé une fois, quand le job passe en dead-letter */
+  onDead?: (payload: JobPayloads[T], error: string) => Promise<void>;
+}
+
+export interface EnqueueOptions {
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export type JobOutcome = "completed" | "retry" | "dead";
+
+/**
+ * Erreur définitive (ressource supprimée, format refusé...) : le job passe
+ * directement en dead-letter sans nouvelle tentative
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableJobError";
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Délai avant la 2e tentative, doublé à chaque échec */
+export const BACKOFF_BASE_MS = 30 * 1000;
+export const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const WORKER_CONCURRENCY = 2;
+
+/** Un job verrouillé depuis plus longtemps a perdu son worker */
+const STALE_LOCK_MS = 30 * 60 * 1000;
+
+const HOST = hostname().slice(0, 40);
+const WORKER_ID = `${HOST}-${process.pid}`;
+
+const handlers = new Map<JobType, JobHandler<JobType>>();
+
+// ============================================================================
+// ENREGISTREMENT
+// ============================================================================
+
+export function registerJobHandler<T extends JobType>(type: T, handler: JobHandler<T>): void {
+  handlers.set(type, handler as unknown as JobHandler<JobType>);
+}
+
+/**
+ * Délai avant la prochaine tentative après `attempts` échecs
+ */
+export function computeBackoff(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Enregistre un job. Avec une clé d'idempotence déjà connue, renvoie l'id du
+ * job existant sans en créer un nouveau.
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<number> {
+  const jobId = await db.createJob({
+    type,
+    payload: payload as unknown as Record<string, unknown>,
+    idempotencyKey: options.idempotencyKey,
+    maxAttempts: options.maxAttempts,
+    runAt: options.runAt,
+  });
+  wakeWorker();
+  return jobId;
+}
+
+// ============================================================================
+// EXÉCUTION
+// ============================================================================
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Exécute un job verrouillé et enregistre son issue : terminé, nouvelle
+ * tentative planifiée ou dead-letter
+ */
+export async function runJob(job: Job): Promise<JobOutcome> {
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) throw new NonRetryableJobError(`Aucun gestionnaire pour les jobs ${job.type}`);
+    await handler.run(job.payload as never, job);
+    await db.completeJob(job.id);
+    return "completed";
+  } catch (error) {
+    const message = errorMessage(error);
+
+    if (!(error instanceof NonRetryableJobError) && job.attempts < job.maxAttempts) {
+      console.warn(`[Jobs] ${job.type} #${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+      await db.scheduleJobRetry(job.id, message, new Date(Date.now() + computeBackoff(job.attempts)));
+      return "retry";
+    }
+
+    console.error(`[Jobs] ${job.type} #${job.id} moved to dead-letter:`, message);
+    await db.markJobDead(job.id, message);
+    await runDeadHook(job, message);
+    return "dead";
+  }
+}
+
+async function runDeadHook(job: Job, message: string): Promise<void> {
+  try {
+    await handlers.get(job.type)?.onDead?.(job.payload as never, message);
+  } catch (deadError) {
+    console.error(`[Jobs] ${job.type} #${job.id} dead-letter hook failed:`, deadError);
+  }
+}
+
+/**
+ * Verrouille et exécute le prochain job dû. Renvoie false si la file est vide.
+ */
+export async function processNextJob(workerId: string = WORKER_ID): Promise<boolean> {
+  const job = await db.claimNextJob(workerId);
+  if (!job) return false;
+  await runJob(job);
+  return true;
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+let workerStarted = false;
+let activeLoops = 0;
+
+async function workLoop(): Promise<void> {
+  try {
+    while (await processNextJob()) {
+      // Vide la file tant que des jobs sont dus
+    }
+  } catch (error) {
+    console.warn("[Jobs] Worker loop failed", error);
+  }
+}
+
+function drain(): void {
+  while (activeLoops < WORKER_CONCURRENCY) {
+    activeLoops++;
+    void workLoop().finally(() => {
+      activeLoops--;
+    });
+  }
+}
+
+/** Un job enregistré par ce processus démarre sans attendre le prochain tick */
+function wakeWorker(): void {
+  if (workerStarted) drain();
+}
+
+/**
+ * Reprend les jobs dont le worker s'est arrêté en cours d'exécution : ceux
+ * qui ont encore des tentatives retournent dans la file, les autres passent
+ * en dead-letter avec leur `onDead`, comme après un dernier échec
+ */
+export async function releaseStaleJobs(lockedBefore: Date = new Date(Date.now() - STALE_LOCK_MS)): Promise<void> {
+  try {
+    const { requeued, exhausted } = await db.releaseStaleJobs(lockedBefore);
+    if (requeued > 0) console.log(`[Jobs] Released ${requeued} stale job(s)`);
+
+    const message = "Worker stopped while the job was running";
+    for (const job of exhausted) {
+      if (!(await db.markStaleJobDead(job.id, lockedBefore, message))) continue;
+      console.error(`[Jobs] ${job.type} #${job.id} moved to dead-letter:`, message);
+      await runDeadHook(job, message);
+    }
+  } catch (error) {
+    console.warn("[Jobs] Failed to release stale jobs", error);
+  }
+}
+
+/**
+ * Démarre le worker : reprend les jobs interrompus (redémarrage, crash),
+ * puis interroge la file à intervalle régulier. Seul l'âge du verrou
+ * compte : un autre processus du même hôte peut encore exécuter les siens.
+ */
+export function startJobWorker(intervalMs: number = POLL_INTERVAL_MS): NodeJS.Timeout {
+  workerStarted = true;
+  void releaseStaleJobs().then(drain);
+  return setInterval(() => {
+    void releaseStaleJobs().then(drain);
+  }, intervalMs);
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMRequest } from "./_core/llm";
+
+const { ENV } = await import("./_core/env");
+const {
+  createHttpLLMProvider,
+  DEFAULT_LLM_MODEL,
+  getLLMProvider,
+  invokeLLM,
+  resolveLLMModel,
+} = await import("./_core/llm");
+const { createLocalLLMProvider, fixtureFromSchema } = await import("./_core/localLLM");
+
+const schema = {
+  type: "object",
+  properties: {
+    label: { type: "string", enum: ["positive", "neutral", "negative"] },
+    score: { type: "number", minimum: -1, maximum: 1 },
+    biases: { type: "array", items: { type: "string" } },
+    stable: { type: "boolean" },
+    note: { type: ["string", "null"] },
+  },
+  required: ["label", "score", "biases", "stable", "note"],
+  additionalProperties: false,
+};
+
+function request(overrides: Partial<LLMRequest> = {}): LLMRequest {
+  return {
+    model: "test-model",
+    maxTokens: 1000,
+    messages: [{ role: "user", content: "Analyse ce message" }],
+    ...overrides,
+  };
+}
+
+function jsonResponse(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe("llm providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ENV.llmModel = "";
+    ENV.llmModels = "";
+    ENV.llmProvider = "local";
+  });
+
+  it("choisit le modèle par cas d'usage", () => {
+    expect(resolveLLMModel("summary")).toBe(DEFAULT_LLM_MODEL);
+
+    ENV.llmModel = "gemini-2.5-flash-lite";
+    ENV.llmModels = "bias_detection=gemini-2.5-pro, cv_extraction = gpt-4o-mini, unknown=x";
+    expect(resolveLLMModel("bias_detection")).toBe("gemini-2.5-pro");
+    expect(resolveLLMModel("cv_extraction")).toBe("gpt-4o-mini");
+    expect(resolveLLMModel("summary")).toBe("gemini-2.5-flash-lite");
+  });
+
+  it("génère une fixture conforme au schéma demandé", () => {
+    expect(fixtureFromSchema(schema)).toEqual({
+      label: "neutral",
+      score: 0,
+      biases: [],
+      stable: false,
+      note: "",
+    });
+  });
+
+  it("répond de façon déterministe hors ligne", async () => {
+    const local = createLocalLLMProvider({ fixtures: { sentiment: { label: "negative" } } });
+    const params = {
+      useCase: "analysis" as const,
+      messages: [{ role: "user" as const, content: "Analyse ce message" }],
+      response_format: { type: "json_schema" as const, json_schema: { name: "analysis", schema } },
+    };
+
+    const first = await invokeLLM(params, local);
+    const second = await invokeLLM(params, local);
+    expect(first).toEqual(second);
+    expect(first.model).toBe(DEFAULT_LLM_MODEL);
+    expect(JSON.parse(first.choices[0].message.content as string)).toMatchObject({ label: "neutral", biases: [] });
+
+    const overridden = await invokeLLM(
+      { ...params, response_format: { type: "json_schema", json_schema: { name: "sentiment", schema } } },
+      local
+    );
+    expect(JSON.parse(overridden.choices[0].message.content as string)).toEqual({ label: "negative" });
+  });
+
+  it("simule l'appel d'outil imposé", async () => {
+    const result = await createLocalLLMProvider().invoke(
+      request({
+        tools: [{ type: "function", function: { name: "extract", parameters: schema } }],
+        toolChoice: "required",
+      })
+    );
+
+    const call = result.choices[0].message.tool_calls?.[0];
+    expect(call?.function.name).toBe("extract");
+    expect(JSON.parse(call!.function.arguments)).toHaveProperty("label", "neutral");
+  });
+
+  it("retente les erreurs 429 / 5xx puis transmet le modèle", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { "retry-after": "0" }))
+      .mockResolvedValueOnce(jsonResponse(503))
+      .mockResolvedValueOnce(jsonResponse(200, { id: "ok", choices: [] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createHttpLLMProvider({ apiUrl: "https://llm.example/", apiKey: "key", retryDelayMs: 0 });
+    const result = await provider.invoke(request());
+
+    expect(result.id).toBe("ok");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[0][0]).toBe("https://llm.example/v1/chat/completions");
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ model: "test-model", max_tokens: 1000 });
+  });
+
+  it("ne retente pas une requête invalide", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(400, { error: "bad" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createHttpLLMProvider({ apiKey: "key", retryDelayMs: 0 });
+    await expect(provider.invoke(request())).rejects.toThrow("LLM invoke failed: 400");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("abandonne après le délai maximal de chaque tentative", async () => {
+    const fetchMock = vi.fn((_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createHttpLLMProvider({ apiKey: "key", timeoutMs: 20, maxRetries: 1, retryDelayMs: 0 });
+    await expect(provider.invoke(request())).rejects.toThrow("LLM invoke timed out after 20ms");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("n'utilise le fournisseur local que sur demande explicite", async () => {
+    expect(getLLMProvider().name).toBe("local");
+
+    // Sans clé, l'appel échoue pour laisser jouer les replis existants
+    const apiKey = ENV.forgeApiKey;
+    ENV.llmProvider = "";
+    ENV.forgeApiKey = "";
+    try {
+      const provider = getLLMProvider();
+      expect(provider.name).toBe("http");
+      await expect(provider.invoke(request())).rejects.toThrow("BUILT_IN_FORGE_API_KEY is not configured");
+    } finally {
+      ENV.forgeApiKey = apiKey;
+    }
+  });
+});
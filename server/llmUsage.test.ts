@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Project, Team } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getTeamById: vi.fn(async () => undefined),
+    getProjectById: vi.fn(async () => undefined),
+    getTeamLLMTokensSince: vi.fn(async () => 0),
+    recordLLMUsage: vi.fn(async () => undefined),
+  };
+});
+
+const db = await import("./db");
+const { invokeLLM, LLMBudgetExceededError, setLLMUsageTracker } = await import("./_core/llm");
+const { createLocalLLMProvider } = await import("./_core/localLLM");
+const { currentPeriodStart, getTeamBudgetStatus, llmUsageTracker } = await import("./llmUsage");
+const { analyzeWithLLM } = await import("./realtimeAnalysis");
+
+function withBudget(budget: number | null, used: number) {
+  vi.mocked(db.getTeamById).mockResolvedValue({ id: 3, llmMonthlyTokenBudget: budget } as Team);
+  vi.mocked(db.getTeamLLMTokensSince).mockResolvedValue(used);
+}
+
+const messages = [{ role: "user" as const, content: "Faut-il lancer la V2 ce trimestre ?" }];
+
+describe("llm usage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setLLMUsageTracker(llmUsageTracker);
+  });
+
+  afterEach(() => {
+    setLLMUsageTracker(undefined);
+  });
+
+  it("remet les budgets à zéro chaque mois", () => {
+    expect(currentPeriodStart(new Date("2026-03-17T22:40:00Z"))).toEqual(new Date("2026-03-01T00:00:00Z"));
+  });
+
+  it("calcule le budget restant de l'équipe", async () => {
+    withBudget(10000, 2500);
+    expect(await getTeamBudgetStatus(3)).toMatchObject({ budget: 10000, used: 2500, remaining: 7500, exceeded: false });
+
+    withBudget(null, 2500);
+    expect(await getTeamBudgetStatus(3)).toMatchObject({ budget: null, remaining: null, exceeded: false });
+  });
+
+  it("enregistre chaque appel avec son équipe, son projet, son utilisateur et son usage", async () => {
+    withBudget(null, 0);
+    vi.mocked(db.getProjectById).mockResolvedValue({ id: 8, teamId: 3 } as Project);
+
+    const result = await invokeLLM(
+      { useCase: "summary", context: { projectId: 8, userId: 5 }, messages },
+      createLocalLLMProvider()
+    );
+
+    expect(db.recordLLMUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        teamId: 3,
+        projectId: 8,
+        userId: 5,
+        purpose: "summary",
+        provider: "local",
+        totalTokens: result.usage?.total_tokens,
+      })
+    );
+  });
+
+  it("refuse les appels d'une équipe qui a dépassé son budget", async () => {
+    withBudget(1000, 1000);
+    const provider = createLocalLLMProvider();
+    const invoke = vi.spyOn(provider, "invoke");
+
+    await expect(invokeLLM({ context: { teamId: 3 }, messages }, provider)).rejects.toBeInstanceOf(LLMBudgetExceededError);
+    expect(invoke).not.toHaveBeenCalled();
+    expect(db.recordLLMUsage).not.toHaveBeenCalled();
+  });
+
+  it("se replie sur l'analyse locale en mode dégradé", async () => {
+    withBudget(1000, 4000);
+
+    const analysis = await analyzeWithLLM("On a déjà trop investi pour arrêter maintenant", undefined, { teamId: 3 });
+
+    expect(analysis.degraded).toBe("budget_exceeded");
+    expect(analysis.biases.map(b => b.type)).toContain("sunk_cost");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * LLM Usage - Consommation LLM et budgets mensuels par équipe
+ *
+ * Chaque appel LLM est enregistré avec son équipe, son projet, son
+ * utilisateur et son usage (table `llm_usage`). Une équipe peut se voir
+ * fixer un budget mensuel de tokens : une fois ce budget atteint, les appels
+ * sont refusés et les analyses se replient sur leur version locale
+ * (analyzeQuick, detectBiasKeywords) jusqu'au mois suivant.
+ */
+
+import {
+  LLMBudgetExceededError,
+  type LLMCallContext,
+  type LLMUsageTracker,
+} from "./_core/llm";
+import * as db from "./db";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TeamBudgetStatus {
+  teamId: number;
+  /** Budget mensuel en tokens, null = illimité */
+  budget: number | null;
+  used: number;
+  remaining: number | null;
+  exceeded: boolean;
+  periodStart: Date;
+}
+
+// ============================================================================
+// BUDGET
+// ============================================================================
+
+/**
+ * Début du mois en cours (UTC) : les budgets sont remis à zéro chaque mois
+ */
+export function currentPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export async function getTeamBudgetStatus(teamId: number): Promise<TeamBudgetStatus> {
+  const periodStart = currentPeriodStart();
+  const [team, used] = await Promise.all([
+    db.getTeamById(teamId),
+    db.getTeamLLMTokensSince(teamId, periodStart),
+  ]);
+  const budget = team?.llmMonthlyTokenBudget ?? null;
+
+  return {
+    teamId,
+    budget,
+    used,
+    remaining: budget === null ? null : Math.max(0, budget - used),
+    exceeded: budget !== null && used >= budget,
+    periodStart,
+  };
+}
+
+/**
+ * Équipe à laquelle imputer un appel : celle du contexte, sinon celle du projet
+ */
+async function resolveTeamId(context: LLMCallContext | undefined): Promise<number | undefined> {
+  if (context?.teamId !== undefined) return context.teamId;
+  if (context?.projectId === undefined) return undefined;
+  return (await db.getProjectById(context.projectId))?.teamId;
+}
+
+// ============================================================================
+// SUIVI DES APPELS
+// ============================================================================
+
+export const llmUsageTracker: LLMUsageTracker = {
+  async beforeInvoke(request) {
+    let status: TeamBudgetStatus | undefined;
+    try {
+      const teamId = await resolveTeamId(request.context);
+      if (teamId !== undefined) status = await getTeamBudgetStatus(teamId);
+    } catch (error) {
+      // Sans compteur lisible, l'appel n'est pas bloqué
+      console.warn("[LLMUsage] Budget check failed", error);
+    }
+    if (status?.exceeded) throw new LLMBudgetExceededError(status.teamId);
+  },
+
+  async afterInvoke(request, provider, result, durationMs) {
+    try {
+      const usage = result.usage;
+      await db.recordLLMUsage({
+        teamId: await resolveTeamId(request.context),
+        projectId: request.context?.projectId,
+        userId: request.context?.userId,
+        purpose: request.useCase ?? "default",
+        provider,
+        model: result.model || request.model,
+        promptTokens: usage?.prompt_tokens ?? 0,
+        completionTokens: usage?.completion_tokens ?? 0,
+        totalTokens: usage?.total_tokens ?? 0,
+        durationMs,
+      });
+    } catch (error) {
+      console.warn("[LLMUsage] Failed to record usage", error);
+    }
+  },
+};
@@ -0,0 +1,370 @@
+/**
+ * Memory Index - Indexation et recherche des mémoires cognitives
+ *
+ * Les mémoires sont vectorisées à leur création, via la file de jobs pour
+ * les mémoires saisies ; un job de rattrapage vectorise celles qui ont
+ * échoué ou qui proviennent d'un autre fournisseur. La recherche combine similarité cosinus et bonus mots-clés.
+ * Les lignes `cognitiveMemories` sont converties en MemoryItem pour la
+ * détection de patterns et les suggestions de vectorMemory.
+ */
+
+import type { CognitiveMemory, Decision } from "../drizzle/schema";
+import { BIAS_TYPES } from "./biasDetection";
+import * as db from "./db";
+import { cosineSimilarity, getEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import {
+  createDecisionMemory,
+  detectPatterns,
+  extractKeywords,
+  generateMemorySuggestions,
+  type MemoryItem,
+  type PatternMatch,
+} from "./vectorMemory";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type MemoryText = Pick<CognitiveMemory, "title" | "content"> &
+  Partial<Pick<CognitiveMemory, "context" | "tags">>;
+
+export type MemorySearchResult = Omit<CognitiveMemory, "embedding"> & {
+  score: number;
+  matchType: "semantic" | "keyword";
+};
+
+// ============================================================================
+// INDEXATION
+// ============================================================================
+
+/** Taille des pages de mémoires parcourues par la recherche et les patterns */
+const MEMORY_PAGE_SIZE = 500;
+
+/** Intervalle du job de rattrapage des embeddings */
+const BACKFILL_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Texte vectorisé pour une mémoire
+ */
+export function memoryEmbeddingText(memory: MemoryText): string {
+  return [memory.title, memory.content, memory.context, memory.tags?.join(" ")]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Vectorise une mémoire. Best-effort : en cas d'échec, la mémoire sera
+ * reprise par le job de rattrapage.
+ */
+export async function indexMemory(
+  memoryId: number,
+  memory: MemoryText,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<boolean> {
+  try {
+    const [embedding] = await provider.embed([memoryEmbeddingText(memory)]);
+    await db.updateCognitiveMemoryEmbedding(memoryId, embedding, provider.name);
+    return true;
+  } catch (error) {
+    console.warn("[Memory] Failed to embed memory", memoryId, error);
+    return false;
+  }
+}
+
+/**
+ * Vectorise une mémoire enregistrée, depuis la file de jobs : contrairement
+ * à indexMemory, un échec du fournisseur est propagé pour être retenté.
+ * Renvoie false si la mémoire n'existe plus.
+ */
+export async function embedStoredMemory(
+  memoryId: number,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<boolean> {
+  const memory = await db.getCognitiveMemoryById(memoryId);
+  if (!memory) return false;
+  const [embedding] = await provider.embed([memoryEmbeddingText(memory)]);
+  await db.updateCognitiveMemoryEmbedding(memoryId, embedding, provider.name);
+  return true;
+}
+
+/**
+ * Vectorise par lots les mémoires sans embedding (ou produites par un autre
+ * fournisseur). S'arrête au premier lot en échec.
+ */
+export async function backfillMemoryEmbeddings(
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  batchSize = 50
+): Promise<{ indexed: number }> {
+  let indexed = 0;
+
+  while (true) {
+    const batch = await db.getCognitiveMemoriesToEmbed(provider.name, batchSize);
+    if (batch.length === 0) break;
+
+    let embeddings: number[][];
+    try {
+      embeddings = await provider.embed(batch.map(memoryEmbeddingText));
+    } catch (error) {
+      console.warn("[Memory] Embedding backfill interrupted", error);
+      break;
+    }
+
+    for (let i = 0; i < batch.length; i++) {
+      await db.updateCognitiveMemoryEmbedding(batch[i].id, embeddings[i], provider.name);
+    }
+    indexed += batch.length;
+
+    if (batch.length < batchSize) break;
+  }
+
+  return { indexed };
+}
+
+let backfillRunning = false;
+
+/**
+ * Lance le job de rattrapage au démarrage puis à intervalle régulier
+ */
+export function startMemoryEmbeddingBackfill(intervalMs: number = BACKFILL_INTERVAL_MS): NodeJS.Timeout {
+  const run = async () => {
+    if (backfillRunning) return;
+    backfillRunning = true;
+    try {
+      const { indexed } = await backfillMemoryEmbeddings();
+      if (indexed > 0) console.log(`[Memory] Backfilled ${indexed} memory embeddings`);
+    } catch (error) {
+      console.warn("[Memory] Embedding backfill failed", error);
+    } finally {
+      backfillRunning = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, intervalMs);
+}
+
+// ============================================================================
+// RECHERCHE HYBRIDE
+// ============================================================================
+
+/** Poids du bonus mots-clés dans le score hybride */
+const KEYWORD_BOOST = 0.3;
+
+/** Score minimum pour qu'une mémoire soit retournée */
+const MIN_SEARCH_SCORE = 0.15;
+
+/**
+ * Parcourt page par page toutes les mémoires visibles par les équipes
+ * données : aucune n'est écartée parce qu'elle est ancienne
+ */
+async function forEachVisibleMemoryPage(
+  teamIds: number[],
+  visit: (page: CognitiveMemory[]) => Promise<void> | void
+): Promise<void> {
+  let afterId = 0;
+  while (true) {
+    const page = await db.getVisibleCognitiveMemories(teamIds, MEMORY_PAGE_SIZE, afterId);
+    if (page.length === 0) return;
+    await visit(page);
+    if (page.length < MEMORY_PAGE_SIZE) return;
+    afterId = page[page.length - 1].id;
+  }
+}
+
+function byScore(a: MemorySearchResult, b: MemorySearchResult): number {
+  return b.score - a.score || (b.usageCount ?? 0) - (a.usageCount ?? 0);
+}
+
+export function withoutEmbedding<T extends { embedding?: unknown }>(memory: T): Omit<T, "embedding"> {
+  const { embedding: _embedding, ...rest } = memory;
+  return rest;
+}
+
+/**
+ * Classe les mémoires par similarité cosinus avec la requête, plus un bonus
+ * proportionnel aux mots-clés de la requête présents dans la mémoire. Les
+ * mémoires sans embedding compatible ne sont classées que sur les mots-clés.
+ */
+export function rankMemories(
+  query: string,
+  queryEmbedding: { vector: number[]; model: string } | null,
+  memories: CognitiveMemory[],
+  limit = 20
+): MemorySearchResult[] {
+  const queryKeywords = extractKeywords(query, 10);
+
+  return memories
+    .map(memory => {
+      const semantic =
+        queryEmbedding && memory.embedding && memory.embeddingModel === queryEmbedding.model
+          ? Math.max(0, cosineSimilarity(queryEmbedding.vector, memory.embedding))
+          : 0;
+
+      const text = memoryEmbeddingText(memory).toLowerCase();
+      const matched = queryKeywords.filter(keyword => text.includes(keyword)).length;
+      const keyword = queryKeywords.length > 0 ? matched / queryKeywords.length : 0;
+
+      return {
+        ...withoutEmbedding(memory),
+        score: semantic + KEYWORD_BOOST * keyword,
+        matchType: semantic >= KEYWORD_BOOST * keyword ? "semantic" as const : "keyword" as const,
+      };
+    })
+    .filter(result => result.score >= MIN_SEARCH_SCORE)
+    .sort(byScore)
+    .slice(0, limit);
+}
+
+/**
+ * Recherche hybride dans toutes les mémoires visibles par les équipes
+ * données, classées page par page en ne gardant que les meilleures.
+ * Si le fournisseur d'embeddings est indisponible, seuls les mots-clés comptent.
+ */
+export async function searchMemories(
+  query: string,
+  teamIds: number[],
+  limit = 20,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<MemorySearchResult[]> {
+  let queryEmbedding: { vector: number[]; model: string } | null | undefined;
+  let best: MemorySearchResult[] = [];
+
+  await forEachVisibleMemoryPage(teamIds, async page => {
+    // Vectorisée une seule fois, et seulement s'il y a des mémoires à comparer
+    if (queryEmbedding === undefined) {
+      queryEmbedding = null;
+      try {
+        const [vector] = await provider.embed([query]);
+        queryEmbedding = { vector, model: provider.name };
+      } catch (error) {
+        console.warn("[Memory] Query embedding failed, falling back to keywords", error);
+      }
+    }
+    best = [...best, ...rankMemories(query, queryEmbedding, page, limit)].sort(byScore).slice(0, limit);
+  });
+
+  return best;
+}
+
+// ============================================================================
+// MÉMOIRE COLLECTIVE (vectorMemory)
+// ============================================================================
+
+const MEMORY_ITEM_TYPES: Record<CognitiveMemory["type"], MemoryItem["type"]> = {
+  decision_outcome: "decision",
+  error_pattern: "error",
+  success_pattern: "pattern",
+  strategy: "pattern",
+  lesson_learned: "learning",
+};
+
+const MEMORY_ITEM_OUTCOMES: Record<NonNullable<CognitiveMemory["outcome"]>, MemoryItem["metadata"]["outcome"]> = {
+  success: "success",
+  failure: "failure",
+  neutral: "unknown",
+  pending: "pending",
+};
+
+const BIAS_TAGS = new Set<string>(BIAS_TYPES);
+
+/**
+ * Convertit une mémoire stockée en MemoryItem. Les tags correspondant à un
+ * type de biais alimentent `biasesDetected`.
+ */
+export function toMemoryItem(memory: CognitiveMemory): MemoryItem {
+  const tags = memory.tags ?? [];
+  const keywords = Array.from(
+    new Set([...extractKeywords(`${memory.title}\n${memory.content}`, 10), ...tags.filter(t => !BIAS_TAGS.has(t))])
+  );
+
+  return {
+    id: String(memory.id),
+    type: MEMORY_ITEM_TYPES[memory.type],
+    content: memory.content,
+    summary: memory.context || memory.content.slice(0, 200),
+    keywords,
+    relevanceScore: memory.impactScore ?? 0.5,
+    metadata: {
+      projectId: memory.projectId ?? 0,
+      teamId: memory.teamId ?? 0,
+      createdAt: memory.createdAt,
+      biasesDetected: tags.filter(t => BIAS_TAGS.has(t)),
+      outcome: memory.outcome ? MEMORY_ITEM_OUTCOMES[memory.outcome] : "unknown",
+    },
+  };
+}
+
+async function loadMemoryItems(teamIds: number[], projectId?: number): Promise<MemoryItem[]> {
+  const items: MemoryItem[] = [];
+  await forEachVisibleMemoryPage(teamIds, page => {
+    for (const memory of page) {
+      if (projectId === undefined || memory.projectId === projectId) items.push(toMemoryItem(memory));
+    }
+  });
+  return items;
+}
+
+/**
+ * Patterns récurrents (biais, décisions similaires, erreurs répétées)
+ */
+export async function getMemoryPatterns(teamIds: number[], projectId?: number): Promise<PatternMatch[]> {
+  return detectPatterns(await loadMemoryItems(teamIds, projectId));
+}
+
+/**
+ * Suggestions tirées de la mémoire collective pour un contexte donné
+ */
+export async function getMemorySuggestions(context: string, teamIds: number[]) {
+  return generateMemorySuggestions(context, await loadMemoryItems(teamIds));
+}
+
+/**
+ * Mémorise une décision arrivée à l'état decided/implemented. Une décision
+ * n'a qu'une mémoire, mise à jour à chaque transition. Best-effort : la
+ * mise à jour de la décision ne doit pas échouer à cause de la mémoire.
+ */
+export async function rememberDecision(decision: Decision, teamId: number): Promise<number | undefined> {
+  try {
+    const biasesDetected = decision.biasesDetected ?? [];
+    const item = await createDecisionMemory(
+      {
+        id: String(decision.id),
+        title: decision.title,
+        description: [decision.description, decision.outcome && `Résultat: ${decision.outcome}`]
+          .filter(Boolean)
+          .join("\n\n"),
+        rationale: decision.rationale ?? undefined,
+        outcome: "pending",
+        biasesDetected,
+      },
+      { projectId: decision.projectId, teamId }
+    );
+
+    const memory = {
+      projectId: decision.projectId,
+      teamId,
+      decisionId: decision.id,
+      type: "decision_outcome" as const,
+      title: decision.title,
+      content: item.content,
+      context: item.summary,
+      tags: Array.from(new Set([...item.keywords.slice(0, 8), ...biasesDetected])),
+      impactScore: decision.impactScore ?? item.relevanceScore,
+    };
+
+    const existing = await db.getCognitiveMemoryByDecisionId(decision.id);
+    let memoryId: number;
+    if (existing) {
+      memoryId = existing.id;
+      await db.updateCognitiveMemory(memoryId, { ...memory, embedding: null, embeddingModel: null });
+    } else {
+      memoryId = await db.createCognitiveMemory({ ...memory, outcome: "pending" });
+    }
+
+    await indexMemory(memoryId, memory);
+    return memoryId;
+  } catch (error) {
+    console.warn("[Memory] Failed to remember decision", decision.id, error);
+    return undefined;
+  }
+}
@@ -1,4 +1,7 @@
-import { describe, expect, it } from "vitest";
+import type { Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import type { User } from "../drizzle/schema";
+import * as db from "./db";
 
 // Tests pour smartBiasSystem
 import {
@@ -19,6 +22,9 @@ import {
   suggestTemplate,
   customizeTemplate,
   evaluateMetricsAgainstTemplate,
+  resolveTemplate,
+  selectBiasForPing,
+  evaluatePing,
 } from "./cognitiveTemplates";
 
 // Tests pour vectorMemory
@@ -33,7 +39,12 @@ import {
   createPingNotification,
   createCelebrationNotification,
   createInsightNotification,
+  createDecisionNotification,
+  createMemberJoinedNotification,
   shouldSendNotification,
+  evaluateNotification,
+  isInQuietHours,
+  notificationManager,
   DEFAULT_PREFERENCES,
 } from "./notifications";
 
@@ -260,6 +271,85 @@ describe("cognitiveTemplates", () => {
       expect(evaluation.overall).toBe("critical");
     });
   });
+
+  describe("resolveTemplate", () => {
+    it("privilégie le template du projet sur celui de l'équipe", () => {
+      const template = resolveTemplate(
+        { templateType: "research", customTemplate: null },
+        { templateType: "startup", customTemplate: null }
+      );
+      expect(template?.id).toBe("research");
+    });
+
+    it("utilise le template personnalisé puis celui de l'équipe", () => {
+      const custom = customizeTemplate("startup", { pingConfig: { maxPingsPerHour: 1 } });
+      expect(resolveTemplate({ templateType: "custom", customTemplate: custom })).toBe(custom);
+      expect(resolveTemplate({ templateType: null, customTemplate: null }, { templateType: "creative", customTemplate: null })?.id).toBe("creative");
+      expect(resolveTemplate(undefined, null)).toBeNull();
+    });
+  });
+
+  describe("selectBiasForPing", () => {
+    const bias = (type: any, confidence: number) => ({
+      type,
+      confidence,
+      evidence: [],
+      severity: "medium" as const,
+      recommendation: "",
+    });
+
+    it("conserve le seuil historique sans template", () => {
+      expect(selectBiasForPing([bias("bandwagon", 0.65)], null)?.type).toBe("bandwagon");
+      expect(selectBiasForPing([bias("bandwagon", 0.55)], null)).toBeUndefined();
+    });
+
+    it("ignore les biais exclus et applique le seuil du template", () => {
+      const startup = getTemplate("startup"); // seuil 0.7, bandwagon ignoré
+      expect(selectBiasForPing([bias("bandwagon", 0.95)], startup)).toBeUndefined();
+      expect(selectBiasForPing([bias("anchoring", 0.65)], startup)).toBeUndefined();
+    });
+
+    it("favorise les biais prioritaires", () => {
+      const startup = getTemplate("startup");
+      const selected = selectBiasForPing(
+        [bias("anchoring", 0.9), bias("sunk_cost", 0.65)],
+        startup
+      );
+      expect(selected?.type).toBe("sunk_cost");
+    });
+  });
+
+  describe("evaluatePing", () => {
+    const now = new Date("2026-01-15T12:00:00Z");
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+    it("autorise tout sans template", () => {
+      expect(evaluatePing(null, "cognitivelock", [], now)).toEqual({ allowed: true });
+    });
+
+    it("bloque les pings non activés", () => {
+      // creative n'active pas le ping "bias"
+      expect(evaluatePing(getTemplate("creative"), "bias", [], now)).toEqual({
+        allowed: false,
+        reason: "disabled",
+      });
+    });
+
+    it("respecte le plafond horaire et le délai entre pings similaires", () => {
+      const startup = getTemplate("startup"); // 3 pings/h, 20 min de cooldown
+      expect(evaluatePing(startup, "bias", [{ pingType: "bias", createdAt: minutesAgo(10) }], now)).toEqual({
+        allowed: false,
+        reason: "cooldown",
+      });
+      expect(evaluatePing(startup, "bias", [{ pingType: "bias", createdAt: minutesAgo(30) }], now).allowed).toBe(true);
+
+      const threePings = [10, 20, 40].map(m => ({ pingType: "silence", createdAt: minutesAgo(m) }));
+      expect(evaluatePing(startup, "dominance", threePings, now)).toEqual({
+        allowed: false,
+        reason: "hourly_limit",
+      });
+    });
+  });
 });
 
 // ============================================================================
@@ -331,6 +421,23 @@ describe("vectorMemory", () => {
 // ============================================================================
 
 describe("notifications", () => {
+  function createFakeResponse() {
+    const writes: string[] = [];
+    const res = {
+      setHeader: () => undefined,
+      write: (chunk: string) => {
+        writes.push(chunk);
+        return true;
+      },
+      on: () => res,
+    };
+    return { res: res as unknown as Response, writes };
+  }
+
+  function userWithPreferences(id: number, preferences: Partial<typeof DEFAULT_PREFERENCES>): User {
+    return { id, notificationPreferences: { ...DEFAULT_PREFERENCES, ...preferences } } as User;
+  }
+
   describe("createPingNotification", () => {
     it("crée une notification de ping avec la bonne priorité", () => {
       const notification = createPingNotification("bias", "Biais détecté", "warning");
@@ -369,6 +476,104 @@ describe("notifications", () => {
     });
   });
 
+  describe("createDecisionNotification", () => {
+    it("pointe vers le projet de la décision", () => {
+      const notification = createDecisionNotification({
+        id: 7,
+        projectId: 3,
+        title: "Choix de la stack",
+        outcome: "React + tRPC",
+      });
+      expect(notification.type).toBe("decision_made");
+      expect(notification.message).toContain("React + tRPC");
+      expect(notification.action?.url).toBe("/project/3");
+    });
+  });
+
+  describe("createMemberJoinedNotification", () => {
+    it("crée une notification subtile", () => {
+      const notification = createMemberJoinedNotification("Alice", "Produit", 1);
+      expect(notification.type).toBe("member_joined");
+      expect(notification.style).toBe("subtle");
+      expect(notification.message).toContain("Alice");
+    });
+  });
+
+  describe("NotificationManager", () => {
+    it("envoie les notifications aux clients SSE de l'utilisateur", async () => {
+      const { res, writes } = createFakeResponse();
+      notificationManager.registerClient("client-test", 42, 5, res);
+
+      const sent = await notificationManager.sendToUser(
+        42,
+        createPingNotification("balance", "Participation déséquilibrée", "info")
+      );
+
+      expect(sent).toBe(1);
+      expect(writes[0]).toContain("event: connected");
+      expect(writes[1]).toContain("event: notification");
+      expect(writes[1]).toContain("Participation déséquilibrée");
+    });
+
+    it("livre l'arrivée d'un membre avec les préférences par défaut", async () => {
+      const { res, writes } = createFakeResponse();
+      await notificationManager.registerClient("client-joined", 45, undefined, res);
+
+      const sent = await notificationManager.sendToUser(45, createMemberJoinedNotification("Alice", "Produit", 1));
+
+      expect(sent).toBe(1);
+      expect(writes[1]).toContain("Alice a rejoint l'équipe Produit");
+    });
+
+    it("enregistre la notification dans la boîte de réception", async () => {
+      const create = vi.spyOn(db, "createInboxNotification").mockResolvedValue(123);
+      const { res, writes } = createFakeResponse();
+      await notificationManager.registerClient("client-inbox", 43, undefined, res);
+
+      await notificationManager.sendToUser(
+        43,
+        createDecisionNotification({ id: 1, projectId: 5, title: "Pivot", outcome: null })
+      );
+
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 43, projectId: 5, type: "decision_made" })
+      );
+      expect(writes[1]).toMatch(/^id: 123\nevent: notification/);
+      expect(writes[1]).toContain('"inboxId":123');
+      vi.restoreAllMocks();
+    });
+
+    it("rejoue les notifications non lues manquées à la reconnexion", async () => {
+      const since = vi.spyOn(db, "getUnreadInboxNotificationsSince").mockResolvedValue([
+        {
+          id: 124,
+          userId: 44,
+          projectId: 5,
+          type: "ping_triggered",
+          priority: 2,
+          title: "Vision Ping",
+          message: "Espace de solutions réduit",
+          style: "toast",
+          duration: 8000,
+          action: null,
+          data: null,
+          status: "unread",
+          readAt: null,
+          createdAt: new Date(),
+        },
+      ]);
+      const { res, writes } = createFakeResponse();
+
+      await notificationManager.registerClient("client-replay", 44, 5, res, 123);
+
+      expect(since).toHaveBeenCalledWith(44, 123);
+      expect(writes).toHaveLength(2);
+      expect(writes[1]).toMatch(/^id: 124\nevent: notification/);
+      expect(writes[1]).toContain("Vision Ping");
+      vi.restoreAllMocks();
+    });
+  });
+
   describe("shouldSendNotification", () => {
     it("bloque les notifications si désactivées", () => {
       const notification = createPingNotification("bias", "Test", "critical");
@@ -393,4 +598,78 @@ describe("notifications", () => {
       expect(shouldSendNotification(notification, DEFAULT_PREFERENCES)).toBe(true);
     });
   });
+
+  describe("heures calmes", () => {
+    const at = (hours: number, minutes = 0) => new Date(2026, 0, 15, hours, minutes, 30);
+    const prefs = { ...DEFAULT_PREFERENCES, quietHours: "22:00-07:30" };
+    // Plage de deux heures commençant à l'heure en cours
+    const quietHoursFrom = (now: Date) =>
+      `${String(now.getHours()).padStart(2, "0")}:00-${String((now.getHours() + 2) % 24).padStart(2, "0")}:00`;
+
+    it("gère les plages passant minuit", () => {
+      expect(isInQuietHours("22:00-07:30", at(23))).toBe(true);
+      expect(isInQuietHours("22:00-07:30", at(3))).toBe(true);
+      expect(isInQuietHours("22:00-07:30", at(7, 30))).toBe(false);
+      expect(isInQuietHours("22:00-07:30", at(12))).toBe(false);
+    });
+
+    it("diffère les notifications non critiques jusqu'à la fin de la plage", () => {
+      const notification = createPingNotification("bias", "Test", "warning");
+      const delivery = evaluateNotification(notification, prefs, at(23, 15));
+      expect(delivery.action).toBe("defer");
+      if (delivery.action === "defer") {
+        expect(delivery.until).toEqual(new Date(2026, 0, 16, 7, 30, 0));
+      }
+    });
+
+    it("laisse passer les notifications critiques", () => {
+      const notification = createPingNotification("bias", "Test", "critical");
+      expect(evaluateNotification(notification, prefs, at(23)).action).toBe("send");
+    });
+
+    it("livre les notifications différées une fois la plage terminée", async () => {
+      const create = vi.spyOn(db, "createInboxNotification").mockResolvedValue(321);
+      const { res, writes } = createFakeResponse();
+      await notificationManager.registerClient("client-quiet", 77, undefined, res);
+      const now = new Date();
+      vi.spyOn(db, "getUserById").mockResolvedValue(userWithPreferences(77, { quietHours: quietHoursFrom(now) }));
+
+      const sent = await notificationManager.sendToUser(
+        77,
+        createPingNotification("vision", "Espace de solutions réduit", "warning")
+      );
+      expect(sent).toBe(0);
+      // Enregistrée tout de suite, seul l'envoi en direct attend
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ userId: 77, type: "ping_triggered" }));
+      expect(await notificationManager.flushDeferred(now)).toBe(0);
+
+      const afterQuietHours = new Date(now.getTime() + 3 * 60 * 60 * 1000);
+      expect(await notificationManager.flushDeferred(afterQuietHours)).toBe(1);
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(writes.at(-1)).toMatch(/^id: 321\nevent: notification/);
+      expect(writes.at(-1)).toContain("Espace de solutions réduit");
+      vi.restoreAllMocks();
+    });
+
+    it("résume en un digest les notifications différées en surnombre sans en perdre", async () => {
+      const create = vi.spyOn(db, "createInboxNotification").mockResolvedValue(1);
+      const { res, writes } = createFakeResponse();
+      await notificationManager.registerClient("client-digest", 78, undefined, res);
+      const now = new Date();
+      vi.spyOn(db, "getUserById").mockResolvedValue(userWithPreferences(78, { quietHours: quietHoursFrom(now) }));
+
+      for (let i = 0; i < 60; i++) {
+        await notificationManager.sendToUser(78, createPingNotification("vision", `Ping ${i}`, "warning"));
+      }
+      expect(create).toHaveBeenCalledTimes(60);
+
+      const afterQuietHours = new Date(now.getTime() + 3 * 60 * 60 * 1000);
+      expect(await notificationManager.flushDeferred(afterQuietHours)).toBe(60);
+      const pushed = writes.filter(chunk => chunk.includes("event: notification"));
+      expect(pushed).toHaveLength(50);
+      expect(pushed[0]).toContain("Ping 0");
+      expect(pushed.at(-1)).toContain("11 autres notifications");
+      vi.restoreAllMocks();
+    });
+  });
 });
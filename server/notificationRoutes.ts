@@ -0,0 +1,50 @@
+import { UNAUTHED_ERR_MSG } from "@shared/const";
+import { TRPCError } from "@trpc/server";
+import type { Express, Request, Response } from "express";
+import { nanoid } from "nanoid";
+import type { User } from "../drizzle/schema";
+import { sdk } from "./_core/sdk";
+import { notificationManager } from "./notifications";
+import { assertTeamAccess } from "./teamAccess";
+
+function getProjectIdParam(req: Request): number | undefined {
+  const value = req.query.projectId;
+  if (typeof value !== "string") return undefined;
+  const projectId = parseInt(value, 10);
+  return Number.isFinite(projectId) ? projectId : undefined;
+}
+
+function getLastEventId(req: Request): number | undefined {
+  const value = req.headers["last-event-id"];
+  if (typeof value !== "string") return undefined;
+  const lastEventId = parseInt(value, 10);
+  return Number.isFinite(lastEventId) ? lastEventId : undefined;
+}
+
+export function registerNotificationRoutes(app: Express) {
+  // Flux SSE des notifications de l'utilisateur connecté.
+  // `?projectId=` rattache la connexion à un projet (sendToProject),
+  // l'en-tête Last-Event-ID rejoue les notifications manquées.
+  app.get("/api/notifications/stream", async (req: Request, res: Response) => {
+    let user: User;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch {
+      res.status(401).json({ error: UNAUTHED_ERR_MSG });
+      return;
+    }
+
+    const projectId = getProjectIdParam(req);
+    if (projectId !== undefined) {
+      try {
+        await assertTeamAccess(user.id, "project", projectId);
+      } catch (error) {
+        const status = error instanceof TRPCError && error.code === "NOT_FOUND" ? 404 : 403;
+        res.status(status).json({ error: (error as Error).message });
+        return;
+      }
+    }
+
+    await notificationManager.registerClient(nanoid(), user.id, projectId, res, getLastEventId(req));
+  });
+}
@@ -6,6 +6,8 @@
  */
 
 import { Response } from "express";
+import type { InboxNotification } from "../drizzle/schema";
+import * as db from "./db";
 import type { SmartBiasSummary } from "./smartBiasSystem";
 
 // ============================================================================
@@ -44,6 +46,8 @@ export interface Notification {
   duration: number;
   /** Style visuel */
   style: "toast" | "banner" | "subtle" | "modal";
+  /** Identifiant dans la boîte de réception (aussi utilisé comme id d'événement SSE) */
+  inboxId?: number;
 }
 
 // ============================================================================
@@ -58,14 +62,30 @@ interface SSEClient {
   lastActivity: Date;
 }
 
+/** Nombre maximal de notifications différées poussées une à une en fin d'heures calmes */
+const MAX_DEFERRED_PUSHES = 50;
+
+interface DeferredNotification {
+  notification: Notification;
+  deliverAt: Date;
+}
+
 class NotificationManager {
   private clients: Map<string, SSEClient> = new Map();
-  private notificationQueue: Map<number, Notification[]> = new Map(); // userId -> notifications
+  private deferredQueue: Map<number, DeferredNotification[]> = new Map(); // userId -> heures calmes
 
   /**
-   * Enregistre un nouveau client SSE
+   * Enregistre un nouveau client SSE. `lastEventId` (en-tête Last-Event-ID
+   * envoyé par EventSource à la reconnexion) déclenche le rejeu des
+   * notifications non lues manquées pendant la coupure.
    */
-  registerClient(clientId: string, userId: number, projectId: number | undefined, res: Response): void {
+  async registerClient(
+    clientId: string,
+    userId: number,
+    projectId: number | undefined,
+    res: Response,
+    lastEventId?: number
+  ): Promise<void> {
     // Configurer les headers SSE
     res.setHeader("Content-Type", "text/event-stream");
     res.setHeader("Cache-Control", "no-cache");
@@ -83,17 +103,27 @@ class NotificationManager {
       lastActivity: new Date(),
     });
 
-    // Envoyer les notifications en attente
-    const pendingNotifications = this.notificationQueue.get(userId) || [];
-    for (const notification of pendingNotifications) {
-      this.sendToClient(clientId, notification);
-    }
-    this.notificationQueue.delete(userId);
-
     // Nettoyer à la déconnexion
     res.on("close", () => {
       this.clients.delete(clientId);
     });
+
+    // Rejouer les notifications manquées depuis la boîte de réception,
+    // sauf celles encore différées par les heures calmes
+    if (lastEventId !== undefined) {
+      try {
+        const deferredIds = new Set(
+          (this.deferredQueue.get(userId) || []).map(d => d.notification.inboxId)
+        );
+        const missed = await db.getUnreadInboxNotificationsSince(userId, lastEventId);
+        for (const record of missed) {
+          if (deferredIds.has(record.id)) continue;
+          this.sendToClient(clientId, fromInboxRecord(record));
+        }
+      } catch (error) {
+        console.warn("[Notifications] Failed to replay inbox", userId, error);
+      }
+    }
   }
 
   /**
@@ -104,7 +134,8 @@ class NotificationManager {
     if (!client) return false;
 
     try {
-      client.response.write(`event: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+      const eventId = notification.inboxId !== undefined ? `id: ${notification.inboxId}\n` : "";
+      client.response.write(`${eventId}event: notification\ndata: ${JSON.stringify(notification)}\n\n`);
       client.lastActivity = new Date();
       return true;
     } catch {
@@ -114,9 +145,34 @@ class NotificationManager {
   }
 
   /**
-   * Envoie une notification à un utilisateur (tous ses clients)
+   * Envoie une notification à un utilisateur en respectant ses préférences :
+   * les notifications filtrées sont ignorées. Les autres sont enregistrées
+   * dans la boîte de réception dès leur arrivée ; pendant les heures calmes,
+   * seul l'envoi en direct est différé jusqu'à leur fin.
+   */
+  async sendToUser(userId: number, notification: Notification): Promise<number> {
+    const preferences = await loadNotificationPreferences(userId);
+    const delivery = evaluateNotification(notification, preferences);
+
+    if (delivery.action === "drop") return 0;
+
+    const stored = await persistNotification(userId, notification);
+    if (delivery.action === "defer") {
+      const deferred = this.deferredQueue.get(userId) || [];
+      deferred.push({ notification: stored, deliverAt: delivery.until });
+      this.deferredQueue.set(userId, deferred);
+      return 0;
+    }
+
+    return this.pushToUser(userId, stored);
+  }
+
+  /**
+   * Pousse une notification déjà enregistrée à tous les clients connectés de
+   * l'utilisateur. Les utilisateurs hors ligne la retrouvent dans leur boîte
+   * de réception.
    */
-  sendToUser(userId: number, notification: Notification): number {
+  private pushToUser(userId: number, notification: Notification): number {
     let sentCount = 0;
     
     for (const [clientId, client] of Array.from(this.clients.entries())) {
@@ -127,15 +183,6 @@ class NotificationManager {
       }
     }
 
-    // Si l'utilisateur n'est pas connecté, mettre en file d'attente
-    if (sentCount === 0) {
-      const queue = this.notificationQueue.get(userId) || [];
-      queue.push(notification);
-      // Limiter la file d'attente à 10 notifications
-      if (queue.length > 10) queue.shift();
-      this.notificationQueue.set(userId, queue);
-    }
-
     return sentCount;
   }
 
@@ -156,6 +203,36 @@ class NotificationManager {
     return sentCount;
   }
 
+  /**
+   * Délivre les notifications différées dont les heures calmes sont terminées.
+   * Au-delà de MAX_DEFERRED_PUSHES, le surplus est résumé en un seul digest :
+   * chaque notification reste consultable dans la boîte de réception.
+   */
+  async flushDeferred(now: Date = new Date()): Promise<number> {
+    let delivered = 0;
+    for (const [userId, deferred] of Array.from(this.deferredQueue.entries())) {
+      const due = deferred.filter(d => d.deliverAt <= now);
+      if (due.length === 0) continue;
+
+      const remaining = deferred.filter(d => d.deliverAt > now);
+      if (remaining.length > 0) {
+        this.deferredQueue.set(userId, remaining);
+      } else {
+        this.deferredQueue.delete(userId);
+      }
+
+      const overflow = due.length > MAX_DEFERRED_PUSHES ? due.splice(MAX_DEFERRED_PUSHES - 1) : [];
+      for (const { notification } of due) {
+        this.pushToUser(userId, notification);
+      }
+      if (overflow.length > 0) {
+        this.pushToUser(userId, createDeferredDigestNotification(overflow.length));
+      }
+      delivered += due.length + overflow.length;
+    }
+    return delivered;
+  }
+
   /**
    * Envoie un heartbeat à tous les clients (pour maintenir la connexion)
    */
@@ -181,11 +258,62 @@ class NotificationManager {
 // Instance singleton
 export const notificationManager = new NotificationManager();
 
-// Heartbeat toutes les 30 secondes
+// Heartbeat et livraison des notifications différées toutes les 30 secondes
 setInterval(() => {
   notificationManager.sendHeartbeat();
+  void notificationManager.flushDeferred();
 }, 30000);
 
+// ============================================================================
+// BOÎTE DE RÉCEPTION
+// ============================================================================
+
+/**
+ * Persiste une notification et renvoie sa version enrichie de `inboxId`.
+ * Si la base est indisponible, la notification reste livrable en direct.
+ */
+async function persistNotification(userId: number, notification: Notification): Promise<Notification> {
+  try {
+    const projectId = notification.data?.projectId;
+    const inboxId = await db.createInboxNotification({
+      userId,
+      projectId: typeof projectId === "number" ? projectId : null,
+      type: notification.type,
+      priority: notification.priority,
+      title: notification.title.slice(0, 255),
+      message: notification.message,
+      style: notification.style,
+      duration: notification.duration,
+      action: notification.action ?? null,
+      data: notification.data ?? null,
+      createdAt: notification.timestamp,
+    });
+    return { ...notification, inboxId };
+  } catch (error) {
+    console.warn("[Notifications] Failed to persist notification", userId, error);
+    return notification;
+  }
+}
+
+/**
+ * Reconstruit une notification à partir d'une entrée de la boîte de réception
+ */
+export function fromInboxRecord(record: InboxNotification): Notification {
+  return {
+    id: `inbox-${record.id}`,
+    type: record.type,
+    priority: Math.min(4, Math.max(1, record.priority)) as Notification["priority"],
+    title: record.title,
+    message: record.message,
+    action: record.action ?? undefined,
+    data: record.data ?? undefined,
+    timestamp: record.createdAt,
+    duration: record.duration,
+    style: record.style,
+    inboxId: record.id,
+  };
+}
+
 // ============================================================================
 // FACTORY DE NOTIFICATIONS
 // ============================================================================
@@ -294,52 +422,278 @@ export function createInsightNotification(
   };
 }
 
+/**
+ * Crée une notification de décision prise
+ */
+export function createDecisionNotification(decision: {
+  id: number;
+  projectId: number;
+  title: string;
+  outcome?: string | null;
+}): Notification {
+  return {
+    id: generateNotificationId(),
+    type: "decision_made",
+    priority: 2,
+    title: "✅ Décision prise",
+    message: decision.outcome ? `${decision.title} : ${decision.outcome}` : decision.title,
+    action: {
+      label: "Voir la décision",
+      url: `/project/${decision.projectId}`,
+    },
+    data: { decisionId: decision.id, projectId: decision.projectId },
+    timestamp: new Date(),
+    duration: 8000,
+    style: "toast",
+  };
+}
+
+/**
+ * Crée le digest des notifications différées qui ne sont pas poussées une à une
+ */
+export function createDeferredDigestNotification(count: number): Notification {
+  return {
+    id: generateNotificationId(),
+    type: "reminder",
+    priority: 3,
+    title: "🌙 Pendant vos heures calmes",
+    message: `${count} autres notifications vous attendent dans votre boîte de réception`,
+    data: { deferredCount: count },
+    timestamp: new Date(),
+    duration: 8000,
+    style: "toast",
+  };
+}
+
+/**
+ * Crée une notification d'arrivée d'un membre dans l'équipe
+ */
+export function createMemberJoinedNotification(
+  memberName: string,
+  teamName: string,
+  teamId: number
+): Notification {
+  return {
+    id: generateNotificationId(),
+    type: "member_joined",
+    priority: 3,
+    title: "👋 Nouveau membre",
+    message: `${memberName} a rejoint l'équipe ${teamName}`,
+    data: { teamId },
+    timestamp: new Date(),
+    duration: 5000,
+    style: "subtle",
+  };
+}
+
+// ============================================================================
+// DIFFUSION AUX MEMBRES
+// ============================================================================
+
+/**
+ * Envoie une notification à tous les membres d'une équipe.
+ * Best-effort : une erreur de diffusion ne doit jamais faire échouer l'action
+ * qui l'a déclenchée.
+ */
+export async function notifyTeamMembers(
+  teamId: number,
+  notification: Notification,
+  options: { excludeUserId?: number } = {}
+): Promise<number> {
+  try {
+    const members = await db.getTeamMembers(teamId);
+    let recipients = 0;
+    for (const { member } of members) {
+      if (member.userId === options.excludeUserId) continue;
+      await notificationManager.sendToUser(member.userId, notification);
+      recipients++;
+    }
+    return recipients;
+  } catch (error) {
+    console.warn("[Notifications] Failed to notify team", teamId, error);
+    return 0;
+  }
+}
+
+/**
+ * Envoie une notification à tous les membres de l'équipe d'un projet
+ */
+export async function notifyProjectMembers(
+  projectId: number,
+  notification: Notification,
+  options: { excludeUserId?: number } = {}
+): Promise<number> {
+  const project = await db.getProjectById(projectId);
+  if (!project) return 0;
+  return notifyTeamMembers(
+    project.teamId,
+    { ...notification, data: { ...notification.data, projectId } },
+    options
+  );
+}
+
 // ============================================================================
 // PRÉFÉRENCES UTILISATEUR
 // ============================================================================
 
+export const NOTIFICATION_TYPES = [
+  "bias_alert",
+  "ping_triggered",
+  "decision_made",
+  "member_joined",
+  "cognitive_insight",
+  "celebration",
+  "reminder",
+] as const satisfies readonly NotificationType[];
+
 export interface NotificationPreferences {
   /** Activer les notifications */
   enabled: boolean;
   /** Types de notifications à recevoir */
   allowedTypes: NotificationType[];
-  /** Priorité minimale (1-4, 1 = tout, 4 = critique seulement) */
+  /** Priorité minimale (1-4, 1 = critique seulement, 4 = tout) */
   minPriority: 1 | 2 | 3 | 4;
   /** Mode silencieux (pas de son) */
   silent: boolean;
-  /** Heures de non-dérangement (format "HH:MM-HH:MM") */
+  /** Heures de non-dérangement (format "HH:MM-HH:MM", peut passer minuit) */
   quietHours?: string;
+  /** Fuseau horaire IANA des heures calmes (défaut : fuseau du serveur) */
+  timezone?: string;
 }
 
 export const DEFAULT_PREFERENCES: NotificationPreferences = {
   enabled: true,
-  allowedTypes: ["bias_alert", "ping_triggered", "decision_made", "celebration", "cognitive_insight"],
+  // Tous les types par défaut : un type absent serait silencieusement ignoré
+  allowedTypes: [...NOTIFICATION_TYPES],
   minPriority: 3,
   silent: false,
 };
 
 /**
- * Filtre une notification selon les préférences utilisateur
+ * Complète des préférences stockées avec les valeurs par défaut
  */
-export function shouldSendNotification(
-  notification: Notification,
-  preferences: NotificationPreferences
-): boolean {
-  if (!preferences.enabled) return false;
-  if (!preferences.allowedTypes.includes(notification.type)) return false;
-  if (notification.priority > preferences.minPriority) return false;
+export function resolvePreferences(
+  stored: Partial<NotificationPreferences> | null | undefined
+): NotificationPreferences {
+  return { ...DEFAULT_PREFERENCES, ...(stored ?? {}) };
+}
 
-  // Vérifier les heures de non-dérangement
-  if (preferences.quietHours) {
-    const [start, end] = preferences.quietHours.split("-");
-    const now = new Date();
-    const currentTime = `${now.getHours().toString().padStart(2, "0")}:${now.getMinutes().toString().padStart(2, "0")}`;
-    
-    if (start && end && currentTime >= start && currentTime <= end) {
-      // En heures de non-dérangement, n'autoriser que les notifications critiques
-      if (notification.priority > 1) return false;
+async function loadNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+  const user = await db.getUserById(userId);
+  return resolvePreferences(
+    user?.notificationPreferences as Partial<NotificationPreferences> | null | undefined
+  );
+}
+
+// ============================================================================
+// HEURES CALMES
+// ============================================================================
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function parseQuietHours(quietHours: string): { start: number; end: number } | null {
+  const [start, end] = quietHours.split("-").map(parseTime);
+  if (start == null || end == null || start === end) return null;
+  return { start, end };
+}
+
+/** Minutes écoulées depuis minuit dans le fuseau donné */
+function getMinutesOfDay(date: Date, timezone?: string): number {
+  if (timezone) {
+    try {
+      const parts = new Intl.DateTimeFormat("en-GB", {
+        timeZone: timezone,
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      }).formatToParts(date);
+      const hour = parseInt(parts.find(p => p.type === "hour")?.value ?? "0", 10);
+      const minute = parseInt(parts.find(p => p.type === "minute")?.value ?? "0", 10);
+      return hour * 60 + minute;
+    } catch {
+      // Fuseau invalide : on retombe sur l'heure du serveur
     }
   }
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Indique si `now` tombe dans les heures calmes (gère les plages passant minuit)
+ */
+export function isInQuietHours(quietHours: string, now: Date = new Date(), timezone?: string): boolean {
+  const range = parseQuietHours(quietHours);
+  if (!range) return false;
+  const current = getMinutesOfDay(now, timezone);
+  return range.start < range.end
+    ? current >= range.start && current < range.end
+    : current >= range.start || current < range.end;
+}
+
+/**
+ * Date de fin des heures calmes en cours
+ */
+export function getQuietHoursEnd(quietHours: string, now: Date = new Date(), timezone?: string): Date {
+  const range = parseQuietHours(quietHours);
+  if (!range) return now;
+  const current = getMinutesOfDay(now, timezone);
+  const minutesUntilEnd = (range.end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const startOfMinute = now.getTime() - now.getSeconds() * 1000 - now.getMilliseconds();
+  return new Date(startOfMinute + minutesUntilEnd * 60 * 1000);
+}
+
+// ============================================================================
+// FILTRAGE
+// ============================================================================
+
+export type NotificationDelivery =
+  | { action: "send" }
+  | { action: "drop" }
+  | { action: "defer"; until: Date };
+
+/**
+ * Décide du sort d'une notification selon les préférences utilisateur.
+ * Pendant les heures calmes, seules les notifications critiques passent :
+ * les autres sont différées, pas perdues.
+ */
+export function evaluateNotification(
+  notification: Notification,
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): NotificationDelivery {
+  if (!preferences.enabled) return { action: "drop" };
+  if (!preferences.allowedTypes.includes(notification.type)) return { action: "drop" };
+  if (notification.priority > preferences.minPriority) return { action: "drop" };
+
+  if (
+    preferences.quietHours &&
+    notification.priority > 1 &&
+    isInQuietHours(preferences.quietHours, now, preferences.timezone)
+  ) {
+    return {
+      action: "defer",
+      until: getQuietHoursEnd(preferences.quietHours, now, preferences.timezone),
+    };
+  }
 
-  return true;
+  return { action: "send" };
+}
+
+/**
+ * Filtre une notification selon les préférences utilisateur
+ */
+export function shouldSendNotification(
+  notification: Notification,
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): boolean {
+  return evaluateNotification(notification, preferences, now).action === "send";
 }
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { BiasIndicator } from "./biasDetection";
+import { getTemplate } from "./cognitiveTemplates";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getPingAlertState: vi.fn(async () => undefined),
+    upsertPingAlertState: vi.fn(async () => undefined),
+    createSuppressedPing: vi.fn(async () => 1),
+    createMessage: vi.fn(async () => 42),
+    getProjectById: vi.fn(async () => undefined),
+  };
+});
+
+const db = await import("./db");
+const {
+  createAlertState,
+  dispatchBiasPing,
+  dispatchPing,
+  evaluatePingDispatch,
+  inferPingContext,
+  recordSentPing,
+  refreshSession,
+  resolvePingThresholds,
+  selectSignificantBias,
+  SESSION_IDLE_MINUTES,
+} = await import("./pingDispatcher");
+
+const MINUTE = 60 * 1000;
+
+function bias(type: BiasIndicator["type"], confidence: number, severity: BiasIndicator["severity"] = "medium"): BiasIndicator {
+  return {
+    type,
+    confidence,
+    severity,
+    evidence: ["preuve 1", "preuve 2"],
+    recommendation: "Prendre du recul",
+  };
+}
+
+describe("pingDispatcher", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("resolvePingThresholds", () => {
+    it("applique les seuils du contexte par-dessus les seuils par défaut", () => {
+      const thresholds = resolvePingThresholds("brainstorming");
+      expect(thresholds.minConfidence).toBe(0.8);
+      expect(thresholds.cooldownMinutes).toBe(60);
+      expect(thresholds.maxAlertsPerSession).toBe(3);
+    });
+  });
+
+  describe("inferPingContext", () => {
+    it("considère un vote en cours comme une décision critique", () => {
+      expect(inferPingContext({ hasOpenVote: true, teamAgeDays: 100 })).toBe("critical_decision");
+      expect(inferPingContext({ hasOpenVote: false, teamAgeDays: 3 })).toBe("new_team");
+      expect(inferPingContext({ hasOpenVote: false, teamAgeDays: 100 })).toBeUndefined();
+    });
+  });
+
+  describe("evaluatePingDispatch", () => {
+    const now = Date.now();
+
+    it("bloque un ping du même type pendant le cooldown", () => {
+      const state = recordSentPing(createAlertState(now - 60 * MINUTE), "dominance", undefined, now - 10 * MINUTE);
+      expect(evaluatePingDispatch(state, "dominance", { template: null }, now)).toEqual({
+        allowed: false,
+        reason: "cooldown",
+      });
+      expect(evaluatePingDispatch(state, "groupthink", { template: null }, now)).toEqual({ allowed: true });
+    });
+
+    it("respecte le plafond d'alertes par session", () => {
+      const state = { ...createAlertState(now), alertCount: 3 };
+      expect(evaluatePingDispatch(state, "bias", { template: null }, now)).toEqual({
+        allowed: false,
+        reason: "session_limit",
+      });
+      // Une équipe nouvelle a droit à 5 alertes
+      expect(evaluatePingDispatch(state, "bias", { template: null, contextType: "new_team" }, now).allowed).toBe(true);
+    });
+
+    it("applique d'abord la configuration du template", () => {
+      expect(evaluatePingDispatch(createAlertState(now), "bias", { template: getTemplate("creative") }, now)).toEqual({
+        allowed: false,
+        reason: "disabled",
+      });
+    });
+  });
+
+  describe("refreshSession", () => {
+    it("démarre une nouvelle session après une période d'inactivité", () => {
+      const now = Date.now();
+      const lastPing = now - (SESSION_IDLE_MINUTES + 5) * MINUTE;
+      const state = recordSentPing({ ...createAlertState(lastPing), alertCount: 2 }, "bias", "anchoring", lastPing);
+
+      const refreshed = refreshSession(state, now);
+      expect(refreshed.alertCount).toBe(0);
+      expect(refreshed.sessionStart).toBe(now);
+      expect(refreshed.lastAlertTimes.anchoring).toBe(lastPing);
+      expect(refreshed.recentPings).toHaveLength(0);
+    });
+
+    it("conserve la session active", () => {
+      const now = Date.now();
+      const state = recordSentPing(createAlertState(now - 30 * MINUTE), "bias", undefined, now - 5 * MINUTE);
+      expect(refreshSession(state, now).alertCount).toBe(1);
+    });
+  });
+
+  describe("selectSignificantBias", () => {
+    it("ignore les biais faibles ou sans preuves suffisantes", () => {
+      const weak = { ...bias("anchoring", 0.9), evidence: ["une seule preuve"] };
+      expect(selectSignificantBias([bias("confirmation", 0.5), weak], { template: null }, createAlertState())).toEqual({
+        coolingDown: undefined,
+      });
+    });
+
+    it("signale le biais en cooldown au lieu de le renvoyer", () => {
+      const state = recordSentPing(createAlertState(), "bias", "confirmation", Date.now() - 5 * MINUTE);
+      const selection = selectSignificantBias([bias("confirmation", 0.9)], { template: null }, state);
+      expect(selection.bias).toBeUndefined();
+      expect(selection.coolingDown?.type).toBe("confirmation");
+    });
+
+    it("priorise les biais les plus sévères", () => {
+      const selection = selectSignificantBias(
+        [bias("anchoring", 0.9), bias("groupthink", 0.7, "high")],
+        { template: null },
+        createAlertState()
+      );
+      expect(selection.bias?.type).toBe("groupthink");
+    });
+  });
+
+  describe("dispatchPing", () => {
+    const request = {
+      projectId: 7,
+      pingType: "dominance",
+      content: "Balance Ping",
+      severity: "info" as const,
+    };
+
+    it("émet le ping et persiste l'état des alertes", async () => {
+      const result = await dispatchPing(request, { template: null });
+
+      expect(result).toEqual({ sent: true, messageId: 42 });
+      expect(db.createMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 7, type: "smart_ping", content: "Balance Ping" })
+      );
+      expect(db.upsertPingAlertState).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 7, alertCount: 1 })
+      );
+    });
+
+    it("trace les pings supprimés sans les émettre", async () => {
+      vi.mocked(db.getPingAlertState).mockResolvedValueOnce({
+        projectId: 7,
+        lastAlertTimes: {},
+        lastPingTimes: { dominance: Date.now() - 5 * MINUTE },
+        recentPings: [],
+        alertCount: 1,
+        sessionStart: new Date(Date.now() - 30 * MINUTE),
+        updatedAt: new Date(),
+      });
+
+      const result = await dispatchPing(request, { template: null });
+
+      expect(result).toEqual({ sent: false, reason: "cooldown" });
+      expect(db.createMessage).not.toHaveBeenCalled();
+      expect(db.createSuppressedPing).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: 7, pingType: "dominance", reason: "cooldown" })
+      );
+    });
+  });
+
+  describe("dispatchBiasPing", () => {
+    it("n'émet rien sans biais significatif", async () => {
+      const outcome = await dispatchBiasPing(7, [bias("confirmation", 0.3)], { template: null }, { teamSize: 4 });
+      expect(outcome).toEqual({});
+      expect(db.createMessage).not.toHaveBeenCalled();
+      expect(db.createSuppressedPing).not.toHaveBeenCalled();
+    });
+
+    it("émet un Bias Ping pour le biais retenu", async () => {
+      const outcome = await dispatchBiasPing(7, [bias("sunk_cost", 0.85)], { template: null }, { teamSize: 4 });
+      expect(outcome.bias?.type).toBe("sunk_cost");
+      expect(outcome.result).toEqual({ sent: true, messageId: 42 });
+      expect(db.upsertPingAlertState).toHaveBeenCalledWith(
+        expect.objectContaining({ lastAlertTimes: { sunk_cost: expect.any(Number) } })
+      );
+    });
+  });
+});
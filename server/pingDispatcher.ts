@@ -0,0 +1,362 @@
+/**
+ * Smart Ping Dispatcher - Point d'entrée unique pour l'émission des Smart Pings
+ *
+ * Chaque projet possède un AlertState persisté (dernier ping par type et par
+ * biais, nombre d'alertes de la session) qui permet :
+ * - de ne retenir que les biais significatifs (filterSignificantBiases)
+ * - d'appliquer cooldowns, plafond horaire du template et plafond par session
+ * - de tracer les pings supprimés pour audit
+ */
+
+import type { Message, Project } from "../drizzle/schema";
+import { generateSmartPing, type BiasIndicator, type BiasType } from "./biasDetection";
+import {
+  evaluatePing,
+  resolveTemplate,
+  selectBiasForPing,
+  withoutIgnoredBiases,
+  type CognitiveTemplate,
+} from "./cognitiveTemplates";
+import * as db from "./db";
+import { createBiasNotification, notifyProjectMembers, type Notification } from "./notifications";
+import {
+  CONTEXT_THRESHOLDS,
+  DEFAULT_THRESHOLDS,
+  filterSignificantBiases,
+  generateSmartSummary,
+  prioritizeBiases,
+  type AlertState,
+  type BiasThresholds,
+} from "./smartBiasSystem";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PingContextType = "critical_decision" | "brainstorming" | "new_team" | "experienced_team";
+
+export type PingSuppressionReason = "disabled" | "hourly_limit" | "cooldown" | "session_limit";
+
+/** AlertState d'un projet, étendu aux pings qui ne portent pas sur un biais */
+export interface ProjectAlertState extends Omit<AlertState, "lastAlertTimes"> {
+  /** Dernière alerte par type de biais (ms) */
+  lastAlertTimes: Partial<Record<BiasType, number>>;
+  /** Dernier envoi par type de ping (ms) */
+  lastPingTimes: Record<string, number>;
+  /** Pings envoyés durant la dernière heure (plafond horaire du template) */
+  recentPings: Array<{ pingType: string; sentAt: number }>;
+}
+
+/** Règles applicables aux pings d'un projet */
+export interface PingPolicy {
+  template: CognitiveTemplate | null;
+  contextType?: PingContextType;
+}
+
+export interface PingRequest {
+  projectId: number;
+  pingType: string;
+  content: string;
+  severity: "info" | "warning" | "critical";
+  biasType?: BiasType;
+  metadata?: NonNullable<Message["metadata"]>;
+  notification?: Notification | null;
+}
+
+export type PingDispatchDecision =
+  | { allowed: true }
+  | { allowed: false; reason: PingSuppressionReason };
+
+export type PingDispatchResult =
+  | { sent: true; messageId: number }
+  | { sent: false; reason: PingSuppressionReason };
+
+// ============================================================================
+// RÈGLES DE DISPATCH
+// ============================================================================
+
+/** Une session se termine après 2h sans ping */
+export const SESSION_IDLE_MINUTES = 120;
+
+/** Une équipe est considérée nouvelle pendant ses 14 premiers jours */
+const NEW_TEAM_DAYS = 14;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Seuils par défaut ajustés au contexte (décision critique, brainstorming...)
+ */
+export function resolvePingThresholds(contextType?: PingContextType): BiasThresholds {
+  return {
+    ...DEFAULT_THRESHOLDS,
+    ...(contextType ? CONTEXT_THRESHOLDS[contextType] : {}),
+  };
+}
+
+/**
+ * Déduit le contexte de la discussion : un vote en cours rend la décision
+ * critique, une équipe récente reçoit des seuils plus pédagogiques.
+ */
+export function inferPingContext(signals: {
+  hasOpenVote: boolean;
+  teamAgeDays: number;
+}): PingContextType | undefined {
+  if (signals.hasOpenVote) return "critical_decision";
+  if (signals.teamAgeDays < NEW_TEAM_DAYS) return "new_team";
+  return undefined;
+}
+
+export function createAlertState(now: number = Date.now()): ProjectAlertState {
+  return {
+    lastAlertTimes: {},
+    lastPingTimes: {},
+    recentPings: [],
+    alertCount: 0,
+    sessionStart: now,
+  };
+}
+
+/**
+ * Démarre une nouvelle session après SESSION_IDLE_MINUTES sans ping.
+ * Les cooldowns survivent au changement de session.
+ */
+export function refreshSession(state: ProjectAlertState, now: number = Date.now()): ProjectAlertState {
+  const recentPings = state.recentPings.filter(p => p.sentAt > now - HOUR_MS);
+  const lastActivity = Math.max(state.sessionStart, ...Object.values(state.lastPingTimes));
+
+  if (now - lastActivity < SESSION_IDLE_MINUTES * 60 * 1000) {
+    return { ...state, recentPings };
+  }
+
+  return {
+    ...createAlertState(now),
+    lastAlertTimes: state.lastAlertTimes,
+    lastPingTimes: state.lastPingTimes,
+    recentPings,
+  };
+}
+
+/**
+ * Vérifie qu'un ping peut partir : configuration du template, plafond par
+ * session, puis cooldown du type de ping.
+ */
+export function evaluatePingDispatch(
+  state: ProjectAlertState,
+  pingType: string,
+  policy: PingPolicy,
+  now: number = Date.now()
+): PingDispatchDecision {
+  const templateDecision = evaluatePing(
+    policy.template,
+    pingType,
+    state.recentPings.map(p => ({ pingType: p.pingType, createdAt: new Date(p.sentAt) })),
+    new Date(now)
+  );
+  if (!templateDecision.allowed) return templateDecision;
+
+  const thresholds = resolvePingThresholds(policy.contextType);
+  if (state.alertCount >= thresholds.maxAlertsPerSession) {
+    return { allowed: false, reason: "session_limit" };
+  }
+
+  const lastPing = state.lastPingTimes[pingType];
+  if (lastPing && now - lastPing < thresholds.cooldownMinutes * 60 * 1000) {
+    return { allowed: false, reason: "cooldown" };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Met à jour l'état après l'envoi d'un ping
+ */
+export function recordSentPing(
+  state: ProjectAlertState,
+  pingType: string,
+  biasType: BiasType | undefined,
+  now: number = Date.now()
+): ProjectAlertState {
+  return {
+    ...state,
+    lastAlertTimes: biasType ? { ...state.lastAlertTimes, [biasType]: now } : state.lastAlertTimes,
+    lastPingTimes: { ...state.lastPingTimes, [pingType]: now },
+    recentPings: [...state.recentPings, { pingType, sentAt: now }],
+    alertCount: state.alertCount + 1,
+  };
+}
+
+/**
+ * Choisit le biais à signaler : seuils contextuels, cooldown par biais, puis
+ * priorités du template. `coolingDown` est le biais qui aurait été signalé
+ * sans le cooldown (pour l'audit).
+ */
+export function selectSignificantBias(
+  biases: BiasIndicator[],
+  policy: PingPolicy,
+  state: ProjectAlertState
+): { bias?: BiasIndicator; coolingDown?: BiasIndicator } {
+  const thresholds = resolvePingThresholds(policy.contextType);
+  const significant = prioritizeBiases(filterSignificantBiases(biases, thresholds));
+  const available = filterSignificantBiases(significant, thresholds, {
+    ...state,
+    lastAlertTimes: state.lastAlertTimes as Record<BiasType, number>,
+  });
+
+  const bias = selectBiasForPing(available, policy.template);
+  if (bias) return { bias };
+  return { coolingDown: selectBiasForPing(significant, policy.template) };
+}
+
+// ============================================================================
+// PERSISTANCE
+// ============================================================================
+
+async function loadAlertState(projectId: number, now: number): Promise<ProjectAlertState> {
+  const row = await db.getPingAlertState(projectId);
+  if (!row) return createAlertState(now);
+  return refreshSession(
+    {
+      lastAlertTimes: row.lastAlertTimes,
+      lastPingTimes: row.lastPingTimes,
+      recentPings: row.recentPings,
+      alertCount: row.alertCount,
+      sessionStart: row.sessionStart.getTime(),
+    },
+    now
+  );
+}
+
+async function saveAlertState(projectId: number, state: ProjectAlertState): Promise<void> {
+  await db.upsertPingAlertState({
+    projectId,
+    lastAlertTimes: state.lastAlertTimes,
+    lastPingTimes: state.lastPingTimes,
+    recentPings: state.recentPings,
+    alertCount: state.alertCount,
+    sessionStart: new Date(state.sessionStart),
+  });
+}
+
+/**
+ * Trace un ping supprimé. Best-effort : l'audit ne doit pas bloquer le chat.
+ */
+async function recordSuppressedPing(request: PingRequest, reason: PingSuppressionReason): Promise<void> {
+  try {
+    await db.createSuppressedPing({
+      projectId: request.projectId,
+      pingType: request.pingType,
+      biasType: request.biasType,
+      reason,
+      content: request.content,
+      metadata: { severity: request.severity, ...request.metadata },
+    });
+  } catch (error) {
+    console.warn("[SmartPing] Failed to record suppressed ping", request.projectId, error);
+  }
+}
+
+/**
+ * Règles de ping d'un projet : son template (ou celui de l'équipe) et le
+ * contexte courant de la discussion.
+ */
+export async function loadPingPolicy(project: Project): Promise<PingPolicy> {
+  const team = await db.getTeamById(project.teamId);
+  const decisions = await db.getDecisionsByProjectId(project.id);
+  const teamAgeDays = team ? (Date.now() - team.createdAt.getTime()) / (24 * HOUR_MS) : Infinity;
+
+  return {
+    template: resolveTemplate(project, team),
+    contextType: inferPingContext({
+      hasOpenVote: decisions.some(d => d.status === "voting"),
+      teamAgeDays,
+    }),
+  };
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+async function dispatchWithState(
+  request: PingRequest,
+  policy: PingPolicy,
+  state: ProjectAlertState,
+  now: number
+): Promise<PingDispatchResult> {
+  const decision = evaluatePingDispatch(state, request.pingType, policy, now);
+  if (!decision.allowed) {
+    await recordSuppressedPing(request, decision.reason);
+    return { sent: false, reason: decision.reason };
+  }
+
+  const messageId = await db.createMessage({
+    projectId: request.projectId,
+    content: request.content,
+    type: "smart_ping",
+    metadata: { ...request.metadata, pingType: request.pingType, severity: request.severity },
+  });
+  await saveAlertState(request.projectId, recordSentPing(state, request.pingType, request.biasType, now));
+
+  if (request.notification) {
+    await notifyProjectMembers(request.projectId, request.notification);
+  }
+
+  return { sent: true, messageId };
+}
+
+/**
+ * Émet un Smart Ping s'il respecte les règles du projet, sinon le trace
+ * comme supprimé.
+ */
+export async function dispatchPing(request: PingRequest, policy: PingPolicy): Promise<PingDispatchResult> {
+  const now = Date.now();
+  const state = await loadAlertState(request.projectId, now);
+  return dispatchWithState(request, policy, state, now);
+}
+
+/**
+ * Émet un Bias Ping pour le biais le plus significatif d'un message.
+ * Retourne le biais retenu (même si le ping a été supprimé) pour que
+ * l'appelant puisse créer l'événement cognitif correspondant.
+ */
+export async function dispatchBiasPing(
+  projectId: number,
+  biases: BiasIndicator[],
+  policy: PingPolicy,
+  context: { teamSize: number }
+): Promise<{ bias?: BiasIndicator; result?: PingDispatchResult }> {
+  const now = Date.now();
+  const state = await loadAlertState(projectId, now);
+  const { bias, coolingDown } = selectSignificantBias(biases, policy, state);
+
+  const buildRequest = (target: BiasIndicator): PingRequest => ({
+    projectId,
+    pingType: "bias",
+    content: generateSmartPing(target),
+    severity: target.severity === "high" ? "critical" : "warning",
+    biasType: target.type,
+    metadata: { biasIndicators: [{ type: target.type, confidence: target.confidence }] },
+  });
+
+  if (!bias) {
+    if (!coolingDown) return {};
+    await recordSuppressedPing(buildRequest(coolingDown), "cooldown");
+    return { result: { sent: false, reason: "cooldown" } };
+  }
+
+  // Résumé anti-surcharge pour la notification temps réel
+  const summary = generateSmartSummary(withoutIgnoredBiases(biases, policy.template), {
+    teamSize: context.teamSize,
+    sessionDuration: Math.round((now - state.sessionStart) / 60000),
+    previousAlerts: state.alertCount,
+    contextType: policy.contextType,
+  });
+
+  const result = await dispatchWithState(
+    { ...buildRequest(bias), notification: createBiasNotification(summary) },
+    policy,
+    state,
+    now
+  );
+  return { bias, result };
+}
@@ -3,7 +3,8 @@
  * Extraction d'expérience professionnelle depuis CV (texte)
  */
 
-import { invokeLLM } from "./_core/llm";
+import { z } from "zod";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
 
 export interface Education {
   degree: string;
@@ -41,125 +42,99 @@ export interface ExtractionResult {
   confidence: number;
 }
 
-export async function extractFromCVText(cvText: string): Promise<ExtractionResult> {
+// Sortie attendue du LLM, transmise aussi comme format de réponse
+const cvExtractionSchema = z.object({
+  currentRole: z.string().nullable(),
+  company: z.string().nullable(),
+  yearsExperience: z.number().nullable(),
+  industries: z.array(z.string()),
+  skills: z.array(z.string()),
+  education: z.array(z.object({
+    degree: z.string(),
+    field: z.string(),
+    institution: z.string(),
+    year: z.number().nullable(),
+  })),
+  experiences: z.array(z.object({
+    title: z.string(),
+    company: z.string(),
+    duration: z.string(),
+    description: z.string().nullable(),
+  })),
+  certifications: z.array(z.string()),
+  languages: z.array(z.string()),
+});
+
+export async function extractFromCVText(cvText: string, userId?: number): Promise<ExtractionResult> {
   if (!cvText || cvText.trim().length < 50) {
     return { success: false, error: "Le texte du CV est trop court ou vide", confidence: 0 };
   }
 
-  try {
-    const response = await invokeLLM({
-      messages: [
-        {
-          role: "system",
-          content: `Tu es un expert en extraction d'informations de CV. Analyse le texte fourni et extrais les informations structurées.
+  const result = await invokeStructuredLLM({
+    useCase: "cv_extraction",
+    context: { userId },
+    messages: [
+      {
+        role: "system",
+        content: `Tu es un expert en extraction d'informations de CV. Analyse le texte fourni et extrais les informations structurées.
 Retourne UNIQUEMENT un JSON valide avec cette structure :
 {
-  "currentRole": "Titre actuel",
-  "company": "Entreprise actuelle",
-  "yearsExperience": nombre,
-  "industries": ["industrie1", "industrie2"],
-  "skills": ["compétence1", "compétence2"],
-  "education": [{"degree": "Diplôme", "field": "Domaine", "institution": "École", "year": 2020}],
-  "experiences": [{"title": "Poste", "company": "Entreprise", "duration": "2020-2023", "description": "Description"}],
-  "certifications": ["certification1"],
-  "languages": ["Français", "Anglais"]
+"currentRole": "Titre actuel",
+"company": "Entreprise actuelle",
+"yearsExperience": nombre,
+"industries": ["industrie1", "industrie2"],
+"skills": ["compétence1", "compétence2"],
+"education": [{"degree": "Diplôme", "field": "Domaine", "institution": "École", "year": 2020}],
+"experiences": [{"title": "Poste", "company": "Entreprise", "duration": "2020-2023", "description": "Description"}],
+"certifications": ["certification1"],
+"languages": ["Français", "Anglais"]
 }`
-        },
-        { role: "user", content: `Analyse ce CV :\n\n${cvText.substring(0, 8000)}` }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "cv_extraction",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              currentRole: { type: ["string", "null"] },
-              company: { type: ["string", "null"] },
-              yearsExperience: { type: ["number", "null"] },
-              industries: { type: "array", items: { type: "string" } },
-              skills: { type: "array", items: { type: "string" } },
-              education: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    degree: { type: "string" },
-                    field: { type: "string" },
-                    institution: { type: "string" },
-                    year: { type: ["number", "null"] }
-                  },
-                  required: ["degree", "field", "institution"],
-                  additionalProperties: false
-                }
-              },
-              experiences: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    title: { type: "string" },
-                    company: { type: "string" },
-                    duration: { type: "string" },
-                    description: { type: ["string", "null"] }
-                  },
-                  required: ["title", "company", "duration"],
-                  additionalProperties: false
-                }
-              },
-              certifications: { type: "array", items: { type: "string" } },
-              languages: { type: "array", items: { type: "string" } }
-            },
-            required: ["industries", "skills", "education", "experiences", "certifications", "languages"],
-            additionalProperties: false
-          }
-        }
-      }
-    });
-
-    const messageContent = response.choices[0]?.message?.content;
-    const content = typeof messageContent === 'string' ? messageContent : '';
-    if (!content) {
-      return { success: false, error: "Pas de réponse du LLM", confidence: 0 };
-    }
-
-    const extracted = JSON.parse(content);
-    const profile: ProfessionalProfile = {
-      currentRole: extracted.currentRole || undefined,
-      company: extracted.company || undefined,
-      yearsExperience: extracted.yearsExperience || undefined,
-      industries: extracted.industries || [],
-      skills: extracted.skills || [],
-      education: extracted.education || [],
-      experiences: extracted.experiences || [],
-      certifications: extracted.certifications || [],
-      languages: extracted.languages || [],
-      source: 'cv',
-      lastUpdated: new Date().toISOString()
-    };
+      },
+      { role: "user", content: `Analyse ce CV :\n\n${cvText.substring(0, 8000)}` }
+    ],
+    schemaName: "cv_extraction",
+    schema: cvExtractionSchema,
+  });
 
-    // Calculer la confiance
-    let confidence = 0;
-    if (profile.currentRole) confidence += 15;
-    if (profile.company) confidence += 10;
-    if (profile.skills.length >= 5) confidence += 20;
-    else if (profile.skills.length > 0) confidence += 10;
-    if (profile.education.length > 0) confidence += 15;
-    if (profile.experiences.length >= 2) confidence += 15;
-    else if (profile.experiences.length > 0) confidence += 8;
-    if (profile.languages.length > 0) confidence += 5;
-    if (profile.yearsExperience) confidence += 10;
-
-    return { success: true, profile, confidence: Math.min(95, confidence) };
-  } catch (error) {
-    console.error("[ProfessionalProfile] Extraction error:", error);
+  if (!result.ok) {
+    console.error("[ProfessionalProfile] Extraction error:", result.error);
     return {
       success: false,
-      error: `Erreur lors de l'extraction: ${error instanceof Error ? error.message : 'Erreur inconnue'}`,
+      error: result.error.code === "LLM_UNAVAILABLE"
+        ? "Pas de réponse du LLM"
+        : `Erreur lors de l'extraction: ${result.error.message}`,
       confidence: 0
     };
   }
+
+  const extracted = result.data;
+  const profile: ProfessionalProfile = {
+    currentRole: extracted.currentRole || undefined,
+    company: extracted.company || undefined,
+    yearsExperience: extracted.yearsExperience || undefined,
+    industries: extracted.industries,
+    skills: extracted.skills,
+    education: extracted.education.map(e => ({ ...e, year: e.year ?? undefined })),
+    experiences: extracted.experiences.map(e => ({ ...e, description: e.description ?? undefined })),
+    certifications: extracted.certifications,
+    languages: extracted.languages,
+    source: 'cv',
+    lastUpdated: new Date().toISOString()
+  };
+
+  // Calculer la confiance
+  let confidence = 0;
+  if (profile.currentRole) confidence += 15;
+  if (profile.company) confidence += 10;
+  if (profile.skills.length >= 5) confidence += 20;
+  else if (profile.skills.length > 0) confidence += 10;
+  if (profile.education.length > 0) confidence += 15;
+  if (profile.experiences.length >= 2) confidence += 15;
+  else if (profile.experiences.length > 0) confidence += 8;
+  if (profile.languages.length > 0) confidence += 5;
+  if (profile.yearsExperience) confidence += 10;
+
+  return { success: true, profile, confidence: Math.min(95, confidence) };
 }
 
 export function calculateProfileCompleteness(profile: ProfessionalProfile | null): number {
@@ -1,6 +1,8 @@
 // Real-time Analysis Module for AI TeamPlay Engine
-import { invokeLLM } from "./_core/llm";
-import { detectBiasKeywords, generateSmartPing, BiasIndicator } from "./biasDetection";
+import { z } from "zod";
+import type { LLMCallContext } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
+import { BIAS_TYPES, detectBiasKeywords, generateSmartPing, BiasIndicator } from "./biasDetection";
 
 // ==================== TYPES ====================
 export interface SentimentResult {
@@ -74,6 +76,8 @@ export interface FullAnalysisResult {
   triggeredPings: SmartPing[];
   teamMetrics?: TeamMetrics;
   processingTime: number;
+  // Analyse LLM demandée mais remplacée par l'analyse locale
+  degraded?: "budget_exceeded" | "llm_unavailable";
 }
 
 // ==================== SENTIMENT ANALYSIS ====================
@@ -623,7 +627,45 @@ export function evaluatePingTriggers(
 }
 
 // ==================== FULL ANALYSIS WITH LLM ====================
-export async function analyzeWithLLM(text: string, teamMessages?: Array<{ content: string; authorId: string; timestamp: number }>): Promise<FullAnalysisResult> {
+const unitInterval = z.number().min(0).max(1);
+
+// Expected LLM output, also sent to the model as its response format
+const cognitiveAnalysisSchema = z.object({
+  sentiment: z.object({
+    score: z.number().min(-1).max(1),
+    label: z.enum(["very_negative", "negative", "neutral", "positive", "very_positive"]),
+    confidence: unitInterval,
+  }),
+  cognitive: z.object({
+    patterns: z.array(z.string()),
+    thinkingStyle: z.enum(["analytical", "intuitive", "creative", "critical", "mixed"]),
+    reasoningQuality: unitInterval,
+    biasRisk: unitInterval,
+  }),
+  psychological: z.object({
+    stress: unitInterval,
+    confidence: unitInterval,
+    engagement: unitInterval,
+    openness: unitInterval,
+    dominantEmotion: z.string(),
+    emotionalStability: unitInterval,
+  }),
+  biases: z.array(
+    z.object({
+      type: z.enum(BIAS_TYPES),
+      confidence: unitInterval,
+      evidence: z.array(z.string()),
+      suggestion: z.string(),
+      severity: z.enum(["low", "medium", "high"]),
+    })
+  ),
+});
+
+export async function analyzeWithLLM(
+  text: string,
+  teamMessages?: Array<{ content: string; authorId: string; timestamp: number }>,
+  context?: LLMCallContext
+): Promise<FullAnalysisResult> {
   const startTime = Date.now();
   
   // Local analysis first (fast)
@@ -633,153 +675,31 @@ export async function analyzeWithLLM(text: string, teamMessages?: Array<{ conten
   const localBiases = detectBiasKeywords(text);
   const teamMetrics = teamMessages ? analyzeTeamMetrics(teamMessages) : undefined;
   
-  try {
-    // LLM-enhanced analysis
-    const response = await invokeLLM({
-      messages: [
-        {
-          role: "system",
-          content: `Tu es un expert en psychologie cognitive et en dynamique d'équipe. Analyse le texte suivant et retourne un JSON avec:
+  // LLM-enhanced analysis
+  const result = await invokeStructuredLLM({
+    useCase: "analysis",
+    context,
+    messages: [
+      {
+        role: "system",
+        content: `Tu es un expert en psychologie cognitive et en dynamique d'équipe. Analyse le texte suivant et retourne un JSON avec:
 - sentiment: { score: -1 à 1, label: "very_negative"|"negative"|"neutral"|"positive"|"very_positive", confidence: 0-1 }
 - cognitive: { patterns: string[], thinkingStyle: "analytical"|"intuitive"|"creative"|"critical"|"mixed", reasoningQuality: 0-1, biasRisk: 0-1 }
 - psychological: { stress: 0-1, confidence: 0-1, engagement: 0-1, openness: 0-1, dominantEmotion: string, emotionalStability: 0-1 }
 - biases: [{ type: string, confidence: 0-1, evidence: string[], suggestion: string, severity: "low"|"medium"|"high" }]
 
 Sois précis et factuel dans ton analyse.`
-        },
-        {
-          role: "user",
-          content: text
-        }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "cognitive_analysis",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              sentiment: {
-                type: "object",
-                properties: {
-                  score: { type: "number" },
-                  label: { type: "string" },
-                  confidence: { type: "number" }
-                },
-                required: ["score", "label", "confidence"],
-                additionalProperties: false
-              },
-              cognitive: {
-                type: "object",
-                properties: {
-                  patterns: { type: "array", items: { type: "string" } },
-                  thinkingStyle: { type: "string" },
-                  reasoningQuality: { type: "number" },
-                  biasRisk: { type: "number" }
-                },
-                required: ["patterns", "thinkingStyle", "reasoningQuality", "biasRisk"],
-                additionalProperties: false
-              },
-              psychological: {
-                type: "object",
-                properties: {
-                  stress: { type: "number" },
-                  confidence: { type: "number" },
-                  engagement: { type: "number" },
-                  openness: { type: "number" },
-                  dominantEmotion: { type: "string" },
-                  emotionalStability: { type: "number" }
-                },
-                required: ["stress", "confidence", "engagement", "openness", "dominantEmotion", "emotionalStability"],
-                additionalProperties: false
-              },
-              biases: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    type: { type: "string" },
-                    confidence: { type: "number" },
-                    evidence: { type: "array", items: { type: "string" } },
-                    suggestion: { type: "string" },
-                    severity: { type: "string" }
-                  },
-                  required: ["type", "confidence", "evidence", "suggestion", "severity"],
-                  additionalProperties: false
-                }
-              }
-            },
-            required: ["sentiment", "cognitive", "psychological", "biases"],
-            additionalProperties: false
-          }
-        }
-      }
-    });
-    
-    const content = response.choices[0].message.content;
-    const llmResult = JSON.parse(typeof content === 'string' ? content : JSON.stringify(content) || "{}");
-    
-    // Merge local and LLM results
-    const mergedSentiment: SentimentResult = {
-      score: (localSentiment.score + llmResult.sentiment.score) / 2,
-      label: llmResult.sentiment.label || localSentiment.label,
-      confidence: Math.max(localSentiment.confidence, llmResult.sentiment.confidence),
-      emotions: localSentiment.emotions,
-    };
-    
-    const mergedCognitive: CognitiveResult = {
-      patterns: Array.from(new Set([...localCognitive.patterns, ...llmResult.cognitive.patterns])),
-      thinkingStyle: llmResult.cognitive.thinkingStyle || localCognitive.thinkingStyle,
-      reasoningQuality: (localCognitive.reasoningQuality + llmResult.cognitive.reasoningQuality) / 2,
-      biasRisk: Math.max(localCognitive.biasRisk, llmResult.cognitive.biasRisk),
-      suggestions: localCognitive.suggestions,
-    };
-    
-    const mergedPsychological: PsychologicalResult = {
-      stress: (localPsychological.stress + llmResult.psychological.stress) / 2,
-      confidence: (localPsychological.confidence + llmResult.psychological.confidence) / 2,
-      engagement: (localPsychological.engagement + llmResult.psychological.engagement) / 2,
-      openness: (localPsychological.openness + llmResult.psychological.openness) / 2,
-      dominantEmotion: llmResult.psychological.dominantEmotion || localPsychological.dominantEmotion,
-      emotionalStability: (localPsychological.emotionalStability + llmResult.psychological.emotionalStability) / 2,
-      communicationStyle: localPsychological.communicationStyle,
-    };
-    
-    // Merge biases
-    const mergedBiases: BiasIndicator[] = [
-      ...localBiases,
-      ...llmResult.biases.map((b: any) => ({
-        type: b.type,
-        confidence: b.confidence,
-        evidence: b.evidence,
-        suggestion: b.suggestion,
-        severity: b.severity as "low" | "medium" | "high",
-      }))
-    ];
-    
-    // Deduplicate biases by type
-    const biasMap = new Map<string, BiasIndicator>();
-    for (const bias of mergedBiases) {
-      const existing = biasMap.get(bias.type);
-      if (!existing || existing.confidence < bias.confidence) {
-        biasMap.set(bias.type, bias);
+      },
+      {
+        role: "user",
+        content: text
       }
-    }
-    const uniqueBiases = Array.from(biasMap.values());
-    
-    const triggeredPings = evaluatePingTriggers(mergedSentiment, mergedCognitive, mergedPsychological, uniqueBiases, teamMetrics);
-    
-    return {
-      sentiment: mergedSentiment,
-      cognitive: mergedCognitive,
-      psychological: mergedPsychological,
-      biases: uniqueBiases,
-      triggeredPings,
-      teamMetrics,
-      processingTime: Date.now() - startTime,
-    };
-  } catch (error) {
+    ],
+    schemaName: "cognitive_analysis",
+    schema: cognitiveAnalysisSchema,
+  });
+
+  if (!result.ok) {
     // Fallback to local analysis only
     const triggeredPings = evaluatePingTriggers(localSentiment, localCognitive, localPsychological, localBiases, teamMetrics);
     
@@ -791,8 +711,71 @@ Sois précis et factuel dans ton analyse.`
       triggeredPings,
       teamMetrics,
       processingTime: Date.now() - startTime,
+      degraded: result.error.code === "BUDGET_EXCEEDED" ? "budget_exceeded" : "llm_unavailable",
     };
   }
+
+  const llmResult = result.data;
+  
+  // Merge local and LLM results
+  const mergedSentiment: SentimentResult = {
+    score: (localSentiment.score + llmResult.sentiment.score) / 2,
+    label: llmResult.sentiment.label || localSentiment.label,
+    confidence: Math.max(localSentiment.confidence, llmResult.sentiment.confidence),
+    emotions: localSentiment.emotions,
+  };
+  
+  const mergedCognitive: CognitiveResult = {
+    patterns: Array.from(new Set([...localCognitive.patterns, ...llmResult.cognitive.patterns])),
+    thinkingStyle: llmResult.cognitive.thinkingStyle || localCognitive.thinkingStyle,
+    reasoningQuality: (localCognitive.reasoningQuality + llmResult.cognitive.reasoningQuality) / 2,
+    biasRisk: Math.max(localCognitive.biasRisk, llmResult.cognitive.biasRisk),
+    suggestions: localCognitive.suggestions,
+  };
+  
+  const mergedPsychological: PsychologicalResult = {
+    stress: (localPsychological.stress + llmResult.psychological.stress) / 2,
+    confidence: (localPsychological.confidence + llmResult.psychological.confidence) / 2,
+    engagement: (localPsychological.engagement + llmResult.psychological.engagement) / 2,
+    openness: (localPsychological.openness + llmResult.psychological.openness) / 2,
+    dominantEmotion: llmResult.psychological.dominantEmotion || localPsychological.dominantEmotion,
+    emotionalStability: (localPsychological.emotionalStability + llmResult.psychological.emotionalStability) / 2,
+    communicationStyle: localPsychological.communicationStyle,
+  };
+  
+  // Merge biases
+  const mergedBiases: BiasIndicator[] = [
+    ...localBiases,
+    ...llmResult.biases.map((b) => ({
+      type: b.type,
+      confidence: b.confidence,
+      evidence: b.evidence,
+      severity: b.severity,
+      recommendation: b.suggestion,
+    }))
+  ];
+  
+  // Deduplicate biases by type
+  const biasMap = new Map<string, BiasIndicator>();
+  for (const bias of mergedBiases) {
+    const existing = biasMap.get(bias.type);
+    if (!existing || existing.confidence < bias.confidence) {
+      biasMap.set(bias.type, bias);
+    }
+  }
+  const uniqueBiases = Array.from(biasMap.values());
+  
+  const triggeredPings = evaluatePingTriggers(mergedSentiment, mergedCognitive, mergedPsychological, uniqueBiases, teamMetrics);
+  
+  return {
+    sentiment: mergedSentiment,
+    cognitive: mergedCognitive,
+    psychological: mergedPsychological,
+    biases: uniqueBiases,
+    triggeredPings,
+    teamMetrics,
+    processingTime: Date.now() - startTime,
+  };
 }
 
 // ==================== QUICK LOCAL ANALYSIS ====================
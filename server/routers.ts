@@ -1,24 +1,99 @@
-import { COOKIE_NAME } from "@shared/const";
+import { COOKIE_NAME, TEAM_ROLE_ERR_MSG } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { adminProcedure, publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import * as db from "./db";
 import { storagePut } from "./storage";
+import { assertTeamAccess, hasTeamRole, teamProcedure } from "./teamAccess";
 import { nanoid } from "nanoid";
+import type { AudioRecording, Job } from "../drizzle/schema";
 import {
   detectBiasKeywords,
   detectBiasWithLLM,
   analyzeMessage,
-  generateSmartPing,
   calculateCognitiveMetrics,
   BIAS_PATTERNS,
+  BIAS_TYPES,
 } from "./biasDetection";
-import { invokeLLM } from "./_core/llm";
+import {
+  customizeTemplate,
+  getTemplate,
+  listTemplates,
+  suggestTemplate,
+  TEMPLATE_TYPES,
+  type TemplateSelection,
+} from "./cognitiveTemplates";
+import { dispatchBiasPing, dispatchPing, loadPingPolicy } from "./pingDispatcher";
+import {
+  calculateCognitiveTokens,
+  getDueCTPings,
+  markCTPings,
+  type CTPingType,
+} from "./cognitiveTokens";
+import {
+  backfillMemoryEmbeddings,
+  embedStoredMemory,
+  getMemoryPatterns,
+  getMemorySuggestions,
+  searchMemories,
+  withoutEmbedding,
+} from "./memoryIndex";
+import { invokeLLM, LLMBudgetExceededError } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
+import {
+  createMemberJoinedNotification,
+  createPingNotification,
+  notifyTeamMembers,
+  resolvePreferences,
+  NOTIFICATION_TYPES,
+  type NotificationPreferences,
+} from "./notifications";
 import { notifyOwner } from "./_core/notification";
-import { transcribeAudio } from "./_core/voiceTranscription";
+import {
+  analyzeWithCSAW,
+  formatCSAWForDisplay,
+  getCSAWAlertKey,
+  getCSAWEventType,
+  selectNewCSAWAlerts,
+  CSAW_HISTORY_MINUTES,
+} from "./cognitiveWindows";
+import { transcribeAudio, type WhisperSegment } from "./_core/voiceTranscription";
+import { getAudioFileExtension } from "./audioChunking";
+import { attributeSpeakers, diarizeRecording, getMemberParticipation } from "./audioSpeakers";
+import { analyzeSpeechRhythm } from "./speechRhythm";
+import { checkSeriesDominance, checkVocalDominance, getTalkTimeHistory } from "./vocalDominance";
 import { analyzeQuick, analyzeWithLLM, FullAnalysisResult } from "./realtimeAnalysis";
+import { enqueueJob, NonRetryableJobError, registerJobHandler, type JobPayloads } from "./jobQueue";
+import { getTeamBudgetStatus } from "./llmUsage";
+import {
+  detectDocumentFormat,
+  markDocumentExtractionFailed,
+  processDocument,
+  queueDocumentExtraction,
+} from "./documentExtraction";
+import { diffDocumentTexts, getDocumentRootId, getNextVersionNumber } from "./documentVersions";
+import {
+  applyDecisionStatusEffects,
+  DECISION_STATUS_MIN_ROLE,
+  getAvailableTransitions,
+  recordDecisionCreated,
+  transitionDecision,
+} from "./decisionLifecycle";
+import {
+  assertVotingConfig,
+  canReviseBallot,
+  closeDecisionVote,
+  closeVoteAtDeadline,
+  getVotingConfig,
+  getVotingOptions,
+  normalizeBallot,
+  presentVotes,
+  scheduleVoteClosing,
+} from "./decisionVoting";
+import { detectContradictions, recordContradictions } from "./contradictionDetection";
+import { extractHypotheses, setHypothesisStatus, warnIfDecidedOnUntested } from "./hypotheses";
 import {
   generateSmartSummary,
   filterSignificantBiases,
@@ -41,56 +116,35 @@ import {
   type ProfessionalProfile,
 } from "./professionalProfile";
 
-// ==================== COGNITIVE TOKENS SYSTEM ====================
+// ==================== COGNITIVE TEMPLATES ====================
 
-// CT Thresholds for triggering different ping types
-const CT_THRESHOLDS = {
-  bias: { min: 120, max: 200 },           // Biais cognitifs
-  groupthink: { min: 150, max: 250 },     // Groupthink
-  dominance: { min: 80, max: 150 },       // Dominance
-  cognitivelock: { min: 200, max: 300 },  // Verrouillage cognitif
+// Templates are applied to a team (admins) or to a single project (members)
+const templateTargetShape = {
+  teamId: z.number().optional(),
+  projectId: z.number().optional(),
 };
 
-// Calculate Cognitive Tokens based on message complexity
-function calculateCognitiveTokens(text: string): number {
-  const wordCount = text.split(/\s+/).filter(w => w.length > 0).length;
-  const lineCount = text.split('\n').filter(l => l.trim().length > 0).length;
-  const hasStructure = /^[-*\d]+\.?\s/m.test(text); // Lists, numbered points
-  const hasQuestions = (text.match(/\?/g) || []).length;
-  const hasConclusion = /donc|ainsi|en conclusion|par conséquent|finalement/i.test(text);
-  const hasArguments = /parce que|car|puisque|en effet|d'une part|d'autre part/i.test(text);
-  const isDecision = /décidé|décision|validé|approuvé|rejeté|adopté/i.test(text);
-  const isAgreement = /^(ok|d'accord|oui|non|je suis d'accord|parfait|entendu)$/i.test(text.trim());
-
-  // Simple agreement = 1 CT
-  if (isAgreement || wordCount <= 5) {
-    return 1;
-  }
+function hasSingleTemplateTarget(target: { teamId?: number; projectId?: number }) {
+  return (target.teamId === undefined) !== (target.projectId === undefined);
+}
 
-  // Base CT calculation
-  let ct = Math.ceil(wordCount / 15); // ~1 CT per 15 words
-
-  // Bonuses for complexity
-  if (hasStructure) ct += 2;
-  if (hasQuestions >= 2) ct += 1;
-  if (hasConclusion) ct += 2;
-  if (hasArguments) ct += 2;
-  if (isDecision) ct += 4;
-  if (lineCount >= 5) ct += Math.floor(lineCount / 5);
-
-  // Cap based on message type
-  if (isDecision) {
-    return Math.min(Math.max(ct, 6), 10); // 6-10 CT for decisions
-  } else if (lineCount >= 10 || wordCount >= 150) {
-    return Math.min(Math.max(ct, 8), 12); // 8-12 CT for long strategic analysis
-  } else if (lineCount >= 5 || wordCount >= 50) {
-    return Math.min(Math.max(ct, 4), 6); // 4-6 CT for structured arguments
+async function saveTemplateSelection(
+  userId: number,
+  target: { teamId?: number; projectId?: number },
+  selection: TemplateSelection
+): Promise<void> {
+  if (target.projectId !== undefined) {
+    await assertTeamAccess(userId, "project", target.projectId);
+    await db.updateProject(target.projectId, selection);
+  } else if (target.teamId !== undefined) {
+    await assertTeamAccess(userId, "team", target.teamId, "admin");
+    await db.updateTeam(target.teamId, selection);
   }
-
-  return Math.min(ct, 12); // Max 12 CT per message
 }
 
-// Check CT thresholds and trigger appropriate pings
+// ==================== COGNITIVE TOKENS SYSTEM ====================
+
+// Check CT propagation cycles and trigger the pings that are due
 async function checkAndTriggerCTPings(
   projectId: number,
   totalCT: number,
@@ -110,61 +164,317 @@ async function checkAndTriggerCTPings(
     return;
   }
 
-  const lastPingCT = (project as any).lastPingCT || 0;
-  const triggeredPings: string[] = [];
-
-  // Check each threshold
-  for (const [pingType, threshold] of Object.entries(CT_THRESHOLDS)) {
-    const shouldTrigger = totalCT >= threshold.min && 
-                          totalCT <= threshold.max && 
-                          lastPingCT < threshold.min;
-    
-    if (shouldTrigger) {
-      let message = '';
-      let severity: 'info' | 'warning' | 'critical' = 'warning';
-
-      switch (pingType) {
-        case 'bias':
-          if (analysis?.biases && analysis.biases.length > 0) {
-            message = `Bias Ping : Après ${totalCT} CT d'échanges, des schémas de biais cognitifs ont été détectés. Risque de verrouillage cognitif élevé.`;
-            severity = 'critical';
-            triggeredPings.push('bias');
-          }
-          break;
-        case 'groupthink':
-          message = `Antifragility Ping : Après ${totalCT} CT, niveau de contradiction interne anormalement bas. Challenger l'hypothèse centrale recommandé.`;
-          severity = 'warning';
-          triggeredPings.push('antifragility');
-          break;
-        case 'dominance':
-          message = `Balance Ping : Après ${totalCT} CT d'échanges, vérifiez la distribution des contributions. La performance optimale nécessite une participation équilibrée.`;
-          severity = 'info';
-          triggeredPings.push('balance');
-          break;
-        case 'cognitivelock':
-          message = `Vision Ping : Après ${totalCT} CT, l'espace de solutions exploré se rétrécit. Dans 70% des cas similaires, cela limite l'innovation.`;
-          severity = 'warning';
-          triggeredPings.push('vision');
-          break;
-      }
+  const marks = project.lastPingCTByType ?? {};
+  const triggered: CTPingType[] = [];
+
+  // The dispatcher applies the project's template, cooldowns and session cap
+  const policy = await loadPingPolicy(project);
+
+  // Each ping type re-arms every cycle since it last fired
+  for (const pingType of getDueCTPings(totalCT, marks)) {
+    let message = '';
+    let notificationType = '';
+    let severity: 'info' | 'warning' | 'critical' = 'warning';
 
-      if (message) {
-        await db.createMessage({
+    switch (pingType) {
+      case 'bias':
+        if (analysis?.biases && analysis.biases.length > 0) {
+          message = `Bias Ping : Après ${totalCT} CT d'échanges, des schémas de biais cognitifs ont été détectés. Risque de verrouillage cognitif élevé.`;
+          severity = 'critical';
+          notificationType = 'bias';
+        }
+        break;
+      case 'groupthink':
+        message = `Antifragility Ping : Après ${totalCT} CT, niveau de contradiction interne anormalement bas. Challenger l'hypothèse centrale recommandé.`;
+        severity = 'warning';
+        notificationType = 'antifragility';
+        break;
+      case 'dominance':
+        message = `Balance Ping : Après ${totalCT} CT d'échanges, vérifiez la distribution des contributions. La performance optimale nécessite une participation équilibrée.`;
+        severity = 'info';
+        notificationType = 'balance';
+        break;
+      case 'cognitivelock':
+        message = `Vision Ping : Après ${totalCT} CT, l'espace de solutions exploré se rétrécit. Dans 70% des cas similaires, cela limite l'innovation.`;
+        severity = 'warning';
+        notificationType = 'vision';
+        break;
+    }
+
+    if (message) {
+      triggered.push(pingType);
+      await dispatchPing(
+        {
           projectId,
+          pingType,
           content: message,
-          type: 'smart_ping',
-          metadata: { pingType, severity, ctTrigger: totalCT },
-        });
-      }
+          severity,
+          metadata: { ctTrigger: totalCT },
+          notification: createPingNotification(notificationType, message, severity),
+        },
+        policy
+      );
     }
   }
 
-  // Update last ping CT if any pings were triggered
-  if (triggeredPings.length > 0) {
-    await db.updateProjectLastPingCT(projectId, totalCT);
+  // Restart the cycle of every triggered ping (suppressed ones included,
+  // they are kept for audit and must not be retried on every message)
+  if (triggered.length > 0) {
+    await db.updateProjectLastPingCT(projectId, markCTPings(marks, triggered, totalCT));
+  }
+}
+
+// ==================== AUDIO DIARIZATION ====================
+
+// Attribute transcribed segments to speakers. Best-effort: a diarization
+// failure must not fail the transcription itself.
+async function diarizeTranscribedAudio(
+  audio: Pick<AudioRecording, "id" | "projectId" | "speakerMapping">,
+  segments: WhisperSegment[],
+  teamId: number
+): Promise<void> {
+  try {
+    const teamMembers = await db.getTeamMembers(teamId);
+    await diarizeRecording(audio, segments, teamMembers.length || undefined);
+    // Dominant or silent speakers raise Balance / Silence pings
+    await checkVocalDominance(audio, teamId);
+  } catch (error) {
+    console.error("[Audio] Diarization failed:", audio.id, error);
   }
 }
 
+// ==================== BACKGROUND JOBS ====================
+
+// Metrics are recomputed at most once per window and per project
+const METRICS_RECOMPUTE_WINDOW_MS = 5 * 60 * 1000;
+
+async function recomputeCognitiveMetrics(projectId: number) {
+  const messagesData = await db.getMessagesByProjectId(projectId, 100);
+  const decisions = await db.getDecisionsByProjectId(projectId);
+
+  const messages = messagesData.map((m) => ({
+    content: m.message.content,
+    userId: m.message.userId || 0,
+    createdAt: m.message.createdAt,
+  }));
+
+  const metrics = calculateCognitiveMetrics(
+    messages,
+    decisions.map((d) => ({
+      status: d.status,
+      biasesDetected: d.biasesDetected || undefined,
+    }))
+  );
+
+  await db.createCognitiveMetric({
+    projectId,
+    ...metrics,
+  });
+
+  return metrics;
+}
+
+// The idempotency key coalesces every request of the same window into one
+// job, run when the window closes
+async function scheduleMetricsRecompute(projectId: number): Promise<void> {
+  const window = Math.floor(Date.now() / METRICS_RECOMPUTE_WINDOW_MS);
+  await enqueueJob(
+    "metrics_recompute",
+    { projectId },
+    {
+      idempotencyKey: `metrics_recompute:${projectId}:${window}`,
+      runAt: new Date((window + 1) * METRICS_RECOMPUTE_WINDOW_MS),
+    }
+  );
+}
+
+// Transcribe and analyze an uploaded recording. Transient failures are thrown
+// so the queue retries them; the recording is marked failed once dead-lettered.
+async function runAudioTranscription({ audioId, teamId, messageId, mimeType }: JobPayloads["audio_transcription"]) {
+  const audio = await db.getAudioRecordingById(audioId);
+  if (!audio) throw new NonRetryableJobError(`Audio ${audioId} not found`);
+
+  const audioMessage = messageId ? await db.getMessageById(messageId) : await db.getMessageByAudioId(audioId);
+  const { transcriptionProgress: _progress, ...baseMetadata } = audioMessage?.metadata || {};
+  const updateAudioMessage = async (data: { content?: string; metadata: NonNullable<typeof audioMessage>["metadata"] }) => {
+    if (!audioMessage) return;
+    await db.updateMessage(audioMessage.id, { ...data, metadata: { ...baseMetadata, ...data.metadata } });
+  };
+
+  await db.updateAudioRecording(audioId, { transcriptionStatus: "processing" });
+  await updateAudioMessage({ metadata: { transcriptionStatus: "processing" } });
+
+  const result = await transcribeAudio({
+    audioUrl: audio.fileUrl,
+    language: "fr",
+    mimeType,
+    durationSeconds: audio.duration ?? undefined,
+    // Long recordings are transcribed in chunks: report progress
+    onProgress: (progress) =>
+      updateAudioMessage({ metadata: { transcriptionStatus: "processing", transcriptionProgress: progress } }),
+  });
+
+  if ('error' in result) {
+    // Retrying cannot fix a file the service refuses
+    if (result.code === "FILE_TOO_LARGE" || result.code === "INVALID_FORMAT") {
+      throw new NonRetryableJobError(result.error);
+    }
+    throw new Error(result.error);
+  }
+
+  // Analyze the transcription
+  const analysis = await analyzeWithLLM(result.text, undefined, {
+    teamId,
+    projectId: audio.projectId,
+    userId: audio.userId,
+  });
+
+  await db.updateAudioRecording(audioId, {
+    transcription: result.text,
+    transcriptionStatus: "completed",
+    analysis: {
+      sentiment: analysis.sentiment,
+      emotions: analysis.sentiment.emotions.map((e) => ({
+        emotion: e.emotion,
+        confidence: e.intensity,
+      })),
+      cognitivePatterns: analysis.cognitive.patterns,
+      biasIndicators: analysis.biases.map((b) => ({
+        type: b.type,
+        confidence: b.confidence,
+        evidence: b.evidence.join(", "),
+      })),
+      psychologicalState: {
+        stress: analysis.psychological.stress,
+        confidence: analysis.psychological.confidence,
+        engagement: analysis.psychological.engagement,
+      },
+      keyTopics: [],
+    },
+  });
+
+  await diarizeTranscribedAudio(audio, result.segments, teamId);
+
+  // Update the chat message with transcription
+  await updateAudioMessage({
+    content: result.text,
+    metadata: {
+      transcription: result.text,
+      transcriptionStatus: "completed",
+      analysisResult: {
+        sentiment: analysis.sentiment,
+        biases: analysis.biases,
+        cognitivePatterns: analysis.cognitive.patterns,
+      },
+    },
+  });
+
+  // Cognitive tokens are counted once: past this point a failure must not
+  // make the queue run the job again
+  try {
+    if (analysis.biases.length > 0) {
+      await db.createCognitiveEvent({
+        projectId: audio.projectId,
+        type: "bias_detected",
+        severity: analysis.biases.some((b) => b.severity === "high") ? "critical" : "warning",
+        title: `Biais détecté dans enregistrement vocal`,
+        description: `${analysis.biases.length} biais cognitif(s) détecté(s) dans la transcription`,
+        data: { biases: analysis.biases, audioId },
+      });
+    }
+
+    // Same cooldowns, dedupe and notifications as every other ping source
+    if (analysis.triggeredPings.length > 0) {
+      const project = await db.getProjectById(audio.projectId);
+      const policy = project ? await loadPingPolicy(project) : { template: null };
+      for (const ping of analysis.triggeredPings) {
+        await dispatchPing(
+          {
+            projectId: audio.projectId,
+            pingType: ping.type,
+            content: ping.message,
+            severity: ping.severity,
+            metadata: { audioId },
+            notification: createPingNotification(ping.type, ping.message, ping.severity),
+          },
+          policy
+        );
+      }
+    }
+
+    const ctValue = calculateCognitiveTokens(result.text);
+    const totalCT = await db.incrementProjectCognitiveTokens(audio.projectId, ctValue);
+    if (totalCT) {
+      await checkAndTriggerCTPings(audio.projectId, totalCT, analysis);
+    }
+    await scheduleMetricsRecompute(audio.projectId);
+  } catch (error) {
+    console.error("[Audio] Post-transcription processing failed:", audioId, error);
+  }
+}
+
+registerJobHandler("audio_transcription", {
+  run: runAudioTranscription,
+  onDead: async ({ audioId, messageId }) => {
+    await db.updateAudioRecording(audioId, { transcriptionStatus: "failed" });
+    const audioMessage = messageId ? await db.getMessageById(messageId) : await db.getMessageByAudioId(audioId);
+    if (audioMessage) {
+      const { transcriptionProgress: _progress, ...metadata } = audioMessage.metadata || {};
+      await db.updateMessage(audioMessage.id, { metadata: { ...metadata, transcriptionStatus: "failed" } });
+    }
+  },
+});
+
+// Full LLM analysis of a message that reached a CT propagation cycle
+registerJobHandler("message_analysis", {
+  run: async ({ projectId, messageId, totalCT }) => {
+    const message = await db.getMessageById(messageId);
+    if (!message) throw new NonRetryableJobError(`Message ${messageId} not found`);
+    const fullAnalysis = await analyzeWithLLM(message.content, undefined, {
+      projectId,
+      userId: message.userId ?? undefined,
+    });
+    await checkAndTriggerCTPings(projectId, totalCT, fullAnalysis);
+  },
+});
+
+registerJobHandler("memory_embedding", {
+  run: async ({ memoryId }) => {
+    if (!(await embedStoredMemory(memoryId))) {
+      throw new NonRetryableJobError(`Memory ${memoryId} not found`);
+    }
+  },
+});
+
+registerJobHandler("metrics_recompute", {
+  run: async ({ projectId }) => {
+    await recomputeCognitiveMetrics(projectId);
+  },
+});
+
+registerJobHandler("document_extraction", {
+  run: ({ documentId }) => processDocument(documentId),
+  onDead: ({ documentId }, error) => markDocumentExtractionFailed(documentId, error),
+});
+
+registerJobHandler("decision_vote_close", {
+  run: ({ decisionId, deadline }) => closeVoteAtDeadline(decisionId, deadline),
+});
+
+// ==================== DECISION EXTRACTION ====================
+
+// Expected LLM output, also sent to the model as its response format
+const extractedDecisionsSchema = z.object({
+  decisions: z.array(z.object({
+    title: z.string(),
+    description: z.string(),
+    type: z.enum(["strategic", "tactical", "operational", "technical"]),
+    status: z.enum(["proposed", "discussing", "decided"]),
+    rationale: z.string(),
+    confidenceLevel: z.number().min(0).max(1),
+  })),
+});
+
 export const appRouter = router({
   system: systemRouter,
 
@@ -206,6 +516,71 @@ export const appRouter = router({
       }),
   }),
 
+  // ==================== NOTIFICATION ROUTES ====================
+  notifications: router({
+    getPreferences: protectedProcedure.query(({ ctx }) => {
+      return resolvePreferences(
+        ctx.user.notificationPreferences as Partial<NotificationPreferences> | null
+      );
+    }),
+
+    updatePreferences: protectedProcedure
+      .input(
+        z.object({
+          enabled: z.boolean(),
+          allowedTypes: z.array(z.enum(NOTIFICATION_TYPES)),
+          minPriority: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]),
+          silent: z.boolean(),
+          quietHours: z
+            .string()
+            .regex(/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/)
+            .optional(),
+          timezone: z.string().max(64).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        await db.updateUserNotificationPreferences(ctx.user.id, input);
+        return resolvePreferences(input);
+      }),
+
+    list: protectedProcedure
+      .input(
+        z.object({
+          status: z.enum(["unread", "read", "archived"]).optional(),
+          cursor: z.number().optional(),
+          limit: z.number().min(1).max(100).default(20),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const items = await db.getInboxNotifications(ctx.user.id, input);
+        const nextCursor = items.length === input.limit ? items[items.length - 1].id : undefined;
+        return { items, nextCursor };
+      }),
+
+    unreadCount: protectedProcedure.query(async ({ ctx }) => {
+      return db.countUnreadInboxNotifications(ctx.user.id);
+    }),
+
+    markRead: protectedProcedure
+      .input(z.object({ ids: z.array(z.number()).min(1).max(100) }))
+      .mutation(async ({ ctx, input }) => {
+        await db.markInboxNotificationsRead(ctx.user.id, input.ids);
+        return { success: true };
+      }),
+
+    markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+      await db.markAllInboxNotificationsRead(ctx.user.id);
+      return { success: true };
+    }),
+
+    archive: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.archiveInboxNotification(ctx.user.id, input.id);
+        return { success: true };
+      }),
+  }),
+
   // ==================== TEAM ROUTES ====================
   team: router({
     create: protectedProcedure
@@ -233,13 +608,13 @@ export const appRouter = router({
       return db.getTeamsByUserId(ctx.user.id);
     }),
 
-    get: protectedProcedure
+    get: teamProcedure("team", "id")
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
         return db.getTeamById(input.id);
       }),
 
-    update: protectedProcedure
+    update: teamProcedure("team", "id", "admin")
       .input(
         z.object({
           id: z.number(),
@@ -260,20 +635,20 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: teamProcedure("team", "id", "owner")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         await db.deleteTeam(input.id);
         return { success: true };
       }),
 
-    getMembers: protectedProcedure
+    getMembers: teamProcedure("team", "teamId")
       .input(z.object({ teamId: z.number() }))
       .query(async ({ input }) => {
         return db.getTeamMembers(input.teamId);
       }),
 
-    addMember: protectedProcedure
+    addMember: teamProcedure("team", "teamId", "admin")
       .input(
         z.object({
           teamId: z.number(),
@@ -281,20 +656,35 @@ export const appRouter = router({
           role: z.enum(["owner", "admin", "member"]).default("member"),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        // Only an owner can hand out ownership
+        if (input.role === "owner" && !hasTeamRole(ctx.access.role, "owner")) {
+          throw new TRPCError({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+        }
         await db.addTeamMember(input);
         return { success: true };
       }),
 
-    removeMember: protectedProcedure
+    removeMember: teamProcedure("team", "teamId", "admin")
       .input(z.object({ teamId: z.number(), userId: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        const membership = await db.getTeamMembership(input.teamId, input.userId);
+        if (!membership) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+        }
+        if (membership.role === "owner") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The team owner cannot be removed" });
+        }
+        // Admins can remove members, only the owner can remove another admin
+        if (membership.role === "admin" && !hasTeamRole(ctx.access.role, "owner")) {
+          throw new TRPCError({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+        }
         await db.removeTeamMember(input.teamId, input.userId);
         return { success: true };
       }),
 
     // Invitation routes
-    createInvitation: protectedProcedure
+    createInvitation: teamProcedure("team", "teamId", "admin")
       .input(
         z.object({
           teamId: z.number(),
@@ -325,7 +715,7 @@ export const appRouter = router({
         };
       }),
 
-    getInvitations: protectedProcedure
+    getInvitations: teamProcedure("team", "teamId", "admin")
       .input(z.object({ teamId: z.number() }))
       .query(async ({ input }) => {
         return db.getTeamInvitationsByTeamId(input.teamId);
@@ -340,6 +730,14 @@ export const appRouter = router({
       .input(z.object({ inviteCode: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const teamId = await db.acceptTeamInvitation(input.inviteCode, ctx.user.id);
+        const team = await db.getTeamById(teamId);
+        if (team) {
+          await notifyTeamMembers(
+            teamId,
+            createMemberJoinedNotification(ctx.user.name || "Un membre", team.name, teamId),
+            { excludeUserId: ctx.user.id }
+          );
+        }
         return { success: true, teamId };
       }),
 
@@ -350,7 +748,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    deleteInvitation: protectedProcedure
+    deleteInvitation: teamProcedure("invitation", "id", "admin")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         await db.deleteTeamInvitation(input.id);
@@ -369,13 +767,14 @@ export const appRouter = router({
 
   // ==================== PROJECT ROUTES ====================
   project: router({
-    create: protectedProcedure
+    create: teamProcedure("team", "teamId")
       .input(
         z.object({
           teamId: z.number(),
           name: z.string().min(1).max(255),
           description: z.string().optional(),
           goals: z.array(z.string()).optional(),
+          templateType: z.enum(TEMPLATE_TYPES).optional(),
         })
       )
       .mutation(async ({ input }) => {
@@ -384,6 +783,7 @@ export const appRouter = router({
           name: input.name,
           description: input.description,
           goals: input.goals,
+          templateType: input.templateType,
           cognitiveHealth: {
             diversityIndex: 0.5,
             criticalThinkingScore: 0.5,
@@ -395,19 +795,19 @@ export const appRouter = router({
         return { id: projectId };
       }),
 
-    list: protectedProcedure
+    list: teamProcedure("team", "teamId")
       .input(z.object({ teamId: z.number() }))
       .query(async ({ input }) => {
         return db.getProjectsByTeamId(input.teamId);
       }),
 
-    get: protectedProcedure
+    get: teamProcedure("project", "id")
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
         return db.getProjectById(input.id);
       }),
 
-    update: protectedProcedure
+    update: teamProcedure("project", "id")
       .input(
         z.object({
           id: z.number(),
@@ -425,14 +825,14 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: teamProcedure("project", "id", "admin")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         await db.deleteProject(input.id);
         return { success: true };
       }),
 
-    getCognitiveHealth: protectedProcedure
+    getCognitiveHealth: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .query(async ({ input }) => {
         const project = await db.getProjectById(input.projectId);
@@ -444,9 +844,96 @@ export const appRouter = router({
       }),
   }),
 
+  // ==================== TEMPLATE ROUTES ====================
+  template: router({
+    list: protectedProcedure.query(() => {
+      return listTemplates();
+    }),
+
+    suggest: teamProcedure("team", "teamId")
+      .input(
+        z.object({
+          teamId: z.number(),
+          industry: z.string().optional(),
+          phase: z.enum(["early", "growth", "mature"]).optional(),
+          focus: z.enum(["innovation", "quality", "efficiency"]).optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        const { teamId, ...characteristics } = input;
+        const members = await db.getTeamMembers(teamId);
+        const templateId = suggestTemplate({ teamSize: members.length, ...characteristics });
+        return { templateId, template: getTemplate(templateId) };
+      }),
+
+    // Applies a predefined template ("apply" is a reserved procedure name in tRPC)
+    select: protectedProcedure
+      .input(
+        z
+          .object({ ...templateTargetShape, templateId: z.enum(TEMPLATE_TYPES) })
+          .refine(hasSingleTemplateTarget, { message: "Provide either teamId or projectId" })
+      )
+      .mutation(async ({ ctx, input }) => {
+        await saveTemplateSelection(ctx.user.id, input, {
+          templateType: input.templateId,
+          customTemplate: null,
+        });
+        return getTemplate(input.templateId);
+      }),
+
+    customize: protectedProcedure
+      .input(
+        z
+          .object({
+            ...templateTargetShape,
+            baseTemplateId: z.enum(TEMPLATE_TYPES),
+            customizations: z.object({
+              biasConfig: z
+                .object({
+                  priorityBiases: z.array(z.enum(BIAS_TYPES)),
+                  ignoredBiases: z.array(z.enum(BIAS_TYPES)),
+                  alertThreshold: z.number().min(0).max(1),
+                  riskTolerance: z.number().min(0).max(1),
+                })
+                .partial()
+                .optional(),
+              pingConfig: z
+                .object({
+                  enabledPings: z.array(z.string()),
+                  maxPingsPerHour: z.number().int().min(0).max(60),
+                  cooldownMinutes: z.number().int().min(0).max(24 * 60),
+                })
+                .partial()
+                .optional(),
+              targetMetrics: z
+                .object({
+                  diversityIndex: z.number().min(0).max(1),
+                  criticalThinkingScore: z.number().min(0).max(1),
+                  convergenceRate: z.object({
+                    min: z.number().min(0).max(1),
+                    max: z.number().min(0).max(1),
+                  }),
+                  biasRiskLevel: z.number().min(0).max(1),
+                })
+                .partial()
+                .optional(),
+            }),
+          })
+          .refine(hasSingleTemplateTarget, { message: "Provide either teamId or projectId" })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const template = customizeTemplate(input.baseTemplateId, input.customizations);
+        await saveTemplateSelection(ctx.user.id, input, {
+          templateType: "custom",
+          customTemplate: template,
+        });
+        return template;
+      }),
+  }),
+
   // ==================== DECISION ROUTES ====================
   decision: router({
-    create: protectedProcedure
+    create: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
@@ -475,37 +962,36 @@ export const appRouter = router({
           alternatives: input.alternatives,
           proposedBy: ctx.user.id,
         });
+        await recordDecisionCreated(decisionId, "proposed", ctx.user.id);
         return { id: decisionId };
       }),
 
-    list: protectedProcedure
+    list: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .query(async ({ input }) => {
         return db.getDecisionsByProjectId(input.projectId);
       }),
 
-    get: protectedProcedure
+    get: teamProcedure("decision", "id")
       .input(z.object({ id: z.number() }))
-      .query(async ({ input }) => {
+      .query(async ({ ctx, input }) => {
         const decision = await db.getDecisionById(input.id);
-        const votes = await db.getVotesByDecisionId(input.id);
-        return { decision, votes };
+        if (!decision) throw new TRPCError({ code: "NOT_FOUND", message: "Decision not found" });
+        const votes = await db.getVotesByDecisionId(input.id, decision.votingRound);
+        return {
+          decision,
+          ...presentVotes(decision, votes, ctx.user.id),
+          votingConfig: getVotingConfig(decision),
+          options: getVotingOptions(decision),
+          canManageVoting: hasTeamRole(ctx.access.role, "admin"),
+        };
       }),
 
-    update: protectedProcedure
+    // Status changes go through transition, which enforces the lifecycle
+    update: teamProcedure("decision", "id")
       .input(
         z.object({
           id: z.number(),
-          status: z
-            .enum([
-              "proposed",
-              "discussing",
-              "voting",
-              "decided",
-              "implemented",
-              "revised",
-            ])
-            .optional(),
           outcome: z.string().optional(),
           rationale: z.string().optional(),
           biasesDetected: z.array(z.string()).optional(),
@@ -513,37 +999,272 @@ export const appRouter = router({
       )
       .mutation(async ({ input }) => {
         const { id, ...data } = input;
-        if (data.status === "decided") {
-          (data as any).decidedAt = new Date();
-        }
         await db.updateDecision(id, data);
         return { success: true };
       }),
 
-    vote: protectedProcedure
+    transition: teamProcedure("decision", "id")
+      .input(
+        z.object({
+          id: z.number(),
+          status: z.enum(["proposed", "discussing", "voting", "decided", "implemented", "revised"]),
+          reason: z.string().max(2000).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const current = await db.getDecisionById(input.id);
+        if (!current) throw new TRPCError({ code: "NOT_FOUND", message: "Decision not found" });
+        if (input.status === "voting" && current.votingDeadline && current.votingDeadline <= new Date()) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Voting deadline has already passed" });
+        }
+
+        const decision = await transitionDecision(
+          current,
+          input.status,
+          { userId: ctx.user.id, role: ctx.access.role },
+          input.reason
+        );
+        if (decision.status === "voting") await scheduleVoteClosing(decision);
+
+        const untestedHypotheses = await applyDecisionStatusEffects(decision, ctx.access.teamId, ctx.user.id);
+        return { success: true, status: decision.status, untestedHypotheses };
+      }),
+
+    history: teamProcedure("decision", "id")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const decision = await db.getDecisionById(input.id);
+        if (!decision) throw new TRPCError({ code: "NOT_FOUND", message: "Decision not found" });
+        const entries = await db.getDecisionHistory(input.id);
+        return {
+          status: decision.status,
+          entries,
+          availableTransitions: getAvailableTransitions(decision.status, ctx.access.role),
+        };
+      }),
+
+    // Voting rules can only change before the vote opens
+    configureVoting: teamProcedure("decision", "id", "admin")
+      .input(
+        z.object({
+          id: z.number(),
+          mode: z.enum(["majority", "weighted", "ranked"]),
+          anonymous: z.boolean(),
+          quorum: z.number().int().min(1).nullable(),
+          blind: z.boolean(),
+          deadline: z.date().nullable(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        const decision = await db.getDecisionById(input.id);
+        if (!decision) throw new TRPCError({ code: "NOT_FOUND", message: "Decision not found" });
+        if (!["proposed", "discussing", "revised"].includes(decision.status)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Voting can only be configured before it opens" });
+        }
+        if (input.deadline && input.deadline <= new Date()) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Voting deadline must be in the future" });
+        }
+
+        const votingConfig = { mode: input.mode, anonymous: input.anonymous, quorum: input.quorum, blind: input.blind };
+        assertVotingConfig(decision, votingConfig);
+        await db.updateDecision(input.id, { votingConfig, votingDeadline: input.deadline });
+        return { success: true };
+      }),
+
+    vote: teamProcedure("decision", "decisionId")
       .input(
         z.object({
           decisionId: z.number(),
-          choice: z.string(),
+          choice: z.string().max(255).optional(),
+          ranking: z.array(z.string().max(255)).max(50).optional(),
           reasoning: z.string().optional(),
           confidence: z.number().min(0).max(1).optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        await db.createVote({
+        const decision = await db.getDecisionById(input.decisionId);
+        if (!decision) throw new TRPCError({ code: "NOT_FOUND", message: "Decision not found" });
+        if (decision.status !== "voting" || (decision.votingDeadline && decision.votingDeadline <= new Date())) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Voting is not open for this decision" });
+        }
+
+        const existing = await db.getUserVote(decision.id, decision.votingRound, ctx.user.id);
+        if (!canReviseBallot(decision, existing !== undefined)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A blind ballot cannot be changed once cast" });
+        }
+
+        const ballot = normalizeBallot(getVotingConfig(decision), getVotingOptions(decision), input);
+        await db.upsertVote({
           decisionId: input.decisionId,
           userId: ctx.user.id,
-          choice: input.choice,
+          round: decision.votingRound,
+          choice: ballot.choice,
+          ranking: ballot.ranking,
           reasoning: input.reasoning,
-          confidence: input.confidence,
+          confidence: ballot.confidence,
         });
         return { success: true };
       }),
+
+    // Closing decides with the winning option, or sends the decision back to discussion
+    closeVote: teamProcedure("decision", "id", "admin")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const closed = await closeDecisionVote(input.id, ctx.user.id);
+        if (!closed) throw new TRPCError({ code: "BAD_REQUEST", message: "Voting is not open for this decision" });
+        return {
+          success: true,
+          status: closed.decision.status,
+          outcome: closed.decision.outcome,
+          tally: closed.tally,
+          dispersion: closed.dispersion,
+          groupthink: closed.groupthink,
+          untestedHypotheses: closed.untestedHypotheses,
+        };
+      }),
+  }),
+
+  // ==================== HYPOTHESIS ROUTES ====================
+  hypothesis: router({
+    // Register with evidence and the decisions resting on each hypothesis
+    list: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ input }) => {
+        const rows = await db.getHypothesesByProjectId(input.projectId);
+        const [evidence, links] = await Promise.all([
+          db.getEvidenceByHypothesisIds(rows.map(row => row.hypothesis.id)),
+          db.getDecisionHypothesisLinks(input.projectId),
+        ]);
+        return rows.map(row => ({
+          ...row,
+          evidence: evidence.filter(e => e.hypothesisId === row.hypothesis.id),
+          decisionIds: links.filter(l => l.hypothesisId === row.hypothesis.id).map(l => l.decisionId),
+        }));
+      }),
+
+    history: teamProcedure("hypothesis", "id")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        return db.getHypothesisStatusChanges(input.id);
+      }),
+
+    create: teamProcedure("project", "projectId")
+      .input(
+        z.object({
+          projectId: z.number(),
+          statement: z.string().min(1),
+          ownerId: z.number().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (input.ownerId !== undefined && !(await db.getTeamMembership(ctx.access.teamId, input.ownerId))) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Owner must be a team member" });
+        }
+        const hypothesisId = await db.createHypothesis({
+          projectId: input.projectId,
+          statement: input.statement,
+          ownerId: input.ownerId,
+          createdBy: ctx.user.id,
+        });
+        await db.createHypothesisStatusChange({ hypothesisId, toStatus: "untested", changedBy: ctx.user.id });
+        return { id: hypothesisId };
+      }),
+
+    update: teamProcedure("hypothesis", "id")
+      .input(
+        z.object({
+          id: z.number(),
+          statement: z.string().min(1).optional(),
+          ownerId: z.number().nullable().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...data } = input;
+        if (typeof data.ownerId === "number" && !(await db.getTeamMembership(ctx.access.teamId, data.ownerId))) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Owner must be a team member" });
+        }
+        await db.updateHypothesis(id, data);
+        return { success: true };
+      }),
+
+    setStatus: teamProcedure("hypothesis", "id")
+      .input(
+        z.object({
+          id: z.number(),
+          status: z.enum(["untested", "validated", "invalidated"]),
+          note: z.string().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const hypothesis = await db.getHypothesisById(input.id);
+        if (!hypothesis) throw new TRPCError({ code: "NOT_FOUND", message: "Hypothesis not found" });
+        const changed = await setHypothesisStatus(hypothesis, input.status, ctx.user.id, input.note);
+        return { success: true, changed };
+      }),
+
+    delete: teamProcedure("hypothesis", "id")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        await db.deleteHypothesis(input.id);
+        return { success: true };
+      }),
+
+    addEvidence: teamProcedure("hypothesis", "hypothesisId")
+      .input(
+        z.object({
+          hypothesisId: z.number(),
+          sourceType: z.enum(["message", "document", "decision"]),
+          sourceId: z.number(),
+          note: z.string().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        // Evidence must come from the hypothesis' own project
+        const source =
+          input.sourceType === "message" ? await db.getMessageById(input.sourceId)
+            : input.sourceType === "document" ? await db.getDocumentById(input.sourceId)
+              : await db.getDecisionById(input.sourceId);
+        if (!source || source.projectId !== ctx.access.projectId) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `${input.sourceType} ${input.sourceId} not found` });
+        }
+        const evidenceId = await db.addHypothesisEvidence({ ...input, addedBy: ctx.user.id });
+        return { id: evidenceId };
+      }),
+
+    removeEvidence: teamProcedure("hypothesis", "hypothesisId")
+      .input(z.object({ hypothesisId: z.number(), evidenceId: z.number() }))
+      .mutation(async ({ input }) => {
+        await db.deleteHypothesisEvidence(input.hypothesisId, input.evidenceId);
+        return { success: true };
+      }),
+
+    // Marks a decision as resting on the hypothesis
+    linkDecision: teamProcedure("hypothesis", "hypothesisId")
+      .input(z.object({ hypothesisId: z.number(), decisionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const [hypothesis, decision] = await Promise.all([
+          db.getHypothesisById(input.hypothesisId),
+          db.getDecisionById(input.decisionId),
+        ]);
+        if (!hypothesis || !decision || decision.projectId !== ctx.access.projectId) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `decision ${input.decisionId} not found` });
+        }
+        const linked = await db.linkDecisionHypothesis(decision.id, hypothesis.id);
+        const untestedHypotheses = linked ? await warnIfDecidedOnUntested(decision, [hypothesis]) : [];
+        return { success: true, untestedHypotheses };
+      }),
+
+    unlinkDecision: teamProcedure("hypothesis", "hypothesisId")
+      .input(z.object({ hypothesisId: z.number(), decisionId: z.number() }))
+      .mutation(async ({ input }) => {
+        await db.unlinkDecisionHypothesis(input.decisionId, input.hypothesisId);
+        return { success: true };
+      }),
   }),
 
   // ==================== CHAT/MESSAGE ROUTES ====================
   chat: router({
-    send: protectedProcedure
+    send: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
@@ -571,46 +1292,38 @@ export const appRouter = router({
           },
         });
 
-        // If high-confidence bias detected, create smart ping
-        const highConfidenceBias = analysis.biasIndicators.find(
-          (b) => b.confidence > 0.6
+        // The dispatcher keeps only significant biases and rate-limits bias pings
+        const project = await db.getProjectById(input.projectId);
+        const policy = project ? await loadPingPolicy(project) : { template: null };
+        const teamMembers = await db.getTeamMembers(ctx.access.teamId);
+        const { bias: significantBias } = await dispatchBiasPing(
+          input.projectId,
+          analysis.biasIndicators,
+          policy,
+          { teamSize: teamMembers.length }
         );
-        if (highConfidenceBias) {
-          const smartPingContent = generateSmartPing(highConfidenceBias);
-          await db.createMessage({
-            projectId: input.projectId,
-            content: smartPingContent,
-            type: "smart_ping",
-            metadata: {
-              biasIndicators: [
-                {
-                  type: highConfidenceBias.type,
-                  confidence: highConfidenceBias.confidence,
-                },
-              ],
-            },
-          });
 
+        if (significantBias) {
           // Create cognitive event
           await db.createCognitiveEvent({
             projectId: input.projectId,
             type: "bias_detected",
             severity:
-              highConfidenceBias.severity === "high" ? "critical" : "warning",
-            title: `Biais de ${highConfidenceBias.type} détecté`,
-            description: highConfidenceBias.recommendation,
+              significantBias.severity === "high" ? "critical" : "warning",
+            title: `Biais de ${significantBias.type} détecté`,
+            description: significantBias.recommendation,
             sourceMessageId: messageId,
-            data: { bias: highConfidenceBias },
+            data: { bias: significantBias },
           });
 
           // Send alert if critical
-          if (highConfidenceBias.severity === "high") {
+          if (significantBias.severity === "high") {
             await db.createAlert({
               projectId: input.projectId,
               userId: ctx.user.id,
               type: "bias_critical",
-              title: `Biais critique: ${highConfidenceBias.type}`,
-              message: highConfidenceBias.recommendation,
+              title: `Biais critique: ${significantBias.type}`,
+              message: significantBias.recommendation,
               severity: "high",
             });
           }
@@ -633,28 +1346,32 @@ export const appRouter = router({
           },
         });
 
-        // Check if we need to trigger pings based on CT thresholds
+        // Check if we need to trigger pings based on CT propagation cycles.
+        // The full LLM analysis runs in the job queue, off the request path.
         if (newTotalCT) {
-          // Perform full analysis for CT-based pings
-          const fullAnalysis = await analyzeWithLLM(input.content);
-          await checkAndTriggerCTPings(input.projectId, newTotalCT, fullAnalysis);
+          await enqueueJob(
+            "message_analysis",
+            { projectId: input.projectId, messageId, totalCT: newTotalCT },
+            { idempotencyKey: `message_analysis:${messageId}` }
+          );
         }
+        await scheduleMetricsRecompute(input.projectId);
 
         return { id: messageId, analysis, ctValue, totalCT: newTotalCT };
       }),
 
-    getMessages: protectedProcedure
+    getMessages: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number(), limit: z.number().default(100) }))
       .query(async ({ input }) => {
         return db.getMessagesByProjectId(input.projectId, input.limit);
       }),
 
-    analyzeConversation: protectedProcedure
+    analyzeConversation: teamProcedure("project", "projectId")
       .input(z.object({ 
         projectId: z.number(),
         contextType: z.enum(["critical_decision", "brainstorming", "new_team", "experienced_team"]).optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const messagesData = await db.getMessagesByProjectId(input.projectId, 50);
         const decisionsData = await db.getDecisionsByProjectId(input.projectId);
         const teamMembers = await db.getTeamMembers(
@@ -676,7 +1393,11 @@ export const appRouter = router({
           teamSize: teamMembers.length,
         };
 
-        const analysis = await detectBiasWithLLM(context);
+        const analysis = await detectBiasWithLLM(context, {
+          teamId: ctx.access.teamId,
+          projectId: input.projectId,
+          userId: ctx.user.id,
+        });
 
         // Générer le résumé intelligent des biais (anti-overload)
         const smartSummary = generateSmartSummary(analysis.biases, {
@@ -712,7 +1433,7 @@ export const appRouter = router({
         };
       }),
 
-    extractDecisions: protectedProcedure
+    extractDecisions: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .mutation(async ({ ctx, input }) => {
         const messagesData = await db.getMessagesByProjectId(input.projectId, 100);
@@ -744,89 +1465,127 @@ Pour chaque décision identifiée, retourne un objet JSON avec:
 Retourne un tableau JSON de décisions. Si aucune décision n'est identifiée, retourne un tableau vide [].
 Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
 
-        try {
-          const llmResponse = await invokeLLM({
-            messages: [
-              { role: "system", content: "Tu es un assistant spécialisé dans l'analyse de conversations d'équipe et l'extraction de décisions. Tu réponds uniquement en JSON valide." },
-              { role: "user", content: extractionPrompt }
-            ],
-            response_format: {
-              type: "json_schema",
-              json_schema: {
-                name: "decisions_extraction",
-                strict: true,
-                schema: {
-                  type: "object",
-                  properties: {
-                    decisions: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          title: { type: "string" },
-                          description: { type: "string" },
-                          type: { type: "string", enum: ["strategic", "tactical", "operational", "technical"] },
-                          status: { type: "string", enum: ["proposed", "discussing", "decided"] },
-                          rationale: { type: "string" },
-                          confidenceLevel: { type: "number" }
-                        },
-                        required: ["title", "description", "type", "status", "rationale", "confidenceLevel"],
-                        additionalProperties: false
-                      }
-                    }
-                  },
-                  required: ["decisions"],
-                  additionalProperties: false
-                }
-              }
-            }
+        const result = await invokeStructuredLLM({
+          useCase: "decision_extraction",
+          context: { teamId: ctx.access.teamId, projectId: input.projectId, userId: ctx.user.id },
+          messages: [
+            { role: "system", content: "Tu es un assistant spécialisé dans l'analyse de conversations d'équipe et l'extraction de décisions. Tu réponds uniquement en JSON valide." },
+            { role: "user", content: extractionPrompt }
+          ],
+          schemaName: "decisions_extraction",
+          schema: extractedDecisionsSchema,
+        });
+
+        if (!result.ok) {
+          console.error("Error extracting decisions:", result.error);
+          return { decisions: [], message: "Erreur lors de l'extraction des décisions" };
+        }
+
+        // Create decisions in database
+        const createdDecisions = [];
+        for (const extracted of result.data.decisions) {
+          // Only roles allowed to decide may record a decision as already taken
+          const decision = hasTeamRole(ctx.access.role, DECISION_STATUS_MIN_ROLE[extracted.status])
+            ? extracted
+            : { ...extracted, status: "discussing" as const };
+          const decisionId = await db.createDecision({
+            projectId: input.projectId,
+            title: decision.title,
+            description: decision.description,
+            type: decision.type,
+            status: decision.status,
+            rationale: decision.rationale,
+            confidenceLevel: decision.confidenceLevel,
+            proposedBy: ctx.user.id,
+            decidedAt: decision.status === "decided" ? new Date() : undefined,
           });
+          await recordDecisionCreated(decisionId, decision.status, ctx.user.id, "Extraite de la discussion");
+          createdDecisions.push({ id: decisionId, ...decision });
+        }
 
-          const content = (llmResponse.choices?.[0]?.message?.content as string) || "{}";
-          const parsed = JSON.parse(content);
-          const extractedDecisions = parsed.decisions || [];
+        return {
+          decisions: createdDecisions,
+          message: `${createdDecisions.length} décision(s) extraite(s) de la conversation`
+        };
+      }),
 
-          // Create decisions in database
-          const createdDecisions = [];
-          for (const decision of extractedDecisions) {
-            const decisionId = await db.createDecision({
-              projectId: input.projectId,
-              title: decision.title,
-              description: decision.description,
-              type: decision.type,
-              status: decision.status,
-              rationale: decision.rationale,
-              confidenceLevel: decision.confidenceLevel,
-              proposedBy: ctx.user.id,
+    // Implicit assumptions of the conversation, added to the hypotheses register
+    extractHypotheses: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const [messagesData, existing] = await Promise.all([
+          db.getMessagesByProjectId(input.projectId, 100),
+          db.getHypothesesByProjectId(input.projectId),
+        ]);
+
+        const extraction = await extractHypotheses(
+          messagesData
+            .filter(m => m.message.type === "user" || m.message.type === "audio")
+            .map(m => ({ id: m.message.id, author: m.user?.name || "Utilisateur", content: m.message.content })),
+          existing.map(row => row.hypothesis.statement),
+          { teamId: ctx.access.teamId, projectId: input.projectId, userId: ctx.user.id }
+        );
+
+        const createdHypotheses = [];
+        for (const hypothesis of extraction.hypotheses) {
+          const hypothesisId = await db.createHypothesis({
+            projectId: input.projectId,
+            statement: hypothesis.statement,
+            origin: "extracted",
+            createdBy: ctx.user.id,
+          });
+          await db.createHypothesisStatusChange({ hypothesisId, toStatus: "untested", changedBy: ctx.user.id });
+          if (hypothesis.messageId !== undefined) {
+            await db.addHypothesisEvidence({
+              hypothesisId,
+              sourceType: "message",
+              sourceId: hypothesis.messageId,
+              addedBy: ctx.user.id,
             });
-            createdDecisions.push({ id: decisionId, ...decision });
           }
-
-          return {
-            decisions: createdDecisions,
-            message: `${createdDecisions.length} décision(s) extraite(s) de la conversation`
-          };
-        } catch (error) {
-          console.error("Error extracting decisions:", error);
-          return { decisions: [], message: "Erreur lors de l'extraction des décisions" };
+          createdHypotheses.push({ id: hypothesisId, ...hypothesis });
         }
+
+        return {
+          hypotheses: createdHypotheses,
+          degraded: extraction.degraded,
+          message: `${createdHypotheses.length} hypothèse(s) extraite(s) de la conversation`,
+        };
       }),
   }),
 
   // ==================== COGNITIVE EVENT ROUTES ====================
   cognitiveEvent: router({
-    list: protectedProcedure
+    list: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number(), limit: z.number().default(50) }))
       .query(async ({ input }) => {
         return db.getCognitiveEventsByProjectId(input.projectId, input.limit);
       }),
 
-    acknowledge: protectedProcedure
+    acknowledge: teamProcedure("event", "eventId")
       .input(z.object({ eventId: z.number() }))
       .mutation(async ({ ctx, input }) => {
         await db.acknowledgeEvent(input.eventId, ctx.user.id);
         return { success: true };
       }),
+
+    // Compare extracted document text with recent messages and decisions
+    detectContradictions: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const report = await detectContradictions(input.projectId, {
+          teamId: ctx.access.teamId,
+          userId: ctx.user.id,
+        });
+        const recentEvents = await db.getCognitiveEventsByProjectId(input.projectId, 200);
+        const stored = await recordContradictions(input.projectId, report.contradictions, recentEvents);
+
+        return {
+          contradictions: report.contradictions.length,
+          stored,
+          degraded: report.degraded,
+        };
+      }),
   }),
 
   // ==================== MEMORY EXPLORER ROUTES ====================
@@ -851,28 +1610,74 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           isGlobal: z.boolean().default(false),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        if (input.projectId !== undefined) {
+          await assertTeamAccess(ctx.user.id, "project", input.projectId);
+        }
+        if (input.teamId !== undefined) {
+          await assertTeamAccess(ctx.user.id, "team", input.teamId);
+        }
         const memoryId = await db.createCognitiveMemory(input);
+        await enqueueJob("memory_embedding", { memoryId }, { idempotencyKey: `memory_embedding:${memoryId}` });
         return { id: memoryId };
       }),
 
     search: protectedProcedure
       .input(z.object({ query: z.string(), limit: z.number().default(20) }))
-      .query(async ({ input }) => {
-        return db.searchCognitiveMemories(input.query, input.limit);
+      .query(async ({ ctx, input }) => {
+        const teamIds = await db.getTeamIdsByUserId(ctx.user.id);
+        return searchMemories(input.query, teamIds, input.limit);
       }),
 
     getGlobal: protectedProcedure
       .input(z.object({ limit: z.number().default(50) }))
       .query(async ({ input }) => {
-        return db.getGlobalMemories(input.limit);
+        const memories = await db.getGlobalMemories(input.limit);
+        return memories.map(withoutEmbedding);
+      }),
+
+    patterns: protectedProcedure
+      .input(z.object({ projectId: z.number().optional() }))
+      .query(async ({ ctx, input }) => {
+        if (input.projectId !== undefined) {
+          await assertTeamAccess(ctx.user.id, "project", input.projectId);
+        }
+        const teamIds = await db.getTeamIdsByUserId(ctx.user.id);
+        return getMemoryPatterns(teamIds, input.projectId);
+      }),
+
+    suggestions: protectedProcedure
+      .input(z.object({ context: z.string().min(1) }))
+      .query(async ({ ctx, input }) => {
+        const teamIds = await db.getTeamIdsByUserId(ctx.user.id);
+        return getMemorySuggestions(input.context, teamIds);
       }),
 
+    // Vectorise les mémoires créées sans embedding ou avec un autre fournisseur
+    backfillEmbeddings: adminProcedure.mutation(async () => {
+      return backfillMemoryEmbeddings();
+    }),
+
     searchWithAI: protectedProcedure
-      .input(z.object({ query: z.string(), context: z.string().optional() }))
-      .mutation(async ({ input }) => {
-        // First, do keyword search
-        const memories = await db.searchCognitiveMemories(input.query, 30);
+      .input(
+        z.object({
+          query: z.string(),
+          context: z.string().optional(),
+          teamId: z.number().optional(),
+          projectId: z.number().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const scope =
+          input.projectId !== undefined
+            ? await assertTeamAccess(ctx.user.id, "project", input.projectId)
+            : input.teamId !== undefined
+              ? await assertTeamAccess(ctx.user.id, "team", input.teamId)
+              : undefined;
+
+        // First, do hybrid (semantic + keyword) search
+        const teamIds = await db.getTeamIdsByUserId(ctx.user.id);
+        const memories = await searchMemories(input.query, teamIds, 30);
 
         if (memories.length === 0) {
           return { memories: [], aiInsights: "Aucune mémoire trouvée pour cette recherche." };
@@ -887,8 +1692,16 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           )
           .join("\n");
 
+        // Without an explicit scope, the insight is billed to the team whose memories it draws on
+        const teamId =
+          scope?.teamId ??
+          memories.find((m) => m.teamId !== null && teamIds.includes(m.teamId))?.teamId ??
+          teamIds[0];
+
         try {
           const response = await invokeLLM({
+            useCase: "insights",
+            context: { teamId, projectId: scope?.projectId, userId: ctx.user.id },
             messages: [
               {
                 role: "system",
@@ -916,7 +1729,7 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
 
   // ==================== TASK ROUTES ====================
   task: router({
-    create: protectedProcedure
+    create: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
@@ -928,18 +1741,27 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           relatedDecisionId: z.number().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        if (input.assigneeId !== undefined && !(await db.getTeamMembership(ctx.access.teamId, input.assigneeId))) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Assignee must be a team member" });
+        }
+        if (input.relatedDecisionId !== undefined) {
+          const decision = await db.getDecisionById(input.relatedDecisionId);
+          if (!decision || decision.projectId !== ctx.access.projectId) {
+            throw new TRPCError({ code: "NOT_FOUND", message: `decision ${input.relatedDecisionId} not found` });
+          }
+        }
         const taskId = await db.createTask(input);
         return { id: taskId };
       }),
 
-    list: protectedProcedure
+    list: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .query(async ({ input }) => {
         return db.getTasksByProjectId(input.projectId);
       }),
 
-    update: protectedProcedure
+    update: teamProcedure("task", "id")
       .input(
         z.object({
           id: z.number(),
@@ -953,13 +1775,16 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           dueDate: z.date().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const { id, ...data } = input;
+        if (data.assigneeId !== undefined && !(await db.getTeamMembership(ctx.access.teamId, data.assigneeId))) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Assignee must be a team member" });
+        }
         await db.updateTask(id, data);
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: teamProcedure("task", "id")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
         await db.deleteTask(input.id);
@@ -969,7 +1794,7 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
 
   // ==================== DOCUMENT ROUTES ====================
   document: router({
-    upload: protectedProcedure
+    upload: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
@@ -985,6 +1810,7 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
         const fileKey = `projects/${input.projectId}/docs/${nanoid()}-${input.name}`;
 
         const { url } = await storagePut(fileKey, buffer, input.mimeType);
+        const extractable = detectDocumentFormat(input.name, input.mimeType) !== undefined;
 
         const docId = await db.createDocument({
           projectId: input.projectId,
@@ -996,71 +1822,217 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           mimeType: input.mimeType,
           size: buffer.length,
           description: input.description,
+          extractionStatus: extractable ? "pending" : "unsupported",
         });
 
+        // Text extraction, summary and analysis run in the background
+        if (extractable) {
+          await queueDocumentExtraction(docId);
+        }
+
         return { id: docId, url };
       }),
 
-    list: protectedProcedure
+    // New revision of an existing document (any of its versions can be given)
+    uploadVersion: teamProcedure("document", "documentId")
+      .input(
+        z.object({
+          documentId: z.number(),
+          name: z.string(),
+          content: z.string(), // Base64 encoded
+          mimeType: z.string(),
+          description: z.string().optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const current = await db.getDocumentById(input.documentId);
+        if (!current) throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        const rootId = getDocumentRootId(current);
+        const version = getNextVersionNumber((await db.getDocumentVersions(rootId)).map(v => v.document));
+
+        const buffer = Buffer.from(input.content, "base64");
+        const fileKey = `projects/${current.projectId}/docs/${nanoid()}-${input.name}`;
+        const { url } = await storagePut(fileKey, buffer, input.mimeType);
+        const extractable = detectDocumentFormat(input.name, input.mimeType) !== undefined;
+
+        const docId = await db.createDocument({
+          projectId: current.projectId,
+          uploadedBy: ctx.user.id,
+          name: input.name,
+          type: current.type,
+          url,
+          fileKey,
+          mimeType: input.mimeType,
+          size: buffer.length,
+          version,
+          parentId: rootId,
+          description: input.description,
+          extractionStatus: extractable ? "pending" : "unsupported",
+        });
+
+        if (extractable) {
+          await queueDocumentExtraction(docId);
+        }
+
+        return { id: docId, url, version };
+      }),
+
+    history: teamProcedure("document", "id")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => {
+        const document = await db.getDocumentById(input.id);
+        if (!document) return [];
+        return db.getDocumentVersions(getDocumentRootId(document));
+      }),
+
+    // Line diff between the extracted texts of two versions of a document
+    diff: teamProcedure("document", "fromId")
+      .input(z.object({ fromId: z.number(), toId: z.number() }))
+      .query(async ({ input }) => {
+        const [from, to] = await Promise.all([
+          db.getDocumentById(input.fromId),
+          db.getDocumentById(input.toId),
+        ]);
+        if (!from || !to || getDocumentRootId(from) !== getDocumentRootId(to)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Versions of the same document not found" });
+        }
+        if (from.extractionStatus !== "completed" || to.extractionStatus !== "completed") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Text of both versions must be extracted" });
+        }
+
+        return {
+          from: { id: from.id, version: from.version, name: from.name },
+          to: { id: to.id, version: to.version, name: to.name },
+          ...diffDocumentTexts(from.extractedText ?? "", to.extractedText ?? ""),
+        };
+      }),
+
+    // Restoring a previous version publishes it again as the newest version
+    restore: teamProcedure("document", "id")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const previous = await db.getDocumentById(input.id);
+        if (!previous) throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        const rootId = getDocumentRootId(previous);
+        const version = getNextVersionNumber((await db.getDocumentVersions(rootId)).map(v => v.document));
+
+        // Same file: the extraction results carry over unless still in progress
+        const extractionDone = ["completed", "unsupported"].includes(previous.extractionStatus);
+        const docId = await db.createDocument({
+          projectId: previous.projectId,
+          uploadedBy: ctx.user.id,
+          name: previous.name,
+          type: previous.type,
+          url: previous.url,
+          fileKey: previous.fileKey,
+          mimeType: previous.mimeType,
+          size: previous.size,
+          version,
+          parentId: rootId,
+          description: `Restauration de la version ${previous.version}`,
+          extractionStatus: extractionDone ? previous.extractionStatus : "pending",
+          extractedText: extractionDone ? previous.extractedText : null,
+          summary: extractionDone ? previous.summary : null,
+          analysis: extractionDone ? previous.analysis : null,
+        });
+
+        if (!extractionDone) {
+          await queueDocumentExtraction(docId);
+        }
+
+        return { id: docId, version };
+      }),
+
+    list: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .query(async ({ input }) => {
         return db.getDocumentsByProjectId(input.projectId);
       }),
 
-    get: protectedProcedure
+    get: teamProcedure("document", "id")
       .input(z.object({ id: z.number() }))
       .query(async ({ input }) => {
         return db.getDocumentById(input.id);
       }),
 
-    delete: protectedProcedure
+    // Deletes the document with all its versions
+    delete: teamProcedure("document", "id")
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
-        await db.deleteDocument(input.id);
+        const document = await db.getDocumentById(input.id);
+        if (document) await db.deleteDocument(getDocumentRootId(document));
         return { success: true };
       }),
   }),
 
   // ==================== METRICS ROUTES ====================
   metrics: router({
-    getHistory: protectedProcedure
+    getHistory: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number(), limit: z.number().default(100) }))
       .query(async ({ input }) => {
         return db.getCognitiveMetricsByProjectId(input.projectId, input.limit);
       }),
 
-    getLatest: protectedProcedure
+    getLatest: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .query(async ({ input }) => {
         return db.getLatestCognitiveMetric(input.projectId);
       }),
 
-    calculate: protectedProcedure
+    calculate: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .mutation(async ({ input }) => {
-        const messagesData = await db.getMessagesByProjectId(input.projectId, 100);
-        const decisions = await db.getDecisionsByProjectId(input.projectId);
+        return recomputeCognitiveMetrics(input.projectId);
+      }),
 
-        const messages = messagesData.map((m) => ({
-          content: m.message.content,
-          userId: m.message.userId || 0,
-          createdAt: m.message.createdAt,
-        }));
+    csaw: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const since = new Date(Date.now() - CSAW_HISTORY_MINUTES * 60 * 1000);
+        const recentMessages = await db.getRecentMessages(input.projectId, since);
+        const team = await db.getTeamById(ctx.access.teamId);
 
-        const metrics = calculateCognitiveMetrics(
-          messages,
-          decisions.map((d) => ({
-            status: d.status,
-            biasesDetected: d.biasesDetected || undefined,
-          }))
+        // Only team contributions: smart pings and system messages would skew the metrics
+        const result = await analyzeWithCSAW(
+          recentMessages.filter((m) => m.type === "user" || m.type === "audio"),
+          input.projectId,
+          team?.createdAt
         );
 
-        await db.createCognitiveMetric({
-          projectId: input.projectId,
-          ...metrics,
-        });
+        // Store new alerts as cognitive events
+        const recentEvents = await db.getCognitiveEventsByProjectId(input.projectId, 100);
+        const newAlerts = selectNewCSAWAlerts(result.alerts, recentEvents);
+        for (const alert of newAlerts) {
+          await db.createCognitiveEvent({
+            projectId: input.projectId,
+            type: getCSAWEventType(alert),
+            severity: alert.severity,
+            title: alert.title,
+            description: alert.message,
+            data: { source: "csaw", alertKey: getCSAWAlertKey(alert), ...alert },
+          });
+        }
+
+        return {
+          ...result,
+          display: formatCSAWForDisplay(result),
+          storedAlerts: newAlerts.length,
+        };
+      }),
+  }),
+
+  // ==================== SMART PING ROUTES ====================
+  ping: router({
+    getState: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ input }) => {
+        return (await db.getPingAlertState(input.projectId)) ?? null;
+      }),
 
-        return metrics;
+    listSuppressed: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number(), limit: z.number().default(50) }))
+      .query(async ({ input }) => {
+        return db.getSuppressedPingsByProjectId(input.projectId, input.limit);
       }),
   }),
 
@@ -1072,20 +2044,20 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
         return db.getAlertsByUserId(ctx.user.id, input.unreadOnly);
       }),
 
-    listByProject: protectedProcedure
+    listByProject: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
       .query(async ({ input }) => {
         return db.getAlertsByProjectId(input.projectId);
       }),
 
-    markAsRead: protectedProcedure
+    markAsRead: teamProcedure("alert", "alertId")
       .input(z.object({ alertId: z.number() }))
       .mutation(async ({ input }) => {
         await db.markAlertAsRead(input.alertId);
         return { success: true };
       }),
 
-    dismiss: protectedProcedure
+    dismiss: teamProcedure("alert", "alertId")
       .input(z.object({ alertId: z.number() }))
       .mutation(async ({ input }) => {
         await db.dismissAlert(input.alertId);
@@ -1142,7 +2114,7 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
 
   // ==================== AUDIO/STT ROUTES ====================
   audio: router({
-    upload: protectedProcedure
+    upload: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
@@ -1153,7 +2125,7 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
       )
       .mutation(async ({ ctx, input }) => {
         const buffer = Buffer.from(input.content, "base64");
-        const fileKey = `projects/${input.projectId}/audio/${nanoid()}.webm`;
+        const fileKey = `projects/${input.projectId}/audio/${nanoid()}.${getAudioFileExtension(input.mimeType)}`;
 
         const { url } = await storagePut(fileKey, buffer, input.mimeType);
 
@@ -1162,6 +2134,7 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           userId: ctx.user.id,
           fileUrl: url,
           fileKey,
+          mimeType: input.mimeType,
           duration: input.duration,
         });
 
@@ -1179,235 +2152,134 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           },
         });
 
-        // Automatically trigger transcription in background
-        // We don't await to return quickly to the user
-        (async () => {
-          try {
-            // Update status to processing
-            await db.updateAudioRecording(audioId, { transcriptionStatus: "processing" });
-            await db.updateMessage(messageId, {
-              metadata: {
-                audioId,
-                audioUrl: url,
-                duration: input.duration,
-                transcriptionStatus: "processing",
-              },
-            });
-
-            const result = await transcribeAudio({
-              audioUrl: url,
-              language: "fr",
-            });
-
-            if ('error' in result) {
-              await db.updateAudioRecording(audioId, { transcriptionStatus: "failed" });
-              await db.updateMessage(messageId, {
-                metadata: {
-                  audioId,
-                  audioUrl: url,
-                  duration: input.duration,
-                  transcriptionStatus: "failed",
-                },
-              });
-              return;
-            }
-
-            // Analyze the transcription
-            const analysis = await analyzeWithLLM(result.text);
-
-            // Update audio recording
-            await db.updateAudioRecording(audioId, {
-              transcription: result.text,
-              transcriptionStatus: "completed",
-              analysis: {
-                sentiment: analysis.sentiment,
-                emotions: analysis.sentiment.emotions.map((e) => ({
-                  emotion: e.emotion,
-                  confidence: e.intensity,
-                })),
-                cognitivePatterns: analysis.cognitive.patterns,
-                biasIndicators: analysis.biases.map((b) => ({
-                  type: b.type,
-                  confidence: b.confidence,
-                  evidence: b.evidence.join(", "),
-                })),
-                psychologicalState: {
-                  stress: analysis.psychological.stress,
-                  confidence: analysis.psychological.confidence,
-                  engagement: analysis.psychological.engagement,
-                },
-                keyTopics: [],
-              },
-            });
-
-            // Update the chat message with transcription
-            await db.updateMessage(messageId, {
-              content: result.text,
-              metadata: {
-                audioId,
-                audioUrl: url,
-                duration: input.duration,
-                transcription: result.text,
-                transcriptionStatus: "completed",
-                analysisResult: {
-                  sentiment: analysis.sentiment,
-                  biases: analysis.biases,
-                  cognitivePatterns: analysis.cognitive.patterns,
-                },
-              },
-            });
-
-            // Calculate and update cognitive tokens
-            const ctValue = calculateCognitiveTokens(result.text);
-            await db.incrementProjectCognitiveTokens(input.projectId, ctValue);
-
-            // Check if we need to trigger pings based on CT thresholds
-            const project = await db.getProjectById(input.projectId);
-            if (project) {
-              const totalCT = (project.cognitiveTokens || 0) + ctValue;
-              await checkAndTriggerCTPings(input.projectId, totalCT, analysis);
-            }
-
-          } catch (error) {
-            console.error("Auto-transcription error:", error);
-            await db.updateAudioRecording(audioId, { transcriptionStatus: "failed" });
-          }
-        })();
+        // Transcription and analysis run in the job queue: they survive a
+        // restart and transient failures are retried
+        await enqueueJob(
+          "audio_transcription",
+          { audioId, teamId: ctx.access.teamId, messageId, mimeType: input.mimeType },
+          { idempotencyKey: `audio_transcription:${audioId}` }
+        );
 
         return { id: audioId, url, messageId };
       }),
 
-    transcribe: protectedProcedure
-      .input(z.object({ audioId: z.number() }))
-      .mutation(async ({ input }) => {
+    // Re-run a transcription through the recording's job: after a failure, or
+    // explicitly (rerun) once completed, since it counts tokens and pings again
+    transcribe: teamProcedure("audio", "audioId")
+      .input(z.object({ audioId: z.number(), rerun: z.boolean().default(false) }))
+      .mutation(async ({ ctx, input }) => {
         const audio = await db.getAudioRecordingById(input.audioId);
         if (!audio) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Audio not found" });
         }
+        if (audio.transcriptionStatus === "pending" || audio.transcriptionStatus === "processing") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Transcription already queued or in progress" });
+        }
+        if (audio.transcriptionStatus === "completed" && !input.rerun) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Transcription already completed" });
+        }
 
-        await db.updateAudioRecording(input.audioId, {
-          transcriptionStatus: "processing",
-        });
-
-        try {
-          const result = await transcribeAudio({
-            audioUrl: audio.fileUrl,
-            language: "fr",
+        const audioMessage = await db.getMessageByAudioId(input.audioId);
+        await db.updateAudioRecording(input.audioId, { transcriptionStatus: "pending" });
+        if (audioMessage) {
+          await db.updateMessage(audioMessage.id, {
+            metadata: { ...(audioMessage.metadata || {}), transcriptionStatus: "pending" },
           });
+        }
 
-          // Check if transcription failed
-          if ('error' in result) {
-            throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: result.error,
-            });
-          }
+        // Same key as the upload: returns the recording's existing job, restarted below
+        const jobId = await enqueueJob(
+          "audio_transcription",
+          {
+            audioId: input.audioId,
+            teamId: ctx.access.teamId,
+            messageId: audioMessage?.id,
+            mimeType: audio.mimeType ?? undefined,
+          },
+          { idempotencyKey: `audio_transcription:${input.audioId}` }
+        );
+        await db.retryJob(jobId, ["dead", "completed"]);
+        return { jobId };
+      }),
 
-          // Analyze the transcription
-          const analysis = await analyzeWithLLM(result.text);
-
-          await db.updateAudioRecording(input.audioId, {
-            transcription: result.text,
-            transcriptionStatus: "completed",
-            analysis: {
-              sentiment: analysis.sentiment,
-              emotions: analysis.sentiment.emotions.map((e) => ({
-                emotion: e.emotion,
-                confidence: e.intensity,
-              })),
-              cognitivePatterns: analysis.cognitive.patterns,
-              biasIndicators: analysis.biases.map((b) => ({
-                type: b.type,
-                confidence: b.confidence,
-                evidence: b.evidence.join(", "),
-              })),
-              psychologicalState: {
-                stress: analysis.psychological.stress,
-                confidence: analysis.psychological.confidence,
-                engagement: analysis.psychological.engagement,
-              },
-              keyTopics: [],
-            },
-          });
+    list: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ input }) => {
+        return db.getAudioRecordingsByProjectId(input.projectId);
+      }),
 
-          // Create cognitive event if biases detected
-          if (analysis.biases.length > 0) {
-            const project = await db.getProjectById(audio.projectId);
-            await db.createCognitiveEvent({
-              projectId: audio.projectId,
-              type: "bias_detected",
-              severity: analysis.biases.some((b) => b.severity === "high")
-                ? "critical"
-                : "warning",
-              title: `Biais détecté dans enregistrement vocal`,
-              description: `${analysis.biases.length} biais cognitif(s) détecté(s) dans la transcription`,
-              data: { biases: analysis.biases, audioId: input.audioId },
-            });
-          }
+    get: teamProcedure("audio", "id")
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const audio = await db.getAudioRecordingById(input.id);
+        if (!audio) return audio;
 
-          // Trigger smart pings if needed
-          if (analysis.triggeredPings.length > 0) {
-            for (const ping of analysis.triggeredPings) {
-              await db.createMessage({
-                projectId: audio.projectId,
-                content: ping.message,
-                type: "smart_ping",
-                metadata: { pingType: ping.type, severity: ping.severity },
-              });
-            }
-          }
+        const segments = await db.getAudioSegmentsByAudioId(input.id);
+        const teamMembers = await db.getTeamMembers(ctx.access.teamId);
+        return {
+          ...audio,
+          segments,
+          speakers: attributeSpeakers(segments, audio.speakerMapping, teamMembers.map(m => m.user)),
+          // Recordings diarized before rhythm analysis existed are analyzed on the fly
+          speechRhythm: audio.speechRhythm ?? (segments.length > 0 ? analyzeSpeechRhythm(segments) : null),
+        };
+      }),
 
-          // Update the chat message with transcription
-          const audioMessage = await db.getMessageByAudioId(input.audioId);
-          if (audioMessage) {
-            await db.updateMessage(audioMessage.id, {
-              content: result.text,
-              metadata: {
-                ...(audioMessage.metadata || {}),
-                transcription: result.text,
-                transcriptionStatus: "completed",
-                analysisResult: {
-                  sentiment: analysis.sentiment,
-                  biases: analysis.biases,
-                  cognitivePatterns: analysis.cognitive.patterns,
-                },
-              },
-            });
+    // Associate diarization speakers (speaker_1...) with team members
+    mapSpeakers: teamProcedure("audio", "audioId")
+      .input(
+        z.object({
+          audioId: z.number(),
+          mapping: z.record(z.string(), z.number().nullable()),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const teamMembers = await db.getTeamMembers(ctx.access.teamId);
+        const memberIds = new Set(teamMembers.map(m => m.user.id));
+
+        const speakerMapping: Record<string, number> = {};
+        for (const [speakerId, userId] of Object.entries(input.mapping)) {
+          if (userId === null) continue;
+          if (!memberIds.has(userId)) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Speaker must be mapped to a team member" });
           }
+          speakerMapping[speakerId] = userId;
+        }
 
-          return {
-            transcription: result.text,
-            language: result.language,
-            duration: result.duration,
-            analysis,
-          };
-        } catch (error) {
-          await db.updateAudioRecording(input.audioId, {
-            transcriptionStatus: "failed",
-          });
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Transcription failed",
-          });
+        await db.updateAudioRecording(input.audioId, { speakerMapping });
+
+        // Named participation makes the meeting series analysable; the mapping
+        // is saved either way, so a failed check is only logged
+        const audio = await db.getAudioRecordingById(input.audioId);
+        if (audio) {
+          try {
+            await checkSeriesDominance(audio.projectId, ctx.access.teamId);
+          } catch (error) {
+            console.error("[Audio] Series dominance check failed:", audio.projectId, error);
+          }
         }
+
+        return { success: true };
       }),
 
-    list: protectedProcedure
+    // Spoken participation (time, CT, biases) per team member
+    participation: teamProcedure("project", "projectId")
       .input(z.object({ projectId: z.number() }))
-      .query(async ({ input }) => {
-        return db.getAudioRecordingsByProjectId(input.projectId);
+      .query(async ({ ctx, input }) => {
+        return getMemberParticipation(input.projectId, ctx.access.teamId);
       }),
 
-    get: protectedProcedure
-      .input(z.object({ id: z.number() }))
+    // Talk-time distribution per recording across the team's projects
+    talkTimeHistory: teamProcedure("team", "teamId")
+      .input(z.object({ teamId: z.number() }))
       .query(async ({ input }) => {
-        return db.getAudioRecordingById(input.id);
+        return getTalkTimeHistory(input.teamId);
       }),
   }),
 
   // ==================== REAL-TIME ANALYSIS ROUTES ====================
   realtime: router({
-    analyzeText: protectedProcedure
+    analyzeText: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
@@ -1416,9 +2288,13 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
           useLLM: z.boolean().default(false),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const analysis = input.useLLM
-          ? await analyzeWithLLM(input.text)
+          ? await analyzeWithLLM(input.text, undefined, {
+              teamId: ctx.access.teamId,
+              projectId: input.projectId,
+              userId: ctx.user.id,
+            })
           : analyzeQuick(input.text);
 
         // Store analysis results
@@ -1478,13 +2354,19 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
 
         // Create smart pings in chat
         if (analysis.triggeredPings.length > 0) {
+          const project = await db.getProjectById(input.projectId);
+          const policy = project ? await loadPingPolicy(project) : { template: null };
           for (const ping of analysis.triggeredPings) {
-            await db.createMessage({
-              projectId: input.projectId,
-              content: ping.message,
-              type: "smart_ping",
-              metadata: { pingType: ping.type, severity: ping.severity },
-            });
+            await dispatchPing(
+              {
+                projectId: input.projectId,
+                pingType: ping.type,
+                content: ping.message,
+                severity: ping.severity,
+                notification: createPingNotification(ping.type, ping.message, ping.severity),
+              },
+              policy
+            );
           }
 
           // Create cognitive events for critical pings
@@ -1513,7 +2395,7 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
         return analysis;
       }),
 
-    getHistory: protectedProcedure
+    getHistory: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
@@ -1539,14 +2421,14 @@ Réponds UNIQUEMENT avec le JSON, sans texte supplémentaire.`;
         return analysis;
       }),
 
-    getStrategicRecommendations: protectedProcedure
+    getStrategicRecommendations: teamProcedure("project", "projectId")
       .input(
         z.object({
           projectId: z.number(),
           question: z.string().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const project = await db.getProjectById(input.projectId);
         const decisions = await db.getDecisionsByProjectId(input.projectId);
         const messagesData = await db.getMessagesByProjectId(input.projectId, 30);
@@ -1570,6 +2452,8 @@ ${JSON.stringify(project?.cognitiveHealth, null, 2)}
 
         try {
           const response = await invokeLLM({
+            useCase: "insights",
+            context: { teamId: ctx.access.teamId, projectId: input.projectId, userId: ctx.user.id },
             messages: [
               {
                 role: "system",
@@ -1590,8 +2474,9 @@ ${JSON.stringify(project?.cognitiveHealth, null, 2)}
           return { recommendations };
         } catch (error) {
           return {
-            recommendations:
-              "Service d'analyse temporairement indisponible. Veuillez réessayer.",
+            recommendations: error instanceof LLMBudgetExceededError
+              ? "Le budget LLM mensuel de l'équipe est atteint : les recommandations reprendront le mois prochain."
+              : "Service d'analyse temporairement indisponible. Veuillez réessayer.",
           };
         }
       }),
@@ -1652,7 +2537,7 @@ ${JSON.stringify(project?.cognitiveHealth, null, 2)}
     extractFromCV: protectedProcedure
       .input(z.object({ cvText: z.string().min(50) }))
       .mutation(async ({ ctx, input }) => {
-        const result = await extractFromCVText(input.cvText);
+        const result = await extractFromCVText(input.cvText, ctx.user.id);
         if (result.success && result.profile) {
           await db.updateUserProfessionalProfile(ctx.user.id, result.profile);
         }
@@ -1745,6 +2630,69 @@ ${JSON.stringify(project?.cognitiveHealth, null, 2)}
       };
     }),
   }),
+
+  // ==================== LLM USAGE ROUTES ====================
+  llmUsage: router({
+    // Current month's consumption, for the team owner
+    summary: teamProcedure("team", "teamId", "owner")
+      .input(z.object({ teamId: z.number() }))
+      .query(async ({ input }) => {
+        const status = await getTeamBudgetStatus(input.teamId);
+        const breakdown = await db.getTeamLLMUsageBreakdown(input.teamId, status.periodStart);
+        return { ...status, ...breakdown };
+      }),
+
+    // null removes the limit
+    setBudget: teamProcedure("team", "teamId", "owner")
+      .input(
+        z.object({
+          teamId: z.number(),
+          monthlyTokenBudget: z.number().int().min(0).nullable(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        await db.updateTeam(input.teamId, { llmMonthlyTokenBudget: input.monthlyTokenBudget });
+        return getTeamBudgetStatus(input.teamId);
+      }),
+
+    // Degraded mode: once the budget is exceeded, analyses run locally only
+    status: teamProcedure("project", "projectId")
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ ctx }) => {
+        const status = await getTeamBudgetStatus(ctx.access.teamId);
+        return { degraded: status.exceeded, periodStart: status.periodStart };
+      }),
+  }),
+
+  // ==================== BACKGROUND JOB ROUTES (ADMIN) ====================
+  jobs: router({
+    list: adminProcedure
+      .input(
+        z.object({
+          status: z.enum(["pending", "running", "completed", "dead"]).optional(),
+          type: z.enum(["audio_transcription", "message_analysis", "memory_embedding", "metrics_recompute", "document_extraction", "decision_vote_close"]).optional(),
+          limit: z.number().min(1).max(500).default(100),
+        })
+      )
+      .query(async ({ input }) => {
+        const [jobs, counts] = await Promise.all([db.listJobs(input), db.countJobsByStatus()]);
+        return {
+          jobs,
+          counts: Object.fromEntries(counts.map((c) => [c.status, Number(c.count)])) as Partial<Record<Job["status"], number>>,
+        };
+      }),
+
+    // Give a dead-lettered job a fresh set of attempts
+    retry: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const retried = await db.retryJob(input.id);
+        if (!retried) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Only dead-lettered jobs can be retried" });
+        }
+        return { success: true };
+      }),
+  }),
 });
 
 // Helper function to calculate overall profile completeness
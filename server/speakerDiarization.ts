@@ -4,7 +4,9 @@
  * Uses voice characteristics analysis to distinguish participants
  */
 
-import { invokeLLM } from "./_core/llm";
+import { z } from "zod";
+import type { LLMCallContext } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
 
 // ==================== TYPES ====================
 
@@ -72,11 +74,20 @@ export interface DominanceAnalysis {
  */
 export async function identifySpeakers(
   transcription: string,
-  expectedSpeakers?: number
+  expectedSpeakers?: number,
+  context?: LLMCallContext
 ): Promise<DiarizationResult> {
   // Parse transcription to identify speaker changes
-  const segments = await parseTranscriptionForSpeakers(transcription);
+  const segments = await parseTranscriptionForSpeakers(transcription, context);
   
+  return buildDiarizationResult(segments);
+}
+
+/**
+ * Build speaker profiles, conversation metrics and dominance analysis
+ * from speaker-labelled segments
+ */
+export function buildDiarizationResult(segments: SpeakerSegment[]): DiarizationResult {
   // Build speaker profiles
   const speakers = buildSpeakerProfiles(segments);
   
@@ -95,23 +106,157 @@ export async function identifySpeakers(
   };
 }
 
+// ==================== TIMESTAMP-AWARE DIARIZATION ====================
+
+/** Timestamped transcription segment (e.g. a WhisperSegment) */
+export interface TimedSegment {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+/** Maximum number of segments sent to the LLM in one request */
+const MAX_LABELED_SEGMENTS = 400;
+
+const SPEAKER_PREFIX = /^\s*(?:speaker|intervenant|participant)\s*(\d+)\s*[:\-]/i;
+
+// Expected LLM outputs, also sent to the model as its response format
+const speakerAssignmentsSchema = z.object({
+  assignments: z.array(z.object({
+    index: z.number().int(),
+    speakerId: z.string(),
+    confidence: z.number(),
+  })),
+});
+
+const speakerSegmentsSchema = z.object({
+  segments: z.array(z.object({
+    speakerId: z.string(),
+    speakerLabel: z.string(),
+    text: z.string(),
+    estimatedDuration: z.number(),
+    confidence: z.number(),
+    pitch: z.enum(["low", "medium", "high"]),
+    pace: z.enum(["slow", "normal", "fast"]),
+    energy: z.enum(["calm", "moderate", "energetic"]),
+  })),
+});
+
+/**
+ * Assign a speaker to each timestamped segment. The LLM only decides who
+ * speaks; start/end times come from the transcription itself.
+ */
+export async function diarizeTimedSegments(
+  timedSegments: TimedSegment[],
+  expectedSpeakers?: number,
+  context?: LLMCallContext
+): Promise<DiarizationResult> {
+  const spoken = timedSegments.filter(s => s.text.trim().length > 0);
+  const labels = await labelSegmentSpeakers(spoken, expectedSpeakers, context);
+
+  const segments: SpeakerSegment[] = spoken.map((segment, i) => ({
+    speakerId: labels[i].speakerId,
+    speakerLabel: labels[i].speakerId.replace("speaker_", "Intervenant "),
+    startTime: segment.start,
+    endTime: segment.end,
+    duration: Math.max(0, segment.end - segment.start),
+    text: segment.text.trim(),
+    confidence: labels[i].confidence,
+  }));
+
+  return buildDiarizationResult(segments);
+}
+
+async function labelSegmentSpeakers(
+  segments: TimedSegment[],
+  expectedSpeakers?: number,
+  context?: LLMCallContext
+): Promise<Array<{ speakerId: string; confidence: number }>> {
+  if (segments.length === 0) return [];
+
+  const labeled = segments.slice(0, MAX_LABELED_SEGMENTS);
+  const assignments = new Map<number, { speakerId: string; confidence: number }>();
+
+  const result = await invokeStructuredLLM({
+    useCase: "diarization",
+    context,
+    messages: [
+      {
+        role: "system",
+        content: `Tu es un expert en diarisation de conversations. Chaque ligne est un segment horodaté d'une transcription audio : "[index] (début-fin s) texte".
+Attribue chaque segment à un intervenant (speaker_1, speaker_2, ...) en t'appuyant sur les changements de tour, les questions/réponses, les pauses et le contenu.${expectedSpeakers ? `\nLa réunion compte au plus ${expectedSpeakers} participants.` : ""}
+Retourne un JSON {"assignments": [{"index", "speakerId", "confidence"}]}.`
+      },
+      {
+        role: "user",
+        content: labeled
+          .map((s, i) => `[${i}] (${s.start.toFixed(1)}-${s.end.toFixed(1)}s) ${s.text.trim().substring(0, 200)}`)
+          .join("\n")
+      }
+    ],
+    schemaName: "speaker_assignments",
+    schema: speakerAssignmentsSchema,
+  });
+
+  if (result.ok) {
+    for (const assignment of result.data.assignments) {
+      if (/^speaker_\d+$/.test(assignment.speakerId)) {
+        assignments.set(assignment.index, {
+          speakerId: assignment.speakerId,
+          confidence: Math.min(1, Math.max(0, assignment.confidence)),
+        });
+      }
+    }
+  } else {
+    console.error("[SpeakerDiarization] Segment labelling failed, using fallback:", result.error);
+  }
+
+  return labelSegmentsFallback(segments, assignments);
+}
+
+/**
+ * Fill segments the LLM did not label: explicit "Speaker N:" prefixes,
+ * otherwise the previous speaker keeps the floor.
+ */
+export function labelSegmentsFallback(
+  segments: TimedSegment[],
+  assignments: Map<number, { speakerId: string; confidence: number }> = new Map()
+): Array<{ speakerId: string; confidence: number }> {
+  let previous = "speaker_1";
+  return segments.map((segment, i) => {
+    const assigned = assignments.get(i);
+    if (assigned) {
+      previous = assigned.speakerId;
+      return assigned;
+    }
+    const prefix = segment.text.match(SPEAKER_PREFIX);
+    if (prefix) {
+      previous = `speaker_${prefix[1]}`;
+      return { speakerId: previous, confidence: 0.6 };
+    }
+    return { speakerId: previous, confidence: 0.3 };
+  });
+}
+
 /**
  * Parse transcription text to identify speaker segments
  * Looks for patterns like "Speaker 1:", "[Person A]", timestamps, etc.
  */
 async function parseTranscriptionForSpeakers(
-  transcription: string
+  transcription: string,
+  context?: LLMCallContext
 ): Promise<SpeakerSegment[]> {
   const segments: SpeakerSegment[] = [];
   
-  // Try to use LLM for intelligent speaker identification
-  try {
-    const llmResult = await invokeLLM({
-      messages: [
-        {
-          role: "system",
-          content: `Tu es un expert en analyse de conversations. Analyse le texte suivant et identifie les différents intervenants.
-          
+  // Use LLM for intelligent speaker identification
+  const result = await invokeStructuredLLM({
+    useCase: "diarization",
+    context,
+    messages: [
+      {
+        role: "system",
+        content: `Tu es un expert en analyse de conversations. Analyse le texte suivant et identifie les différents intervenants.
+        
 Pour chaque segment de parole, retourne un JSON avec:
 - speakerId: identifiant unique (speaker_1, speaker_2, etc.)
 - speakerLabel: label descriptif si détectable (ex: "Modérateur", "Expert technique")
@@ -121,77 +266,42 @@ Pour chaque segment de parole, retourne un JSON avec:
 - voiceCharacteristics: { pitch, pace, energy } basé sur le style d'écriture
 
 Retourne un tableau JSON de segments.`
-        },
-        {
-          role: "user",
-          content: transcription.substring(0, 4000) // Limit for API
-        }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "speaker_segments",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              segments: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    speakerId: { type: "string" },
-                    speakerLabel: { type: "string" },
-                    text: { type: "string" },
-                    estimatedDuration: { type: "number" },
-                    confidence: { type: "number" },
-                    pitch: { type: "string", enum: ["low", "medium", "high"] },
-                    pace: { type: "string", enum: ["slow", "normal", "fast"] },
-                    energy: { type: "string", enum: ["calm", "moderate", "energetic"] }
-                  },
-                  required: ["speakerId", "speakerLabel", "text", "estimatedDuration", "confidence", "pitch", "pace", "energy"],
-                  additionalProperties: false
-                }
-              }
-            },
-            required: ["segments"],
-            additionalProperties: false
-          }
-        }
+      },
+      {
+        role: "user",
+        content: transcription.substring(0, 4000) // Limit for API
       }
-    });
+    ],
+    schemaName: "speaker_segments",
+    schema: speakerSegmentsSchema,
+  });
 
-    const content = llmResult.choices[0].message.content;
-    const contentStr = typeof content === 'string' ? content : JSON.stringify(content);
-    const parsed = JSON.parse(contentStr || "{}");
-    let currentTime = 0;
-    
-    if (parsed.segments && Array.isArray(parsed.segments)) {
-      for (const seg of parsed.segments) {
-        const duration = seg.estimatedDuration || estimateDuration(seg.text);
-        segments.push({
-          speakerId: seg.speakerId || "unknown",
-          speakerLabel: seg.speakerLabel || "Intervenant",
-          startTime: currentTime,
-          endTime: currentTime + duration,
-          duration,
-          text: seg.text,
-          confidence: seg.confidence || 0.7,
-          voiceCharacteristics: {
-            pitch: seg.pitch || "medium",
-            pace: seg.pace || "normal",
-            energy: seg.energy || "moderate",
-            dominance: 0 // Will be calculated later
-          }
-        });
-        currentTime += duration;
-      }
-    }
-  } catch (error) {
-    console.error("[SpeakerDiarization] LLM analysis failed, using fallback:", error);
+  if (!result.ok) {
+    console.error("[SpeakerDiarization] LLM analysis failed, using fallback:", result.error);
     // Fallback: simple pattern-based parsing
     return parseTranscriptionFallback(transcription);
   }
+
+  let currentTime = 0;
+  for (const seg of result.data.segments) {
+    const duration = seg.estimatedDuration || estimateDuration(seg.text);
+    segments.push({
+      speakerId: seg.speakerId || "unknown",
+      speakerLabel: seg.speakerLabel || "Intervenant",
+      startTime: currentTime,
+      endTime: currentTime + duration,
+      duration,
+      text: seg.text,
+      confidence: seg.confidence || 0.7,
+      voiceCharacteristics: {
+        pitch: seg.pitch,
+        pace: seg.pace,
+        energy: seg.energy,
+        dominance: 0 // Will be calculated later
+      }
+    });
+    currentTime += duration;
+  }
   
   return segments.length > 0 ? segments : parseTranscriptionFallback(transcription);
 }
@@ -450,6 +560,21 @@ function calculateConversationMetrics(segments: SpeakerSegment[]): ConversationM
 
 // ==================== DOMINANCE ANALYSIS ====================
 
+/** A participant is silent below this fraction of the ideal (equal) share */
+export const SILENT_SHARE_RATIO = 0.1;
+
+/**
+ * Balance score from speaking percentages (0-100): 1 when everyone speaks
+ * equally, 0 when the mean deviation from the equal share reaches that share
+ */
+export function calculateBalanceScore(percentages: number[]): number {
+  if (percentages.length === 0) return 1;
+  const idealShare = 100 / percentages.length;
+  const deviations = percentages.map(p => Math.abs(p - idealShare));
+  const avgDeviation = deviations.reduce((a, b) => a + b, 0) / percentages.length;
+  return Math.max(0, 1 - (avgDeviation / idealShare));
+}
+
 function analyzeDominance(
   speakers: SpeakerProfile[],
   metrics: ConversationMetrics
@@ -472,12 +597,10 @@ function analyzeDominance(
   
   // Calculate balance score (Gini coefficient inverse)
   const idealShare = 100 / speakers.length;
-  const deviations = speakers.map(s => Math.abs(s.speakingPercentage - idealShare));
-  const avgDeviation = deviations.reduce((a, b) => a + b, 0) / speakers.length;
-  const balanceScore = Math.max(0, 1 - (avgDeviation / idealShare));
+  const balanceScore = calculateBalanceScore(speakers.map(s => s.speakingPercentage));
   
   // Identify silent participants (< 10% of ideal share)
-  const silentThreshold = idealShare * 0.1;
+  const silentThreshold = idealShare * SILENT_SHARE_RATIO;
   const silentParticipants = speakers
     .filter(s => s.speakingPercentage < silentThreshold)
     .map(s => s.label);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSpeechRhythm, distributePauses } from "./speechRhythm";
+
+function seg(speakerId: string, startTime: number, endTime: number, text: string) {
+  return { speakerId, startTime, endTime, text };
+}
+
+describe("speech rhythm", () => {
+  const meeting = [
+    seg("speaker_1", 0, 6, "Je propose de lancer la migration dès la semaine prochaine."),
+    seg("speaker_1", 7.5, 12, "Le budget est déjà validé par la direction."),
+    seg("speaker_2", 13, 18, "D'accord mais il faut vérifier les dépendances."),
+    // Prise de parole avant la fin du tour précédent : chevauchement + interruption
+    seg("speaker_1", 17.5, 20, "Oui les dépendances sont"),
+    seg("speaker_2", 20.1, 24, "et les tests de charge ne sont pas prêts"),
+  ];
+
+  it("calcule le débit et les tours de parole par intervenant", () => {
+    const rhythm = analyzeSpeechRhythm(meeting);
+    const speaker1 = rhythm.speakers.find(s => s.speakerId === "speaker_1")!;
+
+    expect(rhythm.turnCount).toBe(4);
+    expect(rhythm.totalDuration).toBe(24);
+    expect(speaker1.turnCount).toBe(2);
+    expect(speaker1.longestTurn).toBe(12);
+    expect(speaker1.wordCount).toBe(22);
+    expect(speaker1.wordsPerMinute).toBeCloseTo((22 / 13) * 60, 1);
+  });
+
+  it("répartit les pauses à l'intérieur des tours", () => {
+    const rhythm = analyzeSpeechRhythm(meeting);
+    const speaker1 = rhythm.speakers.find(s => s.speakerId === "speaker_1")!;
+
+    expect(speaker1.pauses).toEqual({ short: 0, medium: 1, long: 0, total: 1, averageDuration: 1.5 });
+    expect(distributePauses([0.1, 0.5, 2, 4])).toMatchObject({ short: 1, medium: 1, long: 1, total: 3 });
+  });
+
+  it("détecte interruptions, chevauchements et latence de réponse", () => {
+    const rhythm = analyzeSpeechRhythm(meeting);
+    const speaker1 = rhythm.speakers.find(s => s.speakerId === "speaker_1")!;
+    const speaker2 = rhythm.speakers.find(s => s.speakerId === "speaker_2")!;
+
+    expect(speaker1).toMatchObject({ overlaps: 1, interruptionsMade: 1, interruptionsReceived: 1 });
+    expect(speaker2).toMatchObject({ overlaps: 0, interruptionsMade: 1, interruptionsReceived: 1 });
+    expect(speaker2.averageResponseLatency).toBeCloseTo(0.55);
+    expect(rhythm.interruptions).toBe(2);
+    expect(rhythm.overlaps).toBe(1);
+  });
+
+  it("ne compte pas d'interruption après une phrase terminée", () => {
+    const rhythm = analyzeSpeechRhythm([
+      seg("speaker_1", 0, 3, "On part sur cette option ?"),
+      seg("speaker_2", 3.05, 5, "Oui, allons-y."),
+    ]);
+
+    expect(rhythm.interruptions).toBe(0);
+  });
+
+  it("retourne une analyse vide sans segment", () => {
+    expect(analyzeSpeechRhythm([])).toMatchObject({
+      totalDuration: 0,
+      wordsPerMinute: 0,
+      turnCount: 0,
+      averageResponseLatency: null,
+      speakers: [],
+    });
+  });
+});
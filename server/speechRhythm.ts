@@ -0,0 +1,232 @@
+/**
+ * Speech Rhythm - Analyse du rythme de parole des réunions enregistrées
+ *
+ * À partir des segments diarisés (horodatages Whisper), calcule pour chaque
+ * intervenant : débit (mots par minute), distribution des pauses, longueur
+ * des tours de parole, interruptions / chevauchements et latence de réponse.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RhythmSegment {
+  speakerId: string;
+  startTime: number; // secondes
+  endTime: number; // secondes
+  text: string;
+}
+
+export interface PauseDistribution {
+  short: number; // < 1s
+  medium: number; // 1-3s
+  long: number; // >= 3s
+  total: number;
+  averageDuration: number; // secondes
+}
+
+export interface SpeakerRhythm {
+  speakerId: string;
+  wordCount: number;
+  speakingTime: number; // secondes
+  wordsPerMinute: number;
+  turnCount: number;
+  averageTurnLength: number; // secondes
+  longestTurn: number; // secondes
+  /** Pauses à l'intérieur des tours de parole de l'intervenant */
+  pauses: PauseDistribution;
+  interruptionsMade: number;
+  interruptionsReceived: number;
+  /** Prises de parole commencées avant la fin du tour précédent */
+  overlaps: number;
+  /** Délai moyen avant de prendre la parole après un autre intervenant */
+  averageResponseLatency: number | null; // secondes
+}
+
+export interface SpeechRhythmAnalysis {
+  totalDuration: number; // secondes
+  wordsPerMinute: number;
+  turnCount: number;
+  averageTurnLength: number; // secondes
+  pauses: PauseDistribution;
+  interruptions: number;
+  overlaps: number;
+  averageResponseLatency: number | null; // secondes
+  speakers: SpeakerRhythm[];
+}
+
+interface Turn {
+  speakerId: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+// ============================================================================
+// SEUILS
+// ============================================================================
+
+/** En dessous, un blanc entre deux segments n'est pas une pause */
+const MIN_PAUSE_SECONDS = 0.2;
+const MEDIUM_PAUSE_SECONDS = 1;
+const LONG_PAUSE_SECONDS = 3;
+
+/**
+ * Une prise de parole qui chevauche le tour précédent, ou qui commence moins
+ * de 0,2s après un tour sans ponctuation finale, est une interruption
+ */
+const INTERRUPTION_GAP_SECONDS = 0.2;
+const SENTENCE_END = /[.!?…]["»)\s]*$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function distributePauses(gaps: number[]): PauseDistribution {
+  const pauses = gaps.filter(gap => gap >= MIN_PAUSE_SECONDS);
+  return {
+    short: pauses.filter(p => p < MEDIUM_PAUSE_SECONDS).length,
+    medium: pauses.filter(p => p >= MEDIUM_PAUSE_SECONDS && p < LONG_PAUSE_SECONDS).length,
+    long: pauses.filter(p => p >= LONG_PAUSE_SECONDS).length,
+    total: pauses.length,
+    averageDuration: round(average(pauses) ?? 0),
+  };
+}
+
+/**
+ * Regroupe les segments consécutifs d'un même intervenant en tours de parole.
+ * Les blancs à l'intérieur d'un tour sont renvoyés comme pauses.
+ */
+function buildTurns(segments: RhythmSegment[]): { turns: Turn[]; pauses: Map<string, number[]> } {
+  const turns: Turn[] = [];
+  const pauses = new Map<string, number[]>();
+
+  for (const segment of segments) {
+    const current = turns[turns.length - 1];
+    if (current && current.speakerId === segment.speakerId) {
+      const speakerPauses = pauses.get(segment.speakerId) ?? [];
+      speakerPauses.push(segment.startTime - current.endTime);
+      pauses.set(segment.speakerId, speakerPauses);
+
+      current.endTime = Math.max(current.endTime, segment.endTime);
+      current.text = `${current.text} ${segment.text}`.trim();
+    } else {
+      turns.push({ ...segment, text: segment.text.trim() });
+    }
+  }
+
+  return { turns, pauses };
+}
+
+// ============================================================================
+// ANALYSE
+// ============================================================================
+
+/**
+ * Analyse le rythme de parole d'un enregistrement diarisé
+ */
+export function analyzeSpeechRhythm(segments: RhythmSegment[]): SpeechRhythmAnalysis {
+  const ordered = [...segments].sort((a, b) => a.startTime - b.startTime);
+  const { turns, pauses } = buildTurns(ordered);
+
+  const stats = new Map<string, {
+    wordCount: number;
+    speakingTime: number;
+    turnLengths: number[];
+    interruptionsMade: number;
+    interruptionsReceived: number;
+    overlaps: number;
+    latencies: number[];
+  }>();
+  const statsFor = (speakerId: string) => {
+    let entry = stats.get(speakerId);
+    if (!entry) {
+      entry = {
+        wordCount: 0,
+        speakingTime: 0,
+        turnLengths: [],
+        interruptionsMade: 0,
+        interruptionsReceived: 0,
+        overlaps: 0,
+        latencies: [],
+      };
+      stats.set(speakerId, entry);
+    }
+    return entry;
+  };
+
+  for (const segment of ordered) {
+    const entry = statsFor(segment.speakerId);
+    entry.wordCount += countWords(segment.text);
+    entry.speakingTime += Math.max(0, segment.endTime - segment.startTime);
+  }
+
+  turns.forEach((turn, i) => {
+    const entry = statsFor(turn.speakerId);
+    entry.turnLengths.push(Math.max(0, turn.endTime - turn.startTime));
+
+    const previous = turns[i - 1];
+    if (!previous) return;
+
+    const gap = turn.startTime - previous.endTime;
+    entry.latencies.push(Math.max(0, gap));
+    if (gap < 0) entry.overlaps++;
+    if (gap < 0 || (gap < INTERRUPTION_GAP_SECONDS && !SENTENCE_END.test(previous.text))) {
+      entry.interruptionsMade++;
+      statsFor(previous.speakerId).interruptionsReceived++;
+    }
+  });
+
+  const speakers: SpeakerRhythm[] = Array.from(stats.entries())
+    .map(([speakerId, entry]) => {
+      const latency = average(entry.latencies);
+      return {
+        speakerId,
+        wordCount: entry.wordCount,
+        speakingTime: round(entry.speakingTime),
+        wordsPerMinute: entry.speakingTime > 0 ? round((entry.wordCount / entry.speakingTime) * 60, 1) : 0,
+        turnCount: entry.turnLengths.length,
+        averageTurnLength: round(average(entry.turnLengths) ?? 0),
+        longestTurn: round(Math.max(0, ...entry.turnLengths)),
+        pauses: distributePauses(pauses.get(speakerId) ?? []),
+        interruptionsMade: entry.interruptionsMade,
+        interruptionsReceived: entry.interruptionsReceived,
+        overlaps: entry.overlaps,
+        averageResponseLatency: latency === null ? null : round(latency),
+      };
+    })
+    .sort((a, b) => b.speakingTime - a.speakingTime);
+
+  const totalWords = speakers.reduce((sum, s) => sum + s.wordCount, 0);
+  const totalSpeakingTime = Array.from(stats.values()).reduce((sum, s) => sum + s.speakingTime, 0);
+  const allLatencies = Array.from(stats.values()).flatMap(s => s.latencies);
+  const overallLatency = average(allLatencies);
+
+  return {
+    totalDuration: ordered.length > 0
+      ? round(Math.max(...ordered.map(s => s.endTime)) - ordered[0].startTime)
+      : 0,
+    wordsPerMinute: totalSpeakingTime > 0 ? round((totalWords / totalSpeakingTime) * 60, 1) : 0,
+    turnCount: turns.length,
+    averageTurnLength: round(average(turns.map(t => t.endTime - t.startTime)) ?? 0),
+    pauses: distributePauses(Array.from(pauses.values()).flat()),
+    interruptions: speakers.reduce((sum, s) => sum + s.interruptionsMade, 0),
+    overlaps: speakers.reduce((sum, s) => sum + s.overlaps, 0),
+    averageResponseLatency: overallLatency === null ? null : round(overallLatency),
+    speakers,
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { LLMProvider, LLMRequest } from "./_core/llm";
+
+const { invokeStructuredLLM, parseStructuredOutput, toResponseFormat } = await import("./_core/structuredLLM");
+const { createLocalLLMProvider } = await import("./_core/localLLM");
+
+const summarySchema = z.object({
+  summary: z.string(),
+  relevanceScore: z.number().min(0).max(1),
+});
+
+const messages = [{ role: "user" as const, content: "Résume cette discussion" }];
+
+// Provider renvoyant les réponses données, dans l'ordre
+function scriptedProvider(...answers: Array<string | Error>) {
+  const invoke = vi.fn(async (request: LLMRequest) => {
+    const answer = answers.shift();
+    if (answer instanceof Error) throw answer;
+    return {
+      id: "test",
+      created: 0,
+      model: request.model,
+      choices: [{ index: 0, message: { role: "assistant" as const, content: answer ?? "" }, finish_reason: "stop" }],
+    };
+  });
+  return { provider: { name: "test", invoke } satisfies LLMProvider, invoke };
+}
+
+describe("structured llm", () => {
+  it("dérive le format de réponse du schéma zod", () => {
+    const format = toResponseFormat("summary_response", summarySchema);
+
+    expect(format.type).toBe("json_schema");
+    if (format.type !== "json_schema") return;
+    expect(format.json_schema).toMatchObject({
+      name: "summary_response",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          summary: { type: "string" },
+          relevanceScore: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["summary", "relevanceScore"],
+        additionalProperties: false,
+      },
+    });
+    expect(format.json_schema.schema).not.toHaveProperty("$schema");
+  });
+
+  it("renvoie les données typées d'une réponse valide", async () => {
+    const { provider, invoke } = scriptedProvider('```json\n{"summary": "Accord sur le budget", "relevanceScore": 0.8}\n```');
+
+    const result = await invokeStructuredLLM({ useCase: "summary", messages, schema: summarySchema, schemaName: "summary_response" }, provider);
+
+    expect(result).toEqual({ ok: true, data: { summary: "Accord sur le budget", relevanceScore: 0.8 }, repaired: false });
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(invoke.mock.calls[0][0].response_format).toEqual(toResponseFormat("summary_response", summarySchema));
+  });
+
+  it("répare une réponse hors schéma en renvoyant les erreurs au modèle", async () => {
+    const invalid = '{"summary": "Accord", "relevanceScore": 4}';
+    const { provider, invoke } = scriptedProvider(invalid, '{"summary": "Accord", "relevanceScore": 0.4}');
+
+    const result = await invokeStructuredLLM({ messages, schema: summarySchema, schemaName: "summary_response" }, provider);
+
+    expect(result).toEqual({ ok: true, data: { summary: "Accord", relevanceScore: 0.4 }, repaired: true });
+    const repairMessages = invoke.mock.calls[1][0].messages;
+    expect(repairMessages).toHaveLength(3);
+    expect(repairMessages[1]).toEqual({ role: "assistant", content: invalid });
+    expect(repairMessages[2].content).toContain("relevanceScore");
+  });
+
+  it("renvoie une erreur typée si la réparation échoue", async () => {
+    const { provider, invoke } = scriptedProvider('{"summary": 3}', '{"summary": "ok"}');
+
+    const result = await invokeStructuredLLM({ messages, schema: summarySchema, schemaName: "summary_response" }, provider);
+
+    expect(invoke).toHaveBeenCalledTimes(2);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe("SCHEMA_MISMATCH");
+    expect(result.error.issues).toEqual([expect.stringContaining("relevanceScore")]);
+  });
+
+  it("signale un JSON invalide ou une réponse vide", () => {
+    expect(parseStructuredOutput(summarySchema, "Voici le résumé : ...")).toMatchObject({
+      ok: false,
+      error: { code: "INVALID_JSON" },
+    });
+    expect(parseStructuredOutput(summarySchema, "  ")).toMatchObject({
+      ok: false,
+      error: { code: "EMPTY_RESPONSE" },
+    });
+  });
+
+  it("ne tente pas de réparation si le LLM est injoignable", async () => {
+    const { provider, invoke } = scriptedProvider(new Error("LLM invoke timed out after 1000ms"));
+
+    const result = await invokeStructuredLLM({ messages, schema: summarySchema, schemaName: "summary_response" }, provider);
+
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      ok: false,
+      error: { code: "LLM_UNAVAILABLE", message: "LLM invoke timed out after 1000ms", issues: [] },
+    });
+  });
+
+  it("valide les fixtures du fournisseur local", async () => {
+    const result = await invokeStructuredLLM(
+      { messages, schema: summarySchema, schemaName: "summary_response" },
+      createLocalLLMProvider()
+    );
+
+    expect(result).toEqual({ ok: true, data: { summary: "", relevanceScore: 0.5 }, repaired: false });
+  });
+});
@@ -0,0 +1,336 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NOT_TEAM_MEMBER_ERR_MSG, TEAM_ROLE_ERR_MSG } from "../shared/const";
+import type { AudioRecording, Decision } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
+
+// Une équipe (10) avec un projet (100) et une ressource de chaque type
+const TEAM_ID = 10;
+const PROJECT_ID = 100;
+const MEMBER_ID = 1;
+const OUTSIDER_ID = 2;
+const OWNER_ID = 3;
+const ADMIN_ID = 4;
+const OTHER_ADMIN_ID = 5;
+
+const memberships: Record<number, "owner" | "admin" | "member"> = {
+  [MEMBER_ID]: "member",
+  [OWNER_ID]: "owner",
+  [ADMIN_ID]: "admin",
+  [OTHER_ADMIN_ID]: "admin",
+};
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  const inProject = (id: number, expected: number) =>
+    id === expected ? { id, projectId: PROJECT_ID } : undefined;
+  return {
+    ...actual,
+    getTeamById: vi.fn(async (id: number) =>
+      id === TEAM_ID ? { id, name: "Team", ownerId: OWNER_ID } : undefined
+    ),
+    getProjectById: vi.fn(async (id: number) =>
+      id === PROJECT_ID ? { id, teamId: TEAM_ID, name: "Projet" } : undefined
+    ),
+    getDecisionById: vi.fn(async (id: number) => inProject(id, 200)),
+    getTaskById: vi.fn(async (id: number) => inProject(id, 300)),
+    getDocumentById: vi.fn(async (id: number) => inProject(id, 400)),
+    getAudioRecordingById: vi.fn(async (id: number) => inProject(id, 500)),
+    getAlertById: vi.fn(async (id: number) => inProject(id, 600)),
+    getCognitiveEventById: vi.fn(async (id: number) => inProject(id, 700)),
+    getTeamInvitationById: vi.fn(async (id: number) =>
+      id === 800 ? { id, teamId: TEAM_ID } : undefined
+    ),
+    getTeamMembership: vi.fn(async (teamId: number, userId: number) =>
+      teamId === TEAM_ID && memberships[userId]
+        ? { teamId, userId, role: memberships[userId] }
+        : undefined
+    ),
+    getTeamIdsByUserId: vi.fn(async (userId: number) =>
+      memberships[userId] ? [TEAM_ID] : []
+    ),
+    getVisibleCognitiveMemories: vi.fn(async () => []),
+    addTeamMember: vi.fn(async () => undefined),
+    getMessageByAudioId: vi.fn(async () => undefined),
+    updateAudioRecording: vi.fn(async () => undefined),
+    createJob: vi.fn(async () => 900),
+    retryJob: vi.fn(async () => true),
+    getTeamMembers: vi.fn(async () =>
+      Object.keys(memberships).map(id => ({ user: { id: Number(id) } }))
+    ),
+    createTask: vi.fn(async () => 301),
+    updateTask: vi.fn(async () => undefined),
+    removeTeamMember: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock("./vocalDominance", async importOriginal => ({
+  ...(await importOriginal<typeof import("./vocalDominance")>()),
+  checkSeriesDominance: vi.fn(async () => null),
+}));
+
+const { appRouter } = await import("./routers");
+const db = await import("./db");
+const { checkSeriesDominance } = await import("./vocalDominance");
+
+function createCaller(userId: number) {
+  const ctx: TrpcContext = {
+    user: {
+      id: userId,
+      openId: `user-${userId}`,
+      email: `user${userId}@example.com`,
+      name: `User ${userId}`,
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+  return appRouter.createCaller(ctx);
+}
+
+type Caller = ReturnType<typeof createCaller>;
+
+// Une procédure par routeur, appelée sur une ressource de l'équipe 10
+const PROJECT_SCOPED_CALLS: Array<[string, (caller: Caller) => Promise<unknown>]> = [
+  ["team.getMembers", c => c.team.getMembers({ teamId: TEAM_ID })],
+  ["project.get", c => c.project.get({ id: PROJECT_ID })],
+  ["project.list", c => c.project.list({ teamId: TEAM_ID })],
+  ["decision.list", c => c.decision.list({ projectId: PROJECT_ID })],
+  ["decision.get", c => c.decision.get({ id: 200 })],
+  ["chat.getMessages", c => c.chat.getMessages({ projectId: PROJECT_ID })],
+  ["cognitiveEvent.list", c => c.cognitiveEvent.list({ projectId: PROJECT_ID })],
+  ["cognitiveEvent.acknowledge", c => c.cognitiveEvent.acknowledge({ eventId: 700 })],
+  ["task.list", c => c.task.list({ projectId: PROJECT_ID })],
+  ["task.delete", c => c.task.delete({ id: 300 })],
+  ["document.get", c => c.document.get({ id: 400 })],
+  ["metrics.getHistory", c => c.metrics.getHistory({ projectId: PROJECT_ID })],
+  ["alert.listByProject", c => c.alert.listByProject({ projectId: PROJECT_ID })],
+  ["alert.markAsRead", c => c.alert.markAsRead({ alertId: 600 })],
+  ["audio.get", c => c.audio.get({ id: 500 })],
+  ["realtime.getHistory", c => c.realtime.getHistory({ projectId: PROJECT_ID })],
+  ["memory.searchWithAI", c => c.memory.searchWithAI({ query: "pivot", projectId: PROJECT_ID })],
+];
+
+describe("teamAccess", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("non-members", () => {
+    it.each(PROJECT_SCOPED_CALLS)("rejects %s", async (_name, call) => {
+      await expect(call(createCaller(OUTSIDER_ID))).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        message: NOT_TEAM_MEMBER_ERR_MSG,
+      });
+    });
+
+    it("rejects AI recommendations on another team's project", async () => {
+      await expect(
+        createCaller(OUTSIDER_ID).ai.getStrategicRecommendations({ projectId: PROJECT_ID })
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    });
+
+    it("rejects memories attached to another team's project", async () => {
+      await expect(
+        createCaller(OUTSIDER_ID).memory.create({
+          projectId: PROJECT_ID,
+          type: "strategy",
+          title: "Mémoire",
+          content: "Contenu",
+        })
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    });
+
+    it("only searches global memories", async () => {
+      await createCaller(OUTSIDER_ID).memory.search({ query: "pivot" });
+      expect(db.getVisibleCognitiveMemories).toHaveBeenCalledWith([], expect.any(Number), 0);
+    });
+  });
+
+  describe("members", () => {
+    it.each(PROJECT_SCOPED_CALLS)("allows %s", async (_name, call) => {
+      await expect(call(createCaller(MEMBER_ID))).resolves.not.toThrow();
+    });
+
+    it("searches memories of their teams", async () => {
+      await createCaller(MEMBER_ID).memory.search({ query: "pivot" });
+      expect(db.getVisibleCognitiveMemories).toHaveBeenCalledWith([TEAM_ID], expect.any(Number), 0);
+    });
+  });
+
+  describe("roles", () => {
+    it("requires an admin to invite", async () => {
+      await expect(
+        createCaller(MEMBER_ID).team.createInvitation({ teamId: TEAM_ID })
+      ).rejects.toMatchObject({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+    });
+
+    it("requires an admin to delete an invitation", async () => {
+      await expect(
+        createCaller(MEMBER_ID).team.deleteInvitation({ id: 800 })
+      ).rejects.toMatchObject({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+    });
+
+    it("requires an admin to apply a team-wide template", async () => {
+      await expect(
+        createCaller(MEMBER_ID).template.select({ teamId: TEAM_ID, templateId: "startup" })
+      ).rejects.toMatchObject({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+      await expect(
+        createCaller(MEMBER_ID).template.select({ projectId: PROJECT_ID, templateId: "startup" })
+      ).resolves.toMatchObject({ id: "startup" });
+    });
+
+    it("requires an admin to delete a project", async () => {
+      await expect(
+        createCaller(MEMBER_ID).project.delete({ id: PROJECT_ID })
+      ).rejects.toMatchObject({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+    });
+
+    it("only lets the owner delete the team", async () => {
+      await expect(
+        createCaller(MEMBER_ID).team.delete({ id: TEAM_ID })
+      ).rejects.toMatchObject({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+      await expect(
+        createCaller(OWNER_ID).team.delete({ id: TEAM_ID })
+      ).resolves.toEqual({ success: true });
+    });
+  });
+
+  describe("membership", () => {
+    it("only lets the owner grant ownership", async () => {
+      await expect(
+        createCaller(ADMIN_ID).team.addMember({ teamId: TEAM_ID, userId: 9, role: "owner" })
+      ).rejects.toMatchObject({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+      await expect(
+        createCaller(ADMIN_ID).team.addMember({ teamId: TEAM_ID, userId: 9, role: "admin" })
+      ).resolves.toEqual({ success: true });
+      await expect(
+        createCaller(OWNER_ID).team.addMember({ teamId: TEAM_ID, userId: 9, role: "owner" })
+      ).resolves.toEqual({ success: true });
+    });
+
+    it("never removes the owner", async () => {
+      await expect(
+        createCaller(ADMIN_ID).team.removeMember({ teamId: TEAM_ID, userId: OWNER_ID })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(
+        createCaller(OWNER_ID).team.removeMember({ teamId: TEAM_ID, userId: OWNER_ID })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      expect(db.removeTeamMember).not.toHaveBeenCalled();
+    });
+
+    it("only lets the owner remove an admin", async () => {
+      await expect(
+        createCaller(ADMIN_ID).team.removeMember({ teamId: TEAM_ID, userId: OTHER_ADMIN_ID })
+      ).rejects.toMatchObject({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+      await expect(
+        createCaller(ADMIN_ID).team.removeMember({ teamId: TEAM_ID, userId: MEMBER_ID })
+      ).resolves.toEqual({ success: true });
+      await expect(
+        createCaller(OWNER_ID).team.removeMember({ teamId: TEAM_ID, userId: OTHER_ADMIN_ID })
+      ).resolves.toEqual({ success: true });
+      expect(db.removeTeamMember).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("audio transcription", () => {
+    function recording(transcriptionStatus: "pending" | "processing" | "completed" | "failed") {
+      const audio = { id: 500, projectId: PROJECT_ID, mimeType: "audio/webm", transcriptionStatus };
+      // Une fois pour le contrôle d'accès, une fois pour la procédure
+      vi.mocked(db.getAudioRecordingById)
+        .mockResolvedValueOnce(audio as AudioRecording)
+        .mockResolvedValueOnce(audio as AudioRecording);
+    }
+
+    it("refuses a recording that is queued or already transcribed", async () => {
+      for (const status of ["pending", "processing", "completed"] as const) {
+        recording(status);
+        await expect(
+          createCaller(MEMBER_ID).audio.transcribe({ audioId: 500 })
+        ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      }
+      expect(db.createJob).not.toHaveBeenCalled();
+    });
+
+    it("restarts the recording's own job with its MIME type", async () => {
+      recording("failed");
+      await expect(createCaller(MEMBER_ID).audio.transcribe({ audioId: 500 })).resolves.toEqual({ jobId: 900 });
+
+      recording("completed");
+      await createCaller(MEMBER_ID).audio.transcribe({ audioId: 500, rerun: true });
+
+      expect(db.createJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "audio_transcription",
+          payload: expect.objectContaining({ audioId: 500, mimeType: "audio/webm" }),
+          idempotencyKey: "audio_transcription:500",
+        })
+      );
+      expect(db.retryJob).toHaveBeenCalledTimes(2);
+      expect(db.retryJob).toHaveBeenCalledWith(900, ["dead", "completed"]);
+    });
+  });
+
+  describe("speaker mapping", () => {
+    it("checks the meeting series before answering, without failing on its errors", async () => {
+      let checked = false;
+      vi.mocked(checkSeriesDominance).mockImplementationOnce(async () => {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        checked = true;
+        return null;
+      });
+      const caller = createCaller(MEMBER_ID);
+      await caller.audio.mapSpeakers({ audioId: 500, mapping: { SPEAKER_00: ADMIN_ID } });
+      expect(db.updateAudioRecording).toHaveBeenCalledWith(500, { speakerMapping: { SPEAKER_00: ADMIN_ID } });
+      expect(checkSeriesDominance).toHaveBeenCalledWith(PROJECT_ID, TEAM_ID);
+      expect(checked).toBe(true);
+
+      vi.mocked(checkSeriesDominance).mockRejectedValueOnce(new Error("db down"));
+      vi.spyOn(console, "error").mockImplementationOnce(() => undefined);
+      await expect(
+        caller.audio.mapSpeakers({ audioId: 500, mapping: { SPEAKER_00: null } })
+      ).resolves.toEqual({ success: true });
+    });
+  });
+
+  describe("tasks", () => {
+    it("only assigns tasks to team members", async () => {
+      const caller = createCaller(MEMBER_ID);
+      await expect(
+        caller.task.create({ projectId: PROJECT_ID, title: "Relancer", assigneeId: OUTSIDER_ID })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(
+        caller.task.update({ id: 300, assigneeId: OUTSIDER_ID })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      expect(db.createTask).not.toHaveBeenCalled();
+      expect(db.updateTask).not.toHaveBeenCalled();
+
+      await expect(
+        caller.task.create({ projectId: PROJECT_ID, title: "Relancer", assigneeId: ADMIN_ID })
+      ).resolves.toEqual({ id: 301 });
+      await caller.task.update({ id: 300, assigneeId: ADMIN_ID });
+      expect(db.updateTask).toHaveBeenCalledWith(300, { assigneeId: ADMIN_ID });
+    });
+
+    it("rejects a related decision from another project", async () => {
+      vi.mocked(db.getDecisionById).mockResolvedValueOnce({ id: 201, projectId: 101 } as Decision);
+      await expect(
+        createCaller(MEMBER_ID).task.create({ projectId: PROJECT_ID, title: "Relancer", relatedDecisionId: 201 })
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+      await createCaller(MEMBER_ID).task.create({ projectId: PROJECT_ID, title: "Relancer", relatedDecisionId: 200 });
+      expect(db.createTask).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("unknown resources", () => {
+    it("returns NOT_FOUND instead of leaking access", async () => {
+      await expect(
+        createCaller(MEMBER_ID).decision.transition({ id: 999, status: "decided" })
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+  });
+});
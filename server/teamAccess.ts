@@ -0,0 +1,133 @@
+/**
+ * Contrôle d'accès par équipe
+ *
+ * Chaque ressource (projet, décision, hypothèse, tâche, document, audio...)
+ * appartient à une équipe via son projet. Ce module résout l'équipe d'une
+ * ressource et vérifie que l'appelant en est membre avec un rôle suffisant.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { NOT_TEAM_MEMBER_ERR_MSG, TEAM_ROLE_ERR_MSG } from "@shared/const";
+import { protectedProcedure } from "./_core/trpc";
+import * as db from "./db";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TeamRole = "owner" | "admin" | "member";
+
+export type AccessResource =
+  | "team"
+  | "project"
+  | "decision"
+  | "task"
+  | "document"
+  | "audio"
+  | "alert"
+  | "event"
+  | "hypothesis"
+  | "invitation";
+
+export interface TeamAccess {
+  teamId: number;
+  /** Projet de la ressource (absent pour une ressource d'équipe) */
+  projectId?: number;
+  role: TeamRole;
+}
+
+interface ResourceScope {
+  teamId: number;
+  projectId?: number;
+}
+
+/** Rang de chaque rôle : un rôle supérieur hérite des droits inférieurs */
+export const TEAM_ROLE_RANK: Record<TeamRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+export function hasTeamRole(role: TeamRole, minRole: TeamRole): boolean {
+  return TEAM_ROLE_RANK[role] >= TEAM_ROLE_RANK[minRole];
+}
+
+// ============================================================================
+// RÉSOLUTION RESSOURCE -> ÉQUIPE
+// ============================================================================
+
+async function projectScope(projectId: number | undefined): Promise<ResourceScope | undefined> {
+  if (projectId === undefined) return undefined;
+  const project = await db.getProjectById(projectId);
+  return project ? { teamId: project.teamId, projectId: project.id } : undefined;
+}
+
+const RESOURCE_RESOLVERS: Record<AccessResource, (id: number) => Promise<ResourceScope | undefined>> = {
+  team: async id => ((await db.getTeamById(id)) ? { teamId: id } : undefined),
+  project: id => projectScope(id),
+  decision: async id => projectScope((await db.getDecisionById(id))?.projectId),
+  task: async id => projectScope((await db.getTaskById(id))?.projectId),
+  document: async id => projectScope((await db.getDocumentById(id))?.projectId),
+  audio: async id => projectScope((await db.getAudioRecordingById(id))?.projectId),
+  alert: async id => projectScope((await db.getAlertById(id))?.projectId),
+  event: async id => projectScope((await db.getCognitiveEventById(id))?.projectId),
+  hypothesis: async id => projectScope((await db.getHypothesisById(id))?.projectId),
+  invitation: async id => {
+    const invitation = await db.getTeamInvitationById(id);
+    return invitation ? { teamId: invitation.teamId } : undefined;
+  },
+};
+
+/**
+ * Vérifie que l'utilisateur a accès à une ressource avec le rôle requis.
+ * Lève NOT_FOUND si la ressource n'existe pas, FORBIDDEN sinon.
+ */
+export async function assertTeamAccess(
+  userId: number,
+  resource: AccessResource,
+  id: number,
+  minRole: TeamRole = "member"
+): Promise<TeamAccess> {
+  const scope = await RESOURCE_RESOLVERS[resource](id);
+  if (!scope) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `${resource} ${id} not found` });
+  }
+
+  const membership = await db.getTeamMembership(scope.teamId, userId);
+  if (!membership) {
+    throw new TRPCError({ code: "FORBIDDEN", message: NOT_TEAM_MEMBER_ERR_MSG });
+  }
+  if (!hasTeamRole(membership.role, minRole)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: TEAM_ROLE_ERR_MSG });
+  }
+
+  return { ...scope, role: membership.role };
+}
+
+// ============================================================================
+// PROCÉDURES tRPC
+// ============================================================================
+
+/**
+ * Procédure protégée par l'appartenance à l'équipe propriétaire de la ressource.
+ *
+ * `field` désigne le champ de l'input qui porte l'identifiant de la ressource
+ * (ex: `teamProcedure("decision", "id")`). L'accès résolu est exposé dans
+ * `ctx.access`.
+ */
+export function teamProcedure(
+  resource: AccessResource,
+  field: string,
+  minRole: TeamRole = "member"
+) {
+  return protectedProcedure.use(async ({ ctx, getRawInput, next }) => {
+    const rawInput = await getRawInput();
+    const id = (rawInput as Record<string, unknown> | undefined)?.[field];
+    if (typeof id !== "number") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Missing ${field}` });
+    }
+
+    const access = await assertTeamAccess(ctx.user.id, resource, id, minRole);
+    return next({ ctx: { ...ctx, access } });
+  });
+}
@@ -8,7 +8,9 @@
  * - Les erreurs et apprentissages
  */
 
-import { invokeLLM } from "./_core/llm";
+import { z } from "zod";
+import type { LLMCallContext } from "./_core/llm";
+import { invokeStructuredLLM } from "./_core/structuredLLM";
 
 // ============================================================================
 // TYPES
@@ -72,15 +74,21 @@ const STOP_WORDS = new Set([
 ]);
 
 /**
- * Extrait les mots-clés d'un texte
+ * Normalise et découpe un texte en mots significatifs (sans mots vides)
  */
-export function extractKeywords(text: string, maxKeywords: number = 10): string[] {
-  // Normaliser et tokeniser
-  const words = text
+export function tokenize(text: string): string[] {
+  return text
     .toLowerCase()
     .replace(/[^\w\sàâäéèêëïîôùûüç-]/g, " ")
     .split(/\s+/)
     .filter(w => w.length > 2 && !STOP_WORDS.has(w));
+}
+
+/**
+ * Extrait les mots-clés d'un texte
+ */
+export function extractKeywords(text: string, maxKeywords: number = 10): string[] {
+  const words = tokenize(text);
 
   // Compter les occurrences
   const wordCounts = new Map<string, number>();
@@ -112,10 +120,16 @@ export function keywordSimilarity(keywords1: string[], keywords2: string[]): num
 // GÉNÉRATION DE RÉSUMÉ ET EMBEDDING SIMPLIFIÉ
 // ============================================================================
 
+// Sortie attendue du LLM, transmise aussi comme format de réponse
+const summarySchema = z.object({
+  summary: z.string(),
+  relevanceScore: z.number().min(0).max(1),
+});
+
 /**
  * Génère un résumé et des mots-clés pour un contenu
  */
-export async function summarizeContent(content: string): Promise<{
+export async function summarizeContent(content: string, context?: LLMCallContext): Promise<{
   summary: string;
   keywords: string[];
   relevanceScore: number;
@@ -132,46 +146,26 @@ export async function summarizeContent(content: string): Promise<{
     };
   }
 
-  try {
-    const response = await invokeLLM({
-      messages: [
-        {
-          role: "system",
-          content: `Tu es un assistant qui résume des discussions d'équipe. 
+  const result = await invokeStructuredLLM({
+    useCase: "summary",
+    context,
+    messages: [
+      {
+        role: "system",
+        content: `Tu es un assistant qui résume des discussions d'équipe. 
 Génère un résumé concis (max 100 mots) qui capture:
 - Le sujet principal
 - Les décisions ou conclusions
 - Les points de désaccord importants
 Réponds en JSON: {"summary": "...", "relevanceScore": 0.0-1.0}`
-        },
-        { role: "user", content: `Résume ce contenu:\n\n${content.slice(0, 2000)}` }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "summary_response",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              summary: { type: "string" },
-              relevanceScore: { type: "number" },
-            },
-            required: ["summary", "relevanceScore"],
-            additionalProperties: false,
-          },
-        },
       },
-    });
+      { role: "user", content: `Résume ce contenu:\n\n${content.slice(0, 2000)}` }
+    ],
+    schemaName: "summary_response",
+    schema: summarySchema,
+  });
 
-    const messageContent = response.choices[0]?.message?.content;
-    const result = JSON.parse(typeof messageContent === 'string' ? messageContent : "{}");
-    return {
-      summary: result.summary || content.slice(0, 200),
-      keywords,
-      relevanceScore: result.relevanceScore || 0.5,
-    };
-  } catch {
+  if (!result.ok) {
     // Fallback sans LLM
     return {
       summary: content.slice(0, 200) + (content.length > 200 ? "..." : ""),
@@ -179,6 +173,12 @@ Réponds en JSON: {"summary": "...", "relevanceScore": 0.0-1.0}`
       relevanceScore: 0.5,
     };
   }
+
+  return {
+    summary: result.data.summary || content.slice(0, 200),
+    keywords,
+    relevanceScore: result.data.relevanceScore,
+  };
 }
 
 // ============================================================================
@@ -386,7 +386,10 @@ export async function createDecisionMemory(
   }
 ): Promise<MemoryItem> {
   const content = `${decision.title}\n\n${decision.description}\n\nRaisonnement: ${decision.rationale || "Non spécifié"}`;
-  const { summary, keywords, relevanceScore } = await summarizeContent(content);
+  const { summary, keywords, relevanceScore } = await summarizeContent(content, {
+    projectId: metadata.projectId,
+    teamId: metadata.teamId,
+  });
 
   return {
     id: decision.id,
@@ -423,7 +426,10 @@ export async function createDiscussionMemory(
     .map(m => `${m.author}: ${m.content}`)
     .join("\n");
   
-  const { summary, keywords, relevanceScore } = await summarizeContent(content);
+  const { summary, keywords, relevanceScore } = await summarizeContent(content, {
+    projectId: metadata.projectId,
+    teamId: metadata.teamId,
+  });
 
   return {
     id: discussion.id,
@@ -457,7 +463,10 @@ export async function createLearningMemory(
   }
 ): Promise<MemoryItem> {
   const content = `${learning.title}\n\n${learning.description}\n\nSource: ${learning.source}`;
-  const { summary, keywords, relevanceScore } = await summarizeContent(content);
+  const { summary, keywords, relevanceScore } = await summarizeContent(content, {
+    projectId: metadata.projectId,
+    teamId: metadata.teamId,
+  });
 
   return {
     id: learning.id,
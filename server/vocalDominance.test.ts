@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AudioRecording, AudioSegment, Project, User } from "../drizzle/schema";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getAudioSegmentsByAudioId: vi.fn(async () => []),
+    getAudioSegmentsByProjectId: vi.fn(async () => []),
+    getAudioRecordingsByProjectId: vi.fn(async () => []),
+    getTeamMembers: vi.fn(async () => []),
+    getProjectById: vi.fn(async () => undefined),
+    getProjectsByTeamId: vi.fn(async () => []),
+    createCognitiveEvent: vi.fn(async () => 1),
+  };
+});
+
+vi.mock("./pingDispatcher", () => ({
+  dispatchPing: vi.fn(async () => ({ sent: true, messageId: 1 })),
+  loadPingPolicy: vi.fn(async () => ({ template: null })),
+}));
+
+const db = await import("./db");
+const { dispatchPing } = await import("./pingDispatcher");
+const {
+  analyzeVocalDominance,
+  buildDominanceAlerts,
+  checkVocalDominance,
+  getTalkTimeHistory,
+} = await import("./vocalDominance");
+
+function segment(audioId: number, speakerId: string, startTime: number, endTime: number): AudioSegment {
+  return {
+    id: audioId * 1000 + startTime,
+    audioId,
+    projectId: 3,
+    speakerId,
+    startTime,
+    endTime,
+    text: "texte",
+    confidence: 0.8,
+    cognitiveTokens: 1,
+    biasIndicators: [],
+    createdAt: new Date(),
+  };
+}
+
+function recording(id: number, speakerMapping: Record<string, number> | null, createdAt = new Date()): AudioRecording {
+  return {
+    id,
+    projectId: 3,
+    userId: 10,
+    fileUrl: "",
+    fileKey: "",
+    duration: null,
+    transcription: null,
+    transcriptionStatus: "completed",
+    analysis: null,
+    speakerMapping,
+    speechRhythm: null,
+    createdAt,
+  };
+}
+
+function member(id: number, name: string) {
+  return { member: {} as never, user: { id, name } as User };
+}
+
+describe("vocal dominance", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("identifie l'intervenant dominant et les participants silencieux", () => {
+    const report = analyzeVocalDominance(
+      [
+        { id: "user_10", name: "Alice", speakingTime: 280 },
+        { id: "user_20", name: "Bob", speakingTime: 15 },
+        { id: "user_30", name: "Chloé", speakingTime: 5 },
+      ],
+      "recording"
+    );
+
+    expect(report.dominantSpeaker).toMatchObject({ name: "Alice" });
+    expect(report.dominanceScore).toBeCloseTo(280 / 300);
+    expect(report.balanceScore).toBeLessThan(0.4);
+    expect(report.silentParticipants.map(p => p.name)).toEqual(["Chloé"]);
+  });
+
+  it("ne signale rien pour une participation équilibrée", () => {
+    const report = analyzeVocalDominance(
+      [
+        { id: "speaker_1", name: "Intervenant 1", speakingTime: 100 },
+        { id: "speaker_2", name: "Intervenant 2", speakingTime: 90 },
+      ],
+      "recording"
+    );
+
+    expect(buildDominanceAlerts(report)).toEqual([]);
+  });
+
+  it("produit des Balance / Silence pings avec des statistiques nominatives", () => {
+    const alerts = buildDominanceAlerts(
+      analyzeVocalDominance(
+        [
+          { id: "user_10", name: "Alice", speakingTime: 280 },
+          { id: "user_30", name: "Chloé", speakingTime: 0 },
+        ],
+        "series",
+        4
+      )
+    );
+
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        pingType: "dominance",
+        smartPingType: "balance",
+        severity: "critical",
+        stats: { label: "Temps de parole de Alice", value: "100%" },
+      }),
+      expect.objectContaining({ pingType: "silence", smartPingType: "silence" }),
+    ]);
+    expect(alerts[0].content).toContain("sur les 4 dernières réunions");
+    expect(alerts[1].content).toContain("Chloé (0%)");
+  });
+
+  it("crée un événement et émet les pings d'un enregistrement dominé", async () => {
+    vi.mocked(db.getProjectById).mockResolvedValue({ id: 3, teamId: 1 } as Project);
+    vi.mocked(db.getTeamMembers).mockResolvedValue([member(10, "Alice"), member(20, "Bob")]);
+    vi.mocked(db.getAudioSegmentsByAudioId).mockResolvedValueOnce([
+      segment(7, "speaker_1", 0, 90),
+      segment(7, "speaker_2", 90, 100),
+    ]);
+
+    const { recording: report } = await checkVocalDominance(recording(7, { speaker_1: 10 }), 1);
+
+    expect(report.dominantSpeaker?.name).toBe("Alice");
+    expect(db.createCognitiveEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 3,
+        type: "diversity_alert",
+        data: expect.objectContaining({ audioId: 7, smartPingType: "balance" }),
+      })
+    );
+    expect(dispatchPing).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 3,
+        pingType: "dominance",
+        content: expect.stringContaining("Alice occupe 90%"),
+      }),
+      { template: null }
+    );
+  });
+
+  it("signale en série les membres jamais entendus", async () => {
+    vi.mocked(db.getProjectById).mockResolvedValue({ id: 3, teamId: 1 } as Project);
+    vi.mocked(db.getTeamMembers).mockResolvedValue([member(10, "Alice"), member(20, "Bob"), member(30, "Chloé")]);
+    vi.mocked(db.getAudioSegmentsByAudioId).mockResolvedValueOnce([
+      segment(2, "speaker_1", 0, 50),
+      segment(2, "speaker_2", 50, 100),
+    ]);
+    vi.mocked(db.getAudioRecordingsByProjectId).mockResolvedValueOnce([
+      { audio: recording(2, { speaker_1: 10, speaker_2: 20 }), user: {} as User },
+      { audio: recording(1, { speaker_1: 20, speaker_2: 10 }), user: {} as User },
+    ]);
+    vi.mocked(db.getAudioSegmentsByProjectId).mockResolvedValueOnce([
+      segment(2, "speaker_1", 0, 50),
+      segment(2, "speaker_2", 50, 100),
+      segment(1, "speaker_1", 0, 40),
+      segment(1, "speaker_2", 40, 100),
+    ]);
+
+    const { recording: report, series } = await checkVocalDominance(
+      recording(2, { speaker_1: 10, speaker_2: 20 }),
+      1
+    );
+
+    expect(buildDominanceAlerts(report)).toEqual([]);
+    expect(series?.silentParticipants.map(p => p.name)).toEqual(["Chloé"]);
+    expect(dispatchPing).toHaveBeenCalledWith(
+      expect.objectContaining({ pingType: "silence", content: expect.stringContaining("sur les 2 dernières réunions") }),
+      expect.anything()
+    );
+  });
+
+  it("retrace la distribution du temps de parole de l'équipe", async () => {
+    vi.mocked(db.getTeamMembers).mockResolvedValue([member(10, "Alice")]);
+    vi.mocked(db.getProjectsByTeamId).mockResolvedValueOnce([{ id: 3 } as Project]);
+    vi.mocked(db.getAudioRecordingsByProjectId).mockResolvedValueOnce([
+      { audio: recording(2, { speaker_1: 10 }, new Date("2026-02-01")), user: {} as User },
+      { audio: recording(1, null, new Date("2026-01-01")), user: {} as User },
+    ]);
+    vi.mocked(db.getAudioSegmentsByProjectId).mockResolvedValueOnce([
+      segment(1, "speaker_1", 0, 30),
+      segment(1, "speaker_2", 30, 40),
+      segment(2, "speaker_1", 0, 75),
+      segment(2, "speaker_2", 75, 100),
+    ]);
+
+    const history = await getTalkTimeHistory(1);
+
+    expect(history.participants).toEqual(
+      expect.arrayContaining([
+        { key: "user_10", name: "Alice" },
+        { key: "unassigned", name: "Non associé" },
+      ])
+    );
+    expect(history.points.map(p => p.audioId)).toEqual([1, 2]);
+    expect(history.points[0].shares).toEqual({ unassigned: 100 });
+    expect(history.points[1].shares).toEqual({ user_10: 75, unassigned: 25 });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Vocal Dominance - Détection de dominance vocale dans les réunions
+ *
+ * Chaque enregistrement diarisé, puis la série des dernières réunions d'un
+ * projet, est analysé : un intervenant qui monopolise la parole déclenche un
+ * Balance Ping, des participants silencieux un Silence Ping. Les pings passent
+ * par le dispatcher (template, cooldowns, plafond de session) et chaque
+ * constat crée un événement cognitif.
+ */
+
+import type { AudioRecording } from "../drizzle/schema";
+import { attributeSpeakers, aggregateMemberParticipation, type SpeakerAttribution } from "./audioSpeakers";
+import * as db from "./db";
+import { createPingNotification } from "./notifications";
+import { dispatchPing, loadPingPolicy } from "./pingDispatcher";
+import { calculateBalanceScore, SILENT_SHARE_RATIO } from "./speakerDiarization";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DominanceScope = "recording" | "series";
+
+export interface DominanceParticipant {
+  id: string;
+  name: string;
+  speakingTime: number; // secondes
+}
+
+export interface DominanceShare {
+  id: string;
+  name: string;
+  share: number; // 0-100
+}
+
+export interface VocalDominanceReport {
+  scope: DominanceScope;
+  meetingCount: number;
+  participantCount: number;
+  totalSpeakingTime: number; // secondes
+  dominantSpeaker: DominanceShare | null;
+  dominanceScore: number; // 0-1
+  balanceScore: number; // 0-1 (1 = parfaitement équilibré)
+  silentParticipants: DominanceShare[];
+}
+
+export interface DominanceAlert {
+  /** Clé de ping du template (« dominance » désigne le Balance Ping) */
+  pingType: "dominance" | "silence";
+  smartPingType: "balance" | "silence";
+  severity: "info" | "warning" | "critical";
+  title: string;
+  content: string;
+  stats: { label: string; value: string };
+}
+
+export interface TalkTimePoint {
+  audioId: number;
+  projectId: number;
+  recordedAt: Date;
+  totalSpeakingTime: number; // secondes
+  /** Part du temps de parole (0-100) par participant */
+  shares: Record<string, number>;
+}
+
+export interface TalkTimeHistory {
+  participants: Array<{ key: string; name: string }>;
+  points: TalkTimePoint[];
+}
+
+// ============================================================================
+// SEUILS
+// ============================================================================
+
+/** Part du temps de parole au-delà de laquelle un intervenant domine */
+const DOMINANCE_THRESHOLD = 0.6;
+const CRITICAL_DOMINANCE_THRESHOLD = 0.8;
+
+/** Score d'équilibre en dessous duquel la participation est déséquilibrée */
+const BALANCE_THRESHOLD = 0.4;
+
+/** Nombre de réunions récentes formant une série */
+export const MEETING_SERIES_SIZE = 5;
+
+/** Nombre de points de l'historique du temps de parole */
+const TALK_TIME_HISTORY_LIMIT = 20;
+
+const UNASSIGNED_KEY = "unassigned";
+
+// ============================================================================
+// ANALYSE
+// ============================================================================
+
+function speakerLabel(speakerId: string): string {
+  return speakerId.replace("speaker_", "Intervenant ");
+}
+
+function memberName(name: string | null, userId: number): string {
+  return name || `Membre ${userId}`;
+}
+
+/**
+ * Mesure la dominance vocale d'un ensemble de participants
+ */
+export function analyzeVocalDominance(
+  participants: DominanceParticipant[],
+  scope: DominanceScope,
+  meetingCount = 1
+): VocalDominanceReport {
+  const totalSpeakingTime = participants.reduce((sum, p) => sum + p.speakingTime, 0);
+  const shares: DominanceShare[] = participants
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      share: totalSpeakingTime > 0 ? (p.speakingTime / totalSpeakingTime) * 100 : 0,
+    }))
+    .sort((a, b) => b.share - a.share);
+
+  if (shares.length < 2 || totalSpeakingTime === 0) {
+    return {
+      scope,
+      meetingCount,
+      participantCount: shares.length,
+      totalSpeakingTime,
+      dominantSpeaker: null,
+      dominanceScore: 0,
+      balanceScore: 1,
+      silentParticipants: [],
+    };
+  }
+
+  const silentThreshold = (100 / shares.length) * SILENT_SHARE_RATIO;
+
+  return {
+    scope,
+    meetingCount,
+    participantCount: shares.length,
+    totalSpeakingTime,
+    dominantSpeaker: shares[0],
+    dominanceScore: shares[0].share / 100,
+    balanceScore: calculateBalanceScore(shares.map(s => s.share)),
+    silentParticipants: shares.filter(s => s.share < silentThreshold),
+  };
+}
+
+/**
+ * Participants d'un enregistrement : les intervenants associés à un membre
+ * portent son nom, les autres leur libellé de diarisation
+ */
+export function recordingParticipants(speakers: SpeakerAttribution[]): DominanceParticipant[] {
+  return speakers.map(speaker => ({
+    id: speaker.userId !== null ? `user_${speaker.userId}` : speaker.speakerId,
+    name: speaker.name || speakerLabel(speaker.speakerId),
+    speakingTime: speaker.speakingTime,
+  }));
+}
+
+/**
+ * Traduit un rapport de dominance en alertes Balance / Silence
+ */
+export function buildDominanceAlerts(report: VocalDominanceReport): DominanceAlert[] {
+  const alerts: DominanceAlert[] = [];
+  const where = report.scope === "series"
+    ? `sur les ${report.meetingCount} dernières réunions`
+    : "dans cet enregistrement";
+
+  const dominant = report.dominantSpeaker;
+  if (dominant && (report.dominanceScore > DOMINANCE_THRESHOLD || report.balanceScore < BALANCE_THRESHOLD)) {
+    const share = Math.round(dominant.share);
+    alerts.push({
+      pingType: "dominance",
+      smartPingType: "balance",
+      severity: report.dominanceScore > CRITICAL_DOMINANCE_THRESHOLD ? "critical" : "warning",
+      title: `Dominance vocale : ${dominant.name}`,
+      content:
+        `Balance Ping : ${dominant.name} occupe ${share}% du temps de parole ${where} ` +
+        `(équilibre ${Math.round(report.balanceScore * 100)}%). ` +
+        `Solliciter les autres participants, par exemple avec un tour de table.`,
+      stats: { label: `Temps de parole de ${dominant.name}`, value: `${share}%` },
+    });
+  }
+
+  if (report.silentParticipants.length > 0) {
+    const names = report.silentParticipants
+      .map(p => `${p.name} (${Math.round(p.share)}%)`)
+      .join(", ");
+    alerts.push({
+      pingType: "silence",
+      smartPingType: "silence",
+      severity: "warning",
+      title: `${report.silentParticipants.length} participant(s) silencieux`,
+      content:
+        `Silence Ping : ${names} ${report.silentParticipants.length > 1 ? "se sont" : "s'est"} ` +
+        `peu exprimé(s) ${where}. Expertise potentiellement non exploitée : solliciter leur avis directement.`,
+      stats: { label: "Participants silencieux", value: `${report.silentParticipants.length}` },
+    });
+  }
+
+  return alerts;
+}
+
+// ============================================================================
+// DÉCLENCHEMENT
+// ============================================================================
+
+/**
+ * Crée les événements cognitifs et émet les pings d'un rapport. Les
+ * événements sont créés même si le dispatcher supprime le ping.
+ */
+async function raiseDominanceAlerts(
+  projectId: number,
+  report: VocalDominanceReport,
+  alerts: DominanceAlert[],
+  source: { audioId?: number }
+): Promise<void> {
+  if (alerts.length === 0) return;
+
+  const project = await db.getProjectById(projectId);
+  if (!project) return;
+  const policy = await loadPingPolicy(project);
+
+  for (const alert of alerts) {
+    await db.createCognitiveEvent({
+      projectId,
+      type: "diversity_alert",
+      severity: alert.severity,
+      title: alert.title,
+      description: alert.content,
+      data: { ...source, vocalDominance: report, smartPingType: alert.smartPingType },
+    });
+
+    await dispatchPing(
+      {
+        projectId,
+        pingType: alert.pingType,
+        content: alert.content,
+        severity: alert.severity,
+        metadata: { ...source, stats: alert.stats, dominanceScope: report.scope },
+        notification: createPingNotification(alert.smartPingType, alert.content, alert.severity),
+      },
+      policy
+    );
+  }
+}
+
+/**
+ * Dominance sur la série des dernières réunions du projet. Seuls les
+ * intervenants associés à un membre comptent ; les membres de l'équipe jamais
+ * entendus sont silencieux.
+ */
+export async function analyzeSeriesDominance(
+  projectId: number,
+  teamId: number
+): Promise<VocalDominanceReport | null> {
+  const recordings = (await db.getAudioRecordingsByProjectId(projectId))
+    .filter(({ audio }) => audio.speakerMapping && Object.keys(audio.speakerMapping).length > 0)
+    .slice(0, MEETING_SERIES_SIZE);
+  if (recordings.length < 2) return null;
+
+  const segments = await db.getAudioSegmentsByProjectId(projectId);
+  const users = (await db.getTeamMembers(teamId)).map(m => m.user);
+  const participation = aggregateMemberParticipation(
+    recordings.map(({ audio }) => ({
+      audio,
+      segments: segments.filter(s => s.audioId === audio.id),
+    })),
+    users
+  );
+
+  return analyzeVocalDominance(
+    users.map(user => ({
+      id: `user_${user.id}`,
+      name: memberName(user.name, user.id),
+      speakingTime: participation.find(p => p.userId === user.id)?.speakingTime ?? 0,
+    })),
+    "series",
+    recordings.length
+  );
+}
+
+/**
+ * Vérifie la dominance d'une série de réunions et alerte si besoin
+ */
+export async function checkSeriesDominance(projectId: number, teamId: number): Promise<VocalDominanceReport | null> {
+  const report = await analyzeSeriesDominance(projectId, teamId);
+  if (report) await raiseDominanceAlerts(projectId, report, buildDominanceAlerts(report), {});
+  return report;
+}
+
+/**
+ * Vérifie la dominance d'un enregistrement diarisé, puis celle de la série.
+ * Un type d'alerte déjà levé par l'enregistrement ne l'est pas une seconde
+ * fois par la série.
+ */
+export async function checkVocalDominance(
+  audio: Pick<AudioRecording, "id" | "projectId" | "speakerMapping">,
+  teamId: number
+): Promise<{ recording: VocalDominanceReport; series: VocalDominanceReport | null }> {
+  const segments = await db.getAudioSegmentsByAudioId(audio.id);
+  const users = (await db.getTeamMembers(teamId)).map(m => m.user);
+  const recording = analyzeVocalDominance(
+    recordingParticipants(attributeSpeakers(segments, audio.speakerMapping, users)),
+    "recording"
+  );
+  const recordingAlerts = buildDominanceAlerts(recording);
+  await raiseDominanceAlerts(audio.projectId, recording, recordingAlerts, { audioId: audio.id });
+
+  const series = await analyzeSeriesDominance(audio.projectId, teamId);
+  if (series) {
+    const raised = new Set(recordingAlerts.map(a => a.pingType));
+    await raiseDominanceAlerts(
+      audio.projectId,
+      series,
+      buildDominanceAlerts(series).filter(a => !raised.has(a.pingType)),
+      {}
+    );
+  }
+
+  return { recording, series };
+}
+
+// ============================================================================
+// HISTORIQUE DU TEMPS DE PAROLE
+// ============================================================================
+
+/**
+ * Distribution du temps de parole par enregistrement, sur l'ensemble des
+ * projets d'une équipe. Les intervenants non associés sont regroupés.
+ */
+export async function getTalkTimeHistory(teamId: number): Promise<TalkTimeHistory> {
+  const users = (await db.getTeamMembers(teamId)).map(m => m.user);
+  const projects = await db.getProjectsByTeamId(teamId);
+  const participants = new Map<string, string>();
+  const points: TalkTimePoint[] = [];
+
+  for (const project of projects) {
+    const recordings = await db.getAudioRecordingsByProjectId(project.id);
+    const segments = await db.getAudioSegmentsByProjectId(project.id);
+
+    for (const { audio } of recordings) {
+      const speakers = attributeSpeakers(
+        segments.filter(s => s.audioId === audio.id),
+        audio.speakerMapping,
+        users
+      );
+      const totalSpeakingTime = speakers.reduce((sum, s) => sum + s.speakingTime, 0);
+      if (totalSpeakingTime === 0) continue;
+
+      const shares: Record<string, number> = {};
+      for (const speaker of speakers) {
+        const key = speaker.userId !== null ? `user_${speaker.userId}` : UNASSIGNED_KEY;
+        participants.set(
+          key,
+          speaker.userId !== null ? memberName(speaker.name, speaker.userId) : "Non associé"
+        );
+        shares[key] = (shares[key] ?? 0) + (speaker.speakingTime / totalSpeakingTime) * 100;
+      }
+
+      points.push({
+        audioId: audio.id,
+        projectId: project.id,
+        recordedAt: audio.createdAt,
+        totalSpeakingTime,
+        shares,
+      });
+    }
+  }
+
+  return {
+    participants: Array.from(participants, ([key, name]) => ({ key, name })),
+    points: points
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+      .slice(-TALK_TIME_HISTORY_LIMIT),
+  };
+}
@@ -3,3 +3,5 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+export const NOT_TEAM_MEMBER_ERR_MSG = 'You are not a member of this team (10003)';
+export const TEAM_ROLE_ERR_MSG = 'Your team role does not allow this action (10004)';
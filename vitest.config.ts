@@ -15,5 +15,7 @@ export default defineConfig({
   test: {
     environment: "node",
     include: ["server/**/*.test.ts", "server/**/*.spec.ts"],
+    // Never reach a real LLM from the tests
+    env: { LLM_PROVIDER: "local" },
   },
 });